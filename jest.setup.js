@@ -0,0 +1,3 @@
+// Secrets env.ts refuses to start without
+process.env.JWT_ACCESS_SECRET ||= "test-access-secret";
+process.env.JWT_REFRESH_SECRET ||= "test-refresh-secret";
@@ -2,17 +2,27 @@ import cookieParser from "cookie-parser";
 import cors from "cors";
 import dotenv from "dotenv";
 import express, { Application } from "express";
+import { env } from "./config/env";
 import adminRoutes from "./modules/admin/admin.routes";
 import authRoutes from "./modules/auth/auth.routes";
 import deliveryUserRoutes from "./modules/deliveryUser/delivery.routes";
+import identityRoutes from "./modules/identity/identity.routes";
+import orderRoutes from "./modules/orders/order.routes";
 import organizationRoutes from "./modules/organization/organization.routes";
 import organizationAdminRoutes from "./modules/organizationAdmin/organizationAdmin.routes";
+import geofenceRoutes from "./modules/tracking/geofence.routes";
 import realtimeTrackingRoutes from "./modules/tracking/realtime-tracking.routes";
 import trackingRoutes from "./modules/tracking/tracking.routes";
 dotenv.config();
 
 const app: Application = express();
 
+// Client IPs of sessions come from the proxy when one is configured
+if (env.TRUST_PROXY) {
+  const hops = Number(env.TRUST_PROXY);
+  app.set("trust proxy", Number.isNaN(hops) ? env.TRUST_PROXY : hops);
+}
+
 // Middlewares
 app.use(cors());
 app.use(express.json());
@@ -26,6 +36,9 @@ app.use("/api/organization-admins", organizationAdminRoutes);
 app.use("/api/delivery-users", deliveryUserRoutes);
 app.use("/api/tracking", trackingRoutes);
 app.use("/api/realtime", realtimeTrackingRoutes);
+app.use("/api/geofences", geofenceRoutes);
+app.use("/api/orders", orderRoutes);
+app.use("/api/identities", identityRoutes);
 
 // Health check route
 app.get("/api/v1/health", (_req, res) => {
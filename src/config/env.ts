@@ -25,4 +25,51 @@ export const env = {
     process.env.ACCESS_TOKEN_EXPIRES_MS ?? 15 * 60 * 1000
   ),
   GOOGLE_MAPS_API_KEY: process.env.GOOGLE_MAPS_API_KEY || "",
+  // signs customer tracking links, derived from the access secret if unset
+  TRACKING_LINK_SECRET:
+    process.env.TRACKING_LINK_SECRET ||
+    `${required("JWT_ACCESS_SECRET", process.env.JWT_ACCESS_SECRET)}:tracking`,
+  // realtime presence and room broadcast backend: "memory" or "redis"
+  REALTIME_BACKEND: (process.env.REALTIME_BACKEND === "redis"
+    ? "redis"
+    : "memory") as "memory" | "redis",
+  REDIS_URL: process.env.REDIS_URL || "redis://localhost:6379",
+  // distance provider used for live ETAs: "haversine" or "google"
+  ETA_DISTANCE_PROVIDER: (process.env.ETA_DISTANCE_PROVIDER === "google"
+    ? "google"
+    : "haversine") as "haversine" | "google",
+  // live points are persisted at most every N seconds or M meters per rider
+  LOCATION_WRITE_INTERVAL: Number(process.env.LOCATION_WRITE_INTERVAL ?? 10),
+  LOCATION_WRITE_DISTANCE: Number(process.env.LOCATION_WRITE_DISTANCE ?? 25),
+  // live points are sent to dashboards in batches on this tick (in ms)
+  LOCATION_BROADCAST_TICK: Number(process.env.LOCATION_BROADCAST_TICK ?? 1000),
+  // proxies in front of the app whose forwarded client IP is trusted:
+  // a hop count or a list of addresses, unset trusts none
+  TRUST_PROXY: process.env.TRUST_PROXY,
+  // encrypts stored two-factor secrets, derived from the access secret if unset
+  TWO_FACTOR_SECRET_KEY:
+    process.env.TWO_FACTOR_SECRET_KEY ||
+    `${required("JWT_ACCESS_SECRET", process.env.JWT_ACCESS_SECRET)}:2fa`,
+  // signs login challenges waiting for a two-factor code
+  TWO_FACTOR_CHALLENGE_SECRET:
+    process.env.TWO_FACTOR_CHALLENGE_SECRET ||
+    `${required(
+      "JWT_ACCESS_SECRET",
+      process.env.JWT_ACCESS_SECRET
+    )}:2fa-challenge`,
+  // failed logins allowed per account and per IP address before lockout
+  LOGIN_ACCOUNT_MAX_FAILURES: Number(
+    process.env.LOGIN_ACCOUNT_MAX_FAILURES ?? 5
+  ),
+  LOGIN_IP_MAX_FAILURES: Number(process.env.LOGIN_IP_MAX_FAILURES ?? 20),
+  // first lockout in seconds, doubled by every further failure up to the max
+  LOGIN_LOCKOUT_BASE: Number(process.env.LOGIN_LOCKOUT_BASE ?? 30),
+  LOGIN_LOCKOUT_MAX: Number(process.env.LOGIN_LOCKOUT_MAX ?? 3600),
+  // failures are forgotten after this many quiet seconds
+  LOGIN_FAILURE_WINDOW: Number(process.env.LOGIN_FAILURE_WINDOW ?? 900),
+  // roles that must use two-factor authentication, comma separated
+  TWO_FACTOR_REQUIRED_ROLES: (process.env.TWO_FACTOR_REQUIRED_ROLES ?? "")
+    .split(",")
+    .map((role) => role.trim())
+    .filter((role) => !!role),
 };
@@ -1,7 +1,7 @@
 import { NextFunction, Request, Response } from "express";
 import { UserRole } from "../modules/auth/auth.interface";
 import { AuthUtils, JWTPayload } from "../modules/auth/auth.utils";
-import DeliveryUser from "../modules/deliveryUser/delivery.model";
+import { IdentityService } from "../modules/identity/identity.service";
 
 // Extend Express Request to include user info
 declare global {
@@ -249,26 +249,30 @@ export class AuthMiddleware {
         req.user.role === UserRole.ORGANIZATION_ADMIN &&
         req.user.organizationId
       ) {
-        // Check if the target delivery user belongs to the same organization
+        // Check if the target user belongs to the same organization,
+        // whichever collection their profile lives in
         if (targetUserId) {
           try {
-            const deliveryUser = await DeliveryUser.findById(targetUserId);
-            if (!deliveryUser) {
+            const targetUser = await IdentityService.findProfile(
+              targetUserId,
+              "organizationId"
+            );
+            if (!targetUser) {
               res.status(404).json({
                 success: false,
-                message: "Delivery user not found",
+                message: "User not found",
                 error: "NOT_FOUND",
               });
               return;
             }
 
             if (
-              deliveryUser.organizationId.toString() !== req.user.organizationId
+              targetUser.organizationId?.toString() !== req.user.organizationId
             ) {
               res.status(403).json({
                 success: false,
                 message:
-                  "Access denied. You can only access delivery users from your organization",
+                  "Access denied. You can only access users from your organization",
                 error: "FORBIDDEN",
               });
               return;
@@ -276,7 +280,7 @@ export class AuthMiddleware {
           } catch (error) {
             res.status(500).json({
               success: false,
-              message: "Error checking delivery user access",
+              message: "Error checking user access",
               error: "INTERNAL_ERROR",
             });
             return;
@@ -0,0 +1,159 @@
+import { Types } from "mongoose";
+import { Socket } from "socket.io";
+import { UserRole } from "../modules/auth/auth.interface";
+import { RefreshToken } from "../modules/auth/auth.model";
+import { AuthUtils } from "../modules/auth/auth.utils";
+import {
+  AccountProfile,
+  IdentityService,
+} from "../modules/identity/identity.service";
+import Organization from "../modules/organization/organization.model";
+import { SocketAuthMiddleware } from "./socket-auth.middleware";
+
+const userId = new Types.ObjectId().toString();
+
+const issueAccessToken = (sessionId?: string) =>
+  AuthUtils.generateAccessToken({
+    userId,
+    email: "rider@example.com",
+    role: "delivery_user",
+    sessionId,
+  });
+
+describe("SocketAuthMiddleware.verifyToken", () => {
+  beforeEach(() => {
+    jest
+      .spyOn(IdentityService, "findProfile")
+      .mockResolvedValue({ status: "active" } as AccountProfile);
+  });
+
+  it("carries the session ID of an active session", async () => {
+    const exists = jest
+      .spyOn(RefreshToken, "exists")
+      .mockResolvedValue({ _id: new Types.ObjectId() } as never);
+
+    const user = await SocketAuthMiddleware.verifyToken(
+      issueAccessToken("family-1")
+    );
+
+    expect(exists).toHaveBeenCalledWith({
+      familyId: "family-1",
+      isActive: true,
+    });
+    expect(user).toEqual(
+      expect.objectContaining({ userId, sessionId: "family-1" })
+    );
+    expect(user.expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it("rejects a token of a revoked session", async () => {
+    jest.spyOn(RefreshToken, "exists").mockResolvedValue(null as never);
+
+    await expect(
+      SocketAuthMiddleware.verifyToken(issueAccessToken("family-1"))
+    ).rejects.toThrow("Session has been revoked");
+  });
+
+  it("skips the session check for tokens issued without one", async () => {
+    const exists = jest.spyOn(RefreshToken, "exists");
+
+    const user = await SocketAuthMiddleware.verifyToken(issueAccessToken());
+
+    expect(exists).not.toHaveBeenCalled();
+    expect(user.sessionId).toBeUndefined();
+  });
+
+  it("rejects an inactive account", async () => {
+    jest
+      .spyOn(IdentityService, "findProfile")
+      .mockResolvedValue({ status: "suspended" } as AccountProfile);
+
+    await expect(
+      SocketAuthMiddleware.verifyToken(issueAccessToken("family-1"))
+    ).rejects.toThrow("Account is not active. Please contact administrator");
+  });
+});
+
+describe("SocketAuthMiddleware handshake", () => {
+  // A handshake carrying the given auth payload and headers
+  const mockSocket = (
+    auth: Record<string, string> = {},
+    headers: Record<string, string> = {}
+  ) => ({ handshake: { auth, headers }, data: {} } as unknown as Socket);
+
+  it("refuses a handshake without a token", async () => {
+    const next = jest.fn();
+
+    await SocketAuthMiddleware.authenticate(mockSocket(), next);
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "Access token required",
+        data: { code: "UNAUTHORIZED" },
+      })
+    );
+  });
+
+  it("accepts a bearer token from the headers", async () => {
+    jest
+      .spyOn(IdentityService, "findProfile")
+      .mockResolvedValue({ status: "active" } as AccountProfile);
+    const socket = mockSocket(
+      {},
+      { authorization: `Bearer ${issueAccessToken()}` }
+    );
+    const next = jest.fn();
+
+    await SocketAuthMiddleware.authenticate(socket, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(socket.data.user).toEqual(expect.objectContaining({ userId }));
+  });
+
+  it("refuses a forged token", async () => {
+    const next = jest.fn();
+
+    await SocketAuthMiddleware.authenticate(
+      mockSocket({ token: `${issueAccessToken()}x` }),
+      next
+    );
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "Invalid or expired token" })
+    );
+  });
+
+  it("keeps other roles out of a namespace", () => {
+    const socket = mockSocket();
+    socket.data.user = { userId, role: UserRole.DELIVERY_USER };
+    const next = jest.fn();
+
+    SocketAuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN])(
+      socket,
+      next
+    );
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { code: "FORBIDDEN" } })
+    );
+  });
+
+  it("refuses members of a suspended organization", async () => {
+    jest
+      .spyOn(IdentityService, "findProfile")
+      .mockResolvedValue({ status: "active" } as AccountProfile);
+    jest.spyOn(Organization, "findById").mockReturnValue({
+      select: async () => ({ status: "suspended", isActive: true }),
+    } as never);
+    const token = AuthUtils.generateAccessToken({
+      userId,
+      email: "rider@example.com",
+      role: "delivery_user",
+      organizationId: new Types.ObjectId().toString(),
+    });
+
+    await expect(SocketAuthMiddleware.verifyToken(token)).rejects.toThrow(
+      "Organization is not active"
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import { ExtendedError, Socket } from "socket.io";
+import { UserRole } from "../modules/auth/auth.interface";
+import { RefreshToken } from "../modules/auth/auth.model";
+import { AuthUtils, JWTPayload } from "../modules/auth/auth.utils";
+import { IdentityService } from "../modules/identity/identity.service";
+import { TrackingLinkService } from "../modules/orders/tracking-link.service";
+import Organization from "../modules/organization/organization.model";
+
+// Authenticated socket user, with the access token expiry in ms
+export interface SocketUser extends JWTPayload {
+  expiresAt: number;
+}
+
+type SocketNext = (err?: ExtendedError) => void;
+
+// Build a handshake error the client can tell apart by code
+const socketError = (message: string, code: string): ExtendedError => {
+  const error = new Error(message) as ExtendedError;
+  error.data = { code };
+  return error;
+};
+
+export class SocketAuthMiddleware {
+  // Verify the access token sent in the handshake
+  static authenticate = async (
+    socket: Socket,
+    next: SocketNext
+  ): Promise<void> => {
+    try {
+      const token =
+        socket.handshake.auth?.token ||
+        AuthUtils.extractTokenFromHeader(
+          socket.handshake.headers.authorization
+        );
+
+      if (!token) {
+        next(socketError("Access token required", "UNAUTHORIZED"));
+        return;
+      }
+
+      socket.data.user = await SocketAuthMiddleware.verifyToken(token);
+      next();
+    } catch (error) {
+      next(
+        socketError(
+          error instanceof Error ? error.message : "Authentication failed",
+          "UNAUTHORIZED"
+        )
+      );
+    }
+  };
+
+  // Role-based access to a namespace
+  static requireRole = (allowedRoles: UserRole[]) => {
+    return (socket: Socket, next: SocketNext): void => {
+      const user = socket.data.user as SocketUser | undefined;
+      if (!user) {
+        next(socketError("Authentication required", "UNAUTHORIZED"));
+        return;
+      }
+
+      if (!allowedRoles.includes(user.role as UserRole)) {
+        next(
+          socketError("Access denied. Insufficient permissions", "FORBIDDEN")
+        );
+        return;
+      }
+
+      next();
+    };
+  };
+
+  // Verify the customer tracking link sent in the handshake
+  static authenticateTrackingLink = async (
+    socket: Socket,
+    next: SocketNext
+  ): Promise<void> => {
+    try {
+      const token = socket.handshake.auth?.token;
+      if (!token) {
+        next(socketError("Tracking link required", "UNAUTHORIZED"));
+        return;
+      }
+
+      const result = await TrackingLinkService.getTrackingInfo(token);
+      if (!result.success) {
+        next(socketError(result.message, "FORBIDDEN"));
+        return;
+      }
+
+      socket.data.tracking = result.data;
+      next();
+    } catch (error) {
+      next(socketError("Failed to verify tracking link", "UNAUTHORIZED"));
+    }
+  };
+
+  // Verify an access token and that the account and its organization
+  // are still allowed in
+  static async verifyToken(token: string): Promise<SocketUser> {
+    let decoded: JWTPayload & { exp?: number };
+    try {
+      decoded = AuthUtils.verifyAccessToken(token);
+    } catch (error) {
+      throw new Error("Invalid or expired token");
+    }
+
+    // The identity knows which collection the account's profile lives in
+    const account = await IdentityService.findProfile(decoded.userId, "status");
+    if (!account) {
+      throw new Error("User not found");
+    }
+    if (account.status !== "active") {
+      throw new Error("Account is not active. Please contact administrator");
+    }
+
+    // A revoked session keeps its access token until expiry, but must not
+    // open live connections with it
+    if (decoded.sessionId) {
+      const isSessionActive = await RefreshToken.exists({
+        familyId: decoded.sessionId,
+        isActive: true,
+      });
+      if (!isSessionActive) {
+        throw new Error("Session has been revoked");
+      }
+    }
+
+    if (decoded.organizationId) {
+      const organization = await Organization.findById(
+        decoded.organizationId
+      ).select("status isActive");
+      if (
+        !organization ||
+        organization.status !== "active" ||
+        !organization.isActive
+      ) {
+        throw new Error("Organization is not active");
+      }
+    }
+
+    return {
+      userId: decoded.userId,
+      email: decoded.email,
+      role: decoded.role,
+      organizationId: decoded.organizationId,
+      sessionId: decoded.sessionId,
+      expiresAt: (decoded.exp ?? 0) * 1000,
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { NextFunction, Request, Response } from "express";
 import Joi from "joi";
+import { UserRole } from "../modules/auth/auth.interface";
 
 // Validation schemas
 const authValidationSchemas = {
@@ -18,6 +19,10 @@ const authValidationSchemas = {
       "string.min": "Password is required",
       "any.required": "Password is required",
     }),
+    deviceName: Joi.string().trim().max(100).optional(),
+    role: Joi.string()
+      .valid(...Object.values(UserRole))
+      .optional(),
   }),
 
   forgotPassword: Joi.object({
@@ -88,13 +93,44 @@ const authValidationSchemas = {
       "string.base": "Refresh token must be a string",
     }),
   }),
+
+  twoFactorLogin: Joi.object({
+    challengeToken: Joi.string().required().messages({
+      "any.required": "Login challenge token is required",
+    }),
+    code: Joi.string().trim().max(32).required().messages({
+      "any.required": "Two-factor code is required",
+    }),
+  }),
+
+  twoFactorChallenge: Joi.object({
+    challengeToken: Joi.string().required().messages({
+      "any.required": "Login challenge token is required",
+    }),
+  }),
+
+  twoFactorCode: Joi.object({
+    code: Joi.string().trim().max(32).required().messages({
+      "any.required": "Two-factor code is required",
+    }),
+  }),
+
+  renameSession: Joi.object({
+    name: Joi.string().trim().min(1).max(100).required().messages({
+      "string.max": "Session name cannot exceed 100 characters",
+      "any.required": "Session name is required",
+    }),
+  }),
 };
 
 export class ValidationMiddleware {
   // Generic validation function
-  private static validate = (schema: Joi.ObjectSchema) => {
+  private static validate = (
+    schema: Joi.ObjectSchema,
+    source: "body" | "query" = "body"
+  ) => {
     return (req: Request, res: Response, next: NextFunction): void => {
-      const { error, value } = schema.validate(req.body, {
+      const { error, value } = schema.validate(req[source], {
         abortEarly: false, // Return all validation errors
         stripUnknown: true, // Remove unknown fields
       });
@@ -115,7 +151,10 @@ export class ValidationMiddleware {
       }
 
       // Replace req.body with validated and sanitized data
-      req.body = value;
+      // (req.query is read-only in Express 5, controllers parse it themselves)
+      if (source === "body") {
+        req.body = value;
+      }
       next();
     };
   };
@@ -136,6 +175,18 @@ export class ValidationMiddleware {
   static validateRefreshToken = ValidationMiddleware.validate(
     authValidationSchemas.refreshToken
   );
+  static validateRenameSession = ValidationMiddleware.validate(
+    authValidationSchemas.renameSession
+  );
+  static validateTwoFactorLogin = ValidationMiddleware.validate(
+    authValidationSchemas.twoFactorLogin
+  );
+  static validateTwoFactorChallenge = ValidationMiddleware.validate(
+    authValidationSchemas.twoFactorChallenge
+  );
+  static validateTwoFactorCode = ValidationMiddleware.validate(
+    authValidationSchemas.twoFactorCode
+  );
 
   // Generic validation methods
   static validateBody = (schema: Joi.ObjectSchema) => {
@@ -143,7 +194,7 @@ export class ValidationMiddleware {
   };
 
   static validateQuery = (schema: Joi.ObjectSchema) => {
-    return ValidationMiddleware.validate(schema);
+    return ValidationMiddleware.validate(schema, "query");
   };
 
   // Custom password strength validator
@@ -0,0 +1,154 @@
+import { Types } from "mongoose";
+import { UserRole } from "../auth/auth.interface";
+import { IdentityService } from "../identity/identity.service";
+import User from "../user/user.model";
+import { AdminService } from "./admin.service";
+
+const userId = new Types.ObjectId().toString();
+
+describe("AdminService.updateUser", () => {
+  let changeEmail: jest.SpyInstance;
+  let updateOne: jest.SpyInstance;
+  let revokeSessions: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest
+      .spyOn(User, "findById")
+      .mockResolvedValue({ _id: userId, email: "old@example.com" } as never);
+    jest.spyOn(IdentityService, "isEmailAvailable").mockResolvedValue(true);
+    changeEmail = jest
+      .spyOn(IdentityService, "changeEmail")
+      .mockResolvedValue();
+    updateOne = jest.spyOn(User, "updateOne").mockResolvedValue({} as never);
+    jest.spyOn(IdentityService, "isInScope").mockResolvedValue(true);
+    revokeSessions = jest
+      .spyOn(IdentityService, "revokeSessions")
+      .mockResolvedValue();
+  });
+
+  const mockProfileUpdate = (updatedUser: unknown) =>
+    jest
+      .spyOn(User, "findByIdAndUpdate")
+      .mockReturnValue({ populate: async () => updatedUser } as never);
+
+  it("changes the identity email after the profile accepts it", async () => {
+    const profileUpdate = mockProfileUpdate({ email: "new@example.com" });
+
+    const result = await AdminService.updateUser(userId, {
+      email: "new@example.com",
+    });
+
+    expect(result.success).toBe(true);
+    expect(changeEmail).toHaveBeenCalledWith(userId, "new@example.com");
+    expect(profileUpdate.mock.invocationCallOrder[0]).toBeLessThan(
+      changeEmail.mock.invocationCallOrder[0]
+    );
+    expect(updateOne).not.toHaveBeenCalled();
+    expect(revokeSessions).toHaveBeenCalledWith(userId, "admin_revoked");
+  });
+
+  it("refuses to change a login shared with accounts outside the admin's scope", async () => {
+    const organizationId = new Types.ObjectId().toString();
+    jest.spyOn(User, "findById").mockResolvedValue({
+      _id: userId,
+      email: "old@example.com",
+      organizationId,
+    } as never);
+    const isInScope = jest
+      .spyOn(IdentityService, "isInScope")
+      .mockResolvedValue(false);
+    const profileUpdate = mockProfileUpdate({ email: "new@example.com" });
+
+    const result = await AdminService.updateUser(
+      userId,
+      { email: "new@example.com" },
+      UserRole.ADMIN,
+      organizationId
+    );
+
+    expect(result.success).toBe(false);
+    expect(isInScope).toHaveBeenCalledWith(userId, {
+      roles: [UserRole.ADMIN, UserRole.DELIVERY_USER],
+      organizationId,
+    });
+    expect(profileUpdate).not.toHaveBeenCalled();
+    expect(changeEmail).not.toHaveBeenCalled();
+  });
+
+  it("leaves the identity alone when the profile update fails", async () => {
+    jest.spyOn(User, "findByIdAndUpdate").mockReturnValue({
+      populate: () => Promise.reject(new Error("Validation failed")),
+    } as never);
+
+    await expect(
+      AdminService.updateUser(userId, { email: "new@example.com" })
+    ).rejects.toThrow("Validation failed");
+    expect(changeEmail).not.toHaveBeenCalled();
+  });
+
+  it("restores the profile email when the identity refuses it", async () => {
+    mockProfileUpdate({ email: "new@example.com" });
+    changeEmail.mockRejectedValue(new Error("Email is already in use"));
+
+    await expect(
+      AdminService.updateUser(userId, { email: "new@example.com" })
+    ).rejects.toThrow("Email is already in use");
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: userId },
+      { email: "old@example.com" }
+    );
+  });
+
+  it("does not touch the identity when the email is unchanged", async () => {
+    mockProfileUpdate({ email: "old@example.com", name: "Renamed" });
+
+    await AdminService.updateUser(userId, {
+      name: "Renamed",
+      email: "old@example.com",
+    });
+
+    expect(IdentityService.isEmailAvailable).not.toHaveBeenCalled();
+    expect(changeEmail).not.toHaveBeenCalled();
+  });
+});
+
+describe("AdminService.resetUserPassword", () => {
+  let setPassword: jest.SpyInstance;
+  let revokeSessions: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(User, "findById").mockResolvedValue({ _id: userId } as never);
+    setPassword = jest
+      .spyOn(IdentityService, "setPassword")
+      .mockResolvedValue();
+    revokeSessions = jest
+      .spyOn(IdentityService, "revokeSessions")
+      .mockResolvedValue();
+  });
+
+  it("sets the password and signs out every session of the login", async () => {
+    jest.spyOn(IdentityService, "isInScope").mockResolvedValue(true);
+
+    const result = await AdminService.resetUserPassword(
+      userId,
+      "N3w-Passw0rd!"
+    );
+
+    expect(result.success).toBe(true);
+    expect(setPassword).toHaveBeenCalledWith(userId, expect.any(String));
+    expect(revokeSessions).toHaveBeenCalledWith(userId, "password_reset");
+  });
+
+  it("refuses a login shared with accounts the requester does not manage", async () => {
+    jest.spyOn(IdentityService, "isInScope").mockResolvedValue(false);
+
+    const result = await AdminService.resetUserPassword(
+      userId,
+      "N3w-Passw0rd!"
+    );
+
+    expect(result.success).toBe(false);
+    expect(setPassword).not.toHaveBeenCalled();
+    expect(revokeSessions).not.toHaveBeenCalled();
+  });
+});
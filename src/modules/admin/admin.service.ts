@@ -1,6 +1,8 @@
 import { UserRole } from "../auth/auth.interface";
 import { AuthUtils } from "../auth/auth.utils";
+import { IdentityService } from "../identity/identity.service";
 import Organization from "../organization/organization.model";
+import { RealtimeTrackingService } from "../tracking/realtime-tracking.service";
 import User, { IUser } from "../user/user.model";
 
 // Admin Service Interface
@@ -39,9 +41,8 @@ export class AdminService {
     createdBy: string
   ): Promise<UserResponse> {
     try {
-      // Check if email already exists
-      const existingUser = await User.findOne({ email: userData.email });
-      if (existingUser) {
+      // Check if email already exists, in any collection
+      if (!(await IdentityService.isEmailAvailable(userData.email))) {
         return {
           success: false,
           message: "User with this email already exists",
@@ -87,13 +88,13 @@ export class AdminService {
       // Hash password
       const hashedPassword = await AuthUtils.hashPassword(userData.password);
 
-      // Create user
-      const user = new User({
-        ...userData,
-        password: hashedPassword,
-      });
-
-      await user.save();
+      // Create user, the password goes to its identity
+      const { password, ...profileData } = userData;
+      const user = await IdentityService.createAccount(
+        new User(profileData),
+        "User",
+        hashedPassword
+      );
 
       // Increment organization user count
       if (userData.organizationId) {
@@ -263,18 +264,28 @@ export class AdminService {
       }
 
       // Check if email is being changed and if it already exists
-      if (updateData.email && updateData.email !== user.email) {
-        const existingUser = await User.findOne({
-          email: updateData.email,
-          _id: { $ne: userId },
-        });
-
-        if (existingUser) {
+      const newEmail =
+        updateData.email !== user.email ? updateData.email : undefined;
+      if (newEmail) {
+        if (!(await IdentityService.isEmailAvailable(newEmail, userId))) {
           return {
             success: false,
             message: "User with this email already exists",
           };
         }
+        if (
+          !(await this.isManagedLogin(
+            userId,
+            requesterRole,
+            requesterOrganizationId
+          ))
+        ) {
+          return {
+            success: false,
+            message:
+              "This login is shared with accounts you do not manage and cannot be changed here",
+          };
+        }
       }
 
       // Update user
@@ -290,6 +301,18 @@ export class AdminService {
         };
       }
 
+      // The identity takes the new email once the profile has accepted it,
+      // the profile goes back to the old one if the identity refuses it
+      if (newEmail) {
+        try {
+          await IdentityService.changeEmail(userId, updatedUser.email);
+        } catch (error) {
+          await User.updateOne({ _id: userId }, { email: user.email });
+          throw error;
+        }
+        await IdentityService.revokeSessions(userId, "admin_revoked");
+      }
+
       return {
         success: true,
         message: "User updated successfully",
@@ -340,6 +363,7 @@ export class AdminService {
       }
 
       await User.findByIdAndDelete(userId);
+      await IdentityService.removeProfile(userId);
 
       // Decrement organization user count
       if (user.organizationId) {
@@ -398,6 +422,7 @@ export class AdminService {
 
       user.status = "suspended";
       await user.save();
+      RealtimeTrackingService.disconnectUser(userId, "Account suspended");
 
       return {
         success: true,
@@ -495,11 +520,26 @@ export class AdminService {
         };
       }
 
+      if (
+        !(await this.isManagedLogin(
+          userId,
+          requesterRole,
+          requesterOrganizationId
+        ))
+      ) {
+        return {
+          success: false,
+          message:
+            "This login is shared with accounts you do not manage and cannot be changed here",
+        };
+      }
+
       // Hash new password
       const hashedPassword = await AuthUtils.hashPassword(newPassword);
 
-      // Update password
-      await User.findByIdAndUpdate(userId, { password: hashedPassword });
+      // Update password and sign out every session of the login
+      await IdentityService.setPassword(userId, hashedPassword);
+      await IdentityService.revokeSessions(userId, "password_reset");
 
       return {
         success: true,
@@ -633,4 +673,23 @@ export class AdminService {
       );
     }
   }
+
+  // Helper method to check that a user's login opens only accounts the
+  // requester manages, which for an admin means users of their organization
+  private static isManagedLogin(
+    userId: string,
+    requesterRole: UserRole,
+    requesterOrganizationId?: string
+  ): Promise<boolean> {
+    if (requesterRole === UserRole.ADMIN) {
+      return IdentityService.isInScope(userId, {
+        roles: [UserRole.ADMIN, UserRole.DELIVERY_USER],
+        organizationId: requesterOrganizationId,
+      });
+    }
+
+    return IdentityService.isInScope(userId, {
+      roles: [UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.DELIVERY_USER],
+    });
+  }
 }
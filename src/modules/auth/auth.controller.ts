@@ -6,8 +6,31 @@ import {
   LoginRequest,
   RefreshTokenRequest,
   ResetPasswordRequest,
+  TwoFactorLoginRequest,
 } from "./auth.interface";
 import { AuthService } from "./auth.service";
+import { AuthUtils } from "./auth.utils";
+import { LoginLockedError } from "./login-security.service";
+
+// Helper to set the secure HTTP-only cookie for a refresh token
+const setRefreshTokenCookie = (res: Response, refreshToken: string) => {
+  res.cookie("refreshToken", refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+  });
+};
+
+// Helper to answer a login refused by a lockout
+const sendLoginLocked = (res: Response, error: LoginLockedError) => {
+  res.status(429).json({
+    success: false,
+    message: error.message,
+    error: "LOGIN_LOCKED",
+    retryAfter: error.retryAfter,
+  });
+};
 
 export class AuthController {
   // Login Controller
@@ -36,18 +59,23 @@ export class AuthController {
         return;
       }
 
-      const result = await AuthService.login(loginData);
+      const result = await AuthService.login(
+        loginData,
+        AuthUtils.getClientInfo(req)
+      );
 
-      // Set secure HTTP-only cookie for refresh token
-      res.cookie("refreshToken", result.data.tokens.refreshToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "strict",
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      });
+      // A login waiting for a two-factor code has no tokens yet
+      if ("tokens" in result.data) {
+        setRefreshTokenCookie(res, result.data.tokens.refreshToken);
+      }
 
       res.status(200).json(result);
     } catch (error) {
+      if (error instanceof LoginLockedError) {
+        sendLoginLocked(res, error);
+        return;
+      }
+
       const errorMessage =
         error instanceof Error ? error.message : "Login failed";
 
@@ -59,6 +87,94 @@ export class AuthController {
     }
   }
 
+  // Two-Factor Login Controller
+  static async completeTwoFactorLogin(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const loginData: TwoFactorLoginRequest = req.body;
+
+      const result = await AuthService.completeTwoFactorLogin(
+        loginData,
+        AuthUtils.getClientInfo(req)
+      );
+
+      setRefreshTokenCookie(res, result.data.tokens.refreshToken);
+
+      res.status(200).json(result);
+    } catch (error) {
+      if (error instanceof LoginLockedError) {
+        sendLoginLocked(res, error);
+        return;
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : "Login failed";
+
+      res.status(401).json({
+        success: false,
+        message: errorMessage,
+        error: "TWO_FACTOR_LOGIN_FAILED",
+      });
+    }
+  }
+
+  // Two-Factor Setup At Login Controller
+  static async startTwoFactorSetup(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await AuthService.startTwoFactorSetup(
+        req.body.challengeToken
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to set up two-factor authentication";
+
+      res.status(401).json({
+        success: false,
+        message: errorMessage,
+        error: "TWO_FACTOR_SETUP_FAILED",
+      });
+    }
+  }
+
+  // Two-Factor Enable At Login Controller
+  static async completeTwoFactorSetup(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const loginData: TwoFactorLoginRequest = req.body;
+
+      const result = await AuthService.completeTwoFactorSetup(
+        loginData,
+        AuthUtils.getClientInfo(req)
+      );
+
+      setRefreshTokenCookie(res, result.data.tokens.refreshToken);
+
+      res.status(200).json(result);
+    } catch (error) {
+      if (error instanceof LoginLockedError) {
+        sendLoginLocked(res, error);
+        return;
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : "Login failed";
+
+      res.status(401).json({
+        success: false,
+        message: errorMessage,
+        error: "TWO_FACTOR_SETUP_FAILED",
+      });
+    }
+  }
+
   // Refresh Token Controller
   static async refreshToken(req: Request, res: Response): Promise<void> {
     try {
@@ -75,13 +191,22 @@ export class AuthController {
       }
 
       const refreshData: RefreshTokenRequest = { refreshToken };
-      const result = await AuthService.refreshToken(refreshData);
+      const result = await AuthService.refreshToken(
+        refreshData,
+        AuthUtils.getClientInfo(req)
+      );
+
+      // Replace the rotated refresh token cookie
+      setRefreshTokenCookie(res, result.data.refreshToken);
 
       res.status(200).json(result);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Token refresh failed";
 
+      // A refresh token that failed once will not work again
+      res.clearCookie("refreshToken");
+
       res.status(401).json({
         success: false,
         message: errorMessage,
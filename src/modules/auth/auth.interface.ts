@@ -4,6 +4,8 @@ import { Request } from "express";
 export interface LoginRequest {
   email: string;
   password: string;
+  deviceName?: string;
+  role?: string; // profile to log in with when one email has several
 }
 
 export interface ForgotPasswordRequest {
@@ -20,6 +22,11 @@ export interface RefreshTokenRequest {
   refreshToken: string;
 }
 
+export interface TwoFactorLoginRequest {
+  challengeToken: string;
+  code: string;
+}
+
 export interface ChangePasswordRequest {
   currentPassword: string;
   newPassword: string;
@@ -45,6 +52,19 @@ export interface LoginResponse {
       expiresIn: number;
     };
     dashboardUrl: string;
+    recoveryCodes?: string[]; // only when two-factor was set up at login
+  };
+}
+
+// Returned by login instead of tokens until a two-factor code is verified
+export interface LoginChallengeResponse {
+  success: boolean;
+  message: string;
+  data: {
+    twoFactorRequired: true;
+    setupRequired: boolean; // the account must enrol before it can log in
+    challengeToken: string;
+    expiresIn: number;
   };
 }
 
@@ -53,10 +73,35 @@ export interface RefreshTokenResponse {
   message: string;
   data: {
     accessToken: string;
+    refreshToken: string;
     expiresIn: number;
   };
 }
 
+export interface SessionResponse {
+  success: boolean;
+  message: string;
+  data?: any;
+}
+
+export interface TwoFactorResponse {
+  success: boolean;
+  message: string;
+  data?: any;
+}
+
+export interface LoginSecurityResponse {
+  success: boolean;
+  message: string;
+  data?: any;
+  pagination?: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
 export interface ForgotPasswordResponse {
   success: boolean;
   message: string;
@@ -74,6 +119,19 @@ export interface AuthenticatedRequest extends Request {
     email: string;
     role: "super_admin" | "admin" | "delivery_user" | "organization_admin";
     organizationId?: string;
+    sessionId?: string;
+  };
+}
+
+// Device a request comes from, kept with its session
+export interface ClientInfo {
+  userAgent: string;
+  ipAddress: string;
+  deviceType: "web" | "mobile" | "desktop" | "unknown";
+  location?: {
+    city?: string;
+    region?: string;
+    country?: string;
   };
 }
 
@@ -103,7 +161,8 @@ export interface PasswordResetToken {
 // Refresh Token Interface
 export interface RefreshTokenData {
   userId: string;
-  token: string;
+  tokenHash: string;
+  familyId: string;
   expiresAt: Date;
   isActive: boolean;
 }
@@ -1,17 +1,44 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { AuthUtils } from "./auth.utils";
+
+// Why a refresh token stopped being valid
+export type RefreshTokenRevokeReason =
+  | "rotated"
+  | "logout"
+  | "logout_all"
+  | "password_change"
+  | "password_reset"
+  | "reuse_detected"
+  | "session_revoked"
+  | "admin_revoked";
 
 // Refresh Token Interface
 export interface IRefreshToken extends Document {
   _id: mongoose.Types.ObjectId;
   userId: mongoose.Types.ObjectId;
-  token: string;
+  tokenHash: string; // SHA-256 of the token, the token itself is never stored
+  familyId: string; // shared by every token rotated from the same login
   expiresAt: Date;
   isActive: boolean;
+  replacedBy?: mongoose.Types.ObjectId;
+  revokedAt?: Date;
+  revokedReason?: RefreshTokenRevokeReason;
+  revokedBy?: string;
+  // Session details, carried over to every token of the family
+  name?: string;
   deviceInfo?: {
     userAgent: string;
     ipAddress: string;
     deviceType: string;
   };
+  location?: {
+    city?: string;
+    region?: string;
+    country?: string;
+  };
+  sessionStartedAt?: Date;
+  lastUsedAt?: Date;
+  lastIpAddress?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -27,6 +54,23 @@ export interface IPasswordResetToken extends Document {
   updatedAt: Date;
 }
 
+// Two-Factor Authentication Interface
+export interface ITwoFactorAuth extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  secret?: string; // encrypted TOTP secret, set once enrolment is verified
+  pendingSecret?: string; // encrypted TOTP secret waiting for a first code
+  enabled: boolean;
+  enabledAt?: Date;
+  lastUsedStep?: number; // time step of the last accepted code, never reused
+  recoveryCodes: {
+    codeHash: string;
+    usedAt?: Date;
+  }[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Refresh Token Schema
 const refreshTokenSchema = new Schema<IRefreshToken>(
   {
@@ -35,11 +79,15 @@ const refreshTokenSchema = new Schema<IRefreshToken>(
       ref: "User",
       required: [true, "User ID is required"],
     },
-    token: {
+    tokenHash: {
       type: String,
-      required: [true, "Token is required"],
+      required: [true, "Token hash is required"],
       unique: true,
     },
+    familyId: {
+      type: String,
+      required: [true, "Token family is required"],
+    },
     expiresAt: {
       type: Date,
       required: [true, "Expiry date is required"],
@@ -49,6 +97,34 @@ const refreshTokenSchema = new Schema<IRefreshToken>(
       type: Boolean,
       default: true,
     },
+    replacedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "RefreshToken",
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+      enum: [
+        "rotated",
+        "logout",
+        "logout_all",
+        "password_change",
+        "password_reset",
+        "reuse_detected",
+        "session_revoked",
+        "admin_revoked",
+      ],
+    },
+    revokedBy: {
+      type: String,
+    },
+    name: {
+      type: String,
+      trim: true,
+      maxlength: [100, "Session name cannot exceed 100 characters"],
+    },
     deviceInfo: {
       userAgent: {
         type: String,
@@ -64,9 +140,27 @@ const refreshTokenSchema = new Schema<IRefreshToken>(
         default: "unknown",
       },
     },
+    location: {
+      city: String,
+      region: String,
+      country: String,
+    },
+    sessionStartedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    lastIpAddress: {
+      type: String,
+      maxlength: [45, "IP address cannot exceed 45 characters"],
+    },
   },
   {
     timestamps: true,
+    // Indexes are built by migrateRefreshTokens once legacy tokens are hashed
+    autoIndex: false,
     toJSON: {
       transform: function (doc, ret) {
         const { __v, ...cleanRet } = ret;
@@ -110,27 +204,76 @@ const passwordResetTokenSchema = new Schema<IPasswordResetToken>(
   }
 );
 
+// Two-Factor Authentication Schema
+const twoFactorAuthSchema = new Schema<ITwoFactorAuth>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+      unique: true,
+    },
+    secret: {
+      type: String,
+      select: false,
+    },
+    pendingSecret: {
+      type: String,
+      select: false,
+    },
+    enabled: {
+      type: Boolean,
+      default: false,
+    },
+    enabledAt: {
+      type: Date,
+    },
+    lastUsedStep: {
+      type: Number,
+    },
+    recoveryCodes: {
+      type: [
+        {
+          _id: false,
+          codeHash: { type: String, required: true },
+          usedAt: { type: Date },
+        },
+      ],
+      select: false,
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        const { __v, secret, pendingSecret, recoveryCodes, ...cleanRet } = ret;
+        return cleanRet;
+      },
+    },
+  }
+);
+
 // Indexes for better query performance
 refreshTokenSchema.index({ userId: 1 });
-refreshTokenSchema.index({ token: 1 });
+refreshTokenSchema.index({ familyId: 1, isActive: 1 });
 refreshTokenSchema.index({ isActive: 1 });
-refreshTokenSchema.index({ expiresAt: 1 });
 
 passwordResetTokenSchema.index({ userId: 1 });
-passwordResetTokenSchema.index({ token: 1 });
 passwordResetTokenSchema.index({ used: 1 });
-passwordResetTokenSchema.index({ expiresAt: 1 });
 
 // Static method to create refresh token
 refreshTokenSchema.statics.createToken = function (
   userId: string,
   token: string,
+  familyId: string,
   expiresAt: Date,
   deviceInfo?: any
 ) {
   return this.create({
     userId,
-    token,
+    tokenHash: AuthUtils.hashToken(token),
+    familyId,
     expiresAt,
     deviceInfo,
   });
@@ -139,7 +282,7 @@ refreshTokenSchema.statics.createToken = function (
 // Static method to find active token
 refreshTokenSchema.statics.findActiveToken = function (token: string) {
   return this.findOne({
-    token,
+    tokenHash: AuthUtils.hashToken(token),
     isActive: true,
     expiresAt: { $gt: new Date() },
   });
@@ -147,12 +290,19 @@ refreshTokenSchema.statics.findActiveToken = function (token: string) {
 
 // Static method to invalidate token
 refreshTokenSchema.statics.invalidateToken = function (token: string) {
-  return this.findOneAndUpdate({ token }, { isActive: false }, { new: true });
+  return this.findOneAndUpdate(
+    { tokenHash: AuthUtils.hashToken(token) },
+    { isActive: false, revokedAt: new Date(), revokedReason: "logout" },
+    { new: true }
+  );
 };
 
 // Static method to invalidate all user tokens
 refreshTokenSchema.statics.invalidateAllUserTokens = function (userId: string) {
-  return this.updateMany({ userId, isActive: true }, { isActive: false });
+  return this.updateMany(
+    { userId, isActive: true },
+    { isActive: false, revokedAt: new Date(), revokedReason: "logout_all" }
+  );
 };
 
 // Static method to clean expired tokens
@@ -205,6 +355,43 @@ const PasswordResetToken = mongoose.model<IPasswordResetToken>(
   "PasswordResetToken",
   passwordResetTokenSchema
 );
+const TwoFactorAuth = mongoose.model<ITwoFactorAuth>(
+  "TwoFactorAuth",
+  twoFactorAuthSchema
+);
+
+// Hash refresh tokens stored before tokens were kept hashed. Each one
+// becomes its own family, so existing sessions keep working.
+export const migrateRefreshTokens = async (): Promise<void> => {
+  // The raw token index would reject tokens without a raw token. A fresh
+  // database has no collection yet, so nothing to migrate.
+  const indexes = await RefreshToken.collection.indexes().catch((error) => {
+    if (error?.codeName === "NamespaceNotFound") return [];
+    throw error;
+  });
+  if (indexes.some((index) => index.name === "token_1")) {
+    await RefreshToken.collection.dropIndex("token_1");
+  }
+
+  const legacyTokens = await RefreshToken.collection
+    .find({ token: { $exists: true } })
+    .toArray();
+  for (const legacyToken of legacyTokens) {
+    await RefreshToken.collection.updateOne(
+      { _id: legacyToken._id },
+      {
+        $set: {
+          tokenHash: AuthUtils.hashToken(legacyToken.token),
+          familyId: String(legacyToken._id),
+        },
+        $unset: { token: "" },
+      }
+    );
+  }
+
+  // Build the token hash index now that every token has a hash
+  await RefreshToken.syncIndexes();
+};
 
-export { PasswordResetToken, RefreshToken };
+export { PasswordResetToken, RefreshToken, TwoFactorAuth };
 export default RefreshToken;
@@ -2,6 +2,10 @@ import { Router } from "express";
 import { AuthMiddleware } from "../../middlewares/auth.middleware";
 import { ValidationMiddleware } from "../../middlewares/validate.middleware";
 import { AuthController } from "./auth.controller";
+import { UserRole } from "./auth.interface";
+import { LoginSecurityController } from "./login-security.controller";
+import { SessionController } from "./session.controller";
+import { TwoFactorController } from "./two-factor.controller";
 
 const router = Router();
 
@@ -11,7 +15,7 @@ const router = Router();
  * @route   POST /api/auth/login
  * @desc    Login user and get tokens
  * @access  Public
- * @body    { email: string, password: string }
+ * @body    { email: string, password: string, deviceName?: string }
  */
 router.post(
   "/login",
@@ -21,9 +25,50 @@ router.post(
   AuthController.login
 );
 
+/**
+ * @route   POST /api/auth/login/2fa
+ * @desc    Complete a login with an authenticator or recovery code
+ * @access  Public (login challenge)
+ * @body    { challengeToken: string, code: string }
+ */
+router.post(
+  "/login/2fa",
+  ValidationMiddleware.sanitizeInput,
+  ValidationMiddleware.rateLimitAuth,
+  ValidationMiddleware.validateTwoFactorLogin,
+  AuthController.completeTwoFactorLogin
+);
+
+/**
+ * @route   POST /api/auth/login/2fa/setup
+ * @desc    Start two-factor enrolment for an account that must use it
+ * @access  Public (login challenge)
+ * @body    { challengeToken: string }
+ */
+router.post(
+  "/login/2fa/setup",
+  ValidationMiddleware.sanitizeInput,
+  ValidationMiddleware.validateTwoFactorChallenge,
+  AuthController.startTwoFactorSetup
+);
+
+/**
+ * @route   POST /api/auth/login/2fa/enable
+ * @desc    Finish two-factor enrolment and complete the login
+ * @access  Public (login challenge)
+ * @body    { challengeToken: string, code: string }
+ */
+router.post(
+  "/login/2fa/enable",
+  ValidationMiddleware.sanitizeInput,
+  ValidationMiddleware.rateLimitAuth,
+  ValidationMiddleware.validateTwoFactorLogin,
+  AuthController.completeTwoFactorSetup
+);
+
 /**
  * @route   POST /api/auth/refresh-token
- * @desc    Refresh access token using refresh token
+ * @desc    Exchange refresh token for new access and refresh tokens
  * @access  Public
  * @body    { refreshToken: string } or cookie
  */
@@ -98,6 +143,195 @@ router.post(
   AuthController.logoutAllDevices
 );
 
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List active sessions of current user
+ * @access  Private
+ */
+router.get(
+  "/sessions",
+  AuthMiddleware.verifyToken,
+  SessionController.listSessions
+);
+
+/**
+ * @route   PATCH /api/auth/sessions/:sessionId
+ * @desc    Name a session of current user
+ * @access  Private
+ * @body    { name: string }
+ */
+router.patch(
+  "/sessions/:sessionId",
+  ValidationMiddleware.sanitizeInput,
+  ValidationMiddleware.validateRenameSession,
+  AuthMiddleware.verifyToken,
+  SessionController.renameSession
+);
+
+/**
+ * @route   DELETE /api/auth/sessions/:sessionId
+ * @desc    Revoke a session of current user
+ * @access  Private
+ */
+router.delete(
+  "/sessions/:sessionId",
+  AuthMiddleware.verifyToken,
+  SessionController.revokeSession
+);
+
+/**
+ * @route   GET /api/auth/sessions/delivery-users/:userId
+ * @desc    List active sessions of a delivery user
+ * @access  Private (Organization Admin)
+ */
+router.get(
+  "/sessions/delivery-users/:userId",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  SessionController.listDeliveryUserSessions
+);
+
+/**
+ * @route   DELETE /api/auth/sessions/delivery-users/:userId
+ * @desc    Revoke every session of a delivery user, e.g. a lost phone
+ * @access  Private (Organization Admin)
+ */
+router.delete(
+  "/sessions/delivery-users/:userId",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  SessionController.revokeAllDeliveryUserSessions
+);
+
+/**
+ * @route   DELETE /api/auth/sessions/delivery-users/:userId/:sessionId
+ * @desc    Revoke a session of a delivery user
+ * @access  Private (Organization Admin)
+ */
+router.delete(
+  "/sessions/delivery-users/:userId/:sessionId",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  SessionController.revokeDeliveryUserSession
+);
+
+/**
+ * @route   GET /api/auth/2fa
+ * @desc    Get two-factor status of current user
+ * @access  Private
+ */
+router.get("/2fa", AuthMiddleware.verifyToken, TwoFactorController.getStatus);
+
+/**
+ * @route   POST /api/auth/2fa/setup
+ * @desc    Start two-factor enrolment, returns secret and otpauth URI
+ * @access  Private
+ */
+router.post(
+  "/2fa/setup",
+  AuthMiddleware.verifyToken,
+  TwoFactorController.setup
+);
+
+/**
+ * @route   POST /api/auth/2fa/enable
+ * @desc    Verify a first code and turn two-factor on, returns recovery codes
+ * @access  Private
+ * @body    { code: string }
+ */
+router.post(
+  "/2fa/enable",
+  ValidationMiddleware.sanitizeInput,
+  ValidationMiddleware.validateTwoFactorCode,
+  AuthMiddleware.verifyToken,
+  TwoFactorController.enable
+);
+
+/**
+ * @route   POST /api/auth/2fa/disable
+ * @desc    Turn two-factor off, unless enforced for the account
+ * @access  Private
+ * @body    { code: string }
+ */
+router.post(
+  "/2fa/disable",
+  ValidationMiddleware.sanitizeInput,
+  ValidationMiddleware.validateTwoFactorCode,
+  AuthMiddleware.verifyToken,
+  TwoFactorController.disable
+);
+
+/**
+ * @route   POST /api/auth/2fa/recovery-codes
+ * @desc    Replace recovery codes of current user
+ * @access  Private
+ * @body    { code: string }
+ */
+router.post(
+  "/2fa/recovery-codes",
+  ValidationMiddleware.sanitizeInput,
+  ValidationMiddleware.validateTwoFactorCode,
+  AuthMiddleware.verifyToken,
+  TwoFactorController.regenerateRecoveryCodes
+);
+
+/**
+ * @route   GET /api/auth/security/login-attempts
+ * @desc    Get login attempt log, organization admins see their organization only
+ * @access  Private (Super Admin, Admin, Organization Admin)
+ * @query   { page, limit, email, userId, ipAddress, outcome, flagged, from, to }
+ */
+router.get(
+  "/security/login-attempts",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.ORGANIZATION_ADMIN,
+  ]),
+  LoginSecurityController.getLoginAttempts
+);
+
+/**
+ * @route   GET /api/auth/security/overview
+ * @desc    Get login outcomes, flagged logins and lockouts of the last 24 hours
+ * @access  Private (Super Admin, Admin, Organization Admin)
+ */
+router.get(
+  "/security/overview",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([
+    UserRole.SUPER_ADMIN,
+    UserRole.ADMIN,
+    UserRole.ORGANIZATION_ADMIN,
+  ]),
+  LoginSecurityController.getOverview
+);
+
+/**
+ * @route   GET /api/auth/security/lockouts
+ * @desc    Get accounts and IP addresses currently locked out
+ * @access  Private (Super Admin, Admin)
+ */
+router.get(
+  "/security/lockouts",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.SUPER_ADMIN, UserRole.ADMIN]),
+  LoginSecurityController.getLockouts
+);
+
+/**
+ * @route   DELETE /api/auth/security/lockouts/:lockoutId
+ * @desc    Lift a lockout
+ * @access  Private (Super Admin, Admin)
+ */
+router.delete(
+  "/security/lockouts/:lockoutId",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.SUPER_ADMIN, UserRole.ADMIN]),
+  LoginSecurityController.clearLockout
+);
+
 /**
  * @route   GET /api/auth/profile
  * @desc    Get current user profile
@@ -0,0 +1,230 @@
+import { Types } from "mongoose";
+import { RealtimeTrackingService } from "../tracking/realtime-tracking.service";
+import { migrateRefreshTokens, RefreshToken } from "./auth.model";
+import { AuthService } from "./auth.service";
+import { AuthUtils } from "./auth.utils";
+
+const userId = new Types.ObjectId();
+const familyId = "family-1";
+
+const issueRefreshToken = () =>
+  AuthUtils.generateTokens({
+    userId: userId.toString(),
+    email: "rider@example.com",
+    role: "delivery_user",
+    sessionId: familyId,
+  }).refreshToken;
+
+const buildTokenRecord = (refreshToken: string, overrides = {}) =>
+  new RefreshToken({
+    userId,
+    tokenHash: AuthUtils.hashToken(refreshToken),
+    familyId,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    isActive: true,
+    ...overrides,
+  });
+
+describe("AuthService.refreshToken", () => {
+  let updateMany: jest.SpyInstance;
+  let closeSession: jest.SpyInstance;
+  let sendToUser: jest.SpyInstance;
+
+  beforeEach(() => {
+    updateMany = jest
+      .spyOn(RefreshToken, "updateMany")
+      .mockResolvedValue({ modifiedCount: 1 } as never);
+    closeSession = jest
+      .spyOn(RealtimeTrackingService, "closeSession")
+      .mockImplementation();
+    sendToUser = jest
+      .spyOn(RealtimeTrackingService, "sendToUser")
+      .mockImplementation();
+  });
+
+  it("rotates the token within its family", async () => {
+    const refreshToken = issueRefreshToken();
+    const tokenRecord = buildTokenRecord(refreshToken);
+    jest.spyOn(RefreshToken, "findOne").mockResolvedValue(tokenRecord);
+    const findOneAndUpdate = jest
+      .spyOn(RefreshToken, "findOneAndUpdate")
+      .mockResolvedValue(tokenRecord);
+    const save = jest
+      .spyOn(RefreshToken.prototype, "save")
+      .mockImplementation(function (this: unknown) {
+        return Promise.resolve(this);
+      });
+
+    const result = await AuthService.refreshToken({ refreshToken });
+
+    expect(result.data.refreshToken).not.toBe(refreshToken);
+    expect(AuthUtils.verifyAccessToken(result.data.accessToken).sessionId).toBe(
+      familyId
+    );
+
+    const nextRecord = save.mock.contexts[0] as InstanceType<
+      typeof RefreshToken
+    >;
+    expect(nextRecord.familyId).toBe(familyId);
+    expect(nextRecord.tokenHash).toBe(
+      AuthUtils.hashToken(result.data.refreshToken)
+    );
+    expect(findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: tokenRecord._id, isActive: true },
+      expect.objectContaining({
+        isActive: false,
+        revokedReason: "rotated",
+        replacedBy: nextRecord._id,
+      })
+    );
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+
+  it("revokes the family when a rotated token is replayed", async () => {
+    const refreshToken = issueRefreshToken();
+    jest.spyOn(RefreshToken, "findOne").mockResolvedValue(
+      buildTokenRecord(refreshToken, {
+        isActive: false,
+        revokedReason: "rotated",
+      })
+    );
+    const findOneAndUpdate = jest.spyOn(RefreshToken, "findOneAndUpdate");
+
+    await expect(AuthService.refreshToken({ refreshToken })).rejects.toThrow(
+      "Refresh token reuse detected. Please log in again"
+    );
+
+    expect(updateMany).toHaveBeenCalledWith(
+      { familyId, isActive: true },
+      expect.objectContaining({
+        isActive: false,
+        revokedReason: "reuse_detected",
+      })
+    );
+    expect(closeSession).toHaveBeenCalledWith(familyId, "reuse_detected");
+    expect(sendToUser).toHaveBeenCalledWith(
+      userId.toString(),
+      "security_alert",
+      expect.objectContaining({ type: "refresh_token_reuse" })
+    );
+    expect(findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it("treats losing a concurrent rotation as reuse", async () => {
+    const refreshToken = issueRefreshToken();
+    jest
+      .spyOn(RefreshToken, "findOne")
+      .mockResolvedValue(buildTokenRecord(refreshToken));
+    jest.spyOn(RefreshToken, "findOneAndUpdate").mockResolvedValue(null);
+    const save = jest.spyOn(RefreshToken.prototype, "save");
+
+    await expect(AuthService.refreshToken({ refreshToken })).rejects.toThrow(
+      "Refresh token reuse detected. Please log in again"
+    );
+
+    expect(updateMany).toHaveBeenCalledWith(
+      { familyId, isActive: true },
+      expect.objectContaining({ revokedReason: "reuse_detected" })
+    );
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it("rejects a token that was revoked for another reason", async () => {
+    const refreshToken = issueRefreshToken();
+    jest.spyOn(RefreshToken, "findOne").mockResolvedValue(
+      buildTokenRecord(refreshToken, {
+        isActive: false,
+        revokedReason: "logout",
+      })
+    );
+
+    await expect(AuthService.refreshToken({ refreshToken })).rejects.toThrow(
+      "Invalid refresh token"
+    );
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+
+  it("rejects an unknown token", async () => {
+    jest.spyOn(RefreshToken, "findOne").mockResolvedValue(null);
+
+    await expect(
+      AuthService.refreshToken({ refreshToken: issueRefreshToken() })
+    ).rejects.toThrow("Invalid refresh token");
+  });
+});
+
+describe("migrateRefreshTokens", () => {
+  const mockCollection = (indexes: () => Promise<unknown>, legacy = []) => {
+    const collection = RefreshToken.collection;
+    jest.spyOn(collection, "indexes").mockImplementation(indexes as never);
+    jest
+      .spyOn(collection, "find")
+      .mockReturnValue({ toArray: async () => legacy } as never);
+    jest.spyOn(collection, "dropIndex").mockResolvedValue({} as never);
+    jest.spyOn(collection, "updateOne").mockResolvedValue({} as never);
+    return collection;
+  };
+
+  it("declares each index key once, so syncIndexes has no conflicts", () => {
+    const keys = RefreshToken.schema
+      .indexes()
+      .map(([fields]) => JSON.stringify(fields));
+
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it("builds the indexes on a database without the collection", async () => {
+    const collection = mockCollection(() =>
+      Promise.reject(
+        Object.assign(new Error("ns does not exist"), {
+          codeName: "NamespaceNotFound",
+        })
+      )
+    );
+    const syncIndexes = jest
+      .spyOn(RefreshToken, "syncIndexes")
+      .mockResolvedValue([]);
+
+    await migrateRefreshTokens();
+
+    expect(collection.dropIndex).not.toHaveBeenCalled();
+    expect(syncIndexes).toHaveBeenCalled();
+  });
+
+  it("hashes legacy tokens before building the indexes", async () => {
+    const legacyId = new Types.ObjectId();
+    const collection = mockCollection(
+      async () => [{ name: "_id_" }, { name: "token_1" }],
+      [{ _id: legacyId, token: "legacy-token" }] as never
+    );
+    const syncIndexes = jest
+      .spyOn(RefreshToken, "syncIndexes")
+      .mockImplementation(async () => {
+        expect(collection.updateOne).toHaveBeenCalled();
+        return [];
+      });
+
+    await migrateRefreshTokens();
+
+    expect(collection.dropIndex).toHaveBeenCalledWith("token_1");
+    expect(collection.updateOne).toHaveBeenCalledWith(
+      { _id: legacyId },
+      {
+        $set: {
+          tokenHash: AuthUtils.hashToken("legacy-token"),
+          familyId: legacyId.toString(),
+        },
+        $unset: { token: "" },
+      }
+    );
+    expect(syncIndexes).toHaveBeenCalled();
+  });
+
+  it("rethrows other index lookup failures", async () => {
+    mockCollection(() => Promise.reject(new Error("connection lost")));
+    const syncIndexes = jest.spyOn(RefreshToken, "syncIndexes");
+
+    await expect(migrateRefreshTokens()).rejects.toThrow("connection lost");
+    expect(syncIndexes).not.toHaveBeenCalled();
+  });
+});
@@ -1,129 +1,261 @@
-import DeliveryUser from "../deliveryUser/delivery.model";
-import OrganizationAdmin from "../organizationAdmin/organizationAdmin.model";
-import User from "../user/user.model";
+import { AccountProfile, IdentityService } from "../identity/identity.service";
+import { RealtimeTrackingService } from "../tracking/realtime-tracking.service";
 import {
   ChangePasswordRequest,
+  ClientInfo,
   ForgotPasswordRequest,
+  LoginChallengeResponse,
   LoginRequest,
   LoginResponse,
   RefreshTokenRequest,
   RefreshTokenResponse,
   ResetPasswordRequest,
+  TwoFactorLoginRequest,
+  TwoFactorResponse,
 } from "./auth.interface";
-import { PasswordResetToken, RefreshToken } from "./auth.model";
-import { AuthUtils } from "./auth.utils";
+import {
+  IRefreshToken,
+  PasswordResetToken,
+  RefreshToken,
+  RefreshTokenRevokeReason,
+} from "./auth.model";
+import {
+  AuthUtils,
+  CHALLENGE_TOKEN_EXPIRES_MS,
+  ChallengePayload,
+  JWTPayload,
+} from "./auth.utils";
+import {
+  LoginAttemptUser,
+  LoginLockedError,
+  LoginSecurityService,
+} from "./login-security.service";
+import { TwoFactorService } from "./two-factor.service";
 
 export class AuthService {
   // Login Service
-  static async login(loginData: LoginRequest): Promise<LoginResponse> {
+  static async login(
+    loginData: LoginRequest,
+    clientInfo?: ClientInfo
+  ): Promise<LoginResponse | LoginChallengeResponse> {
     try {
       const { email, password } = loginData;
 
-      // Try to find user in different models
-      let user: any = null;
-      let userRole: string = "";
-
-      // Check User model first
-      user = await User.findOne({ email })
-        .populate("organizationId", "name companyName")
-        .select("+password");
-
-      if (user) {
-        userRole = user.role;
-      } else {
-        // Check OrganizationAdmin model
-        user = await OrganizationAdmin.findOne({ email })
-          .populate("organizationId", "name companyName")
-          .select("+password");
-
-        if (user) {
-          userRole = "organization_admin";
-        } else {
-          // Check DeliveryUser model
-          user = await DeliveryUser.findOne({ email })
-            .populate("organizationId", "name companyName")
-            .select("+password");
-
-          if (user) {
-            userRole = "delivery_user";
-          }
-        }
-      }
-
-      if (!user) {
+      // Refuse early while the account or address is locked out
+      await LoginSecurityService.assertNotLocked(email, clientInfo);
+
+      // Credentials live on the identity, the role on its profile
+      const identity = await IdentityService.findByEmail(email);
+      const loginProfile =
+        identity &&
+        (await IdentityService.findLoginProfile(identity, loginData.role));
+
+      if (!identity || !loginProfile) {
+        // Unknown emails count too, so they look the same as known ones
+        await LoginSecurityService.recordFailure(
+          email,
+          "invalid_credentials",
+          clientInfo
+        );
         throw new Error("Invalid email or password");
       }
 
+      const { profile: user, role: userRole } = loginProfile;
+      const attemptUser = this.toAttemptUser(user, userRole);
+
       // Check if user is active
       if (user.status !== "active") {
+        await LoginSecurityService.recordAttempt(
+          email,
+          "inactive",
+          clientInfo,
+          attemptUser
+        );
         throw new Error("Account is not active. Please contact administrator");
       }
 
       // Verify password
       const isValidPassword = await AuthUtils.comparePassword(
         password,
-        user.password
+        identity.password
       );
 
       if (!isValidPassword) {
+        await LoginSecurityService.recordFailure(
+          email,
+          "invalid_credentials",
+          clientInfo,
+          attemptUser
+        );
         throw new Error("Invalid email or password");
       }
 
-      // Generate tokens
-      const tokenPayload = {
-        userId: user._id.toString(),
-        email: user.email,
-        role: userRole as any,
-        organizationId:
-          typeof user.organizationId === "object"
-            ? user.organizationId._id?.toString()
-            : user.organizationId?.toString(),
-      };
+      // The password alone is not enough once two-factor is on or enforced
+      const twoFactorEnabled = await TwoFactorService.isEnabled(
+        user._id.toString()
+      );
+      if (
+        twoFactorEnabled ||
+        (await TwoFactorService.isRequired(
+          userRole,
+          attemptUser.organizationId
+        ))
+      ) {
+        const challengeToken = AuthUtils.generateChallengeToken({
+          userId: user._id.toString(),
+          email: user.email,
+          role: userRole,
+          purpose: twoFactorEnabled ? "two_factor" : "two_factor_setup",
+          deviceName: loginData.deviceName,
+        });
+        await LoginSecurityService.recordAttempt(
+          email,
+          "two_factor_pending",
+          clientInfo,
+          attemptUser
+        );
+
+        return {
+          success: true,
+          message: twoFactorEnabled
+            ? "Two-factor code required"
+            : "Two-factor authentication must be set up before logging in",
+          data: {
+            twoFactorRequired: true,
+            setupRequired: !twoFactorEnabled,
+            challengeToken,
+            expiresIn: CHALLENGE_TOKEN_EXPIRES_MS,
+          },
+        };
+      }
 
-      const tokens = AuthUtils.generateTokens(tokenPayload);
+      return await this.startSession(
+        user,
+        userRole,
+        loginData.deviceName,
+        clientInfo
+      );
+    } catch (error) {
+      if (error instanceof LoginLockedError) throw error;
+      throw new Error(error instanceof Error ? error.message : "Login failed");
+    }
+  }
 
-      // Store refresh token in database for security
-      await RefreshToken.create({
-        userId: user._id,
-        token: tokens.refreshToken,
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
-        isActive: true,
-      });
+  // Two-Factor Login Service, trades a login challenge and a code for tokens
+  static async completeTwoFactorLogin(
+    loginData: TwoFactorLoginRequest,
+    clientInfo?: ClientInfo
+  ): Promise<LoginResponse> {
+    try {
+      const challenge = AuthUtils.verifyChallengeToken(
+        loginData.challengeToken,
+        "two_factor"
+      );
+      await LoginSecurityService.assertNotLocked(challenge.email, clientInfo);
+      const user = await this.findChallengeUser(challenge);
 
-      // Get dashboard URL based on role
-      const dashboardUrl = AuthUtils.getDashboardUrl(userRole as any);
+      // Wrong codes count like wrong passwords, so codes cannot be guessed
+      const isValidCode = await TwoFactorService.verifyCode(
+        challenge.userId,
+        loginData.code
+      );
+      if (!isValidCode) {
+        await LoginSecurityService.recordFailure(
+          challenge.email,
+          "invalid_two_factor",
+          clientInfo,
+          this.toAttemptUser(user, challenge.role)
+        );
+        throw new Error("Invalid two-factor code");
+      }
 
-      return {
-        success: true,
-        message: "Login successful",
-        data: {
-          user: {
-            id: user._id.toString(),
-            email: user.email,
-            name: user.name,
-            role: userRole,
-            organizationId:
-              typeof user.organizationId === "object"
-                ? user.organizationId._id?.toString()
-                : user.organizationId?.toString(),
-            organizationName: user.organizationName, // From populated organization
-          },
-          tokens: {
-            accessToken: tokens.accessToken,
-            refreshToken: tokens.refreshToken,
-            expiresIn: tokens.expiresIn,
-          },
-          dashboardUrl,
-        },
-      };
+      return await this.startSession(
+        user,
+        challenge.role,
+        challenge.deviceName,
+        clientInfo
+      );
+    } catch (error) {
+      if (error instanceof LoginLockedError) throw error;
+      throw new Error(error instanceof Error ? error.message : "Login failed");
+    }
+  }
+
+  // Two-Factor Setup At Login Service, for accounts that must enrol first
+  static async startTwoFactorSetup(
+    challengeToken: string
+  ): Promise<TwoFactorResponse> {
+    try {
+      const challenge = AuthUtils.verifyChallengeToken(
+        challengeToken,
+        "two_factor_setup"
+      );
+      await this.findChallengeUser(challenge);
+
+      const result = await TwoFactorService.setup(
+        challenge.userId,
+        challenge.email
+      );
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      return result;
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to set up two-factor authentication"
+      );
+    }
+  }
+
+  // Two-Factor Enable At Login Service, finishes enrolment and logs in
+  static async completeTwoFactorSetup(
+    loginData: TwoFactorLoginRequest,
+    clientInfo?: ClientInfo
+  ): Promise<LoginResponse> {
+    try {
+      const challenge = AuthUtils.verifyChallengeToken(
+        loginData.challengeToken,
+        "two_factor_setup"
+      );
+      await LoginSecurityService.assertNotLocked(challenge.email, clientInfo);
+      const user = await this.findChallengeUser(challenge);
+
+      const result = await TwoFactorService.enable(
+        challenge.userId,
+        loginData.code
+      );
+      if (!result.success) {
+        await LoginSecurityService.recordFailure(
+          challenge.email,
+          "invalid_two_factor",
+          clientInfo,
+          this.toAttemptUser(user, challenge.role)
+        );
+        throw new Error(result.message);
+      }
+
+      const loginResult = await this.startSession(
+        user,
+        challenge.role,
+        challenge.deviceName,
+        clientInfo
+      );
+      loginResult.data.recoveryCodes = result.data.recoveryCodes;
+
+      return loginResult;
     } catch (error) {
+      if (error instanceof LoginLockedError) throw error;
       throw new Error(error instanceof Error ? error.message : "Login failed");
     }
   }
 
   // Refresh Token Service
   static async refreshToken(
-    refreshData: RefreshTokenRequest
+    refreshData: RefreshTokenRequest,
+    clientInfo?: ClientInfo
   ): Promise<RefreshTokenResponse> {
     try {
       const { refreshToken } = refreshData;
@@ -131,32 +263,73 @@ export class AuthService {
       // Verify refresh token
       const decoded = AuthUtils.verifyRefreshToken(refreshToken);
 
-      // Check if refresh token exists in database and is active
+      // Check if refresh token exists in database
       const tokenRecord = await RefreshToken.findOne({
-        token: refreshToken,
-        isActive: true,
-        expiresAt: { $gt: new Date() },
+        tokenHash: AuthUtils.hashToken(refreshToken),
       });
-      const isValidRefreshToken = !!tokenRecord;
 
-      if (!isValidRefreshToken) {
+      if (!tokenRecord) {
         throw new Error("Invalid refresh token");
       }
 
-      // Generate new access token
-      const newAccessToken = AuthUtils.generateAccessToken({
+      // A token that was already exchanged is being replayed, so one of its
+      // holders is not the user
+      if (tokenRecord.revokedReason === "rotated") {
+        await this.handleTokenReuse(tokenRecord);
+      }
+
+      if (!tokenRecord.isActive || tokenRecord.expiresAt <= new Date()) {
+        throw new Error("Invalid refresh token");
+      }
+
+      // Generate new access and refresh tokens
+      const tokens = AuthUtils.generateTokens({
         userId: decoded.userId,
         email: decoded.email,
         role: decoded.role,
         organizationId: decoded.organizationId,
+        sessionId: tokenRecord.familyId,
+      });
+
+      // The new refresh token joins the family of the one it replaces and
+      // keeps its session details
+      const nextTokenRecord = new RefreshToken({
+        userId: tokenRecord.userId,
+        tokenHash: AuthUtils.hashToken(tokens.refreshToken),
+        familyId: tokenRecord.familyId,
+        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
+        isActive: true,
+        name: tokenRecord.name,
+        deviceInfo: tokenRecord.deviceInfo,
+        location: clientInfo?.location ?? tokenRecord.location,
+        sessionStartedAt: tokenRecord.sessionStartedAt ?? tokenRecord.createdAt,
+        lastUsedAt: new Date(),
+        lastIpAddress: clientInfo?.ipAddress ?? tokenRecord.lastIpAddress,
       });
 
+      // Retire the presented token, only one of two concurrent uses wins
+      const rotated = await RefreshToken.findOneAndUpdate(
+        { _id: tokenRecord._id, isActive: true },
+        {
+          isActive: false,
+          revokedAt: new Date(),
+          revokedReason: "rotated",
+          replacedBy: nextTokenRecord._id,
+        }
+      );
+      if (!rotated) {
+        await this.handleTokenReuse(tokenRecord);
+      }
+
+      await nextTokenRecord.save();
+
       return {
         success: true,
         message: "Token refreshed successfully",
         data: {
-          accessToken: newAccessToken,
-          expiresIn: 15 * 60 * 1000, // 15 minutes
+          accessToken: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+          expiresIn: tokens.expiresIn,
         },
       };
     } catch (error) {
@@ -173,10 +346,10 @@ export class AuthService {
     try {
       const { email } = forgotData;
 
-      // Find user by email
-      const user = await User.findOne({ email });
+      // Find identity by email
+      const identity = await IdentityService.findByEmail(email);
 
-      if (!user) {
+      if (!identity || identity.profiles.length === 0) {
         // Don't reveal if email exists or not for security
         return;
       }
@@ -187,7 +360,7 @@ export class AuthService {
 
       // Store reset token in database
       await PasswordResetToken.create({
-        userId: user._id,
+        userId: identity.profiles[0].profileId,
         token: resetToken,
         expiresAt: resetTokenExpiry,
         used: false,
@@ -233,18 +406,24 @@ export class AuthService {
       // Hash new password
       const hashedPassword = await AuthUtils.hashPassword(newPassword);
 
-      // Update user password and mark reset token as used
-      await User.findByIdAndUpdate(resetTokenData.userId, {
-        password: hashedPassword,
-      });
+      // Update identity password and mark reset token as used
+      const resetUserId = resetTokenData.userId.toString();
+      await IdentityService.setPassword(resetUserId, hashedPassword);
       await PasswordResetToken.findByIdAndUpdate(resetTokenData._id, {
         used: true,
       });
 
-      // Invalidate all refresh tokens for security
+      // Invalidate all refresh tokens of every profile for security
       await RefreshToken.updateMany(
-        { userId: resetTokenData.userId, isActive: true },
-        { isActive: false }
+        {
+          userId: { $in: await IdentityService.getProfileIds(resetUserId) },
+          isActive: true,
+        },
+        {
+          isActive: false,
+          revokedAt: new Date(),
+          revokedReason: "password_reset",
+        }
       );
     } catch (error) {
       throw new Error(
@@ -273,16 +452,16 @@ export class AuthService {
         throw new Error(passwordValidation.errors.join(", "));
       }
 
-      // Find user
-      const user = await User.findById(userId).select("+password");
-      if (!user) {
+      // Find the user's identity
+      const identity = await IdentityService.findByProfileId(userId, true);
+      if (!identity) {
         throw new Error("User not found");
       }
 
       // Verify current password
       const isValidCurrentPassword = await AuthUtils.comparePassword(
         currentPassword,
-        user.password
+        identity.password
       );
       if (!isValidCurrentPassword) {
         throw new Error("Current password is incorrect");
@@ -292,12 +471,21 @@ export class AuthService {
       const hashedNewPassword = await AuthUtils.hashPassword(newPassword);
 
       // Update password
-      await User.findByIdAndUpdate(userId, { password: hashedNewPassword });
+      await IdentityService.setPassword(userId, hashedNewPassword);
 
-      // Invalidate all refresh tokens for security
+      // Invalidate all refresh tokens of every profile for security
       await RefreshToken.updateMany(
-        { userId: userId, isActive: true },
-        { isActive: false }
+        {
+          userId: {
+            $in: identity.profiles.map((profile) => profile.profileId),
+          },
+          isActive: true,
+        },
+        {
+          isActive: false,
+          revokedAt: new Date(),
+          revokedReason: "password_change",
+        }
       );
     } catch (error) {
       throw new Error(
@@ -309,11 +497,13 @@ export class AuthService {
   // Logout Service
   static async logout(userId: string, refreshToken: string): Promise<void> {
     try {
-      // Invalidate the specific refresh token
-      await RefreshToken.findOneAndUpdate(
-        { token: refreshToken },
-        { isActive: false }
-      );
+      // Invalidate the refresh token and every token rotated from its login
+      const tokenRecord = await RefreshToken.findOne({
+        tokenHash: AuthUtils.hashToken(refreshToken),
+      });
+      if (tokenRecord) {
+        await this.revokeTokenFamily(tokenRecord.familyId, "logout");
+      }
     } catch (error) {
       throw new Error(error instanceof Error ? error.message : "Logout failed");
     }
@@ -325,7 +515,7 @@ export class AuthService {
       // Invalidate all refresh tokens for the user
       await RefreshToken.updateMany(
         { userId: userId, isActive: true },
-        { isActive: false }
+        { isActive: false, revokedAt: new Date(), revokedReason: "logout_all" }
       );
     } catch (error) {
       throw new Error(
@@ -336,6 +526,170 @@ export class AuthService {
 
   // Helper Methods
 
+  // Issue tokens for a verified user, every login starts a session
+  private static async startSession(
+    user: AccountProfile,
+    userRole: JWTPayload["role"],
+    deviceName?: string,
+    clientInfo?: ClientInfo
+  ): Promise<LoginResponse> {
+    // A session is a new refresh token family
+    const sessionId = AuthUtils.generateTokenFamily();
+
+    // Generate tokens
+    const tokenPayload = {
+      userId: user._id.toString(),
+      email: user.email,
+      role: userRole,
+      organizationId: user.organizationId?._id?.toString(),
+      sessionId,
+    };
+
+    const tokens = AuthUtils.generateTokens(tokenPayload);
+
+    // Store refresh token hash in database with the device it was issued to
+    await RefreshToken.create({
+      userId: user._id,
+      tokenHash: AuthUtils.hashToken(tokens.refreshToken),
+      familyId: sessionId,
+      expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
+      isActive: true,
+      name: deviceName,
+      deviceInfo: clientInfo && {
+        userAgent: clientInfo.userAgent,
+        ipAddress: clientInfo.ipAddress,
+        deviceType: clientInfo.deviceType,
+      },
+      location: clientInfo?.location,
+      sessionStartedAt: new Date(),
+      lastUsedAt: new Date(),
+      lastIpAddress: clientInfo?.ipAddress,
+    });
+
+    // Tell the user about logins from an unfamiliar device or location
+    const anomalies = await LoginSecurityService.recordSuccess(
+      user.email,
+      this.toAttemptUser(user, userRole),
+      clientInfo
+    );
+    if (anomalies.length > 0) {
+      this.sendLoginAlert(user, anomalies, clientInfo);
+    }
+
+    // Get dashboard URL based on role
+    const dashboardUrl = AuthUtils.getDashboardUrl(userRole);
+
+    return {
+      success: true,
+      message: "Login successful",
+      data: {
+        user: {
+          id: user._id.toString(),
+          email: user.email,
+          name: user.name,
+          role: userRole,
+          organizationId: user.organizationId?._id?.toString(),
+          organizationName: user.organizationName, // From populated organization
+        },
+        tokens: {
+          accessToken: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+          expiresIn: tokens.expiresIn,
+        },
+        dashboardUrl,
+      },
+    };
+  }
+
+  // Helper method to describe a user for the login attempt log
+  private static toAttemptUser(
+    user: AccountProfile,
+    userRole: JWTPayload["role"]
+  ): LoginAttemptUser {
+    return {
+      userId: user._id.toString(),
+      role: userRole,
+      // Populated or not, the organization's _id is its ID
+      organizationId: user.organizationId?._id?.toString(),
+    };
+  }
+
+  // Alert a user about a login that looks unusual
+  private static sendLoginAlert(
+    user: AccountProfile,
+    anomalies: string[],
+    clientInfo?: ClientInfo
+  ): void {
+    const place = [
+      clientInfo?.location?.city,
+      clientInfo?.location?.country,
+      clientInfo?.ipAddress,
+    ]
+      .filter((part) => !!part)
+      .join(", ");
+    const message = `New login to your account from ${
+      anomalies.includes("new_device") ? "a new device" : "a new location"
+    }${place ? ` (${place})` : ""}. If this was not you, change your password.`;
+
+    RealtimeTrackingService.sendToUser(user._id.toString(), "security_alert", {
+      type: "unusual_login",
+      anomalies,
+      message,
+      deviceType: clientInfo?.deviceType,
+      location: clientInfo?.location,
+      ipAddress: clientInfo?.ipAddress,
+      timestamp: new Date(),
+    });
+  }
+
+  // Helper method to reload the user a login challenge was issued to
+  private static async findChallengeUser(
+    challenge: ChallengePayload
+  ): Promise<AccountProfile> {
+    const user: AccountProfile | null = await IdentityService.getModelForRole(
+      challenge.role
+    )
+      .findById(challenge.userId)
+      .populate("organizationId", "name companyName");
+
+    // The account may have been suspended since the password was checked
+    if (!user || user.status !== "active") {
+      throw new Error("Account is not active. Please contact administrator");
+    }
+
+    return user;
+  }
+
+  // Revoke every token of a family and tell the user it was compromised
+  private static async handleTokenReuse(
+    tokenRecord: IRefreshToken
+  ): Promise<never> {
+    await this.revokeTokenFamily(tokenRecord.familyId, "reuse_detected");
+
+    const userId = tokenRecord.userId.toString();
+    const message =
+      "A refresh token was used twice, so the session has been signed out. If this was not you, change your password.";
+    RealtimeTrackingService.sendToUser(userId, "security_alert", {
+      type: "refresh_token_reuse",
+      message,
+      timestamp: new Date(),
+    });
+
+    throw new Error("Refresh token reuse detected. Please log in again");
+  }
+
+  // Revoke the active tokens of a family
+  private static async revokeTokenFamily(
+    familyId: string,
+    reason: RefreshTokenRevokeReason
+  ): Promise<void> {
+    await RefreshToken.updateMany(
+      { familyId, isActive: true },
+      { isActive: false, revokedAt: new Date(), revokedReason: reason }
+    );
+    RealtimeTrackingService.closeSession(familyId, reason);
+  }
+
   private static async sendPasswordResetEmail(
     email: string,
     resetToken: string
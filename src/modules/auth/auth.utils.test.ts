@@ -0,0 +1,40 @@
+import { Request } from "express";
+import { env } from "../../config/env";
+import { AuthUtils } from "./auth.utils";
+
+const buildRequest = (headers: Record<string, string>) =>
+  ({
+    ip: "203.0.113.7",
+    socket: {},
+    get: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request);
+
+describe("AuthUtils.getClientInfo", () => {
+  const trustProxy = env.TRUST_PROXY;
+  const request = buildRequest({
+    "user-agent": "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0)",
+    "cf-ipcountry": "DE",
+    "cf-ipcity": "Berlin",
+  });
+
+  afterEach(() => {
+    env.TRUST_PROXY = trustProxy;
+  });
+
+  it("reads the location from a trusted proxy's geo headers", () => {
+    env.TRUST_PROXY = "1";
+
+    expect(AuthUtils.getClientInfo(request)).toEqual({
+      userAgent: "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0)",
+      ipAddress: "203.0.113.7",
+      deviceType: "mobile",
+      location: { city: "Berlin", region: undefined, country: "DE" },
+    });
+  });
+
+  it("ignores geo headers when no proxy is trusted", () => {
+    env.TRUST_PROXY = undefined;
+
+    expect(AuthUtils.getClientInfo(request).location).toBeUndefined();
+  });
+});
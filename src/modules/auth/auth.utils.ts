@@ -1,7 +1,9 @@
 import bcrypt from "bcryptjs";
 import crypto from "crypto";
+import { Request } from "express";
 import jwt from "jsonwebtoken";
 import { env } from "../../config/env";
+import { ClientInfo } from "./auth.interface";
 
 // JWT Payload Interface
 export interface JWTPayload {
@@ -9,6 +11,7 @@ export interface JWTPayload {
   email: string;
   role: "super_admin" | "admin" | "delivery_user" | "organization_admin";
   organizationId?: string;
+  sessionId?: string;
 }
 
 // Token Response Interface
@@ -18,6 +21,15 @@ export interface TokenResponse {
   expiresIn: number;
 }
 
+// Two-Factor Login Challenge Payload Interface
+export interface ChallengePayload {
+  userId: string;
+  email: string;
+  role: JWTPayload["role"];
+  purpose: "two_factor" | "two_factor_setup";
+  deviceName?: string;
+}
+
 // JWT Configuration
 const JWT_ACCESS_SECRET = env.JWT_ACCESS_SECRET;
 const JWT_REFRESH_SECRET = env.JWT_REFRESH_SECRET;
@@ -25,6 +37,9 @@ const ACCESS_TOKEN_EXPIRES: jwt.SignOptions["expiresIn"] =
   env.ACCESS_TOKEN_EXPIRES;
 const REFRESH_TOKEN_EXPIRES: jwt.SignOptions["expiresIn"] =
   env.REFRESH_TOKEN_EXPIRES;
+// Challenges use their own secret so they can never pass as access tokens
+const TWO_FACTOR_CHALLENGE_SECRET = env.TWO_FACTOR_CHALLENGE_SECRET;
+export const CHALLENGE_TOKEN_EXPIRES_MS = 5 * 60 * 1000; // 5 minutes
 
 export class AuthUtils {
   // Generate Access Token
@@ -35,11 +50,12 @@ export class AuthUtils {
     });
   }
 
-  // Generate Refresh Token
+  // Generate Refresh Token, unique even when issued twice in one second
   static generateRefreshToken(payload: JWTPayload): string {
     return jwt.sign(payload, JWT_REFRESH_SECRET, {
       expiresIn: REFRESH_TOKEN_EXPIRES,
       issuer: "geotrack-api",
+      jwtid: crypto.randomUUID(),
     });
   }
 
@@ -71,6 +87,31 @@ export class AuthUtils {
     }
   }
 
+  // Generate Two-Factor Login Challenge Token
+  static generateChallengeToken(payload: ChallengePayload): string {
+    return jwt.sign(payload, TWO_FACTOR_CHALLENGE_SECRET, {
+      expiresIn: CHALLENGE_TOKEN_EXPIRES_MS / 1000,
+      issuer: "geotrack-api",
+    });
+  }
+
+  // Verify Two-Factor Login Challenge Token
+  static verifyChallengeToken(
+    token: string,
+    purpose: ChallengePayload["purpose"]
+  ): ChallengePayload {
+    try {
+      const decoded = jwt.verify(
+        token,
+        TWO_FACTOR_CHALLENGE_SECRET
+      ) as ChallengePayload;
+      if (decoded.purpose !== purpose) throw new Error("Wrong challenge");
+      return decoded;
+    } catch (error) {
+      throw new Error("Invalid or expired login challenge");
+    }
+  }
+
   // Hash Password
   static async hashPassword(password: string): Promise<string> {
     const saltRounds = 12;
@@ -90,6 +131,16 @@ export class AuthUtils {
     return crypto.randomBytes(32).toString("hex");
   }
 
+  // Generate Refresh Token Family ID
+  static generateTokenFamily(): string {
+    return crypto.randomUUID();
+  }
+
+  // Hash Token for storage, tokens are long and random so no salt is needed
+  static hashToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+  }
+
   // Generate Reset Token Expiry (1 hour from now)
   static generateResetTokenExpiry(): Date {
     return new Date(Date.now() + 3600000); // 1 hour
@@ -103,6 +154,49 @@ export class AuthUtils {
     return authHeader.substring(7); // Remove 'Bearer ' prefix
   }
 
+  // Get Client Info of a request for its session
+  static getClientInfo(req: Request): ClientInfo {
+    const userAgent = (req.get("user-agent") ?? "").slice(0, 500);
+    const header = (...names: string[]) =>
+      names.map((name) => req.get(name)).find((value) => !!value);
+
+    // Approximate location comes from geo headers set by a CDN or proxy,
+    // which only a trusted proxy can vouch for
+    const location = {
+      city: header("cf-ipcity", "x-vercel-ip-city", "cloudfront-viewer-city"),
+      region: header(
+        "cf-region",
+        "x-vercel-ip-country-region",
+        "cloudfront-viewer-country-region"
+      ),
+      country: header(
+        "cf-ipcountry",
+        "x-vercel-ip-country",
+        "cloudfront-viewer-country"
+      ),
+    };
+
+    return {
+      userAgent,
+      ipAddress: req.ip ?? req.socket.remoteAddress ?? "",
+      deviceType: this.getDeviceType(userAgent),
+      location:
+        env.TRUST_PROXY && Object.values(location).some((value) => !!value)
+          ? location
+          : undefined,
+    };
+  }
+
+  // Get Device Type from User Agent
+  static getDeviceType(userAgent: string): ClientInfo["deviceType"] {
+    if (/android|iphone|ipad|mobile|okhttp|dart|cfnetwork/i.test(userAgent)) {
+      return "mobile";
+    }
+    if (/electron/i.test(userAgent)) return "desktop";
+    if (/mozilla|chrome|safari|firefox/i.test(userAgent)) return "web";
+    return "unknown";
+  }
+
   // Get Role-based Dashboard URL
   static getDashboardUrl(role: JWTPayload["role"]): string {
     const dashboardUrls = {
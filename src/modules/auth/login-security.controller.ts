@@ -0,0 +1,125 @@
+import { Response } from "express";
+import { AuthenticatedRequest, UserRole } from "./auth.interface";
+import { LoginAttemptOutcome } from "./login-security.model";
+import { LoginSecurityService } from "./login-security.service";
+
+// Helper to limit organization admins to their own organization
+const getScopedOrganizationId = (req: AuthenticatedRequest) =>
+  req.user!.role === UserRole.ORGANIZATION_ADMIN
+    ? req.user!.organizationId
+    : undefined;
+
+export class LoginSecurityController {
+  // Get Login Attempts Controller
+  static async getLoginAttempts(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const { email, userId, ipAddress, outcome, flagged, from, to } =
+        req.query;
+
+      const result = await LoginSecurityService.getLoginAttempts(
+        {
+          email: email as string,
+          userId: userId as string,
+          ipAddress: ipAddress as string,
+          outcome: outcome as LoginAttemptOutcome,
+          flagged: flagged === "true",
+          from: from ? new Date(from as string) : undefined,
+          to: to ? new Date(to as string) : undefined,
+        },
+        page,
+        limit,
+        getScopedOrganizationId(req)
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to get login attempts";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+        error: "LOGIN_ATTEMPTS_FAILED",
+      });
+    }
+  }
+
+  // Get Login Security Overview Controller
+  static async getOverview(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const result = await LoginSecurityService.getOverview(
+        getScopedOrganizationId(req)
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to get login security overview";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+        error: "LOGIN_SECURITY_OVERVIEW_FAILED",
+      });
+    }
+  }
+
+  // Get Lockouts Controller
+  static async getLockouts(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const result = await LoginSecurityService.getLockouts();
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to get lockouts";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+        error: "LOCKOUTS_FAILED",
+      });
+    }
+  }
+
+  // Clear Lockout Controller
+  static async clearLockout(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { lockoutId } = req.params;
+
+      const result = await LoginSecurityService.clearLockout(lockoutId);
+
+      if (!result.success) {
+        res.status(404).json({ ...result, error: "LOCKOUT_NOT_FOUND" });
+        return;
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to clear lockout";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+        error: "CLEAR_LOCKOUT_FAILED",
+      });
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type LoginAttemptOutcome =
+  | "success"
+  | "two_factor_pending"
+  | "invalid_credentials"
+  | "invalid_two_factor"
+  | "inactive"
+  | "locked";
+
+export type LoginAnomaly = "new_device" | "new_location";
+
+export type LoginThrottleScope = "account" | "ip";
+
+// Login Attempt Interface, one per password or two-factor submission
+export interface ILoginAttempt extends Document {
+  email: string;
+  userId?: string;
+  role?: string;
+  organizationId?: string;
+  outcome: LoginAttemptOutcome;
+  ipAddress?: string;
+  network?: string; // IPv4 /24 or IPv6 /64 the address belongs to
+  userAgent?: string;
+  deviceType?: string;
+  location?: {
+    city?: string;
+    region?: string;
+    country?: string;
+  };
+  anomalies: LoginAnomaly[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Login Throttle Interface, failed attempts of an account or an address
+export interface ILoginThrottle extends Document {
+  scope: LoginThrottleScope;
+  key: string; // email for accounts, IP address for addresses
+  failures: number; // since the last success or quiet period
+  lastFailureAt?: Date;
+  lockedUntil?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Login Attempt Schema
+const loginAttemptSchema = new Schema<ILoginAttempt>(
+  {
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    userId: {
+      type: String,
+    },
+    role: {
+      type: String,
+    },
+    organizationId: {
+      type: String,
+      ref: "Organization",
+    },
+    outcome: {
+      type: String,
+      enum: [
+        "success",
+        "two_factor_pending",
+        "invalid_credentials",
+        "invalid_two_factor",
+        "inactive",
+        "locked",
+      ],
+      required: true,
+    },
+    ipAddress: {
+      type: String,
+      maxlength: 45,
+    },
+    network: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+      maxlength: 500,
+    },
+    deviceType: {
+      type: String,
+      enum: ["web", "mobile", "desktop", "unknown"],
+    },
+    location: {
+      city: String,
+      region: String,
+      country: String,
+    },
+    anomalies: {
+      type: [String],
+      enum: ["new_device", "new_location"],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Login Throttle Schema
+const loginThrottleSchema = new Schema<ILoginThrottle>(
+  {
+    scope: {
+      type: String,
+      enum: ["account", "ip"],
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    failures: {
+      type: Number,
+      default: 0,
+    },
+    lastFailureAt: {
+      type: Date,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better performance
+loginAttemptSchema.index({ userId: 1, outcome: 1, createdAt: -1 });
+loginAttemptSchema.index({ organizationId: 1, createdAt: -1 });
+loginAttemptSchema.index({ email: 1, createdAt: -1 });
+loginAttemptSchema.index({ ipAddress: 1, createdAt: -1 });
+loginAttemptSchema.index({ anomalies: 1, createdAt: -1 });
+// Attempts are kept for 90 days
+loginAttemptSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 90 * 24 * 60 * 60 }
+);
+
+loginThrottleSchema.index({ scope: 1, key: 1 }, { unique: true });
+loginThrottleSchema.index({ lockedUntil: 1 });
+
+// Transform toJSON
+loginAttemptSchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+loginThrottleSchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+// Models
+export const LoginAttempt = mongoose.model<ILoginAttempt>(
+  "LoginAttempt",
+  loginAttemptSchema
+);
+
+export const LoginThrottle = mongoose.model<ILoginThrottle>(
+  "LoginThrottle",
+  loginThrottleSchema
+);
+
+export default LoginAttempt;
@@ -0,0 +1,179 @@
+import { Types } from "mongoose";
+import { env } from "../../config/env";
+import { ClientInfo } from "./auth.interface";
+import { LoginAttempt, LoginThrottle } from "./login-security.model";
+import {
+  LoginLockedError,
+  LoginSecurityService,
+} from "./login-security.service";
+
+const now = new Date("2026-01-01T00:00:00Z").getTime();
+const clientInfo: ClientInfo = {
+  userAgent: "Mozilla/5.0",
+  ipAddress: "203.0.113.7",
+  deviceType: "web",
+};
+
+describe("LoginSecurityService", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    jest.spyOn(LoginAttempt, "create").mockResolvedValue([] as never);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("recordFailure", () => {
+    // Count the failure as the given total and return the lockout it set
+    const failAccount = async (failures: number) => {
+      const throttleId = new Types.ObjectId();
+      const updateOne = jest
+        .spyOn(LoginThrottle, "updateOne")
+        .mockResolvedValue({} as never);
+      jest
+        .spyOn(LoginThrottle, "findOneAndUpdate")
+        .mockResolvedValue({ _id: throttleId, failures } as never);
+
+      await LoginSecurityService.recordFailure(
+        "Rider@Example.com",
+        "invalid_credentials"
+      );
+
+      const calls = updateOne.mock.calls as unknown as [
+        { _id?: Types.ObjectId },
+        { lockedUntil: Date }
+      ][];
+      const lockCall = calls.find(([filter]) => filter._id === throttleId);
+      updateOne.mockRestore();
+      return lockCall
+        ? (lockCall[1].lockedUntil.getTime() - now) / 1000
+        : undefined;
+    };
+
+    it("does not lock below the account limit", async () => {
+      await expect(
+        failAccount(env.LOGIN_ACCOUNT_MAX_FAILURES - 1)
+      ).resolves.toBeUndefined();
+    });
+
+    it("doubles the lockout for every failure past the limit", async () => {
+      const max = env.LOGIN_ACCOUNT_MAX_FAILURES;
+
+      await expect(failAccount(max)).resolves.toBe(env.LOGIN_LOCKOUT_BASE);
+      await expect(failAccount(max + 1)).resolves.toBe(
+        env.LOGIN_LOCKOUT_BASE * 2
+      );
+      await expect(failAccount(max + 3)).resolves.toBe(
+        env.LOGIN_LOCKOUT_BASE * 8
+      );
+    });
+
+    it("caps the lockout", async () => {
+      await expect(
+        failAccount(env.LOGIN_ACCOUNT_MAX_FAILURES + 30)
+      ).resolves.toBe(env.LOGIN_LOCKOUT_MAX);
+    });
+
+    it("counts the failure against the account and the address", async () => {
+      jest.spyOn(LoginThrottle, "updateOne").mockResolvedValue({} as never);
+      const findOneAndUpdate = jest
+        .spyOn(LoginThrottle, "findOneAndUpdate")
+        .mockResolvedValue({ _id: new Types.ObjectId(), failures: 1 } as never);
+
+      await LoginSecurityService.recordFailure(
+        "Rider@Example.com",
+        "invalid_credentials",
+        clientInfo
+      );
+
+      const keys = findOneAndUpdate.mock.calls.map(([filter]) => filter);
+      expect(keys).toEqual([
+        { scope: "account", key: "rider@example.com" },
+        { scope: "ip", key: "203.0.113.7" },
+      ]);
+    });
+  });
+
+  describe("assertNotLocked", () => {
+    it("lets the login through without an active lockout", async () => {
+      jest.spyOn(LoginThrottle, "find").mockResolvedValue([]);
+
+      await expect(
+        LoginSecurityService.assertNotLocked("rider@example.com")
+      ).resolves.toBeUndefined();
+      expect(LoginAttempt.create).not.toHaveBeenCalled();
+    });
+
+    it("refuses the login until the latest lockout ends", async () => {
+      jest
+        .spyOn(LoginThrottle, "find")
+        .mockResolvedValue([
+          { lockedUntil: new Date(now + 30 * 1000) },
+          { lockedUntil: new Date(now + 120 * 1000 + 1) },
+        ] as never);
+
+      const error = await LoginSecurityService.assertNotLocked(
+        "rider@example.com",
+        clientInfo
+      ).catch((error) => error);
+
+      expect(error).toBeInstanceOf(LoginLockedError);
+      expect(error.retryAfter).toBe(121);
+      expect(LoginAttempt.create).toHaveBeenCalledWith(
+        expect.objectContaining({ outcome: "locked" })
+      );
+    });
+  });
+
+  describe("recordSuccess", () => {
+    const trustProxy = env.TRUST_PROXY;
+    const user = { userId: new Types.ObjectId().toString(), role: "admin" };
+
+    // The user always logged in from Germany, on one home network
+    beforeEach(() => {
+      const previousLogins = [
+        {
+          userAgent: clientInfo.userAgent,
+          network: "198.51.100.0/24",
+          location: { country: "DE" },
+        },
+      ];
+      const query = {
+        sort: () => query,
+        limit: () => query,
+        select: async () => previousLogins,
+      };
+      jest.spyOn(LoginAttempt, "find").mockReturnValue(query as never);
+      jest.spyOn(LoginThrottle, "deleteOne").mockResolvedValue({} as never);
+    });
+
+    afterEach(() => {
+      env.TRUST_PROXY = trustProxy;
+    });
+
+    const loginFromGermany = () =>
+      LoginSecurityService.recordSuccess("rider@example.com", user, {
+        ...clientInfo,
+        location: { country: "DE" },
+      });
+
+    it("trusts a known country reported by a trusted proxy", async () => {
+      env.TRUST_PROXY = "1";
+
+      await expect(loginFromGermany()).resolves.toEqual([]);
+    });
+
+    it("compares networks when the country was not vouched for", async () => {
+      env.TRUST_PROXY = undefined;
+
+      await expect(loginFromGermany()).resolves.toEqual(["new_location"]);
+      expect(LoginAttempt.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: "success",
+          anomalies: ["new_location"],
+        })
+      );
+    });
+  });
+});
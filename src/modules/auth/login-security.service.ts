@@ -0,0 +1,417 @@
+import { env } from "../../config/env";
+import { ClientInfo, LoginSecurityResponse } from "./auth.interface";
+import {
+  LoginAnomaly,
+  LoginAttempt,
+  LoginAttemptOutcome,
+  LoginThrottle,
+  LoginThrottleScope,
+} from "./login-security.model";
+
+// Account a login attempt was matched to
+export interface LoginAttemptUser {
+  userId: string;
+  role: string;
+  organizationId?: string;
+}
+
+export interface LoginAttemptFilters {
+  email?: string;
+  userId?: string;
+  ipAddress?: string;
+  outcome?: LoginAttemptOutcome;
+  flagged?: boolean;
+  from?: Date;
+  to?: Date;
+}
+
+// Thrown while an account or address is locked out
+export class LoginLockedError extends Error {
+  constructor(public retryAfter: number) {
+    super(
+      `Too many failed login attempts. Please try again in ${retryAfter} seconds`
+    );
+    this.name = "LoginLockedError";
+  }
+}
+
+export class LoginSecurityService {
+  // Refuse a login while its account or address is locked out
+  static async assertNotLocked(
+    email: string,
+    clientInfo?: ClientInfo
+  ): Promise<void> {
+    const now = new Date();
+    const throttles = await LoginThrottle.find({
+      $or: this.getThrottleKeys(email, clientInfo),
+      lockedUntil: { $gt: now },
+    });
+
+    if (throttles.length === 0) {
+      return;
+    }
+
+    const lockedUntil = Math.max(
+      ...throttles.map((throttle) => throttle.lockedUntil!.getTime())
+    );
+    await this.recordAttempt(email, "locked", clientInfo);
+
+    throw new LoginLockedError(Math.ceil((lockedUntil - now.getTime()) / 1000));
+  }
+
+  // Record a failed login and count it against its account and address
+  static async recordFailure(
+    email: string,
+    outcome: LoginAttemptOutcome,
+    clientInfo?: ClientInfo,
+    user?: LoginAttemptUser
+  ): Promise<void> {
+    await this.recordAttempt(email, outcome, clientInfo, user);
+
+    for (const { scope, key } of this.getThrottleKeys(email, clientInfo)) {
+      await this.registerFailure(scope, key);
+    }
+  }
+
+  // Record a login that started a session, flagged when it comes from an
+  // unfamiliar device or location. The account's failures are forgotten.
+  static async recordSuccess(
+    email: string,
+    user: LoginAttemptUser,
+    clientInfo?: ClientInfo
+  ): Promise<LoginAnomaly[]> {
+    const anomalies = await this.detectAnomalies(user.userId, clientInfo);
+
+    await this.recordAttempt(email, "success", clientInfo, user, anomalies);
+    await LoginThrottle.deleteOne({
+      scope: "account",
+      key: this.normalizeEmail(email),
+    });
+
+    return anomalies;
+  }
+
+  // Record a login attempt without counting it as a failure
+  static async recordAttempt(
+    email: string,
+    outcome: LoginAttemptOutcome,
+    clientInfo?: ClientInfo,
+    user?: LoginAttemptUser,
+    anomalies: LoginAnomaly[] = []
+  ): Promise<void> {
+    await LoginAttempt.create({
+      email: this.normalizeEmail(email),
+      userId: user?.userId,
+      role: user?.role,
+      organizationId: user?.organizationId,
+      outcome,
+      ipAddress: clientInfo?.ipAddress || undefined,
+      network: clientInfo?.ipAddress
+        ? this.getNetwork(clientInfo.ipAddress)
+        : undefined,
+      userAgent: clientInfo?.userAgent || undefined,
+      deviceType: clientInfo?.deviceType,
+      location: clientInfo?.location,
+      anomalies,
+    });
+  }
+
+  // Get login attempts, limited to one organization for organization admins
+  static async getLoginAttempts(
+    filters: LoginAttemptFilters,
+    page: number = 1,
+    limit: number = 20,
+    organizationId?: string
+  ): Promise<LoginSecurityResponse> {
+    try {
+      const query: any = {};
+
+      if (organizationId) {
+        query.organizationId = organizationId;
+      }
+      if (filters.email) {
+        query.email = this.normalizeEmail(filters.email);
+      }
+      if (filters.userId) {
+        query.userId = filters.userId;
+      }
+      if (filters.ipAddress) {
+        query.ipAddress = filters.ipAddress;
+      }
+      if (filters.outcome) {
+        query.outcome = filters.outcome;
+      }
+      if (filters.flagged) {
+        query["anomalies.0"] = { $exists: true };
+      }
+      if (filters.from || filters.to) {
+        query.createdAt = {};
+        if (filters.from) query.createdAt.$gte = filters.from;
+        if (filters.to) query.createdAt.$lte = filters.to;
+      }
+
+      const skip = (page - 1) * limit;
+
+      const [attempts, total] = await Promise.all([
+        LoginAttempt.find(query)
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit),
+        LoginAttempt.countDocuments(query),
+      ]);
+
+      return {
+        success: true,
+        message: "Login attempts retrieved successfully",
+        data: attempts,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get login attempts"
+      );
+    }
+  }
+
+  // Get accounts and addresses that are locked out right now
+  static async getLockouts(): Promise<LoginSecurityResponse> {
+    try {
+      const lockouts = await LoginThrottle.find({
+        lockedUntil: { $gt: new Date() },
+      }).sort({ lockedUntil: -1 });
+
+      return {
+        success: true,
+        message: "Lockouts retrieved successfully",
+        data: lockouts,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get lockouts"
+      );
+    }
+  }
+
+  // Lift a lockout and forget its failures
+  static async clearLockout(lockoutId: string): Promise<LoginSecurityResponse> {
+    try {
+      const lockout = await LoginThrottle.findByIdAndDelete(lockoutId).catch(
+        () => null
+      );
+
+      if (!lockout) {
+        return {
+          success: false,
+          message: "Lockout not found",
+        };
+      }
+
+      return {
+        success: true,
+        message: "Lockout cleared successfully",
+        data: lockout,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to clear lockout"
+      );
+    }
+  }
+
+  // Get login outcomes and flagged logins of the last 24 hours
+  static async getOverview(
+    organizationId?: string
+  ): Promise<LoginSecurityResponse> {
+    try {
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      const match: any = { createdAt: { $gte: since } };
+      if (organizationId) {
+        match.organizationId = organizationId;
+      }
+
+      const [outcomes, flaggedLogins, activeLockouts] = await Promise.all([
+        LoginAttempt.aggregate([
+          { $match: match },
+          { $group: { _id: "$outcome", count: { $sum: 1 } } },
+        ]),
+        LoginAttempt.countDocuments({
+          ...match,
+          "anomalies.0": { $exists: true },
+        }),
+        // Lockouts are keyed by email and address, not by organization
+        organizationId
+          ? Promise.resolve(undefined)
+          : LoginThrottle.countDocuments({ lockedUntil: { $gt: new Date() } }),
+      ]);
+
+      return {
+        success: true,
+        message: "Login security overview retrieved successfully",
+        data: {
+          since,
+          outcomes: Object.fromEntries(
+            outcomes.map((outcome) => [outcome._id, outcome.count])
+          ),
+          flaggedLogins,
+          activeLockouts,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to get login security overview"
+      );
+    }
+  }
+
+  // Helper method to count a failure and lock out once the limit is reached
+  private static async registerFailure(
+    scope: LoginThrottleScope,
+    key: string
+  ): Promise<void> {
+    const now = Date.now();
+    const quietSince = new Date(now - env.LOGIN_FAILURE_WINDOW * 1000);
+
+    // Failures are forgotten after a quiet period, counted from the later of
+    // the last failure and the end of the last lockout
+    await LoginThrottle.updateOne(
+      {
+        scope,
+        key,
+        lastFailureAt: { $lt: quietSince },
+        $or: [
+          { lockedUntil: { $exists: false } },
+          { lockedUntil: { $lt: quietSince } },
+        ],
+      },
+      { $set: { failures: 0 }, $unset: { lockedUntil: "" } }
+    );
+
+    const throttle = await LoginThrottle.findOneAndUpdate(
+      { scope, key },
+      { $inc: { failures: 1 }, $set: { lastFailureAt: new Date(now) } },
+      { upsert: true, new: true }
+    );
+
+    const maxFailures =
+      scope === "account"
+        ? env.LOGIN_ACCOUNT_MAX_FAILURES
+        : env.LOGIN_IP_MAX_FAILURES;
+    if (throttle.failures < maxFailures) {
+      return;
+    }
+
+    // Every failure past the limit doubles the lockout
+    const lockout = Math.min(
+      env.LOGIN_LOCKOUT_BASE * 2 ** (throttle.failures - maxFailures),
+      env.LOGIN_LOCKOUT_MAX
+    );
+    await LoginThrottle.updateOne(
+      { _id: throttle._id },
+      { lockedUntil: new Date(now + lockout * 1000) }
+    );
+  }
+
+  // Helper method to compare a login with the user's earlier ones
+  private static async detectAnomalies(
+    userId: string,
+    clientInfo?: ClientInfo
+  ): Promise<LoginAnomaly[]> {
+    if (!clientInfo) {
+      return [];
+    }
+
+    const previousLogins = await LoginAttempt.find({
+      userId,
+      outcome: "success",
+    })
+      .sort({ createdAt: -1 })
+      .limit(50)
+      .select("userAgent network location");
+
+    // Nothing to compare the first login with
+    if (previousLogins.length === 0) {
+      return [];
+    }
+
+    const anomalies: LoginAnomaly[] = [];
+
+    const device = this.getDeviceSignature(clientInfo.userAgent);
+    if (
+      !previousLogins.some(
+        (login) => this.getDeviceSignature(login.userAgent ?? "") === device
+      )
+    ) {
+      anomalies.push("new_device");
+    }
+
+    // Compare countries when a trusted proxy reports them, networks
+    // otherwise. A country the client sent itself proves nothing.
+    const country = env.TRUST_PROXY ? clientInfo.location?.country : undefined;
+    const loginsWithCountry = previousLogins.filter(
+      (login) => !!login.location?.country
+    );
+    const network = this.getNetwork(clientInfo.ipAddress);
+    const isKnownLocation =
+      country && loginsWithCountry.length > 0
+        ? loginsWithCountry.some((login) => login.location!.country === country)
+        : previousLogins.some((login) => login.network === network);
+    if (!isKnownLocation) {
+      anomalies.push("new_location");
+    }
+
+    return anomalies;
+  }
+
+  // Helper method to get the throttles a login counts against
+  private static getThrottleKeys(email: string, clientInfo?: ClientInfo) {
+    const keys: { scope: LoginThrottleScope; key: string }[] = [
+      { scope: "account", key: this.normalizeEmail(email) },
+    ];
+    if (clientInfo?.ipAddress) {
+      keys.push({ scope: "ip", key: clientInfo.ipAddress });
+    }
+    return keys;
+  }
+
+  // Helper method to identify a device by its user agent without versions,
+  // so browser and app updates do not look like a new device
+  private static getDeviceSignature(userAgent: string): string {
+    return userAgent.replace(/[\d._]+/g, "").toLowerCase();
+  }
+
+  // Helper method to get the /24 (IPv4) or /64 (IPv6) network of an address
+  private static getNetwork(ipAddress: string): string {
+    const address = ipAddress.replace(/^::ffff:/, "");
+
+    if (address.includes(".")) {
+      return `${address.split(".").slice(0, 3).join(".")}.0/24`;
+    }
+
+    const [head, tail] = address.split("::");
+    const headGroups = head ? head.split(":") : [];
+    const tailGroups = tail ? tail.split(":") : [];
+    const groups =
+      tail === undefined
+        ? headGroups
+        : [
+            ...headGroups,
+            ...Array(
+              Math.max(8 - headGroups.length - tailGroups.length, 0)
+            ).fill("0"),
+            ...tailGroups,
+          ];
+
+    return `${groups.slice(0, 4).join(":")}::/64`;
+  }
+
+  private static normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
@@ -0,0 +1,198 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "./auth.interface";
+import { SessionService } from "./session.service";
+
+export class SessionController {
+  // List Sessions Controller
+  static async listSessions(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { userId, sessionId } = req.user!;
+
+      const result = await SessionService.listSessions(userId, sessionId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to get sessions";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+        error: "SESSIONS_FAILED",
+      });
+    }
+  }
+
+  // Rename Session Controller
+  static async renameSession(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const { sessionId } = req.params;
+
+      const result = await SessionService.renameSession(
+        userId,
+        sessionId,
+        req.body.name
+      );
+
+      if (!result.success) {
+        res.status(404).json({ ...result, error: "SESSION_NOT_FOUND" });
+        return;
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to rename session";
+
+      res.status(400).json({
+        success: false,
+        message: errorMessage,
+        error: "RENAME_SESSION_FAILED",
+      });
+    }
+  }
+
+  // Revoke Session Controller
+  static async revokeSession(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const { sessionId } = req.params;
+
+      const result = await SessionService.revokeSession(
+        userId,
+        sessionId,
+        userId
+      );
+
+      if (!result.success) {
+        res.status(404).json({ ...result, error: "SESSION_NOT_FOUND" });
+        return;
+      }
+
+      // Revoking the current session is a logout
+      if (sessionId === req.user!.sessionId) {
+        res.clearCookie("refreshToken");
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to revoke session";
+
+      res.status(400).json({
+        success: false,
+        message: errorMessage,
+        error: "REVOKE_SESSION_FAILED",
+      });
+    }
+  }
+
+  // List Delivery User Sessions Controller (Organization Admin)
+  static async listDeliveryUserSessions(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { userId } = req.params;
+
+      const result = await SessionService.listDeliveryUserSessions(
+        organizationId,
+        userId
+      );
+
+      if (!result.success) {
+        res.status(404).json({ ...result, error: "USER_NOT_FOUND" });
+        return;
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to get sessions";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+        error: "SESSIONS_FAILED",
+      });
+    }
+  }
+
+  // Revoke Delivery User Session Controller (Organization Admin)
+  static async revokeDeliveryUserSession(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { userId, sessionId } = req.params;
+
+      const result = await SessionService.revokeDeliveryUserSession(
+        organizationId,
+        userId,
+        sessionId,
+        req.user!.userId
+      );
+
+      if (!result.success) {
+        res.status(404).json({ ...result, error: "SESSION_NOT_FOUND" });
+        return;
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to revoke session";
+
+      res.status(400).json({
+        success: false,
+        message: errorMessage,
+        error: "REVOKE_SESSION_FAILED",
+      });
+    }
+  }
+
+  // Revoke All Delivery User Sessions Controller (Organization Admin)
+  static async revokeAllDeliveryUserSessions(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { userId } = req.params;
+
+      const result = await SessionService.revokeAllDeliveryUserSessions(
+        organizationId,
+        userId,
+        req.user!.userId
+      );
+
+      if (!result.success) {
+        res.status(404).json({ ...result, error: "USER_NOT_FOUND" });
+        return;
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to revoke sessions";
+
+      res.status(400).json({
+        success: false,
+        message: errorMessage,
+        error: "REVOKE_SESSIONS_FAILED",
+      });
+    }
+  }
+}
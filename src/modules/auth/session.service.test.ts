@@ -0,0 +1,56 @@
+import { Types } from "mongoose";
+import { RealtimeTrackingService } from "../tracking/realtime-tracking.service";
+import { RefreshToken } from "./auth.model";
+import { SessionService } from "./session.service";
+
+const userId = new Types.ObjectId().toString();
+const adminId = new Types.ObjectId().toString();
+
+describe("SessionService.revokeSession", () => {
+  let closeSession: jest.SpyInstance;
+
+  beforeEach(() => {
+    closeSession = jest
+      .spyOn(RealtimeTrackingService, "closeSession")
+      .mockImplementation();
+  });
+
+  it("revokes every active token of the family and drops its sockets", async () => {
+    const updateMany = jest
+      .spyOn(RefreshToken, "updateMany")
+      .mockResolvedValue({ modifiedCount: 1 } as never);
+
+    const result = await SessionService.revokeSession(
+      userId,
+      "family-1",
+      adminId,
+      "admin_revoked"
+    );
+
+    expect(result.success).toBe(true);
+    expect(updateMany).toHaveBeenCalledWith(
+      { userId, familyId: "family-1", isActive: true },
+      expect.objectContaining({
+        isActive: false,
+        revokedReason: "admin_revoked",
+        revokedBy: adminId,
+      })
+    );
+    expect(closeSession).toHaveBeenCalledWith("family-1", "admin_revoked");
+  });
+
+  it("reports a session that is not active or not the user's", async () => {
+    jest
+      .spyOn(RefreshToken, "updateMany")
+      .mockResolvedValue({ modifiedCount: 0 } as never);
+
+    const result = await SessionService.revokeSession(
+      userId,
+      "family-2",
+      userId
+    );
+
+    expect(result).toEqual({ success: false, message: "Session not found" });
+    expect(closeSession).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,231 @@
+import DeliveryUser from "../deliveryUser/delivery.model";
+import { RealtimeTrackingService } from "../tracking/realtime-tracking.service";
+import { SessionResponse } from "./auth.interface";
+import {
+  IRefreshToken,
+  RefreshToken,
+  RefreshTokenRevokeReason,
+} from "./auth.model";
+
+// A session is a refresh token family, represented by its active token
+export class SessionService {
+  // List active sessions of a user
+  static async listSessions(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<SessionResponse> {
+    try {
+      const tokenRecords = await this.findActiveTokens(userId);
+
+      return {
+        success: true,
+        message: "Sessions retrieved successfully",
+        data: tokenRecords.map((tokenRecord) =>
+          this.toSession(tokenRecord, currentSessionId)
+        ),
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get sessions"
+      );
+    }
+  }
+
+  // Name one of a user's sessions
+  static async renameSession(
+    userId: string,
+    sessionId: string,
+    name: string
+  ): Promise<SessionResponse> {
+    try {
+      const tokenRecord = await RefreshToken.findOneAndUpdate(
+        {
+          userId,
+          familyId: sessionId,
+          isActive: true,
+          expiresAt: { $gt: new Date() },
+        },
+        { name },
+        { new: true, runValidators: true }
+      );
+
+      if (!tokenRecord) {
+        return {
+          success: false,
+          message: "Session not found",
+        };
+      }
+
+      return {
+        success: true,
+        message: "Session renamed successfully",
+        data: this.toSession(tokenRecord),
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to rename session"
+      );
+    }
+  }
+
+  // Revoke one of a user's sessions
+  static async revokeSession(
+    userId: string,
+    sessionId: string,
+    revokedBy: string,
+    reason: RefreshTokenRevokeReason = "session_revoked"
+  ): Promise<SessionResponse> {
+    try {
+      const result = await RefreshToken.updateMany(
+        { userId, familyId: sessionId, isActive: true },
+        {
+          isActive: false,
+          revokedAt: new Date(),
+          revokedReason: reason,
+          revokedBy,
+        }
+      );
+
+      if (result.modifiedCount === 0) {
+        return {
+          success: false,
+          message: "Session not found",
+        };
+      }
+
+      // The device loses its live connection right away, its access token
+      // stops working when it expires
+      RealtimeTrackingService.closeSession(sessionId, reason);
+
+      return {
+        success: true,
+        message: "Session revoked successfully",
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to revoke session"
+      );
+    }
+  }
+
+  // List active sessions of a delivery user in an organization
+  static async listDeliveryUserSessions(
+    organizationId: string,
+    deliveryUserId: string
+  ): Promise<SessionResponse> {
+    const deliveryUser = await this.findDeliveryUser(
+      organizationId,
+      deliveryUserId
+    );
+    if (!deliveryUser) {
+      return {
+        success: false,
+        message: "Delivery user not found",
+      };
+    }
+
+    return this.listSessions(deliveryUserId);
+  }
+
+  // Revoke a session of a delivery user in an organization
+  static async revokeDeliveryUserSession(
+    organizationId: string,
+    deliveryUserId: string,
+    sessionId: string,
+    revokedBy: string
+  ): Promise<SessionResponse> {
+    const deliveryUser = await this.findDeliveryUser(
+      organizationId,
+      deliveryUserId
+    );
+    if (!deliveryUser) {
+      return {
+        success: false,
+        message: "Delivery user not found",
+      };
+    }
+
+    return this.revokeSession(
+      deliveryUserId,
+      sessionId,
+      revokedBy,
+      "admin_revoked"
+    );
+  }
+
+  // Revoke every session of a delivery user in an organization
+  static async revokeAllDeliveryUserSessions(
+    organizationId: string,
+    deliveryUserId: string,
+    revokedBy: string
+  ): Promise<SessionResponse> {
+    try {
+      const deliveryUser = await this.findDeliveryUser(
+        organizationId,
+        deliveryUserId
+      );
+      if (!deliveryUser) {
+        return {
+          success: false,
+          message: "Delivery user not found",
+        };
+      }
+
+      const tokenRecords = await this.findActiveTokens(deliveryUserId);
+      for (const tokenRecord of tokenRecords) {
+        await this.revokeSession(
+          deliveryUserId,
+          tokenRecord.familyId,
+          revokedBy,
+          "admin_revoked"
+        );
+      }
+
+      return {
+        success: true,
+        message: "Sessions revoked successfully",
+        data: { revoked: tokenRecords.length },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to revoke sessions"
+      );
+    }
+  }
+
+  // Helper method to find the active token of every session of a user
+  private static findActiveTokens(userId: string) {
+    return RefreshToken.find({
+      userId,
+      isActive: true,
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastUsedAt: -1, createdAt: -1 });
+  }
+
+  // Helper method to find a delivery user of an organization
+  private static findDeliveryUser(organizationId: string, userId: string) {
+    return DeliveryUser.findOne({ _id: userId, organizationId }).catch(
+      () => null
+    );
+  }
+
+  // Helper method to describe a session without its token
+  private static toSession(
+    tokenRecord: IRefreshToken,
+    currentSessionId?: string
+  ) {
+    return {
+      id: tokenRecord.familyId,
+      name: tokenRecord.name,
+      deviceType: tokenRecord.deviceInfo?.deviceType ?? "unknown",
+      userAgent: tokenRecord.deviceInfo?.userAgent,
+      ipAddress: tokenRecord.lastIpAddress ?? tokenRecord.deviceInfo?.ipAddress,
+      loginIpAddress: tokenRecord.deviceInfo?.ipAddress,
+      location: tokenRecord.location,
+      createdAt: tokenRecord.sessionStartedAt ?? tokenRecord.createdAt,
+      lastUsedAt: tokenRecord.lastUsedAt ?? tokenRecord.createdAt,
+      expiresAt: tokenRecord.expiresAt,
+      current: tokenRecord.familyId === currentSessionId,
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { TotpUtils } from "./totp.utils";
+
+// The ASCII secret "12345678901234567890" of the RFC 6238 test vectors
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("TotpUtils", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it.each([
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1234567890, "005924"],
+    [2000000000, "279037"],
+  ])("matches the RFC 6238 code at %i", (seconds, code) => {
+    const step = TotpUtils.getStep(seconds * 1000);
+    expect(TotpUtils.generateCode(RFC_SECRET, step)).toBe(code);
+  });
+
+  it("accepts codes within the drift window and returns their step", () => {
+    jest.useFakeTimers({ now: 1234567890 * 1000 });
+    const step = TotpUtils.getStep();
+
+    expect(TotpUtils.verify(RFC_SECRET, "005924")).toBe(step);
+    expect(
+      TotpUtils.verify(RFC_SECRET, TotpUtils.generateCode(RFC_SECRET, step - 1))
+    ).toBe(step - 1);
+    expect(
+      TotpUtils.verify(RFC_SECRET, TotpUtils.generateCode(RFC_SECRET, step + 2))
+    ).toBeNull();
+  });
+
+  it("rejects malformed codes", () => {
+    expect(TotpUtils.verify(RFC_SECRET, "12345")).toBeNull();
+    expect(TotpUtils.verify(RFC_SECRET, "abcdef")).toBeNull();
+  });
+
+  it("generates secrets that produce codes", () => {
+    const secret = TotpUtils.generateSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(TotpUtils.generateCode(secret, 1)).toMatch(/^\d{6}$/);
+  });
+
+  it("generates distinct recovery codes that normalize consistently", () => {
+    const codes = TotpUtils.generateRecoveryCodes();
+
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach((code) => expect(code).toMatch(/^[0-9a-f]{8}-[0-9a-f]{8}$/));
+    expect(TotpUtils.normalizeRecoveryCode(` ${codes[0].toUpperCase()} `)).toBe(
+      codes[0].replace("-", "")
+    );
+  });
+
+  it("round-trips encrypted secrets and detects tampering", () => {
+    const encrypted = TotpUtils.encryptSecret(RFC_SECRET);
+
+    expect(encrypted).not.toContain(RFC_SECRET);
+    expect(TotpUtils.encryptSecret(RFC_SECRET)).not.toBe(encrypted);
+    expect(TotpUtils.decryptSecret(encrypted)).toBe(RFC_SECRET);
+
+    const [iv, authTag] = encrypted.split(":");
+    const tampered = [iv, authTag, Buffer.from("tampered").toString("base64")];
+    expect(() => TotpUtils.decryptSecret(tampered.join(":"))).toThrow();
+  });
+});
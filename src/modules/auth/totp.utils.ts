@@ -0,0 +1,173 @@
+import crypto from "crypto";
+import { env } from "../../config/env";
+
+// TOTP Configuration (RFC 6238 defaults, understood by every authenticator app)
+const TOTP_ISSUER = "GeoTrack";
+const TOTP_PERIOD = 30; // in seconds
+const TOTP_DIGITS = 6;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// Stored secrets are encrypted with a key derived from the configured one
+const SECRET_KEY = crypto
+  .createHash("sha256")
+  .update(env.TWO_FACTOR_SECRET_KEY)
+  .digest();
+
+export class TotpUtils {
+  // Generate a random 160-bit secret, base32 encoded
+  static generateSecret(): string {
+    return this.base32Encode(crypto.randomBytes(20));
+  }
+
+  // Generate the code of a time step
+  static generateCode(secret: string, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto
+      .createHmac("sha1", this.base32Decode(secret))
+      .update(counter)
+      .digest();
+
+    // Dynamic truncation (RFC 4226 section 5.3)
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+  }
+
+  // Get the current time step
+  static getStep(timestamp: number = Date.now()): number {
+    return Math.floor(timestamp / 1000 / TOTP_PERIOD);
+  }
+
+  // Verify a code, allowing for clock drift of `window` steps either way.
+  // Returns the matched step so it cannot be used again, or null.
+  static verify(
+    secret: string,
+    code: string,
+    window: number = 1
+  ): number | null {
+    const normalizedCode = code.replace(/\s/g, "");
+    if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalizedCode)) {
+      return null;
+    }
+
+    const currentStep = this.getStep();
+    for (
+      let step = currentStep - window;
+      step <= currentStep + window;
+      step++
+    ) {
+      const expected = this.generateCode(secret, step);
+      if (
+        crypto.timingSafeEqual(
+          Buffer.from(expected),
+          Buffer.from(normalizedCode)
+        )
+      ) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  // Build the otpauth:// URI authenticator apps enrol from (usually as a QR code)
+  static buildOtpauthUri(secret: string, accountName: string): string {
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: TOTP_ISSUER,
+      algorithm: "SHA1",
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_PERIOD),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  // Generate single-use recovery codes, formatted as xxxxxxxx-xxxxxxxx
+  static generateRecoveryCodes(count: number = 10): string[] {
+    return Array.from({ length: count }, () => {
+      const code = crypto.randomBytes(8).toString("hex");
+      return `${code.slice(0, 8)}-${code.slice(8)}`;
+    });
+  }
+
+  // Normalize a recovery code before hashing, so dashes and case do not matter
+  static normalizeRecoveryCode(code: string): string {
+    return code.replace(/[\s-]/g, "").toLowerCase();
+  }
+
+  // Encrypt a secret for storage (AES-256-GCM)
+  static encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", SECRET_KEY, iv);
+    const encrypted = Buffer.concat([
+      cipher.update(secret, "utf8"),
+      cipher.final(),
+    ]);
+
+    return [iv, cipher.getAuthTag(), encrypted]
+      .map((part) => part.toString("base64"))
+      .join(":");
+  }
+
+  // Decrypt a stored secret
+  static decryptSecret(encryptedSecret: string): string {
+    const [iv, authTag, encrypted] = encryptedSecret
+      .split(":")
+      .map((part) => Buffer.from(part, "base64"));
+
+    const decipher = crypto.createDecipheriv("aes-256-gcm", SECRET_KEY, iv);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([
+      decipher.update(encrypted),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+
+  // Base32 Encode (RFC 4648, without padding)
+  private static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = "";
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  // Base32 Decode (RFC 4648, padding and case ignored)
+  private static base32Decode(input: string): Buffer {
+    const cleanInput = input.replace(/=+$/, "").toUpperCase();
+    let bits = 0;
+    let value = 0;
+    const output: number[] = [];
+
+    for (const char of cleanInput) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) throw new Error("Invalid base32 secret");
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        output.push((value >>> (bits - 8)) & 255);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(output);
+  }
+}
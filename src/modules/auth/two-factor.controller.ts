@@ -0,0 +1,158 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "./auth.interface";
+import { TwoFactorService } from "./two-factor.service";
+
+export class TwoFactorController {
+  // Get Two-Factor Status Controller
+  static async getStatus(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { userId, role, organizationId } = req.user!;
+
+      const result = await TwoFactorService.getStatus(
+        userId,
+        role,
+        organizationId
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to get two-factor status";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+        error: "TWO_FACTOR_STATUS_FAILED",
+      });
+    }
+  }
+
+  // Set Up Two-Factor Controller
+  static async setup(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { userId, email } = req.user!;
+
+      const result = await TwoFactorService.setup(userId, email);
+
+      if (!result.success) {
+        res
+          .status(409)
+          .json({ ...result, error: "TWO_FACTOR_ALREADY_ENABLED" });
+        return;
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to set up two-factor authentication";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+        error: "TWO_FACTOR_SETUP_FAILED",
+      });
+    }
+  }
+
+  // Enable Two-Factor Controller
+  static async enable(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+
+      const result = await TwoFactorService.enable(userId, req.body.code);
+
+      if (!result.success) {
+        res.status(400).json({ ...result, error: "INVALID_TWO_FACTOR_CODE" });
+        return;
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to enable two-factor authentication";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+        error: "TWO_FACTOR_ENABLE_FAILED",
+      });
+    }
+  }
+
+  // Disable Two-Factor Controller
+  static async disable(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { userId, role, organizationId } = req.user!;
+
+      const result = await TwoFactorService.disable(
+        userId,
+        role,
+        req.body.code,
+        organizationId
+      );
+
+      if (!result.success) {
+        res.status(400).json({ ...result, error: "TWO_FACTOR_DISABLE_FAILED" });
+        return;
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to disable two-factor authentication";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+        error: "TWO_FACTOR_DISABLE_FAILED",
+      });
+    }
+  }
+
+  // Regenerate Recovery Codes Controller
+  static async regenerateRecoveryCodes(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+
+      const result = await TwoFactorService.regenerateRecoveryCodes(
+        userId,
+        req.body.code
+      );
+
+      if (!result.success) {
+        res.status(400).json({ ...result, error: "INVALID_TWO_FACTOR_CODE" });
+        return;
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to regenerate recovery codes";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+        error: "RECOVERY_CODES_FAILED",
+      });
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { Types } from "mongoose";
+import { TwoFactorAuth } from "./auth.model";
+import { AuthUtils } from "./auth.utils";
+import { TotpUtils } from "./totp.utils";
+import { TwoFactorService } from "./two-factor.service";
+
+const userId = new Types.ObjectId().toString();
+const secret = TotpUtils.generateSecret();
+
+const mockTwoFactor = () => {
+  const twoFactor = {
+    _id: new Types.ObjectId(),
+    secret: TotpUtils.encryptSecret(secret),
+  };
+  jest
+    .spyOn(TwoFactorAuth, "findOne")
+    .mockReturnValue({ select: async () => twoFactor } as never);
+  return twoFactor;
+};
+
+describe("TwoFactorService.verifyCode", () => {
+  beforeEach(() => {
+    // Keep the time step from moving on mid-test
+    jest.useFakeTimers({ now: Date.now() });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("accepts a current code only once", async () => {
+    const twoFactor = mockTwoFactor();
+    const step = TotpUtils.getStep();
+    const findOneAndUpdate = jest
+      .spyOn(TwoFactorAuth, "findOneAndUpdate")
+      .mockResolvedValueOnce(twoFactor as never)
+      .mockResolvedValueOnce(null);
+    const code = TotpUtils.generateCode(secret, step);
+
+    await expect(TwoFactorService.verifyCode(userId, code)).resolves.toBe(true);
+    await expect(TwoFactorService.verifyCode(userId, code)).resolves.toBe(
+      false
+    );
+
+    expect(findOneAndUpdate).toHaveBeenCalledWith(
+      {
+        _id: twoFactor._id,
+        $or: [
+          { lastUsedStep: { $exists: false } },
+          { lastUsedStep: { $lt: step } },
+        ],
+      },
+      { lastUsedStep: step }
+    );
+  });
+
+  it("redeems an unused recovery code", async () => {
+    const twoFactor = mockTwoFactor();
+    const [recoveryCode] = TotpUtils.generateRecoveryCodes(1);
+    const findOneAndUpdate = jest
+      .spyOn(TwoFactorAuth, "findOneAndUpdate")
+      .mockResolvedValue(twoFactor as never);
+
+    await expect(
+      TwoFactorService.verifyCode(userId, recoveryCode.toUpperCase())
+    ).resolves.toBe(true);
+
+    expect(findOneAndUpdate).toHaveBeenCalledWith(
+      {
+        _id: twoFactor._id,
+        recoveryCodes: {
+          $elemMatch: {
+            codeHash: AuthUtils.hashToken(recoveryCode.replace("-", "")),
+            usedAt: { $exists: false },
+          },
+        },
+      },
+      { $set: { "recoveryCodes.$.usedAt": expect.any(Date) } }
+    );
+  });
+
+  it("rejects a code when two-factor authentication is off", async () => {
+    jest
+      .spyOn(TwoFactorAuth, "findOne")
+      .mockReturnValue({ select: async () => null } as never);
+    const findOneAndUpdate = jest.spyOn(TwoFactorAuth, "findOneAndUpdate");
+
+    await expect(TwoFactorService.verifyCode(userId, "123456")).resolves.toBe(
+      false
+    );
+    expect(findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,291 @@
+import { env } from "../../config/env";
+import Organization from "../organization/organization.model";
+import { TwoFactorResponse, UserRole } from "./auth.interface";
+import { TwoFactorAuth } from "./auth.model";
+import { AuthUtils } from "./auth.utils";
+import { TotpUtils } from "./totp.utils";
+
+const RECOVERY_CODE_COUNT = 10;
+
+export class TwoFactorService {
+  // Check if a role or its organization enforces two-factor authentication
+  static async isRequired(
+    role: string,
+    organizationId?: string
+  ): Promise<boolean> {
+    if (env.TWO_FACTOR_REQUIRED_ROLES.includes(role)) {
+      return true;
+    }
+
+    if (role === UserRole.ORGANIZATION_ADMIN && organizationId) {
+      const organization = await Organization.findById(organizationId)
+        .select("requireTwoFactor")
+        .catch(() => null);
+      return !!organization?.requireTwoFactor;
+    }
+
+    return false;
+  }
+
+  // Check if a user has two-factor authentication turned on
+  static async isEnabled(userId: string): Promise<boolean> {
+    const twoFactor = await TwoFactorAuth.findOne({ userId, enabled: true });
+    return !!twoFactor;
+  }
+
+  // Get two-factor status of a user
+  static async getStatus(
+    userId: string,
+    role: string,
+    organizationId?: string
+  ): Promise<TwoFactorResponse> {
+    try {
+      const twoFactor = await TwoFactorAuth.findOne({ userId }).select(
+        "+recoveryCodes"
+      );
+
+      return {
+        success: true,
+        message: "Two-factor status retrieved successfully",
+        data: {
+          enabled: !!twoFactor?.enabled,
+          enabledAt: twoFactor?.enabledAt,
+          required: await this.isRequired(role, organizationId),
+          recoveryCodesRemaining: twoFactor?.enabled
+            ? twoFactor.recoveryCodes.filter((code) => !code.usedAt).length
+            : 0,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to get two-factor status"
+      );
+    }
+  }
+
+  // Start enrolment with a new secret, active once a first code is verified
+  static async setup(
+    userId: string,
+    email: string
+  ): Promise<TwoFactorResponse> {
+    try {
+      if (await this.isEnabled(userId)) {
+        return {
+          success: false,
+          message: "Two-factor authentication is already enabled",
+        };
+      }
+
+      const secret = TotpUtils.generateSecret();
+      await TwoFactorAuth.findOneAndUpdate(
+        { userId },
+        { pendingSecret: TotpUtils.encryptSecret(secret) },
+        { upsert: true, setDefaultsOnInsert: true }
+      );
+
+      return {
+        success: true,
+        message: "Scan the code with an authenticator app, then verify it",
+        data: {
+          secret,
+          otpauthUri: TotpUtils.buildOtpauthUri(secret, email),
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to set up two-factor authentication"
+      );
+    }
+  }
+
+  // Finish enrolment with a code from the new secret
+  static async enable(
+    userId: string,
+    code: string
+  ): Promise<TwoFactorResponse> {
+    try {
+      const twoFactor = await TwoFactorAuth.findOne({ userId }).select(
+        "+pendingSecret"
+      );
+
+      if (!twoFactor?.pendingSecret) {
+        return {
+          success: false,
+          message: "Two-factor setup has not been started",
+        };
+      }
+
+      const step = TotpUtils.verify(
+        TotpUtils.decryptSecret(twoFactor.pendingSecret),
+        code
+      );
+      if (step === null) {
+        return {
+          success: false,
+          message: "Invalid two-factor code",
+        };
+      }
+
+      const recoveryCodes =
+        TotpUtils.generateRecoveryCodes(RECOVERY_CODE_COUNT);
+
+      // Only the request holding the pending secret it verified can enable it
+      const enabled = await TwoFactorAuth.findOneAndUpdate(
+        { _id: twoFactor._id, pendingSecret: twoFactor.pendingSecret },
+        {
+          $set: {
+            secret: twoFactor.pendingSecret,
+            enabled: true,
+            enabledAt: new Date(),
+            lastUsedStep: step,
+            recoveryCodes: this.hashRecoveryCodes(recoveryCodes),
+          },
+          $unset: { pendingSecret: "" },
+        }
+      );
+      if (!enabled) {
+        return {
+          success: false,
+          message: "Two-factor setup has not been started",
+        };
+      }
+
+      return {
+        success: true,
+        message:
+          "Two-factor authentication enabled. Store the recovery codes somewhere safe, they are shown only once",
+        data: { recoveryCodes },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to enable two-factor authentication"
+      );
+    }
+  }
+
+  // Verify an authenticator or recovery code, each is accepted only once
+  static async verifyCode(userId: string, code: string): Promise<boolean> {
+    const twoFactor = await TwoFactorAuth.findOne({
+      userId,
+      enabled: true,
+    }).select("+secret");
+
+    if (!twoFactor?.secret) {
+      return false;
+    }
+
+    const step = TotpUtils.verify(
+      TotpUtils.decryptSecret(twoFactor.secret),
+      code
+    );
+    if (step !== null) {
+      // A code seen once, e.g. by a shoulder surfer, does not work again
+      const accepted = await TwoFactorAuth.findOneAndUpdate(
+        {
+          _id: twoFactor._id,
+          $or: [
+            { lastUsedStep: { $exists: false } },
+            { lastUsedStep: { $lt: step } },
+          ],
+        },
+        { lastUsedStep: step }
+      );
+      return !!accepted;
+    }
+
+    const codeHash = AuthUtils.hashToken(TotpUtils.normalizeRecoveryCode(code));
+    const redeemed = await TwoFactorAuth.findOneAndUpdate(
+      {
+        _id: twoFactor._id,
+        recoveryCodes: { $elemMatch: { codeHash, usedAt: { $exists: false } } },
+      },
+      { $set: { "recoveryCodes.$.usedAt": new Date() } }
+    );
+    return !!redeemed;
+  }
+
+  // Turn two-factor authentication off, unless it is enforced
+  static async disable(
+    userId: string,
+    role: string,
+    code: string,
+    organizationId?: string
+  ): Promise<TwoFactorResponse> {
+    try {
+      if (await this.isRequired(role, organizationId)) {
+        return {
+          success: false,
+          message: "Two-factor authentication is required for your account",
+        };
+      }
+
+      if (!(await this.verifyCode(userId, code))) {
+        return {
+          success: false,
+          message: "Invalid two-factor code",
+        };
+      }
+
+      await TwoFactorAuth.deleteOne({ userId });
+
+      return {
+        success: true,
+        message: "Two-factor authentication disabled",
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to disable two-factor authentication"
+      );
+    }
+  }
+
+  // Replace every recovery code of a user
+  static async regenerateRecoveryCodes(
+    userId: string,
+    code: string
+  ): Promise<TwoFactorResponse> {
+    try {
+      if (!(await this.verifyCode(userId, code))) {
+        return {
+          success: false,
+          message: "Invalid two-factor code",
+        };
+      }
+
+      const recoveryCodes =
+        TotpUtils.generateRecoveryCodes(RECOVERY_CODE_COUNT);
+      await TwoFactorAuth.updateOne(
+        { userId },
+        { recoveryCodes: this.hashRecoveryCodes(recoveryCodes) }
+      );
+
+      return {
+        success: true,
+        message:
+          "Recovery codes regenerated. Store them somewhere safe, they are shown only once",
+        data: { recoveryCodes },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to regenerate recovery codes"
+      );
+    }
+  }
+
+  // Helper method to hash recovery codes for storage
+  private static hashRecoveryCodes(recoveryCodes: string[]) {
+    return recoveryCodes.map((code) => ({
+      codeHash: AuthUtils.hashToken(TotpUtils.normalizeRecoveryCode(code)),
+    }));
+  }
+}
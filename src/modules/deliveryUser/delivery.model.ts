@@ -4,8 +4,7 @@ import mongoose, { Document, Schema } from "mongoose";
 export interface IDeliveryUser extends Document {
   _id: mongoose.Types.ObjectId;
   name: string;
-  email: string;
-  password: string;
+  email: string; // login email, kept in sync with the identity
   organizationId: mongoose.Types.ObjectId;
   phone: string;
   vehicleType: string;
@@ -41,12 +40,6 @@ const deliveryUserSchema = new Schema<IDeliveryUser>(
         "Please provide a valid email address",
       ],
     },
-    password: {
-      type: String,
-      required: [true, "Password is required"],
-      minlength: [8, "Password must be at least 8 characters"],
-      select: false, // Don't include password in queries by default
-    },
     organizationId: {
       type: Schema.Types.ObjectId,
       ref: "Organization",
@@ -91,7 +84,7 @@ const deliveryUserSchema = new Schema<IDeliveryUser>(
     toJSON: {
       virtuals: true,
       transform: function (doc, ret) {
-        const { password, __v, ...cleanRet } = ret;
+        const { __v, ...cleanRet } = ret;
         return cleanRet;
       },
     },
@@ -147,8 +140,7 @@ deliveryUserSchema.statics.findByEmailWithOrganization = function (
 ) {
   return this.findOne({ email })
     .populate("organizationId", "name companyName")
-    .populate("createdBy", "name email")
-    .select("+password");
+    .populate("createdBy", "name email");
 };
 
 // Static method to find users by organization
@@ -1,7 +1,10 @@
 import bcrypt from "bcryptjs";
+import { UserRole } from "../auth/auth.interface";
 import { AuthUtils } from "../auth/auth.utils";
+import { IdentityService } from "../identity/identity.service";
 import Organization from "../organization/organization.model";
 import OrganizationAdmin from "../organizationAdmin/organizationAdmin.model";
+import { RealtimeTrackingService } from "../tracking/realtime-tracking.service";
 import DeliveryUser, { IDeliveryUser } from "./delivery.model";
 
 export interface CreateDeliveryUserData {
@@ -64,9 +67,8 @@ class DeliveryUserService {
       );
     }
 
-    // Check if email already exists
-    const existingUser = await DeliveryUser.findOne({ email });
-    if (existingUser) {
+    // Check if email already exists, in any collection
+    if (!(await IdentityService.isEmailAvailable(email))) {
       throw new Error("Email already exists");
     }
 
@@ -90,11 +92,10 @@ class DeliveryUserService {
     const saltRounds = 12;
     const hashedPassword = await bcrypt.hash(password, saltRounds);
 
-    // Create delivery user
+    // Create delivery user, the password goes to its identity
     const deliveryUser = new DeliveryUser({
       name,
       email,
-      password: hashedPassword,
       organizationId,
       phone,
       vehicleType,
@@ -103,7 +104,11 @@ class DeliveryUserService {
       status: "active",
     });
 
-    return await deliveryUser.save();
+    return await IdentityService.createAccount(
+      deliveryUser,
+      "DeliveryUser",
+      hashedPassword
+    );
   }
 
   // Get all delivery users for an organization (with filtering and pagination)
@@ -185,15 +190,23 @@ class DeliveryUserService {
   ): Promise<IDeliveryUser | null> {
     const { email, ...updateData } = data;
 
+    // Only a different email changes the login
+    const newEmail =
+      email &&
+      !(await DeliveryUser.exists({
+        _id: userId,
+        organizationId,
+        email: email.trim().toLowerCase(),
+      }))
+        ? email
+        : undefined;
+
     // If email is being updated, check if it already exists
-    if (email) {
-      const existingUser = await DeliveryUser.findOne({
-        email,
-        _id: { $ne: userId },
-      });
-      if (existingUser) {
+    if (newEmail) {
+      if (!(await IdentityService.isEmailAvailable(newEmail, userId))) {
         throw new Error("Email already exists");
       }
+      await this.assertManagedLogin(userId, organizationId);
     }
 
     const updatedUser = await DeliveryUser.findOneAndUpdate(
@@ -204,6 +217,13 @@ class DeliveryUserService {
       .populate("organizationId", "name companyName")
       .populate("createdBy", "name email");
 
+    // The email is changed on the identity, which updates the profile too
+    if (updatedUser && newEmail) {
+      await IdentityService.changeEmail(userId, newEmail);
+      await IdentityService.revokeSessions(userId, "admin_revoked");
+      return await this.getDeliveryUserById(userId, organizationId);
+    }
+
     return updatedUser;
   }
 
@@ -217,6 +237,10 @@ class DeliveryUserService {
       organizationId,
     });
 
+    if (result) {
+      await IdentityService.removeProfile(userId);
+    }
+
     return !!result;
   }
 
@@ -226,13 +250,19 @@ class DeliveryUserService {
     organizationId: string,
     status: "active" | "inactive" | "suspended"
   ): Promise<IDeliveryUser | null> {
-    return await DeliveryUser.findOneAndUpdate(
+    const deliveryUser = await DeliveryUser.findOneAndUpdate(
       { _id: userId, organizationId },
       { status },
       { new: true, runValidators: true }
     )
       .populate("organizationId", "name companyName")
       .populate("createdBy", "name email");
+
+    if (deliveryUser && status !== "active") {
+      RealtimeTrackingService.disconnectUser(userId, `Account ${status}`);
+    }
+
+    return deliveryUser;
   }
 
   // Reset delivery user password
@@ -253,13 +283,14 @@ class DeliveryUserService {
     const saltRounds = 12;
     const hashedPassword = await bcrypt.hash(newPassword, saltRounds);
 
-    return await DeliveryUser.findOneAndUpdate(
-      { _id: userId, organizationId },
-      { password: hashedPassword },
-      { new: true, runValidators: true }
-    )
-      .populate("organizationId", "name companyName")
-      .populate("createdBy", "name email");
+    const deliveryUser = await this.getDeliveryUserById(userId, organizationId);
+    if (deliveryUser) {
+      await this.assertManagedLogin(userId, organizationId);
+      await IdentityService.setPassword(userId, hashedPassword);
+      await IdentityService.revokeSessions(userId, "password_reset");
+    }
+
+    return deliveryUser;
   }
 
   // Get delivery user statistics for an organization
@@ -329,6 +360,23 @@ class DeliveryUserService {
     });
     return !!user;
   }
+
+  // Refuse to change a login the delivery user shares with profiles the
+  // organization admin does not manage
+  private async assertManagedLogin(
+    userId: string,
+    organizationId: string
+  ): Promise<void> {
+    const isManaged = await IdentityService.isInScope(userId, {
+      roles: [UserRole.DELIVERY_USER],
+      organizationId,
+    });
+    if (!isManaged) {
+      throw new Error(
+        "This login is shared with accounts outside your organization and cannot be changed here"
+      );
+    }
+  }
 }
 
 export default new DeliveryUserService();
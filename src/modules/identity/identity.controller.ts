@@ -0,0 +1,28 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../auth/auth.interface";
+import { IdentityService } from "./identity.service";
+
+export class IdentityController {
+  // Look Up Identity Controller
+  static async lookup(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const result = await IdentityService.lookup(req.query.email as string);
+
+      if (!result.success) {
+        res.status(404).json({ ...result, error: "IDENTITY_NOT_FOUND" });
+        return;
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to look up identity";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+        error: "IDENTITY_LOOKUP_FAILED",
+      });
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { Types } from "mongoose";
+import DeliveryUser from "../deliveryUser/delivery.model";
+import OrganizationAdmin from "../organizationAdmin/organizationAdmin.model";
+import User from "../user/user.model";
+import Identity, { migrateIdentities } from "./identity.model";
+
+const mockProfiles = (
+  model: typeof User | typeof OrganizationAdmin | typeof DeliveryUser,
+  profiles: { _id: Types.ObjectId; email: string; password?: string }[]
+) => {
+  jest
+    .spyOn(model.collection, "find")
+    .mockReturnValue({ toArray: async () => profiles } as never);
+  return jest
+    .spyOn(model.collection, "updateOne")
+    .mockResolvedValue({} as never);
+};
+
+describe("migrateIdentities", () => {
+  const linkedId = new Types.ObjectId();
+  const existingIdentityId = new Types.ObjectId();
+
+  beforeEach(() => {
+    jest.spyOn(Identity, "syncIndexes").mockResolvedValue([]);
+    jest.spyOn(console, "warn").mockImplementation();
+    jest
+      .spyOn(Identity, "exists")
+      .mockImplementation(
+        (filter: any) =>
+          Promise.resolve(
+            filter["profiles.profileId"].equals(linkedId)
+              ? { _id: existingIdentityId }
+              : null
+          ) as never
+      );
+    jest
+      .spyOn(Identity, "findOneAndUpdate")
+      .mockImplementation(
+        (filter: any) =>
+          Promise.resolve(
+            filter.email === "shared@example.com"
+              ? { _id: existingIdentityId }
+              : null
+          ) as never
+      );
+    mockProfiles(DeliveryUser, []);
+  });
+
+  it("moves each profile's credentials to an identity", async () => {
+    const newProfile = {
+      _id: new Types.ObjectId(),
+      email: " Rider@Example.com ",
+      password: "hashed-1",
+    };
+    const linkedProfile = {
+      _id: linkedId,
+      email: "linked@example.com",
+      password: "hashed-2",
+    };
+    const create = jest
+      .spyOn(Identity, "create")
+      .mockResolvedValue([] as never);
+    const unsetUserPassword = mockProfiles(User, [newProfile, linkedProfile]);
+    mockProfiles(OrganizationAdmin, []);
+
+    await migrateIdentities();
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create).toHaveBeenCalledWith({
+      email: "rider@example.com",
+      password: "hashed-1",
+      profiles: [{ profileModel: "User", profileId: newProfile._id }],
+    });
+    expect(unsetUserPassword).toHaveBeenCalledWith(
+      { _id: newProfile._id },
+      { $unset: { password: "" } }
+    );
+    expect(unsetUserPassword).toHaveBeenCalledWith(
+      { _id: linkedId },
+      { $unset: { password: "" } }
+    );
+  });
+
+  it("merges a profile into the identity that already has its email", async () => {
+    const adminProfile = {
+      _id: new Types.ObjectId(),
+      email: "Shared@Example.com",
+      password: "hashed-3",
+    };
+    const create = jest.spyOn(Identity, "create");
+    mockProfiles(User, []);
+    const unsetAdminPassword = mockProfiles(OrganizationAdmin, [adminProfile]);
+
+    await migrateIdentities();
+
+    expect(Identity.findOneAndUpdate).toHaveBeenCalledWith(
+      { email: "shared@example.com" },
+      {
+        $push: {
+          profiles: {
+            profileModel: "OrganizationAdmin",
+            profileId: adminProfile._id,
+          },
+        },
+      }
+    );
+    expect(create).not.toHaveBeenCalled();
+    expect(unsetAdminPassword).toHaveBeenCalledWith(
+      { _id: adminProfile._id },
+      { $unset: { password: "" } }
+    );
+  });
+
+  it("skips a profile without a password to move", async () => {
+    const create = jest.spyOn(Identity, "create");
+    const unsetUserPassword = mockProfiles(User, [
+      { _id: new Types.ObjectId(), email: "nopassword@example.com" },
+    ]);
+    mockProfiles(OrganizationAdmin, []);
+
+    await migrateIdentities();
+
+    expect(create).not.toHaveBeenCalled();
+    expect(unsetUserPassword).not.toHaveBeenCalled();
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining("it has no password to move")
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Collections a role profile can live in
+export type ProfileModel = "User" | "OrganizationAdmin" | "DeliveryUser";
+
+// Checked in this order, the order login used to search them in
+export const PROFILE_MODELS: ProfileModel[] = [
+  "User",
+  "OrganizationAdmin",
+  "DeliveryUser",
+];
+
+// Identity Interface, the credentials shared by every profile of one person
+export interface IIdentity extends Document {
+  _id: mongoose.Types.ObjectId;
+  email: string;
+  password: string;
+  profiles: {
+    profileModel: ProfileModel;
+    profileId: mongoose.Types.ObjectId; // the user ID tokens are issued for
+  }[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Identity Schema
+const identitySchema = new Schema<IIdentity>(
+  {
+    email: {
+      type: String,
+      required: [true, "Email is required"],
+      unique: true,
+      lowercase: true,
+      trim: true,
+      match: [
+        /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+        "Please provide a valid email address",
+      ],
+    },
+    password: {
+      type: String,
+      required: [true, "Password is required"],
+      select: false, // Don't include password in queries by default
+    },
+    profiles: {
+      type: [
+        {
+          _id: false,
+          profileModel: {
+            type: String,
+            enum: PROFILE_MODELS,
+            required: true,
+          },
+          profileId: {
+            type: Schema.Types.ObjectId,
+            refPath: "profiles.profileModel",
+            required: true,
+          },
+        },
+      ],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        const { password, __v, ...cleanRet } = ret;
+        return cleanRet;
+      },
+    },
+  }
+);
+
+// Indexes for better query performance
+// A profile belongs to exactly one identity
+identitySchema.index(
+  { "profiles.profileId": 1 },
+  {
+    unique: true,
+    partialFilterExpression: { "profiles.profileId": { $exists: true } },
+  }
+);
+
+// Create and export the model
+const Identity = mongoose.model<IIdentity>("Identity", identitySchema);
+
+// Move the credentials of existing users, organization admins and delivery
+// users into identities. Profiles sharing an email are merged into one
+// identity that keeps the password login used to check first.
+export const migrateIdentities = async (): Promise<void> => {
+  await Identity.syncIndexes();
+
+  for (const profileModel of PROFILE_MODELS) {
+    const collection = mongoose.model(profileModel).collection;
+    const legacyProfiles = await collection
+      .find({}, { projection: { email: 1, password: 1 } })
+      .toArray();
+
+    for (const legacyProfile of legacyProfiles) {
+      const isLinked = await Identity.exists({
+        "profiles.profileId": legacyProfile._id,
+      });
+
+      if (!isLinked) {
+        const email = String(legacyProfile.email).trim().toLowerCase();
+        const profile = { profileModel, profileId: legacyProfile._id };
+
+        const merged = await Identity.findOneAndUpdate(
+          { email },
+          { $push: { profiles: profile } }
+        );
+        if (merged) {
+          console.warn(
+            `Merged ${profileModel} ${legacyProfile._id} into identity ${merged._id} (${email}), its own password is no longer used`
+          );
+        } else if (!legacyProfile.password) {
+          console.warn(
+            `Skipped ${profileModel} ${legacyProfile._id} (${email}), it has no password to move`
+          );
+          continue;
+        } else {
+          await Identity.create({
+            email,
+            password: legacyProfile.password,
+            profiles: [profile],
+          });
+        }
+      }
+
+      // Credentials live on the identity only
+      if (legacyProfile.password !== undefined) {
+        await collection.updateOne(
+          { _id: legacyProfile._id },
+          { $unset: { password: "" } }
+        );
+      }
+    }
+  }
+};
+
+export default Identity;
@@ -0,0 +1,29 @@
+import { Router } from "express";
+import Joi from "joi";
+import { AuthMiddleware } from "../../middlewares/auth.middleware";
+import { ValidationMiddleware } from "../../middlewares/validate.middleware";
+import { UserRole } from "../auth/auth.interface";
+import { IdentityController } from "./identity.controller";
+
+const router = Router();
+
+// Identity lookup validation schema
+const lookupQuerySchema = Joi.object({
+  email: Joi.string().email().required(),
+});
+
+/**
+ * @route   GET /api/identities/lookup
+ * @desc    Find which users, organization admins and delivery users share an email
+ * @access  Private (Super Admin)
+ * @query   email
+ */
+router.get(
+  "/lookup",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.SUPER_ADMIN]),
+  ValidationMiddleware.validateQuery(lookupQuerySchema),
+  IdentityController.lookup
+);
+
+export default router;
@@ -0,0 +1,91 @@
+import { Types } from "mongoose";
+import { UserRole } from "../auth/auth.interface";
+import { RefreshToken } from "../auth/auth.model";
+import DeliveryUser from "../deliveryUser/delivery.model";
+import User from "../user/user.model";
+import { IdentityService } from "./identity.service";
+
+const organizationId = new Types.ObjectId();
+const deliveryUserId = new Types.ObjectId();
+const superAdminId = new Types.ObjectId();
+
+// An identity holding the delivery user and, optionally, a super admin
+const mockIdentity = (withSuperAdmin: boolean) => {
+  const profiles = [
+    { profileModel: "DeliveryUser", profileId: deliveryUserId },
+  ];
+  if (withSuperAdmin) {
+    profiles.push({ profileModel: "User", profileId: superAdminId });
+  }
+  jest
+    .spyOn(IdentityService, "findByProfileId")
+    .mockReturnValue(Promise.resolve({ profiles }) as never);
+
+  jest.spyOn(DeliveryUser, "findById").mockReturnValue({
+    select: async () => ({ organizationId }),
+  } as never);
+  jest.spyOn(User, "findById").mockReturnValue({
+    select: async () => ({ role: UserRole.SUPER_ADMIN }),
+  } as never);
+};
+
+describe("IdentityService.isInScope", () => {
+  const scope = {
+    roles: [UserRole.DELIVERY_USER],
+    organizationId: organizationId.toString(),
+  };
+
+  it("accepts a login whose profiles are all managed by the admin", async () => {
+    mockIdentity(false);
+
+    await expect(
+      IdentityService.isInScope(deliveryUserId.toString(), scope)
+    ).resolves.toBe(true);
+  });
+
+  it("refuses a login that also opens a profile of another role", async () => {
+    mockIdentity(true);
+
+    await expect(
+      IdentityService.isInScope(deliveryUserId.toString(), scope)
+    ).resolves.toBe(false);
+  });
+
+  it("refuses a login from another organization", async () => {
+    mockIdentity(false);
+
+    await expect(
+      IdentityService.isInScope(deliveryUserId.toString(), {
+        ...scope,
+        organizationId: new Types.ObjectId().toString(),
+      })
+    ).resolves.toBe(false);
+  });
+});
+
+describe("IdentityService.revokeSessions", () => {
+  it("revokes the tokens of every profile of the identity", async () => {
+    mockIdentity(true);
+    const updateMany = jest
+      .spyOn(RefreshToken, "updateMany")
+      .mockResolvedValue({ modifiedCount: 2 } as never);
+
+    await IdentityService.revokeSessions(
+      deliveryUserId.toString(),
+      "password_reset"
+    );
+
+    expect(updateMany).toHaveBeenCalledWith(
+      {
+        userId: {
+          $in: [deliveryUserId.toString(), superAdminId.toString()],
+        },
+        isActive: true,
+      },
+      expect.objectContaining({
+        isActive: false,
+        revokedReason: "password_reset",
+      })
+    );
+  });
+});
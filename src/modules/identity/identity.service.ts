@@ -0,0 +1,335 @@
+import mongoose from "mongoose";
+import { UserRole } from "../auth/auth.interface";
+import { RefreshToken, RefreshTokenRevokeReason } from "../auth/auth.model";
+import { JWTPayload } from "../auth/auth.utils";
+import DeliveryUser, { IDeliveryUser } from "../deliveryUser/delivery.model";
+import OrganizationAdmin, {
+  IOrganizationAdmin,
+} from "../organizationAdmin/organizationAdmin.model";
+import User, { IUser } from "../user/user.model";
+import Identity, {
+  IIdentity,
+  PROFILE_MODELS,
+  ProfileModel,
+} from "./identity.model";
+
+// A role profile, in whichever collection it lives
+export type AccountProfile = IUser | IOrganizationAdmin | IDeliveryUser;
+
+export interface IdentityResponse {
+  success: boolean;
+  message: string;
+  data?: any;
+}
+
+// The profiles an admin manages, and may change the credentials of
+export interface ProfileScope {
+  roles: JWTPayload["role"][];
+  organizationId?: string;
+}
+
+const profileModels: Record<ProfileModel, mongoose.Model<any>> = {
+  User,
+  OrganizationAdmin,
+  DeliveryUser,
+};
+
+export class IdentityService {
+  // Create a profile together with its identity. The email must be unused
+  // across every collection.
+  static async createAccount<T extends AccountProfile>(
+    profile: T,
+    profileModel: ProfileModel,
+    hashedPassword: string
+  ): Promise<T> {
+    // The identity is created first so its unique email index decides races
+    const identity = await Identity.create({
+      email: profile.email,
+      password: hashedPassword,
+      profiles: [{ profileModel, profileId: profile._id }],
+    }).catch(this.translateDuplicateEmail);
+
+    try {
+      await profile.save();
+    } catch (error) {
+      await Identity.deleteOne({ _id: identity._id });
+      throw error;
+    }
+
+    return profile;
+  }
+
+  // Check if an email is free, or already belongs to the given profile
+  static async isEmailAvailable(
+    email: string,
+    profileId?: string
+  ): Promise<boolean> {
+    const identity = await Identity.findOne({
+      email: email.trim().toLowerCase(),
+    }).select("profiles");
+
+    return (
+      !identity ||
+      (!!profileId &&
+        identity.profiles.some(
+          (profile) => profile.profileId.toString() === profileId
+        ))
+    );
+  }
+
+  // Find an identity by email with its password
+  static findByEmail(email: string) {
+    return Identity.findOne({ email: email.trim().toLowerCase() }).select(
+      "+password"
+    );
+  }
+
+  // Find the identity a profile belongs to
+  static findByProfileId(profileId: string, withPassword: boolean = false) {
+    return Identity.findOne({ "profiles.profileId": profileId }).select(
+      withPassword ? "+password" : ""
+    );
+  }
+
+  // Get the IDs of every profile sharing a profile's credentials
+  static async getProfileIds(profileId: string): Promise<string[]> {
+    const identity = await this.findByProfileId(profileId);
+    return identity
+      ? identity.profiles.map((profile) => profile.profileId.toString())
+      : [profileId];
+  }
+
+  // Get the collection of a role's profiles
+  static getModelForRole(role: string): mongoose.Model<any> {
+    if (role === UserRole.ORGANIZATION_ADMIN) return OrganizationAdmin;
+    if (role === UserRole.DELIVERY_USER) return DeliveryUser;
+    return User;
+  }
+
+  // Get the role a profile logs in as
+  static getProfileRole(
+    profileModel: ProfileModel,
+    profile: AccountProfile
+  ): JWTPayload["role"] {
+    if (profileModel === "OrganizationAdmin") {
+      return UserRole.ORGANIZATION_ADMIN;
+    }
+    if (profileModel === "DeliveryUser") return UserRole.DELIVERY_USER;
+    return (profile as IUser).role;
+  }
+
+  // Get the role of a profile loaded from any collection
+  static getRole(profile: AccountProfile): JWTPayload["role"] {
+    const { modelName } = profile.constructor as mongoose.Model<any>;
+    return this.getProfileRole(modelName as ProfileModel, profile);
+  }
+
+  // Find the collection a user ID lives in
+  static async findProfileModel(
+    userId: string
+  ): Promise<mongoose.Model<any> | null> {
+    const identity = await this.findByProfileId(userId);
+    const profile = identity?.profiles.find(
+      (profile) => profile.profileId.toString() === userId
+    );
+
+    return profile ? profileModels[profile.profileModel] : null;
+  }
+
+  // Find the profile of a user ID, whichever collection it lives in
+  static async findProfile(
+    userId: string,
+    select?: string
+  ): Promise<AccountProfile | null> {
+    const model = await this.findProfileModel(userId);
+    if (!model) {
+      return null;
+    }
+
+    const query = model.findById(userId);
+    return select ? query.select(select) : query;
+  }
+
+  // Pick the profile to log in with, the requested role or the first one
+  static async findLoginProfile(
+    identity: IIdentity,
+    role?: string
+  ): Promise<{ profile: AccountProfile; role: JWTPayload["role"] } | null> {
+    for (const { profileModel, profileId } of identity.profiles) {
+      const profile = await profileModels[profileModel]
+        .findById(profileId)
+        .populate("organizationId", "name companyName");
+      if (!profile) continue;
+
+      const profileRole = this.getProfileRole(profileModel, profile);
+      if (!role || profileRole === role) {
+        return { profile, role: profileRole };
+      }
+    }
+
+    return null;
+  }
+
+  // Change the login email of a profile's identity, and the email shown on
+  // each of its profiles
+  static async changeEmail(profileId: string, email: string): Promise<void> {
+    const identity = await Identity.findOneAndUpdate(
+      { "profiles.profileId": profileId },
+      { email },
+      { new: true, runValidators: true }
+    ).catch(this.translateDuplicateEmail);
+
+    for (const profile of identity?.profiles ?? []) {
+      await profileModels[profile.profileModel].updateOne(
+        { _id: profile.profileId },
+        { email: identity!.email }
+      );
+    }
+  }
+
+  // Set the password of a profile's identity (already hashed)
+  static async setPassword(
+    profileId: string,
+    hashedPassword: string
+  ): Promise<void> {
+    await Identity.updateOne(
+      { "profiles.profileId": profileId },
+      { password: hashedPassword }
+    );
+  }
+
+  // Check that every profile sharing a profile's credentials is within an
+  // admin's scope. Credentials changed for one profile of a merged identity
+  // would otherwise open its other profiles too.
+  static async isInScope(
+    profileId: string,
+    scope: ProfileScope
+  ): Promise<boolean> {
+    const identity = await this.findByProfileId(profileId);
+
+    for (const { profileModel, profileId: sharedId } of identity?.profiles ??
+      []) {
+      const profile = await profileModels[profileModel]
+        .findById(sharedId)
+        .select("role organizationId");
+      if (!profile) continue;
+
+      if (
+        !scope.roles.includes(this.getProfileRole(profileModel, profile)) ||
+        (scope.organizationId &&
+          profile.organizationId?.toString() !== scope.organizationId)
+      ) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  // Revoke the refresh tokens of every profile sharing a profile's credentials
+  static async revokeSessions(
+    profileId: string,
+    reason: RefreshTokenRevokeReason
+  ): Promise<void> {
+    await RefreshToken.updateMany(
+      { userId: { $in: await this.getProfileIds(profileId) }, isActive: true },
+      { isActive: false, revokedAt: new Date(), revokedReason: reason }
+    );
+  }
+
+  // Detach a deleted profile, the identity goes with its last profile
+  static async removeProfile(profileId: string): Promise<void> {
+    const identity = await Identity.findOneAndUpdate(
+      { "profiles.profileId": profileId },
+      { $pull: { profiles: { profileId } } },
+      { new: true }
+    );
+
+    if (identity && identity.profiles.length === 0) {
+      await Identity.deleteOne({ _id: identity._id });
+    }
+  }
+
+  // Count the profiles of an organization across every collection
+  static async countOrganizationProfiles(
+    organizationId: string,
+    filter: Record<string, any> = {}
+  ): Promise<number> {
+    const counts = await Promise.all(
+      PROFILE_MODELS.map((profileModel) =>
+        profileModels[profileModel].countDocuments({
+          ...filter,
+          organizationId,
+        })
+      )
+    );
+
+    return counts.reduce((total, count) => total + count, 0);
+  }
+
+  // Update the profiles of an organization across every collection
+  static async updateOrganizationProfiles(
+    organizationId: string,
+    update: Record<string, any>
+  ): Promise<void> {
+    await Promise.all(
+      PROFILE_MODELS.map((profileModel) =>
+        profileModels[profileModel].updateMany({ organizationId }, update)
+      )
+    );
+  }
+
+  // Look up who an email belongs to and each of their profiles
+  static async lookup(email: string): Promise<IdentityResponse> {
+    try {
+      const identity = await Identity.findOne({
+        email: email.trim().toLowerCase(),
+      });
+
+      if (!identity) {
+        return {
+          success: false,
+          message: "Identity not found",
+        };
+      }
+
+      const profiles = [];
+      for (const { profileModel, profileId } of identity.profiles) {
+        const profile = await profileModels[profileModel]
+          .findById(profileId)
+          .select("name email role status organizationId")
+          .populate("organizationId", "name companyName");
+
+        profiles.push({
+          profileModel,
+          profileId,
+          role: profile ? this.getProfileRole(profileModel, profile) : null,
+          profile,
+        });
+      }
+
+      return {
+        success: true,
+        message: "Identity retrieved successfully",
+        data: {
+          id: identity._id,
+          email: identity.email,
+          createdAt: identity.createdAt,
+          profiles,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to look up identity"
+      );
+    }
+  }
+
+  // Helper method to report a taken email in words
+  private static translateDuplicateEmail(error: any): never {
+    if (error?.code === 11000) {
+      throw new Error("Email is already in use");
+    }
+    throw error;
+  }
+}
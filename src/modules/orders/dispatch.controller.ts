@@ -0,0 +1,185 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../auth/auth.interface";
+import { DispatchService } from "./dispatch.service";
+
+export class DispatchController {
+  // Get ranked delivery users for an order
+  static async getCandidates(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { orderId } = req.params;
+      const { maxDistance } = req.query;
+
+      const result = await DispatchService.getCandidates(
+        organizationId,
+        orderId,
+        {
+          maxDistance: maxDistance
+            ? parseFloat(maxDistance as string)
+            : undefined,
+        }
+      );
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to get dispatch candidates";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Start automatic dispatch for an order
+  static async startDispatch(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { orderId } = req.params;
+
+      const result = await DispatchService.startDispatch(
+        organizationId,
+        orderId,
+        { userId: req.user!.userId, role: req.user!.role },
+        req.body ?? {}
+      );
+
+      if (!result.success) {
+        return res
+          .status(result.message === "Order not found" ? 404 : 400)
+          .json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to start dispatch";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Get dispatch progress for an order
+  static async getDispatch(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { orderId } = req.params;
+
+      const result = await DispatchService.getDispatch(organizationId, orderId);
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to get dispatch";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Cancel a running dispatch
+  static async cancelDispatch(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { orderId } = req.params;
+
+      const result = await DispatchService.cancelDispatch(
+        organizationId,
+        orderId
+      );
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to cancel dispatch";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Accept an order offer
+  static async acceptOffer(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { orderId } = req.params;
+
+      const result = await DispatchService.respondToOffer(
+        organizationId,
+        orderId,
+        req.user!.userId,
+        true
+      );
+
+      if (!result.success) {
+        return res
+          .status(result.message === "Offer not found" ? 404 : 409)
+          .json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to accept offer";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Reject an order offer
+  static async rejectOffer(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { orderId } = req.params;
+
+      const result = await DispatchService.respondToOffer(
+        organizationId,
+        orderId,
+        req.user!.userId,
+        false,
+        req.body?.reason
+      );
+
+      if (!result.success) {
+        return res
+          .status(result.message === "Offer not found" ? 404 : 409)
+          .json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to reject offer";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+}
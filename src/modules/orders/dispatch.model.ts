@@ -0,0 +1,154 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type DispatchStatus =
+  | "offering"
+  | "assigned"
+  | "exhausted"
+  | "cancelled";
+export type DispatchOfferStatus =
+  | "pending"
+  | "accepted"
+  | "rejected"
+  | "expired";
+
+// Ranked dispatch candidate interface
+export interface IDispatchCandidate {
+  deliveryUserId: string;
+  score: number;
+  distance: number; // in meters to pickup
+  load: number; // active orders
+  capacity: number;
+  vehicleType: string;
+}
+
+// Dispatch offer interface
+export interface IDispatchOffer {
+  deliveryUserId: string;
+  status: DispatchOfferStatus;
+  offeredAt: Date;
+  expiresAt: Date;
+  respondedAt?: Date;
+  reason?: string;
+}
+
+// Dispatch interface
+export interface IDispatch extends Document {
+  orderId: string;
+  organizationId: string;
+  status: DispatchStatus;
+  candidates: IDispatchCandidate[];
+  offers: IDispatchOffer[];
+  offerTimeout: number; // in seconds
+  startedBy: string;
+  assignedTo?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Dispatch Candidate Schema
+const dispatchCandidateSchema = new Schema<IDispatchCandidate>(
+  {
+    deliveryUserId: {
+      type: String,
+      ref: "DeliveryUser",
+      required: true,
+    },
+    score: Number,
+    distance: Number,
+    load: Number,
+    capacity: Number,
+    vehicleType: String,
+  },
+  { _id: false }
+);
+
+// Dispatch Offer Schema
+const dispatchOfferSchema = new Schema<IDispatchOffer>(
+  {
+    deliveryUserId: {
+      type: String,
+      ref: "DeliveryUser",
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "accepted", "rejected", "expired"],
+      default: "pending",
+    },
+    offeredAt: {
+      type: Date,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    respondedAt: {
+      type: Date,
+    },
+    reason: {
+      type: String,
+      maxlength: 200,
+    },
+  },
+  { _id: false }
+);
+
+// Dispatch Schema
+const dispatchSchema = new Schema<IDispatch>(
+  {
+    orderId: {
+      type: String,
+      ref: "Order",
+      required: true,
+    },
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["offering", "assigned", "exhausted", "cancelled"],
+      default: "offering",
+    },
+    candidates: [dispatchCandidateSchema],
+    offers: [dispatchOfferSchema],
+    offerTimeout: {
+      type: Number,
+      required: true,
+    },
+    startedBy: {
+      type: String,
+      required: true,
+    },
+    assignedTo: {
+      type: String,
+      ref: "DeliveryUser",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better performance
+dispatchSchema.index({ orderId: 1, createdAt: -1 });
+// Only one running dispatch per order
+dispatchSchema.index(
+  { orderId: 1 },
+  { unique: true, partialFilterExpression: { status: "offering" } }
+);
+dispatchSchema.index({ status: 1, "offers.expiresAt": 1 });
+
+// Transform toJSON
+dispatchSchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+export const Dispatch = mongoose.model<IDispatch>("Dispatch", dispatchSchema);
+
+export default Dispatch;
@@ -0,0 +1,187 @@
+import { Types } from "mongoose";
+import { UserRole } from "../auth/auth.interface";
+import DeliveryUser from "../deliveryUser/delivery.model";
+import { RealtimeTrackingService } from "../tracking/realtime-tracking.service";
+import LocationTracking from "../tracking/tracking.model";
+import Dispatch, { IDispatchOffer } from "./dispatch.model";
+import { DispatchService } from "./dispatch.service";
+import Order from "./order.model";
+
+const organizationId = new Types.ObjectId().toString();
+const orderId = new Types.ObjectId().toString();
+const admin = {
+  userId: new Types.ObjectId().toString(),
+  role: UserRole.ORGANIZATION_ADMIN,
+};
+
+const now = new Date("2026-01-01T12:00:00Z");
+const pickup = { latitude: 52.5, longitude: 13.4 };
+
+const riderIds = {
+  near: new Types.ObjectId().toString(),
+  busy: new Types.ObjectId().toString(),
+  full: new Types.ObjectId().toString(),
+  stale: new Types.ObjectId().toString(),
+  far: new Types.ObjectId().toString(),
+};
+
+// A rider on a bike the given distance north of the pickup
+const rider = (userId: string, meters: number, minutesAgo = 0) => ({
+  userId,
+  location: {
+    latitude: pickup.latitude + meters / 111195,
+    longitude: pickup.longitude,
+    timestamp: new Date(now.getTime() - minutesAgo * 60 * 1000),
+  },
+});
+
+// Serve the order, the riders on shift and their current loads
+const mockFleet = () => {
+  const order = { _id: orderId, organizationId, pickup, status: "created" };
+  jest.spyOn(Order, "findOne").mockResolvedValue(order as never);
+  jest.spyOn(Order, "findById").mockResolvedValue(order as never);
+
+  const trackings = [
+    rider(riderIds.busy, 1000),
+    rider(riderIds.near, 1000),
+    rider(riderIds.full, 500),
+    rider(riderIds.stale, 500, 15),
+    rider(riderIds.far, 20000),
+  ];
+  jest
+    .spyOn(LocationTracking, "find")
+    .mockReturnValue({ lean: async () => trackings } as never);
+  jest.spyOn(DeliveryUser, "find").mockReturnValue({
+    lean: async () =>
+      Object.values(riderIds).map((_id) => ({ _id, vehicleType: "bike" })),
+  } as never);
+  jest.spyOn(Order, "aggregate").mockResolvedValue([
+    { _id: riderIds.busy, count: 1 },
+    { _id: riderIds.full, count: 2 },
+  ]);
+};
+
+// Keep the dispatch in memory, applying offer updates to its pending offer
+const mockDispatchStore = () => {
+  let dispatch: any;
+  jest.spyOn(Dispatch, "create").mockImplementation((async (data: object) => {
+    dispatch = { ...data, _id: "dispatch-1", save: jest.fn() };
+    return dispatch;
+  }) as never);
+  jest
+    .spyOn(Dispatch, "findOne")
+    .mockImplementation((async () => dispatch ?? null) as never);
+  jest.spyOn(Dispatch, "findOneAndUpdate").mockImplementation((async (
+    _filter: unknown,
+    update: any
+  ) => {
+    const pending = dispatch.offers.find(
+      (offer: IDispatchOffer) => offer.status === "pending"
+    );
+    pending.status = update.$set["offers.$.status"];
+    return dispatch;
+  }) as never);
+};
+
+// Riders sent an offer so far, in order
+const offeredTo = (sendToUser: jest.SpyInstance) =>
+  sendToUser.mock.calls
+    .filter(([, event]) => event === "order_offer")
+    .map(([userId]) => userId);
+
+describe("DispatchService", () => {
+  let sendToUser: jest.SpyInstance;
+  let sendToOrganization: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    mockFleet();
+    sendToUser = jest
+      .spyOn(RealtimeTrackingService, "sendToUser")
+      .mockImplementation();
+    sendToOrganization = jest
+      .spyOn(RealtimeTrackingService, "sendToOrganization")
+      .mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("ranks nearby riders with spare capacity, least loaded first", async () => {
+    const result = await DispatchService.getCandidates(organizationId, orderId);
+
+    expect(result.data).toEqual([
+      expect.objectContaining({
+        deliveryUserId: riderIds.near,
+        distance: 1000,
+        load: 0,
+        capacity: 2,
+      }),
+      expect.objectContaining({ deliveryUserId: riderIds.busy, load: 1 }),
+    ]);
+  });
+
+  it("offers the order to the next rider when an offer times out", async () => {
+    mockDispatchStore();
+
+    await DispatchService.startDispatch(organizationId, orderId, admin, {
+      offerTimeout: 30,
+    });
+    expect(offeredTo(sendToUser)).toEqual([riderIds.near]);
+
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+    expect(sendToUser).toHaveBeenCalledWith(
+      riderIds.near,
+      "order_offer_expired",
+      expect.anything()
+    );
+    expect(offeredTo(sendToUser)).toEqual([riderIds.near, riderIds.busy]);
+
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+    expect(sendToOrganization).toHaveBeenCalledWith(
+      organizationId,
+      "dispatch_exhausted",
+      expect.objectContaining({ orderId, offers: 2 })
+    );
+  });
+
+  it("moves on as soon as a rider rejects", async () => {
+    mockDispatchStore();
+    await DispatchService.startDispatch(organizationId, orderId, admin);
+
+    const result = await DispatchService.respondToOffer(
+      organizationId,
+      orderId,
+      riderIds.near,
+      false,
+      "Too far"
+    );
+
+    expect(result.message).toBe("Offer rejected");
+    expect(offeredTo(sendToUser)).toEqual([riderIds.near, riderIds.busy]);
+  });
+
+  it("does not start when nobody can take the order", async () => {
+    mockDispatchStore();
+    jest
+      .spyOn(LocationTracking, "find")
+      .mockReturnValue({ lean: async () => [] } as never);
+
+    const result = await DispatchService.startDispatch(
+      organizationId,
+      orderId,
+      admin
+    );
+
+    expect(result).toEqual({
+      success: false,
+      message: "No available delivery users for this order",
+    });
+    expect(sendToOrganization).toHaveBeenCalledWith(
+      organizationId,
+      "dispatch_exhausted",
+      expect.anything()
+    );
+  });
+});
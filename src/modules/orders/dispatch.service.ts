@@ -0,0 +1,549 @@
+import { UserRole } from "../auth/auth.interface";
+import DeliveryUser from "../deliveryUser/delivery.model";
+import { GeoUtils } from "../tracking/geo.utils";
+import { RealtimeTrackingService } from "../tracking/realtime-tracking.service";
+import LocationTracking from "../tracking/tracking.model";
+import Dispatch, { IDispatch, IDispatchCandidate } from "./dispatch.model";
+import Order, { IOrder, OrderStatus } from "./order.model";
+import { OrderActor, OrderResponse, OrderService } from "./order.service";
+
+// Dispatch options interface
+export interface DispatchOptions {
+  offerTimeout?: number; // in seconds
+  maxDistance?: number; // in meters
+}
+
+// Concurrent orders each vehicle type can carry
+export const VEHICLE_CAPACITY: Record<string, number> = {
+  bike: 2,
+  motorcycle: 3,
+  car: 5,
+  van: 10,
+  truck: 20,
+};
+
+export const DEFAULT_OFFER_TIMEOUT = 45;
+export const DEFAULT_MAX_DISTANCE = 10000;
+
+// Positions older than this mean the rider is not really on shift
+const STALE_POSITION_AGE = 10 * 60 * 1000;
+const FRESH_POSITION_AGE = 2 * 60 * 1000;
+
+// Score weights, the best candidate has the highest score
+const SCORE_WEIGHTS = {
+  distance: 0.6,
+  load: 0.25,
+  freshness: 0.15,
+};
+
+const ACTIVE_ORDER_STATUSES: OrderStatus[] = [
+  "assigned",
+  "picked_up",
+  "in_transit",
+];
+
+export class DispatchService {
+  private static offerTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  // Rank delivery users for an order without offering it
+  static async getCandidates(
+    organizationId: string,
+    orderId: string,
+    options: DispatchOptions = {}
+  ): Promise<OrderResponse> {
+    try {
+      const order = await Order.findOne({ _id: orderId, organizationId });
+      if (!order) {
+        return {
+          success: false,
+          message: "Order not found",
+        };
+      }
+
+      const candidates = await this.rankCandidates(order, [], options);
+
+      return {
+        success: true,
+        message: "Dispatch candidates retrieved successfully",
+        data: candidates,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to get dispatch candidates"
+      );
+    }
+  }
+
+  // Start offering an order to the best available delivery users in turn
+  static async startDispatch(
+    organizationId: string,
+    orderId: string,
+    actor: OrderActor,
+    options: DispatchOptions = {}
+  ): Promise<OrderResponse> {
+    try {
+      const order = await Order.findOne({ _id: orderId, organizationId });
+      if (!order) {
+        return {
+          success: false,
+          message: "Order not found",
+        };
+      }
+
+      if (order.status !== "created") {
+        return {
+          success: false,
+          message: "Only unassigned orders can be dispatched",
+        };
+      }
+
+      const running = await Dispatch.findOne({ orderId, status: "offering" });
+      if (running) {
+        return {
+          success: false,
+          message: "Order is already being dispatched",
+        };
+      }
+
+      const candidates = await this.rankCandidates(order, [], options);
+
+      const dispatch = await Dispatch.create({
+        orderId,
+        organizationId,
+        status: candidates.length > 0 ? "offering" : "exhausted",
+        candidates,
+        offers: [],
+        offerTimeout: options.offerTimeout ?? DEFAULT_OFFER_TIMEOUT,
+        startedBy: actor.userId,
+      });
+
+      if (candidates.length === 0) {
+        this.notifyExhausted(dispatch);
+        return {
+          success: false,
+          message: "No available delivery users for this order",
+        };
+      }
+
+      await this.offerNext(dispatch);
+
+      return {
+        success: true,
+        message: "Dispatch started successfully",
+        data: dispatch,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to start dispatch"
+      );
+    }
+  }
+
+  // Accept or reject a pending offer
+  static async respondToOffer(
+    organizationId: string,
+    orderId: string,
+    deliveryUserId: string,
+    accepted: boolean,
+    reason?: string
+  ): Promise<OrderResponse> {
+    try {
+      const dispatch = await Dispatch.findOne({
+        orderId,
+        organizationId,
+        status: "offering",
+        offers: { $elemMatch: { deliveryUserId, status: "pending" } },
+      });
+      if (!dispatch) {
+        return {
+          success: false,
+          message: "Offer not found",
+        };
+      }
+
+      const offer = dispatch.offers[dispatch.offers.length - 1];
+      if (offer.expiresAt.getTime() <= Date.now()) {
+        await this.expireOffer(String(dispatch._id), deliveryUserId);
+        return {
+          success: false,
+          message: "Offer has expired",
+        };
+      }
+
+      // Claim the offer atomically so a timeout cannot expire it meanwhile
+      const claimed = await Dispatch.findOneAndUpdate(
+        {
+          _id: dispatch._id,
+          status: "offering",
+          offers: { $elemMatch: { deliveryUserId, status: "pending" } },
+        },
+        {
+          $set: {
+            "offers.$.status": accepted ? "accepted" : "rejected",
+            "offers.$.respondedAt": new Date(),
+            "offers.$.reason": reason,
+          },
+        },
+        { new: true }
+      );
+      if (!claimed) {
+        return {
+          success: false,
+          message: "Offer is no longer available",
+        };
+      }
+      this.clearOfferTimer(String(claimed._id));
+
+      if (!accepted) {
+        RealtimeTrackingService.sendToOrganization(
+          organizationId,
+          "dispatch_offer_rejected",
+          { orderId, deliveryUserId, reason, timestamp: new Date() }
+        );
+        await this.offerNext(claimed);
+
+        return {
+          success: true,
+          message: "Offer rejected",
+        };
+      }
+
+      const actor: OrderActor = {
+        userId: deliveryUserId,
+        role: UserRole.DELIVERY_USER,
+      };
+      const result = await OrderService.assignOrder(
+        organizationId,
+        orderId,
+        deliveryUserId,
+        actor
+      );
+
+      claimed.status = result.success ? "assigned" : "cancelled";
+      if (result.success) claimed.assignedTo = deliveryUserId;
+      await claimed.save();
+
+      if (!result.success) {
+        return {
+          success: false,
+          message: "Order is no longer available",
+        };
+      }
+
+      return {
+        success: true,
+        message: "Offer accepted, order assigned",
+        data: result.data,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to respond to offer"
+      );
+    }
+  }
+
+  // Stop a running dispatch
+  static async cancelDispatch(
+    organizationId: string,
+    orderId: string
+  ): Promise<OrderResponse> {
+    try {
+      const dispatch = await Dispatch.findOneAndUpdate(
+        { orderId, organizationId, status: "offering" },
+        { status: "cancelled" },
+        { new: true }
+      );
+      if (!dispatch) {
+        return {
+          success: false,
+          message: "Dispatch not found",
+        };
+      }
+
+      this.clearOfferTimer(String(dispatch._id));
+
+      const pending = dispatch.offers.find(
+        (offer) => offer.status === "pending"
+      );
+      if (pending) {
+        RealtimeTrackingService.sendToUser(
+          pending.deliveryUserId,
+          "order_offer_withdrawn",
+          { orderId, timestamp: new Date() }
+        );
+      }
+
+      return {
+        success: true,
+        message: "Dispatch cancelled successfully",
+        data: dispatch,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to cancel dispatch"
+      );
+    }
+  }
+
+  // Get the latest dispatch for an order
+  static async getDispatch(
+    organizationId: string,
+    orderId: string
+  ): Promise<OrderResponse> {
+    try {
+      const dispatch = await Dispatch.findOne({ orderId, organizationId })
+        .populate("candidates.deliveryUserId", "name phone vehicleType")
+        .sort({ createdAt: -1 });
+
+      if (!dispatch) {
+        return {
+          success: false,
+          message: "Dispatch not found",
+        };
+      }
+
+      return {
+        success: true,
+        message: "Dispatch retrieved successfully",
+        data: dispatch,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get dispatch"
+      );
+    }
+  }
+
+  // Re-arm offer timeouts after a restart
+  static async resumePendingDispatches(): Promise<void> {
+    const dispatches = await Dispatch.find({ status: "offering" });
+
+    for (const dispatch of dispatches) {
+      const pending = dispatch.offers.find(
+        (offer) => offer.status === "pending"
+      );
+      if (pending) {
+        this.armOfferTimer(
+          String(dispatch._id),
+          pending.deliveryUserId,
+          pending.expiresAt
+        );
+      } else {
+        await this.offerNext(dispatch);
+      }
+    }
+  }
+
+  // Helper method to score active delivery users for an order
+  private static async rankCandidates(
+    order: IOrder,
+    excluded: string[],
+    options: DispatchOptions
+  ): Promise<IDispatchCandidate[]> {
+    const maxDistance = options.maxDistance ?? DEFAULT_MAX_DISTANCE;
+    const now = Date.now();
+
+    // Tracking sessions double as shifts: only riders tracking right now
+    const trackings = await LocationTracking.find({
+      organizationId: order.organizationId,
+      isActive: true,
+    }).lean();
+
+    const riderIds = trackings
+      .map((tracking) => tracking.userId.toString())
+      .filter((riderId) => !excluded.includes(riderId));
+    if (riderIds.length === 0) return [];
+
+    const riders = await DeliveryUser.find({
+      _id: { $in: riderIds },
+      organizationId: order.organizationId,
+      status: "active",
+    }).lean();
+
+    const loads = await Order.aggregate([
+      {
+        $match: {
+          assignedTo: { $in: riderIds },
+          status: { $in: ACTIVE_ORDER_STATUSES },
+        },
+      },
+      { $group: { _id: "$assignedTo", count: { $sum: 1 } } },
+    ]);
+    const loadByRider = new Map<string, number>(
+      loads.map((load) => [load._id.toString(), load.count])
+    );
+
+    const candidates: IDispatchCandidate[] = [];
+    for (const rider of riders) {
+      const riderId = rider._id.toString();
+      const tracking = trackings.find(
+        (item) => item.userId.toString() === riderId
+      );
+      if (!tracking?.location) continue;
+
+      const age = now - new Date(tracking.location.timestamp).getTime();
+      if (age > STALE_POSITION_AGE) continue;
+
+      const distance = GeoUtils.distanceInMeters(
+        tracking.location,
+        order.pickup
+      );
+      if (distance > maxDistance) continue;
+
+      const capacity = VEHICLE_CAPACITY[rider.vehicleType] ?? 1;
+      const load = loadByRider.get(riderId) ?? 0;
+      if (load >= capacity) continue;
+
+      const freshness =
+        age <= FRESH_POSITION_AGE
+          ? 1
+          : 1 -
+            (age - FRESH_POSITION_AGE) /
+              (STALE_POSITION_AGE - FRESH_POSITION_AGE);
+      const score =
+        SCORE_WEIGHTS.distance * (1 - distance / maxDistance) +
+        SCORE_WEIGHTS.load * (1 - load / capacity) +
+        SCORE_WEIGHTS.freshness * freshness;
+
+      candidates.push({
+        deliveryUserId: riderId,
+        score: Math.round(score * 1000) / 1000,
+        distance: Math.round(distance),
+        load,
+        capacity,
+        vehicleType: rider.vehicleType,
+      });
+    }
+
+    return candidates.sort((a, b) => b.score - a.score);
+  }
+
+  // Helper method to offer the order to the next candidate in line
+  private static async offerNext(dispatch: IDispatch): Promise<void> {
+    const order = await Order.findById(dispatch.orderId);
+    if (!order || order.status !== "created") {
+      dispatch.status = "cancelled";
+      await dispatch.save();
+      return;
+    }
+
+    const offered = new Set(
+      dispatch.offers.map((offer) => offer.deliveryUserId)
+    );
+    const next = dispatch.candidates.find(
+      (candidate) => !offered.has(candidate.deliveryUserId)
+    );
+    if (!next) {
+      dispatch.status = "exhausted";
+      await dispatch.save();
+      this.notifyExhausted(dispatch);
+      return;
+    }
+
+    const offeredAt = new Date();
+    const expiresAt = new Date(
+      offeredAt.getTime() + dispatch.offerTimeout * 1000
+    );
+    dispatch.offers.push({
+      deliveryUserId: next.deliveryUserId,
+      status: "pending",
+      offeredAt,
+      expiresAt,
+    });
+    await dispatch.save();
+
+    RealtimeTrackingService.sendToUser(next.deliveryUserId, "order_offer", {
+      orderId: dispatch.orderId,
+      orderNumber: order.orderNumber,
+      pickup: order.pickup,
+      dropoff: order.dropoff,
+      pickupWindow: order.pickupWindow,
+      dropoffWindow: order.dropoffWindow,
+      distance: next.distance,
+      expiresAt,
+    });
+    RealtimeTrackingService.sendToOrganization(
+      dispatch.organizationId,
+      "dispatch_offer_sent",
+      {
+        orderId: dispatch.orderId,
+        deliveryUserId: next.deliveryUserId,
+        score: next.score,
+        expiresAt,
+      }
+    );
+
+    this.armOfferTimer(String(dispatch._id), next.deliveryUserId, expiresAt);
+  }
+
+  // Helper method to expire an unanswered offer and cascade
+  private static async expireOffer(
+    dispatchId: string,
+    deliveryUserId: string
+  ): Promise<void> {
+    this.clearOfferTimer(dispatchId);
+
+    const dispatch = await Dispatch.findOneAndUpdate(
+      {
+        _id: dispatchId,
+        status: "offering",
+        offers: { $elemMatch: { deliveryUserId, status: "pending" } },
+      },
+      {
+        $set: {
+          "offers.$.status": "expired",
+          "offers.$.respondedAt": new Date(),
+        },
+      },
+      { new: true }
+    );
+    if (!dispatch) return;
+
+    RealtimeTrackingService.sendToUser(deliveryUserId, "order_offer_expired", {
+      orderId: dispatch.orderId,
+      timestamp: new Date(),
+    });
+
+    await this.offerNext(dispatch);
+  }
+
+  // Helper method to schedule the timeout of the current offer
+  private static armOfferTimer(
+    dispatchId: string,
+    deliveryUserId: string,
+    expiresAt: Date
+  ) {
+    this.clearOfferTimer(dispatchId);
+
+    const timer = setTimeout(() => {
+      this.expireOffer(dispatchId, deliveryUserId).catch((error) =>
+        console.error("Dispatch offer timeout error:", error)
+      );
+    }, Math.max(expiresAt.getTime() - Date.now(), 0));
+    this.offerTimers.set(dispatchId, timer);
+  }
+
+  // Helper method to clear a pending offer timeout
+  private static clearOfferTimer(dispatchId: string) {
+    const timer = this.offerTimers.get(dispatchId);
+    if (timer) {
+      clearTimeout(timer);
+      this.offerTimers.delete(dispatchId);
+    }
+  }
+
+  // Helper method to hand the order back to the dispatchers
+  private static notifyExhausted(dispatch: IDispatch) {
+    RealtimeTrackingService.sendToOrganization(
+      dispatch.organizationId,
+      "dispatch_exhausted",
+      {
+        orderId: dispatch.orderId,
+        offers: dispatch.offers.length,
+        timestamp: new Date(),
+      }
+    );
+  }
+}
@@ -0,0 +1,320 @@
+import { Response } from "express";
+import { AuthenticatedRequest, UserRole } from "../auth/auth.interface";
+import { OrderStatus } from "./order.model";
+import { OrderActor, OrderResponse, OrderService } from "./order.service";
+import { RouteOptimizationService } from "./route-optimization.service";
+
+// Build the acting user from the authenticated request
+const getActor = (req: AuthenticatedRequest): OrderActor => ({
+  userId: req.user!.userId,
+  role: req.user!.role,
+});
+
+// Map a failed service result to a status code
+const failureStatus = (result: OrderResponse): number => {
+  if (result.message.endsWith("not found")) return 404;
+  if (result.message.endsWith("in the meantime")) return 409;
+  return 400;
+};
+
+export class OrderController {
+  // Create order
+  static async createOrder(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+
+      const result = await OrderService.createOrder(
+        organizationId,
+        getActor(req),
+        req.body
+      );
+
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to create order";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Get orders for organization
+  static async getOrders(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { status, assignedTo, search, startDate, endDate, page, limit } =
+        req.query;
+
+      const result = await OrderService.getOrders(organizationId, {
+        status: status as OrderStatus,
+        assignedTo: assignedTo as string,
+        search: search as string,
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+        page: page ? parseInt(page as string) : 1,
+        limit: limit ? parseInt(limit as string) : 20,
+      });
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to get orders";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Get orders assigned to authenticated delivery user
+  static async getMyOrders(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = req.user!.userId;
+      const { status } = req.query;
+
+      const result = await OrderService.getDeliveryUserOrders(
+        userId,
+        status as OrderStatus
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to get orders";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Get order by ID
+  static async getOrderById(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { orderId } = req.params;
+
+      const result = await OrderService.getOrderById(
+        organizationId,
+        orderId,
+        getActor(req)
+      );
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to get order";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Update order
+  static async updateOrder(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { orderId } = req.params;
+
+      const result = await OrderService.updateOrder(
+        organizationId,
+        orderId,
+        req.body
+      );
+
+      if (!result.success) {
+        return res.status(failureStatus(result)).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to update order";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Assign order to delivery user
+  static async assignOrder(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { orderId } = req.params;
+      const { deliveryUserId } = req.body;
+
+      const result = await OrderService.assignOrder(
+        organizationId,
+        orderId,
+        deliveryUserId,
+        getActor(req)
+      );
+
+      if (!result.success) {
+        return res.status(failureStatus(result)).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to assign order";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Unassign order from delivery user
+  static async unassignOrder(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { orderId } = req.params;
+
+      const result = await OrderService.unassignOrder(
+        organizationId,
+        orderId,
+        getActor(req),
+        req.body?.reason
+      );
+
+      if (!result.success) {
+        return res.status(failureStatus(result)).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to unassign order";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Update order status
+  static async updateOrderStatus(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { orderId } = req.params;
+      const { status, reason } = req.body;
+
+      const result = await OrderService.updateOrderStatus(
+        organizationId,
+        orderId,
+        status,
+        getActor(req),
+        reason
+      );
+
+      if (!result.success) {
+        return res.status(failureStatus(result)).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to update order status";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Cancel order
+  static async cancelOrder(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { orderId } = req.params;
+
+      const result = await OrderService.cancelOrder(
+        organizationId,
+        orderId,
+        getActor(req),
+        req.body.reason
+      );
+
+      if (!result.success) {
+        return res.status(failureStatus(result)).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to cancel order";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Optimize the visiting order of a delivery user's stops
+  static async optimizeRoute(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { deliveryUserId, start, departureTime, stops, provider } =
+        req.body;
+
+      // Delivery users can only plan their own route
+      const riderId =
+        req.user!.role === UserRole.DELIVERY_USER
+          ? req.user!.userId
+          : deliveryUserId;
+      if (!riderId) {
+        return res.status(400).json({
+          success: false,
+          message: "Delivery user ID is required",
+        });
+      }
+
+      const result = await RouteOptimizationService.optimizeRoute({
+        deliveryUserId: riderId,
+        organizationId,
+        start,
+        departureTime: departureTime ? new Date(departureTime) : undefined,
+        stops,
+        provider,
+      });
+
+      if (!result.success) {
+        return res.status(failureStatus(result)).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to optimize route";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+}
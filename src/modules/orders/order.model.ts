@@ -0,0 +1,258 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type OrderStatus =
+  | "created"
+  | "assigned"
+  | "picked_up"
+  | "in_transit"
+  | "delivered"
+  | "failed"
+  | "cancelled";
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  "created",
+  "assigned",
+  "picked_up",
+  "in_transit",
+  "delivered",
+  "failed",
+  "cancelled",
+];
+
+// Address interface
+export interface IOrderAddress {
+  address: string;
+  latitude: number;
+  longitude: number;
+  contactName?: string;
+  contactPhone?: string;
+  instructions?: string;
+}
+
+// Time window interface
+export interface ITimeWindow {
+  start?: Date;
+  end?: Date;
+}
+
+// Status transition interface
+export interface IOrderStatusChange {
+  status: OrderStatus;
+  previousStatus?: OrderStatus;
+  timestamp: Date;
+  location?: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+    timestamp: Date;
+  };
+  changedBy: string;
+  changedByRole: string;
+  deliveryUserId?: string;
+  reason?: string;
+}
+
+// Order interface
+export interface IOrder extends Document {
+  organizationId: string;
+  orderNumber: string;
+  customer: {
+    name: string;
+    phone: string;
+    email?: string;
+  };
+  pickup: IOrderAddress;
+  dropoff: IOrderAddress;
+  pickupWindow?: ITimeWindow;
+  dropoffWindow?: ITimeWindow;
+  description?: string;
+  notes?: string;
+  priority: "low" | "normal" | "high" | "urgent";
+  status: OrderStatus;
+  assignedTo?: string;
+  statusHistory: IOrderStatusChange[];
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const addressDefinition = {
+  address: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 300,
+  },
+  latitude: {
+    type: Number,
+    required: true,
+    min: -90,
+    max: 90,
+  },
+  longitude: {
+    type: Number,
+    required: true,
+    min: -180,
+    max: 180,
+  },
+  contactName: {
+    type: String,
+    trim: true,
+    maxlength: 100,
+  },
+  contactPhone: {
+    type: String,
+    trim: true,
+  },
+  instructions: {
+    type: String,
+    maxlength: 500,
+  },
+};
+
+const timeWindowDefinition = {
+  start: Date,
+  end: Date,
+};
+
+// Status Change Schema
+const orderStatusChangeSchema = new Schema<IOrderStatusChange>(
+  {
+    status: {
+      type: String,
+      enum: ORDER_STATUSES,
+      required: true,
+    },
+    previousStatus: {
+      type: String,
+      enum: ORDER_STATUSES,
+    },
+    timestamp: {
+      type: Date,
+      default: Date.now,
+    },
+    location: {
+      type: new Schema(
+        {
+          latitude: { type: Number, required: true },
+          longitude: { type: Number, required: true },
+          accuracy: Number,
+          timestamp: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+    },
+    changedBy: {
+      type: String,
+      required: true,
+    },
+    changedByRole: {
+      type: String,
+      required: true,
+    },
+    deliveryUserId: {
+      type: String,
+      ref: "DeliveryUser",
+    },
+    reason: {
+      type: String,
+      maxlength: 500,
+    },
+  },
+  { _id: false }
+);
+
+// Order Schema
+const orderSchema = new Schema<IOrder>(
+  {
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: true,
+    },
+    orderNumber: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    customer: {
+      name: {
+        type: String,
+        required: true,
+        trim: true,
+        maxlength: 100,
+      },
+      phone: {
+        type: String,
+        required: true,
+        trim: true,
+      },
+      email: {
+        type: String,
+        lowercase: true,
+        trim: true,
+      },
+    },
+    pickup: {
+      type: new Schema(addressDefinition, { _id: false }),
+      required: true,
+    },
+    dropoff: {
+      type: new Schema(addressDefinition, { _id: false }),
+      required: true,
+    },
+    pickupWindow: {
+      type: new Schema(timeWindowDefinition, { _id: false }),
+    },
+    dropoffWindow: {
+      type: new Schema(timeWindowDefinition, { _id: false }),
+    },
+    description: {
+      type: String,
+      maxlength: 1000,
+    },
+    notes: {
+      type: String,
+      maxlength: 1000,
+    },
+    priority: {
+      type: String,
+      enum: ["low", "normal", "high", "urgent"],
+      default: "normal",
+    },
+    status: {
+      type: String,
+      enum: ORDER_STATUSES,
+      default: "created",
+    },
+    assignedTo: {
+      type: String,
+      ref: "DeliveryUser",
+    },
+    statusHistory: [orderStatusChangeSchema],
+    createdBy: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better performance
+orderSchema.index({ organizationId: 1, status: 1, createdAt: -1 });
+orderSchema.index({ assignedTo: 1, status: 1 });
+orderSchema.index({ organizationId: 1, "customer.phone": 1 });
+
+// Transform toJSON
+orderSchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+export const Order = mongoose.model<IOrder>("Order", orderSchema);
+
+export default Order;
@@ -0,0 +1,316 @@
+import { Router } from "express";
+import Joi from "joi";
+import { AuthMiddleware } from "../../middlewares/auth.middleware";
+import { ValidationMiddleware } from "../../middlewares/validate.middleware";
+import { UserRole } from "../auth/auth.interface";
+import { DispatchController } from "./dispatch.controller";
+import { OrderController } from "./order.controller";
+import { ORDER_STATUSES } from "./order.model";
+import { MAX_ROUTE_STOPS } from "./route-optimization.service";
+import { TrackingLinkController } from "./tracking-link.controller";
+
+const router = Router();
+
+const addressSchema = Joi.object({
+  address: Joi.string().max(300).required(),
+  latitude: Joi.number().min(-90).max(90).required(),
+  longitude: Joi.number().min(-180).max(180).required(),
+  contactName: Joi.string().max(100).optional(),
+  contactPhone: Joi.string().optional(),
+  instructions: Joi.string().max(500).optional(),
+});
+
+const timeWindowSchema = Joi.object({
+  start: Joi.date().optional(),
+  end: Joi.date().optional(),
+});
+
+const customerSchema = Joi.object({
+  name: Joi.string().max(100).required(),
+  phone: Joi.string().required(),
+  email: Joi.string().email().optional(),
+});
+
+// Order create validation schema
+const createOrderSchema = Joi.object({
+  customer: customerSchema.required(),
+  pickup: addressSchema.required(),
+  dropoff: addressSchema.required(),
+  pickupWindow: timeWindowSchema.optional(),
+  dropoffWindow: timeWindowSchema.optional(),
+  description: Joi.string().max(1000).optional(),
+  notes: Joi.string().max(1000).optional(),
+  priority: Joi.string().valid("low", "normal", "high", "urgent").optional(),
+});
+
+// Order update validation schema
+const updateOrderSchema = Joi.object({
+  customer: customerSchema.optional(),
+  pickup: addressSchema.optional(),
+  dropoff: addressSchema.optional(),
+  pickupWindow: timeWindowSchema.optional(),
+  dropoffWindow: timeWindowSchema.optional(),
+  description: Joi.string().max(1000).optional(),
+  notes: Joi.string().max(1000).optional(),
+  priority: Joi.string().valid("low", "normal", "high", "urgent").optional(),
+});
+
+// Order query validation schema
+const orderQuerySchema = Joi.object({
+  status: Joi.string()
+    .valid(...ORDER_STATUSES)
+    .optional(),
+  assignedTo: Joi.string().optional(),
+  search: Joi.string().max(100).optional(),
+  startDate: Joi.date().optional(),
+  endDate: Joi.date().optional(),
+  page: Joi.number().min(1).optional(),
+  limit: Joi.number().min(1).max(100).optional(),
+});
+
+// Order assignment validation schema
+const assignOrderSchema = Joi.object({
+  deliveryUserId: Joi.string().required(),
+});
+
+// Order status validation schema
+const orderStatusSchema = Joi.object({
+  status: Joi.string()
+    .valid("picked_up", "in_transit", "delivered", "failed")
+    .required(),
+  reason: Joi.string().max(500).when("status", {
+    is: "failed",
+    then: Joi.required(),
+    otherwise: Joi.optional(),
+  }),
+});
+
+// Order reason validation schema
+const orderReasonSchema = Joi.object({
+  reason: Joi.string().max(500).optional(),
+});
+
+// Order cancel validation schema
+const cancelOrderSchema = Joi.object({
+  reason: Joi.string().max(500).required(),
+});
+
+// Dispatch start validation schema
+const startDispatchSchema = Joi.object({
+  offerTimeout: Joi.number().min(10).max(600).optional(),
+  maxDistance: Joi.number().min(100).optional(),
+});
+
+// Dispatch candidates query validation schema
+const dispatchCandidatesQuerySchema = Joi.object({
+  maxDistance: Joi.number().min(100).optional(),
+});
+
+// Tracking link create validation schema
+const createTrackingLinkSchema = Joi.object({
+  gracePeriod: Joi.number().min(0).max(1440).optional(),
+  expiresIn: Joi.number().min(1).max(168).optional(),
+});
+
+// Route optimisation validation schema
+const optimizeRouteSchema = Joi.object({
+  deliveryUserId: Joi.string().optional(),
+  start: Joi.object({
+    latitude: Joi.number().min(-90).max(90).required(),
+    longitude: Joi.number().min(-180).max(180).required(),
+  }).optional(),
+  departureTime: Joi.date().optional(),
+  provider: Joi.string().valid("haversine", "google").optional(),
+  stops: Joi.array()
+    .items(
+      Joi.object({
+        id: Joi.string().max(100).required(),
+        latitude: Joi.number().min(-90).max(90).required(),
+        longitude: Joi.number().min(-180).max(180).required(),
+        windowStart: Joi.date().optional(),
+        windowEnd: Joi.date().optional(),
+        serviceTime: Joi.number().min(0).max(3600).optional(),
+      })
+    )
+    .min(1)
+    .max(MAX_ROUTE_STOPS)
+    .unique("id")
+    .required(),
+});
+
+const orderAdminRoles = [UserRole.ORGANIZATION_ADMIN, UserRole.ADMIN];
+
+// ==================== DELIVERY USER ROUTES ====================
+
+// Get my active orders (Delivery User)
+router.get(
+  "/my",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.DELIVERY_USER]),
+  ValidationMiddleware.validateQuery(orderQuerySchema),
+  OrderController.getMyOrders
+);
+
+// Optimize stop order for a delivery user (Delivery User, Organization Admin)
+router.post(
+  "/routes/optimize",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.DELIVERY_USER, ...orderAdminRoles]),
+  ValidationMiddleware.validateBody(optimizeRouteSchema),
+  OrderController.optimizeRoute
+);
+
+// Update order status (Delivery User, Organization Admin)
+router.patch(
+  "/:orderId/status",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.DELIVERY_USER, ...orderAdminRoles]),
+  ValidationMiddleware.validateBody(orderStatusSchema),
+  OrderController.updateOrderStatus
+);
+
+// Accept order offer (Delivery User)
+router.post(
+  "/:orderId/offer/accept",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.DELIVERY_USER]),
+  DispatchController.acceptOffer
+);
+
+// Reject order offer (Delivery User)
+router.post(
+  "/:orderId/offer/reject",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.DELIVERY_USER]),
+  ValidationMiddleware.validateBody(orderReasonSchema),
+  DispatchController.rejectOffer
+);
+
+// ==================== ORGANIZATION ADMIN ROUTES ====================
+
+// Create order (Organization Admin)
+router.post(
+  "/",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(orderAdminRoles),
+  ValidationMiddleware.validateBody(createOrderSchema),
+  OrderController.createOrder
+);
+
+// Get orders (Organization Admin)
+router.get(
+  "/",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(orderAdminRoles),
+  ValidationMiddleware.validateQuery(orderQuerySchema),
+  OrderController.getOrders
+);
+
+// Get order by ID (Organization Admin, assigned Delivery User)
+router.get(
+  "/:orderId",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.DELIVERY_USER, ...orderAdminRoles]),
+  OrderController.getOrderById
+);
+
+// Update order (Organization Admin)
+router.put(
+  "/:orderId",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(orderAdminRoles),
+  ValidationMiddleware.validateBody(updateOrderSchema),
+  OrderController.updateOrder
+);
+
+// Assign order to delivery user (Organization Admin)
+router.patch(
+  "/:orderId/assign",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(orderAdminRoles),
+  ValidationMiddleware.validateBody(assignOrderSchema),
+  OrderController.assignOrder
+);
+
+// Unassign order (Organization Admin)
+router.patch(
+  "/:orderId/unassign",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(orderAdminRoles),
+  ValidationMiddleware.validateBody(orderReasonSchema),
+  OrderController.unassignOrder
+);
+
+// Cancel order (Organization Admin)
+router.patch(
+  "/:orderId/cancel",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(orderAdminRoles),
+  ValidationMiddleware.validateBody(cancelOrderSchema),
+  OrderController.cancelOrder
+);
+
+// ==================== DISPATCH ROUTES ====================
+
+// Get ranked delivery users for order (Organization Admin)
+router.get(
+  "/:orderId/dispatch/candidates",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(orderAdminRoles),
+  ValidationMiddleware.validateQuery(dispatchCandidatesQuerySchema),
+  DispatchController.getCandidates
+);
+
+// Start automatic dispatch (Organization Admin)
+router.post(
+  "/:orderId/dispatch",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(orderAdminRoles),
+  ValidationMiddleware.validateBody(startDispatchSchema),
+  DispatchController.startDispatch
+);
+
+// Get dispatch progress (Organization Admin)
+router.get(
+  "/:orderId/dispatch",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(orderAdminRoles),
+  DispatchController.getDispatch
+);
+
+// Cancel automatic dispatch (Organization Admin)
+router.delete(
+  "/:orderId/dispatch",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(orderAdminRoles),
+  DispatchController.cancelDispatch
+);
+
+// ==================== TRACKING LINK ROUTES ====================
+
+// Create customer tracking link (Organization Admin)
+router.post(
+  "/:orderId/tracking-links",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(orderAdminRoles),
+  ValidationMiddleware.validateBody(createTrackingLinkSchema),
+  TrackingLinkController.createLink
+);
+
+// Get customer tracking links (Organization Admin)
+router.get(
+  "/:orderId/tracking-links",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(orderAdminRoles),
+  TrackingLinkController.getLinks
+);
+
+// Revoke customer tracking link (Organization Admin)
+router.delete(
+  "/:orderId/tracking-links/:linkId",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(orderAdminRoles),
+  TrackingLinkController.revokeLink
+);
+
+export default router;
@@ -0,0 +1,160 @@
+import { Types } from "mongoose";
+import { UserRole } from "../auth/auth.interface";
+import { RealtimeTrackingService } from "../tracking/realtime-tracking.service";
+import LocationTracking from "../tracking/tracking.model";
+import Order, { OrderStatus } from "./order.model";
+import { ORDER_TRANSITIONS, OrderService } from "./order.service";
+
+const organizationId = new Types.ObjectId().toString();
+const orderId = new Types.ObjectId().toString();
+const riderId = new Types.ObjectId().toString();
+const rider = { userId: riderId, role: UserRole.DELIVERY_USER };
+const admin = {
+  userId: new Types.ObjectId().toString(),
+  role: UserRole.ORGANIZATION_ADMIN,
+};
+
+// Load an order in the given state, and echo back whatever is written
+const mockOrder = (status: OrderStatus) => {
+  const order = {
+    _id: orderId,
+    orderNumber: "ORD-1",
+    organizationId,
+    assignedTo: riderId,
+    status,
+  };
+  jest.spyOn(Order, "findOne").mockResolvedValue(order as never);
+  return jest
+    .spyOn(Order, "findOneAndUpdate")
+    .mockImplementation(
+      (_filter: any, update: any) =>
+        Promise.resolve({ ...order, ...update.$set }) as never
+    );
+};
+
+describe("ORDER_TRANSITIONS", () => {
+  it("ends every path in a final state", () => {
+    for (const status of ["delivered", "failed", "cancelled"] as const) {
+      expect(ORDER_TRANSITIONS[status]).toEqual([]);
+    }
+  });
+
+  it("only cancels orders that have not left with the rider", () => {
+    expect(OrderService.canTransition("assigned", "cancelled")).toBe(true);
+    expect(OrderService.canTransition("picked_up", "cancelled")).toBe(true);
+    expect(OrderService.canTransition("in_transit", "cancelled")).toBe(false);
+  });
+
+  it("does not skip pickup", () => {
+    expect(OrderService.canTransition("assigned", "delivered")).toBe(false);
+    expect(OrderService.canTransition("created", "picked_up")).toBe(false);
+  });
+});
+
+describe("OrderService transitions", () => {
+  beforeEach(() => {
+    const tracking = { sort: async () => null };
+    jest.spyOn(LocationTracking, "findOne").mockReturnValue(tracking as never);
+    jest
+      .spyOn(RealtimeTrackingService, "sendToOrganization")
+      .mockImplementation();
+    jest.spyOn(RealtimeTrackingService, "sendToUser").mockImplementation();
+    jest.spyOn(RealtimeTrackingService, "sendToDelivery").mockImplementation();
+    jest
+      .spyOn(RealtimeTrackingService, "closeDeliveryRoom")
+      .mockImplementation();
+  });
+
+  it("applies a change only while the order is still in its previous state", async () => {
+    const findOneAndUpdate = mockOrder("in_transit");
+
+    const result = await OrderService.updateOrderStatus(
+      organizationId,
+      orderId,
+      "delivered",
+      rider
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data.status).toBe("delivered");
+    expect(findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: orderId, status: "in_transit" },
+      {
+        $set: { status: "delivered", assignedTo: riderId },
+        $push: {
+          statusHistory: expect.objectContaining({
+            status: "delivered",
+            previousStatus: "in_transit",
+            changedBy: riderId,
+          }),
+        },
+      },
+      expect.objectContaining({ new: true })
+    );
+    expect(RealtimeTrackingService.closeDeliveryRoom).toHaveBeenCalled();
+  });
+
+  it("reports a conflict when another change got there first", async () => {
+    mockOrder("picked_up");
+    jest.spyOn(Order, "findOneAndUpdate").mockResolvedValue(null);
+
+    const result = await OrderService.cancelOrder(
+      organizationId,
+      orderId,
+      admin,
+      "Customer cancelled"
+    );
+
+    expect(result).toEqual({
+      success: false,
+      message: "Order status was changed from picked_up in the meantime",
+    });
+    expect(RealtimeTrackingService.sendToOrganization).not.toHaveBeenCalled();
+  });
+
+  it("refuses a transition the state machine does not allow", async () => {
+    const findOneAndUpdate = mockOrder("delivered");
+
+    const result = await OrderService.cancelOrder(
+      organizationId,
+      orderId,
+      admin,
+      "Too late"
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe(
+      "Cannot change order status from delivered to cancelled"
+    );
+    expect(findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it("clears the rider when an order is taken back", async () => {
+    const findOneAndUpdate = mockOrder("assigned");
+
+    await OrderService.unassignOrder(organizationId, orderId, admin);
+
+    expect(findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: orderId, status: "assigned" },
+      expect.objectContaining({
+        $set: { status: "created" },
+        $unset: { assignedTo: "" },
+      }),
+      expect.anything()
+    );
+  });
+
+  it("requires a reason for a failed delivery", async () => {
+    const findOneAndUpdate = mockOrder("in_transit");
+
+    const result = await OrderService.updateOrderStatus(
+      organizationId,
+      orderId,
+      "failed",
+      rider
+    );
+
+    expect(result.message).toBe("A reason is required for failed deliveries");
+    expect(findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,586 @@
+import crypto from "crypto";
+import { UserRole } from "../auth/auth.interface";
+import DeliveryUser from "../deliveryUser/delivery.model";
+import { RealtimeTrackingService } from "../tracking/realtime-tracking.service";
+import LocationTracking from "../tracking/tracking.model";
+import Order, {
+  IOrder,
+  IOrderAddress,
+  IOrderStatusChange,
+  ITimeWindow,
+  OrderStatus,
+} from "./order.model";
+
+// Order Service Response Interface
+export interface OrderResponse {
+  success: boolean;
+  message: string;
+  data?: any;
+}
+
+// User performing an order action
+export interface OrderActor {
+  userId: string;
+  role: string;
+}
+
+// Order create data interface
+export interface CreateOrderData {
+  customer: {
+    name: string;
+    phone: string;
+    email?: string;
+  };
+  pickup: IOrderAddress;
+  dropoff: IOrderAddress;
+  pickupWindow?: ITimeWindow;
+  dropoffWindow?: ITimeWindow;
+  description?: string;
+  notes?: string;
+  priority?: IOrder["priority"];
+}
+
+// Order update data interface
+export type UpdateOrderData = Partial<CreateOrderData>;
+
+// Order list filters interface
+export interface OrderFilters {
+  status?: OrderStatus;
+  assignedTo?: string;
+  search?: string;
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  limit?: number;
+}
+
+// Allowed next states for each state
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  created: ["assigned", "cancelled"],
+  assigned: ["created", "picked_up", "cancelled"],
+  picked_up: ["in_transit", "failed", "cancelled"],
+  in_transit: ["delivered", "failed"],
+  delivered: [],
+  failed: [],
+  cancelled: [],
+};
+
+// States a delivery user can move their own orders into
+const DELIVERY_USER_STATUSES: OrderStatus[] = [
+  "picked_up",
+  "in_transit",
+  "delivered",
+  "failed",
+];
+
+export class OrderService {
+  // Create a new order
+  static async createOrder(
+    organizationId: string,
+    actor: OrderActor,
+    data: CreateOrderData
+  ): Promise<OrderResponse> {
+    try {
+      const windowError =
+        this.validateTimeWindow(data.pickupWindow, "Pickup") ||
+        this.validateTimeWindow(data.dropoffWindow, "Drop-off");
+      if (windowError) {
+        return {
+          success: false,
+          message: windowError,
+        };
+      }
+
+      const order = await Order.create({
+        ...data,
+        organizationId,
+        orderNumber: this.generateOrderNumber(),
+        status: "created",
+        statusHistory: [
+          {
+            status: "created",
+            timestamp: new Date(),
+            changedBy: actor.userId,
+            changedByRole: actor.role,
+          },
+        ],
+        createdBy: actor.userId,
+      });
+
+      RealtimeTrackingService.sendToOrganization(
+        organizationId,
+        "order_created",
+        {
+          orderId: order._id,
+          orderNumber: order.orderNumber,
+          status: order.status,
+          timestamp: new Date(),
+        }
+      );
+
+      return {
+        success: true,
+        message: "Order created successfully",
+        data: order,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to create order"
+      );
+    }
+  }
+
+  // Get orders for an organization
+  static async getOrders(
+    organizationId: string,
+    filters: OrderFilters
+  ): Promise<OrderResponse> {
+    try {
+      const { page = 1, limit = 20 } = filters;
+      const query: any = { organizationId };
+
+      if (filters.status) query.status = filters.status;
+      if (filters.assignedTo) query.assignedTo = filters.assignedTo;
+      if (filters.search) {
+        const search = new RegExp(
+          filters.search.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+          "i"
+        );
+        query.$or = [
+          { orderNumber: search },
+          { "customer.name": search },
+          { "customer.phone": search },
+        ];
+      }
+      if (filters.startDate || filters.endDate) {
+        query.createdAt = {};
+        if (filters.startDate) query.createdAt.$gte = filters.startDate;
+        if (filters.endDate) query.createdAt.$lte = filters.endDate;
+      }
+
+      const skip = (page - 1) * limit;
+
+      const orders = await Order.find(query)
+        .populate("assignedTo", "name email phone vehicleType")
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit);
+
+      const total = await Order.countDocuments(query);
+
+      return {
+        success: true,
+        message: "Orders retrieved successfully",
+        data: {
+          orders,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit),
+          },
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get orders"
+      );
+    }
+  }
+
+  // Get order by ID, delivery users only see orders assigned to them
+  static async getOrderById(
+    organizationId: string,
+    orderId: string,
+    actor: OrderActor
+  ): Promise<OrderResponse> {
+    try {
+      const query: any = { _id: orderId, organizationId };
+      if (actor.role === UserRole.DELIVERY_USER) {
+        query.assignedTo = actor.userId;
+      }
+
+      const order = await Order.findOne(query).populate(
+        "assignedTo",
+        "name email phone vehicleType"
+      );
+
+      if (!order) {
+        return {
+          success: false,
+          message: "Order not found",
+        };
+      }
+
+      return {
+        success: true,
+        message: "Order retrieved successfully",
+        data: order,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get order"
+      );
+    }
+  }
+
+  // Get orders assigned to a delivery user
+  static async getDeliveryUserOrders(
+    deliveryUserId: string,
+    status?: OrderStatus
+  ): Promise<OrderResponse> {
+    try {
+      const query: any = { assignedTo: deliveryUserId };
+      query.status = status ?? {
+        $in: ["assigned", "picked_up", "in_transit"],
+      };
+
+      const orders = await Order.find(query).sort({
+        "dropoffWindow.end": 1,
+        createdAt: 1,
+      });
+
+      return {
+        success: true,
+        message: "Orders retrieved successfully",
+        data: orders,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get orders"
+      );
+    }
+  }
+
+  // Update order details before pickup
+  static async updateOrder(
+    organizationId: string,
+    orderId: string,
+    data: UpdateOrderData
+  ): Promise<OrderResponse> {
+    try {
+      const order = await Order.findOne({ _id: orderId, organizationId });
+      if (!order) {
+        return {
+          success: false,
+          message: "Order not found",
+        };
+      }
+
+      if (!["created", "assigned"].includes(order.status)) {
+        return {
+          success: false,
+          message: "Order can only be edited before pickup",
+        };
+      }
+
+      const windowError =
+        this.validateTimeWindow(data.pickupWindow, "Pickup") ||
+        this.validateTimeWindow(data.dropoffWindow, "Drop-off");
+      if (windowError) {
+        return {
+          success: false,
+          message: windowError,
+        };
+      }
+
+      order.set(data);
+      await order.save();
+
+      return {
+        success: true,
+        message: "Order updated successfully",
+        data: order,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to update order"
+      );
+    }
+  }
+
+  // Assign an order to a delivery user
+  static async assignOrder(
+    organizationId: string,
+    orderId: string,
+    deliveryUserId: string,
+    actor: OrderActor
+  ): Promise<OrderResponse> {
+    try {
+      const order = await Order.findOne({ _id: orderId, organizationId });
+      if (!order) {
+        return {
+          success: false,
+          message: "Order not found",
+        };
+      }
+
+      const deliveryUser = await DeliveryUser.findOne({
+        _id: deliveryUserId,
+        organizationId,
+      });
+      if (!deliveryUser) {
+        return {
+          success: false,
+          message: "Delivery user not found",
+        };
+      }
+
+      if (deliveryUser.status !== "active") {
+        return {
+          success: false,
+          message: "Delivery user is not active",
+        };
+      }
+
+      order.assignedTo = deliveryUserId;
+      return this.transition(order, "assigned", actor);
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to assign order"
+      );
+    }
+  }
+
+  // Take an order back from its delivery user
+  static async unassignOrder(
+    organizationId: string,
+    orderId: string,
+    actor: OrderActor,
+    reason?: string
+  ): Promise<OrderResponse> {
+    try {
+      const order = await Order.findOne({ _id: orderId, organizationId });
+      if (!order) {
+        return {
+          success: false,
+          message: "Order not found",
+        };
+      }
+
+      return this.transition(order, "created", actor, reason);
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to unassign order"
+      );
+    }
+  }
+
+  // Move an order through pickup and delivery
+  static async updateOrderStatus(
+    organizationId: string,
+    orderId: string,
+    status: OrderStatus,
+    actor: OrderActor,
+    reason?: string
+  ): Promise<OrderResponse> {
+    try {
+      const query: any = { _id: orderId, organizationId };
+      if (actor.role === UserRole.DELIVERY_USER) {
+        query.assignedTo = actor.userId;
+      }
+
+      const order = await Order.findOne(query);
+      if (!order) {
+        return {
+          success: false,
+          message: "Order not found",
+        };
+      }
+
+      if (!DELIVERY_USER_STATUSES.includes(status)) {
+        return {
+          success: false,
+          message: `Status must be one of ${DELIVERY_USER_STATUSES.join(", ")}`,
+        };
+      }
+
+      if (status === "failed" && !reason) {
+        return {
+          success: false,
+          message: "A reason is required for failed deliveries",
+        };
+      }
+
+      return this.transition(order, status, actor, reason);
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to update order status"
+      );
+    }
+  }
+
+  // Cancel an order
+  static async cancelOrder(
+    organizationId: string,
+    orderId: string,
+    actor: OrderActor,
+    reason: string
+  ): Promise<OrderResponse> {
+    try {
+      const order = await Order.findOne({ _id: orderId, organizationId });
+      if (!order) {
+        return {
+          success: false,
+          message: "Order not found",
+        };
+      }
+
+      return this.transition(order, "cancelled", actor, reason);
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to cancel order"
+      );
+    }
+  }
+
+  // Check whether a transition is allowed
+  static canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return ORDER_TRANSITIONS[from].includes(to);
+  }
+
+  // Helper method to apply a state change, stamp it with the rider's
+  // position and notify the organization
+  private static async transition(
+    order: IOrder,
+    status: OrderStatus,
+    actor: OrderActor,
+    reason?: string
+  ): Promise<OrderResponse> {
+    const previousStatus = order.status;
+    if (!this.canTransition(previousStatus, status)) {
+      return {
+        success: false,
+        message: `Cannot change order status from ${previousStatus} to ${status}`,
+      };
+    }
+
+    const deliveryUserId = order.assignedTo;
+    const change: IOrderStatusChange = {
+      status,
+      previousStatus,
+      timestamp: new Date(),
+      location: deliveryUserId
+        ? await this.getDeliveryUserPosition(deliveryUserId)
+        : undefined,
+      changedBy: actor.userId,
+      changedByRole: actor.role,
+      deliveryUserId,
+      reason,
+    };
+
+    // Only applied if no other change got there first, so two racing
+    // transitions cannot both pass the check above
+    const update =
+      status === "created"
+        ? { $set: { status }, $unset: { assignedTo: "" } }
+        : { $set: { status, assignedTo: deliveryUserId } };
+    const updatedOrder = await Order.findOneAndUpdate(
+      { _id: order._id, status: previousStatus },
+      { ...update, $push: { statusHistory: change } },
+      { new: true, runValidators: true }
+    );
+    if (!updatedOrder) {
+      return {
+        success: false,
+        message: `Order status was changed from ${previousStatus} in the meantime`,
+      };
+    }
+
+    const payload = {
+      orderId: order._id,
+      orderNumber: order.orderNumber,
+      status,
+      previousStatus,
+      deliveryUserId,
+      location: change.location,
+      reason,
+      timestamp: change.timestamp,
+    };
+    RealtimeTrackingService.sendToOrganization(
+      order.organizationId,
+      "order_status_changed",
+      payload
+    );
+    if (deliveryUserId && actor.userId !== deliveryUserId) {
+      RealtimeTrackingService.sendToUser(
+        deliveryUserId,
+        "order_status_changed",
+        payload
+      );
+    }
+
+    // Customers following the delivery only see its progress
+    const customerPayload = {
+      orderId: order._id,
+      orderNumber: order.orderNumber,
+      status,
+      timestamp: change.timestamp,
+    };
+    if (["delivered", "failed", "cancelled"].includes(status)) {
+      RealtimeTrackingService.closeDeliveryRoom(
+        String(order._id),
+        customerPayload
+      );
+    } else {
+      RealtimeTrackingService.sendToDelivery(
+        String(order._id),
+        "delivery_status_changed",
+        customerPayload
+      );
+    }
+
+    return {
+      success: true,
+      message: `Order status updated to ${status}`,
+      data: updatedOrder,
+    };
+  }
+
+  // Helper method to read the rider's last known position
+  private static async getDeliveryUserPosition(
+    deliveryUserId: string
+  ): Promise<IOrderStatusChange["location"]> {
+    const tracking = await LocationTracking.findOne({
+      userId: deliveryUserId,
+    }).sort({ updatedAt: -1 });
+
+    // Tracking starts with a 0,0 placeholder until the first fix arrives
+    if (
+      !tracking?.location ||
+      (tracking.location.latitude === 0 && tracking.location.longitude === 0)
+    ) {
+      return undefined;
+    }
+
+    return {
+      latitude: tracking.location.latitude,
+      longitude: tracking.location.longitude,
+      accuracy: tracking.location.accuracy,
+      timestamp: tracking.location.timestamp,
+    };
+  }
+
+  // Helper method to validate a time window
+  private static validateTimeWindow(
+    window: ITimeWindow | undefined,
+    label: string
+  ): string | null {
+    if (
+      window?.start &&
+      window?.end &&
+      new Date(window.end) <= new Date(window.start)
+    ) {
+      return `${label} window must end after it starts`;
+    }
+    return null;
+  }
+
+  // Helper method to generate a human-readable order number
+  private static generateOrderNumber(): string {
+    return `ORD-${Date.now().toString(36).toUpperCase()}-${crypto
+      .randomBytes(3)
+      .toString("hex")
+      .toUpperCase()}`;
+  }
+}
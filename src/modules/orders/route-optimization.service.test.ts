@@ -0,0 +1,109 @@
+import { Types } from "mongoose";
+import DeliveryUser from "../deliveryUser/delivery.model";
+import { GoogleMapsService } from "../tracking/google-maps.service";
+import {
+  MAX_ROUTE_STOPS,
+  RouteOptimizationService,
+  RouteStop,
+} from "./route-optimization.service";
+
+const organizationId = new Types.ObjectId().toString();
+const deliveryUserId = new Types.ObjectId().toString();
+const start = { latitude: 0, longitude: 0 };
+const departureTime = new Date("2026-01-01T08:00:00Z");
+
+// A stop on the equator, `km` kilometres east of the start
+const stopAt = (id: string, km: number, extra: Partial<RouteStop> = {}) => ({
+  id,
+  latitude: 0,
+  longitude: km / 111.32,
+  serviceTime: 0,
+  ...extra,
+});
+
+const optimize = (stops: RouteStop[], provider?: "google") =>
+  RouteOptimizationService.optimizeRoute({
+    deliveryUserId,
+    organizationId,
+    start,
+    departureTime,
+    stops,
+    provider,
+  });
+
+describe("RouteOptimizationService.optimizeRoute", () => {
+  beforeEach(() => {
+    jest
+      .spyOn(DeliveryUser, "findOne")
+      .mockResolvedValue({ vehicleType: "car" } as never);
+  });
+
+  it("visits stops along the shortest order", async () => {
+    const result = await optimize([
+      stopAt("far", 3),
+      stopAt("near", 1),
+      stopAt("middle", 2),
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.data.stops.map((stop: RouteStop) => stop.id)).toEqual([
+      "near",
+      "middle",
+      "far",
+    ]);
+    expect(result.data.summary.distanceSaved).toBeGreaterThan(0);
+    expect(result.data.summary.lateStops).toBe(0);
+  });
+
+  it("puts a stop with an early window first even when it is further", async () => {
+    const result = await optimize([
+      stopAt("near", -5),
+      stopAt("urgent", 10, {
+        windowEnd: new Date(departureTime.getTime() + 30 * 60 * 1000),
+      }),
+    ]);
+
+    expect(result.data.stops.map((stop: RouteStop) => stop.id)).toEqual([
+      "urgent",
+      "near",
+    ]);
+    expect(result.data.stops[0].withinWindow).toBe(true);
+  });
+
+  it("waits for a window to open", async () => {
+    const windowStart = new Date(departureTime.getTime() + 60 * 60 * 1000);
+
+    const result = await optimize([stopAt("later", 1, { windowStart })]);
+
+    const [stop] = result.data.stops;
+    expect(new Date(stop.departureTime)).toEqual(windowStart);
+    expect(stop.waitTime).toBeGreaterThan(0);
+  });
+
+  it("plans the longest allowed run with google in batched requests", async () => {
+    const calculateDistanceMatrix = jest
+      .spyOn(GoogleMapsService, "calculateDistanceMatrix")
+      .mockResolvedValue(null);
+    const stops = Array.from({ length: MAX_ROUTE_STOPS }, (_, index) =>
+      stopAt(`stop-${index}`, index + 1)
+    );
+
+    const result = await optimize(stops, "google");
+
+    expect(result.success).toBe(true);
+    expect(result.data.stops).toHaveLength(MAX_ROUTE_STOPS);
+    for (const [origins, destinations] of calculateDistanceMatrix.mock.calls) {
+      expect(destinations.length).toBeLessThanOrEqual(25);
+      expect(origins.length * destinations.length).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it("reports a delivery user outside the organization", async () => {
+    jest.spyOn(DeliveryUser, "findOne").mockResolvedValue(null);
+
+    await expect(optimize([stopAt("near", 1)])).resolves.toEqual({
+      success: false,
+      message: "Delivery user not found",
+    });
+  });
+});
@@ -0,0 +1,308 @@
+import DeliveryUser from "../deliveryUser/delivery.model";
+import {
+  createDistanceProvider,
+  DistanceProviderName,
+  TravelEstimate,
+} from "../tracking/distance.provider";
+import { GeoPoint } from "../tracking/geo.utils";
+import LocationTracking from "../tracking/tracking.model";
+import { OrderResponse } from "./order.service";
+
+// Stop to visit interface
+export interface RouteStop {
+  id: string;
+  latitude: number;
+  longitude: number;
+  windowStart?: Date;
+  windowEnd?: Date;
+  serviceTime?: number; // in seconds spent at the stop
+}
+
+// Route optimisation request interface
+export interface RouteOptimizationRequest {
+  deliveryUserId: string;
+  organizationId: string;
+  start?: GeoPoint;
+  departureTime?: Date;
+  stops: RouteStop[];
+  provider?: DistanceProviderName;
+}
+
+// Planned visit interface
+export interface PlannedStop {
+  id: string;
+  sequence: number;
+  latitude: number;
+  longitude: number;
+  arrivalTime: Date;
+  departureTime: Date;
+  waitTime: number; // in seconds
+  lateBy: number; // in seconds past windowEnd
+  distanceFromPrevious: number; // in meters
+  travelTimeFromPrevious: number; // in seconds
+  withinWindow: boolean;
+}
+
+// Average travel speed per vehicle type in km/h, used for straight-line estimates
+export const VEHICLE_SPEED_KMH: Record<string, number> = {
+  bike: 15,
+  motorcycle: 30,
+  car: 30,
+  van: 25,
+  truck: 20,
+};
+
+export const DEFAULT_SERVICE_TIME = 120;
+// Longest run one request may optimise, enforced by the route's validation
+export const MAX_ROUTE_STOPS = 50;
+
+// Seconds of travel one second of lateness is worth
+const LATENESS_PENALTY = 10;
+const MAX_IMPROVEMENT_PASSES = 50;
+
+// Outcome of simulating a visiting order
+interface RouteEvaluation {
+  cost: number;
+  distance: number;
+  duration: number;
+  lateStops: number;
+  stops: PlannedStop[];
+}
+
+export class RouteOptimizationService {
+  // Find a visiting order for a delivery user's stops
+  static async optimizeRoute(
+    request: RouteOptimizationRequest
+  ): Promise<OrderResponse> {
+    try {
+      const deliveryUser = await DeliveryUser.findOne({
+        _id: request.deliveryUserId,
+        organizationId: request.organizationId,
+      });
+      if (!deliveryUser) {
+        return {
+          success: false,
+          message: "Delivery user not found",
+        };
+      }
+
+      let start = request.start;
+      if (!start) {
+        const tracking = await LocationTracking.findOne({
+          userId: request.deliveryUserId,
+        }).sort({ updatedAt: -1 });
+        if (
+          !tracking?.location ||
+          (tracking.location.latitude === 0 &&
+            tracking.location.longitude === 0)
+        ) {
+          return {
+            success: false,
+            message: "Current position of delivery user is unknown",
+          };
+        }
+        start = {
+          latitude: tracking.location.latitude,
+          longitude: tracking.location.longitude,
+        };
+      }
+
+      const providerName = request.provider ?? "haversine";
+      const speed = (VEHICLE_SPEED_KMH[deliveryUser.vehicleType] ?? 25) / 3.6;
+      const provider = createDistanceProvider(providerName, speed);
+      const points = [start, ...request.stops];
+      const matrix = await provider.getMatrix(points, points);
+
+      const departureTime = request.departureTime ?? new Date();
+      const submitted = request.stops.map((_, index) => index);
+      const optimized = this.improve(
+        this.construct(request.stops, matrix, departureTime),
+        request.stops,
+        matrix,
+        departureTime
+      );
+
+      const original = this.evaluate(
+        submitted,
+        request.stops,
+        matrix,
+        departureTime
+      );
+      const result = this.evaluate(
+        optimized,
+        request.stops,
+        matrix,
+        departureTime
+      );
+
+      return {
+        success: true,
+        message: "Route optimized successfully",
+        data: {
+          deliveryUserId: request.deliveryUserId,
+          provider: provider.name,
+          start,
+          departureTime,
+          stops: result.stops,
+          summary: {
+            totalDistance: Math.round(result.distance),
+            totalDuration: Math.round(result.duration),
+            lateStops: result.lateStops,
+            distanceSaved: Math.round(original.distance - result.distance),
+            durationSaved: Math.round(original.duration - result.duration),
+          },
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to optimize route"
+      );
+    }
+  }
+
+  // Helper method to build an initial order by always taking the stop that
+  // is cheapest to append next
+  private static construct(
+    stops: RouteStop[],
+    matrix: TravelEstimate[][],
+    departureTime: Date
+  ): number[] {
+    const route: number[] = [];
+    const remaining = new Set(stops.map((_, index) => index));
+
+    while (remaining.size > 0) {
+      let best = -1;
+      let bestCost = Infinity;
+      for (const candidate of remaining) {
+        const { cost } = this.evaluate(
+          [...route, candidate],
+          stops,
+          matrix,
+          departureTime
+        );
+        if (cost < bestCost) {
+          bestCost = cost;
+          best = candidate;
+        }
+      }
+      route.push(best);
+      remaining.delete(best);
+    }
+
+    return route;
+  }
+
+  // Helper method to improve an order with 2-opt reversals and single-stop
+  // moves until neither helps
+  private static improve(
+    route: number[],
+    stops: RouteStop[],
+    matrix: TravelEstimate[][],
+    departureTime: Date
+  ): number[] {
+    let best = route;
+    let bestCost = this.evaluate(best, stops, matrix, departureTime).cost;
+
+    for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+      let improved = false;
+
+      for (let i = 0; i < best.length - 1; i++) {
+        for (let j = i + 1; j < best.length; j++) {
+          const reversed = [
+            ...best.slice(0, i),
+            ...best.slice(i, j + 1).reverse(),
+            ...best.slice(j + 1),
+          ];
+          const moved = [...best];
+          moved.splice(j, 0, ...moved.splice(i, 1));
+
+          for (const candidate of [reversed, moved]) {
+            const { cost } = this.evaluate(
+              candidate,
+              stops,
+              matrix,
+              departureTime
+            );
+            if (cost < bestCost - 1e-6) {
+              best = candidate;
+              bestCost = cost;
+              improved = true;
+            }
+          }
+        }
+      }
+
+      if (!improved) break;
+    }
+
+    return best;
+  }
+
+  // Helper method to simulate driving a visiting order
+  private static evaluate(
+    route: number[],
+    stops: RouteStop[],
+    matrix: TravelEstimate[][],
+    departureTime: Date
+  ): RouteEvaluation {
+    let time = departureTime.getTime();
+    let previous = 0; // matrix index of the start position
+    let distance = 0;
+    let lateness = 0;
+    let lateStops = 0;
+    const planned: PlannedStop[] = [];
+
+    route.forEach((stopIndex, sequence) => {
+      const stop = stops[stopIndex];
+      const leg = matrix[previous][stopIndex + 1];
+      const arrival = time + leg.duration * 1000;
+
+      const windowStart = stop.windowStart
+        ? new Date(stop.windowStart).getTime()
+        : undefined;
+      const windowEnd = stop.windowEnd
+        ? new Date(stop.windowEnd).getTime()
+        : undefined;
+
+      const serviceStart =
+        windowStart !== undefined ? Math.max(arrival, windowStart) : arrival;
+      const lateBy =
+        windowEnd !== undefined
+          ? Math.max(0, (serviceStart - windowEnd) / 1000)
+          : 0;
+      const departure =
+        serviceStart + (stop.serviceTime ?? DEFAULT_SERVICE_TIME) * 1000;
+
+      distance += leg.distance;
+      lateness += lateBy;
+      if (lateBy > 0) lateStops++;
+
+      planned.push({
+        id: stop.id,
+        sequence: sequence + 1,
+        latitude: stop.latitude,
+        longitude: stop.longitude,
+        arrivalTime: new Date(arrival),
+        departureTime: new Date(departure),
+        waitTime: (serviceStart - arrival) / 1000,
+        lateBy,
+        distanceFromPrevious: Math.round(leg.distance),
+        travelTimeFromPrevious: Math.round(leg.duration),
+        withinWindow: lateBy === 0,
+      });
+
+      time = departure;
+      previous = stopIndex + 1;
+    });
+
+    const duration = (time - departureTime.getTime()) / 1000;
+
+    return {
+      cost: duration + lateness * LATENESS_PENALTY,
+      distance,
+      duration,
+      lateStops,
+      stops: planned,
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../auth/auth.interface";
+import { TrackingLinkService } from "./tracking-link.service";
+
+export class TrackingLinkController {
+  // Create customer tracking link for an order
+  static async createLink(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { orderId } = req.params;
+
+      const result = await TrackingLinkService.createLink(
+        organizationId,
+        orderId,
+        { userId: req.user!.userId, role: req.user!.role },
+        req.body ?? {}
+      );
+
+      if (!result.success) {
+        return res
+          .status(result.message === "Order not found" ? 404 : 400)
+          .json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to create tracking link";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Get customer tracking links for an order
+  static async getLinks(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { orderId } = req.params;
+
+      const result = await TrackingLinkService.getLinks(
+        organizationId,
+        orderId
+      );
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to get tracking links";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Revoke customer tracking link
+  static async revokeLink(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { orderId, linkId } = req.params;
+
+      const result = await TrackingLinkService.revokeLink(
+        organizationId,
+        orderId,
+        linkId,
+        { userId: req.user!.userId, role: req.user!.role }
+      );
+
+      if (!result.success) {
+        return res
+          .status(result.message === "Tracking link not found" ? 404 : 400)
+          .json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to revoke tracking link";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Customer tracking link interface
+export interface ITrackingLink extends Document {
+  organizationId: string;
+  orderId: string;
+  createdBy: string;
+  gracePeriod: number; // in minutes after delivery
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedBy?: string;
+  lastAccessedAt?: Date;
+  accessCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Tracking Link Schema
+const trackingLinkSchema = new Schema<ITrackingLink>(
+  {
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: true,
+    },
+    orderId: {
+      type: String,
+      ref: "Order",
+      required: true,
+    },
+    createdBy: {
+      type: String,
+      required: true,
+    },
+    gracePeriod: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedBy: {
+      type: String,
+    },
+    lastAccessedAt: {
+      type: Date,
+    },
+    accessCount: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better performance
+trackingLinkSchema.index({ organizationId: 1, orderId: 1, createdAt: -1 });
+// Expired links are no longer usable, keep them a month for auditing
+trackingLinkSchema.index(
+  { expiresAt: 1 },
+  { expireAfterSeconds: 30 * 24 * 60 * 60 }
+);
+
+// Transform toJSON
+trackingLinkSchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+export const TrackingLink = mongoose.model<ITrackingLink>(
+  "TrackingLink",
+  trackingLinkSchema
+);
+
+export default TrackingLink;
@@ -0,0 +1,131 @@
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import { UserRole } from "../auth/auth.interface";
+import LocationTracking from "../tracking/tracking.model";
+import Order, { OrderStatus } from "./order.model";
+import TrackingLink from "./tracking-link.model";
+import { TrackingLinkService } from "./tracking-link.service";
+
+const organizationId = new Types.ObjectId().toString();
+const orderId = new Types.ObjectId().toString();
+const admin = {
+  userId: new Types.ObjectId().toString(),
+  role: UserRole.ORGANIZATION_ADMIN,
+};
+
+const mockOrder = (status: OrderStatus) =>
+  jest.spyOn(Order, "findOne").mockResolvedValue({
+    _id: orderId,
+    orderNumber: "ORD-1",
+    organizationId,
+    status,
+    statusHistory: [],
+    dropoff: { address: "1 Main Street" },
+  } as never);
+
+// Create a link for an order on its way and return it with its token
+const createLink = async (expiresIn?: number) => {
+  mockOrder("in_transit");
+  jest
+    .spyOn(TrackingLink, "create")
+    .mockImplementation(async (data: any) => new TrackingLink(data) as never);
+
+  const result = await TrackingLinkService.createLink(
+    organizationId,
+    orderId,
+    admin,
+    { expiresIn }
+  );
+  const { link, token } = result.data;
+  jest.spyOn(TrackingLink, "findById").mockResolvedValue(link);
+  return { link, token: token as string };
+};
+
+describe("TrackingLinkService.resolveLink", () => {
+  it("accepts the token of an active link", async () => {
+    const { link, token } = await createLink();
+
+    const result = await TrackingLinkService.resolveLink(token);
+
+    expect(result.success).toBe(true);
+    expect(result.data.link).toBe(link);
+    expect(result.data.state).toBe("active");
+  });
+
+  it("binds the token to its link's order", async () => {
+    const { link, token } = await createLink();
+    link.orderId = new Types.ObjectId().toString();
+
+    await expect(TrackingLinkService.resolveLink(token)).resolves.toEqual({
+      success: false,
+      message: "Tracking link not found",
+    });
+  });
+
+  it("rejects a token that was not signed by the server", async () => {
+    const { token } = await createLink();
+    const forged = jwt.sign(jwt.decode(token) as object, "not-the-secret");
+
+    await expect(TrackingLinkService.resolveLink(forged)).resolves.toEqual({
+      success: false,
+      message: "Tracking link not found",
+    });
+  });
+
+  it("rejects an expired token", async () => {
+    jest.useFakeTimers({ now: Date.now() });
+    try {
+      const { token } = await createLink(1);
+      jest.setSystemTime(Date.now() + 2 * 60 * 60 * 1000);
+
+      await expect(TrackingLinkService.resolveLink(token)).resolves.toEqual({
+        success: false,
+        message: "Tracking link has expired",
+      });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("rejects a revoked link", async () => {
+    const { link, token } = await createLink();
+    link.revokedAt = new Date();
+
+    await expect(TrackingLinkService.resolveLink(token)).resolves.toEqual({
+      success: false,
+      message: "Tracking link has been revoked",
+    });
+  });
+
+  it("does not share tracking before pickup", async () => {
+    const { token } = await createLink();
+    mockOrder("assigned");
+
+    await expect(TrackingLinkService.resolveLink(token)).resolves.toEqual({
+      success: false,
+      message: "Tracking has not started yet",
+    });
+  });
+});
+
+describe("TrackingLinkService.getTrackingInfo", () => {
+  it("counts the view in the database and reports the link expiry", async () => {
+    const { link, token } = await createLink();
+    jest.spyOn(LocationTracking, "findOne").mockResolvedValue(null);
+    const updateOne = jest
+      .spyOn(TrackingLink, "updateOne")
+      .mockResolvedValue({} as never);
+
+    const result = await TrackingLinkService.getTrackingInfo(token);
+
+    expect(result.success).toBe(true);
+    expect(result.data.linkExpiresAt).toEqual(link.expiresAt);
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: link._id },
+      {
+        $inc: { accessCount: 1 },
+        $set: { lastAccessedAt: expect.any(Date) },
+      }
+    );
+  });
+});
@@ -0,0 +1,375 @@
+import jwt from "jsonwebtoken";
+import { env } from "../../config/env";
+import DeliveryUser from "../deliveryUser/delivery.model";
+import { EtaService } from "../tracking/eta.service";
+import { RealtimeTrackingService } from "../tracking/realtime-tracking.service";
+import LocationTracking from "../tracking/tracking.model";
+import Order, { IOrder, OrderStatus } from "./order.model";
+import { OrderActor, OrderResponse } from "./order.service";
+import TrackingLink, { ITrackingLink } from "./tracking-link.model";
+
+// Tracking link create options interface
+export interface CreateTrackingLinkData {
+  gracePeriod?: number; // in minutes
+  expiresIn?: number; // in hours
+}
+
+// Decoded tracking link token
+interface TrackingLinkPayload {
+  type: "tracking_link";
+  orderId: string;
+  jti: string;
+}
+
+export type TrackingLinkState = "active" | "completed";
+
+export const DEFAULT_TRACKING_GRACE_PERIOD = 30;
+export const DEFAULT_TRACKING_LINK_LIFETIME = 72;
+
+// Statuses during which the rider's position is shared
+export const TRACKABLE_ORDER_STATUSES: OrderStatus[] = [
+  "picked_up",
+  "in_transit",
+];
+// Statuses after which the customer may still see the outcome for a while
+const COMPLETED_ORDER_STATUSES: OrderStatus[] = ["delivered", "failed"];
+
+const TOKEN_AUDIENCE = "customer-tracking";
+
+export class TrackingLinkService {
+  // Create a share link for one delivery
+  static async createLink(
+    organizationId: string,
+    orderId: string,
+    actor: OrderActor,
+    data: CreateTrackingLinkData = {}
+  ): Promise<OrderResponse> {
+    try {
+      const order = await Order.findOne({ _id: orderId, organizationId });
+      if (!order) {
+        return {
+          success: false,
+          message: "Order not found",
+        };
+      }
+
+      if (
+        order.status === "cancelled" ||
+        COMPLETED_ORDER_STATUSES.includes(order.status)
+      ) {
+        return {
+          success: false,
+          message: `Cannot share tracking for a ${order.status} order`,
+        };
+      }
+
+      const lifetime = data.expiresIn ?? DEFAULT_TRACKING_LINK_LIFETIME;
+      const link = await TrackingLink.create({
+        organizationId,
+        orderId,
+        createdBy: actor.userId,
+        gracePeriod: data.gracePeriod ?? DEFAULT_TRACKING_GRACE_PERIOD,
+        expiresAt: new Date(Date.now() + lifetime * 60 * 60 * 1000),
+      });
+
+      return {
+        success: true,
+        message: "Tracking link created successfully",
+        data: {
+          link,
+          token: this.signToken(link),
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to create tracking link"
+      );
+    }
+  }
+
+  // Get share links created for a delivery
+  static async getLinks(
+    organizationId: string,
+    orderId: string
+  ): Promise<OrderResponse> {
+    try {
+      const order = await Order.exists({ _id: orderId, organizationId });
+      if (!order) {
+        return {
+          success: false,
+          message: "Order not found",
+        };
+      }
+
+      const links = await TrackingLink.find({ organizationId, orderId }).sort({
+        createdAt: -1,
+      });
+
+      return {
+        success: true,
+        message: "Tracking links retrieved successfully",
+        data: links,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get tracking links"
+      );
+    }
+  }
+
+  // Revoke a share link and drop customers watching through it
+  static async revokeLink(
+    organizationId: string,
+    orderId: string,
+    linkId: string,
+    actor: OrderActor
+  ): Promise<OrderResponse> {
+    try {
+      const link = await TrackingLink.findOne({
+        _id: linkId,
+        organizationId,
+        orderId,
+      });
+      if (!link) {
+        return {
+          success: false,
+          message: "Tracking link not found",
+        };
+      }
+
+      if (link.revokedAt) {
+        return {
+          success: false,
+          message: "Tracking link is already revoked",
+        };
+      }
+
+      link.revokedAt = new Date();
+      link.revokedBy = actor.userId;
+      await link.save();
+
+      RealtimeTrackingService.closeTrackingLink(linkId, orderId);
+
+      return {
+        success: true,
+        message: "Tracking link revoked successfully",
+        data: link,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to revoke tracking link"
+      );
+    }
+  }
+
+  // Check a share token and the delivery it is bound to
+  static async resolveLink(token: string): Promise<OrderResponse> {
+    try {
+      let payload: TrackingLinkPayload;
+      try {
+        payload = jwt.verify(token, env.TRACKING_LINK_SECRET, {
+          audience: TOKEN_AUDIENCE,
+          issuer: "geotrack-api",
+        }) as TrackingLinkPayload;
+      } catch (error) {
+        return {
+          success: false,
+          message:
+            error instanceof jwt.TokenExpiredError
+              ? "Tracking link has expired"
+              : "Tracking link not found",
+        };
+      }
+
+      const link = await TrackingLink.findById(payload.jti);
+      if (!link || link.orderId !== payload.orderId) {
+        return {
+          success: false,
+          message: "Tracking link not found",
+        };
+      }
+      if (link.revokedAt) {
+        return {
+          success: false,
+          message: "Tracking link has been revoked",
+        };
+      }
+
+      const order = await Order.findOne({
+        _id: link.orderId,
+        organizationId: link.organizationId,
+      });
+      if (!order) {
+        return {
+          success: false,
+          message: "Tracking link not found",
+        };
+      }
+
+      const window = this.getTrackingWindow(order, link);
+      if (!window.state) {
+        return {
+          success: false,
+          message: window.message,
+        };
+      }
+
+      return {
+        success: true,
+        message: "Tracking link is valid",
+        data: {
+          link,
+          order,
+          state: window.state,
+          endsAt: window.endsAt,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to resolve tracking link"
+      );
+    }
+  }
+
+  // Get what a customer holding a share token is allowed to see
+  static async getTrackingInfo(token: string): Promise<OrderResponse> {
+    try {
+      const resolved = await this.resolveLink(token);
+      if (!resolved.success) return resolved;
+
+      const { link, order, state, endsAt } = resolved.data as {
+        link: ITrackingLink;
+        order: IOrder;
+        state: TrackingLinkState;
+        endsAt?: Date;
+      };
+
+      // Counted in the database, concurrent views would overwrite each other
+      await TrackingLink.updateOne(
+        { _id: link._id },
+        { $inc: { accessCount: 1 }, $set: { lastAccessedAt: new Date() } }
+      );
+
+      const deliveryUser = order.assignedTo
+        ? await DeliveryUser.findById(order.assignedTo).select(
+            "name vehicleType"
+          )
+        : null;
+
+      // The rider's position is only shared while the parcel is on its way
+      let location;
+      let eta;
+      if (state === "active" && order.assignedTo) {
+        const tracking = await LocationTracking.findOne({
+          userId: order.assignedTo,
+          isActive: true,
+        });
+        if (
+          tracking?.location &&
+          !(
+            tracking.location.latitude === 0 &&
+            tracking.location.longitude === 0
+          )
+        ) {
+          location = {
+            latitude: tracking.location.latitude,
+            longitude: tracking.location.longitude,
+            heading: tracking.location.heading,
+            speed: tracking.location.speed,
+            timestamp: tracking.location.timestamp,
+          };
+
+          const etaResult = await EtaService.getCurrentEta(
+            order.assignedTo,
+            String(order._id)
+          );
+          eta = etaResult.success ? etaResult.data[0] : undefined;
+        }
+      }
+
+      return {
+        success: true,
+        message: "Delivery tracking information retrieved successfully",
+        data: {
+          linkId: String(link._id),
+          orderId: String(order._id),
+          orderNumber: order.orderNumber,
+          status: order.status,
+          state,
+          deliveryUser: deliveryUser
+            ? {
+                name: deliveryUser.name,
+                vehicleType: deliveryUser.vehicleType,
+              }
+            : undefined,
+          dropoff: { address: order.dropoff.address },
+          location,
+          eta,
+          trackingEndsAt: endsAt,
+          linkExpiresAt: link.expiresAt,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to get delivery tracking information"
+      );
+    }
+  }
+
+  // Helper method to sign a share token for a link
+  private static signToken(link: ITrackingLink): string {
+    const expiresIn = Math.max(
+      1,
+      Math.floor((link.expiresAt.getTime() - Date.now()) / 1000)
+    );
+
+    return jwt.sign(
+      { type: "tracking_link", orderId: link.orderId },
+      env.TRACKING_LINK_SECRET,
+      {
+        jwtid: String(link._id),
+        audience: TOKEN_AUDIENCE,
+        issuer: "geotrack-api",
+        expiresIn,
+      }
+    );
+  }
+
+  // Helper method to decide whether a delivery can be followed right now:
+  // from pickup until the outcome plus the link's grace period
+  private static getTrackingWindow(
+    order: IOrder,
+    link: ITrackingLink
+  ): { state?: TrackingLinkState; endsAt?: Date; message: string } {
+    if (TRACKABLE_ORDER_STATUSES.includes(order.status)) {
+      return { state: "active", message: "Tracking is active" };
+    }
+
+    if (COMPLETED_ORDER_STATUSES.includes(order.status)) {
+      const completedAt = [...order.statusHistory]
+        .reverse()
+        .find((change) => change.status === order.status)?.timestamp;
+      const endsAt = new Date(
+        (completedAt ? new Date(completedAt).getTime() : Date.now()) +
+          link.gracePeriod * 60 * 1000
+      );
+      if (endsAt.getTime() >= Date.now()) {
+        return { state: "completed", endsAt, message: "Delivery completed" };
+      }
+    }
+
+    if (order.status === "created" || order.status === "assigned") {
+      return { message: "Tracking has not started yet" };
+    }
+
+    return { message: "Tracking has ended" };
+  }
+}
@@ -385,4 +385,56 @@ export class OrganizationController {
       });
     }
   }
+
+  // Update Organization Security Settings
+  static async updateSecuritySettings(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { organizationId } = req.params;
+      const { requireTwoFactor } = req.body;
+
+      if (!organizationId) {
+        res.status(400).json({
+          success: false,
+          message: "Organization ID is required",
+          error: "MISSING_ORGANIZATION_ID",
+        });
+        return;
+      }
+
+      if (typeof requireTwoFactor !== "boolean") {
+        res.status(400).json({
+          success: false,
+          message: "requireTwoFactor must be true or false",
+          error: "MISSING_FIELDS",
+        });
+        return;
+      }
+
+      const result = await OrganizationService.updateSecuritySettings(
+        organizationId,
+        requireTwoFactor
+      );
+
+      if (!result.success) {
+        res.status(400).json(result);
+        return;
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to update organization security settings";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+        error: "UPDATE_SECURITY_SETTINGS_FAILED",
+      });
+    }
+  }
 }
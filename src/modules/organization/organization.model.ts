@@ -21,6 +21,7 @@ export interface IOrganization extends Document {
   subscriptionStartDate: Date;
   subscriptionEndDate: Date;
   isActive: boolean;
+  requireTwoFactor: boolean; // organization admins must use two-factor auth
   createdAt: Date;
   updatedAt: Date;
   // Virtual fields
@@ -130,6 +131,10 @@ const organizationSchema = new Schema<IOrganization>(
       type: Boolean,
       default: true,
     },
+    requireTwoFactor: {
+      type: Boolean,
+      default: false,
+    },
   },
   {
     timestamps: true,
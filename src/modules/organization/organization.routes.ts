@@ -238,4 +238,19 @@ router.put(
   OrganizationController.updateSubscription
 );
 
+/**
+ * @route   PUT /api/organizations/:organizationId/security
+ * @desc    Require two-factor authentication for organization admins
+ * @access  Private (Super Admin, Admin can update their own organization)
+ * @body    { requireTwoFactor: boolean }
+ */
+router.put(
+  "/:organizationId/security",
+  ValidationMiddleware.sanitizeInput,
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireOrganizationAdmin,
+  AuthMiddleware.requireOrgResourceMatch,
+  OrganizationController.updateSecuritySettings
+);
+
 export default router;
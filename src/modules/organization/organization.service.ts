@@ -1,4 +1,8 @@
 import { UserRole } from "../auth/auth.interface";
+import DeliveryUser from "../deliveryUser/delivery.model";
+import { IdentityService } from "../identity/identity.service";
+import OrganizationAdmin from "../organizationAdmin/organizationAdmin.model";
+import { RealtimeTrackingService } from "../tracking/realtime-tracking.service";
 import User from "../user/user.model";
 import Organization, { IOrganization } from "./organization.model";
 
@@ -267,10 +271,10 @@ export class OrganizationService {
         };
       }
 
-      // Check if organization has users
-      const userCount = await User.countDocuments({
-        organizationId: organizationId,
-      });
+      // Check if organization has users, admins or delivery users
+      const userCount = await IdentityService.countOrganizationProfiles(
+        organizationId
+      );
 
       if (userCount > 0) {
         return {
@@ -311,10 +315,16 @@ export class OrganizationService {
       organization.isActive = false;
       await organization.save();
 
-      // Suspend all users in the organization
-      await User.updateMany(
-        { organizationId: organizationId },
-        { status: "suspended" }
+      // Suspend all users in the organization, whichever collection they
+      // live in
+      await IdentityService.updateOrganizationProfiles(organizationId, {
+        status: "suspended",
+      });
+
+      // Drop live socket sessions of the organization
+      RealtimeTrackingService.disconnectOrganization(
+        organizationId,
+        "Organization suspended"
       );
 
       return {
@@ -349,11 +359,11 @@ export class OrganizationService {
       organization.isActive = true;
       await organization.save();
 
-      // Activate all users in the organization
-      await User.updateMany(
-        { organizationId: organizationId },
-        { status: "active" }
-      );
+      // Activate all users in the organization, whichever collection they
+      // live in
+      await IdentityService.updateOrganizationProfiles(organizationId, {
+        status: "active",
+      });
 
       return {
         success: true,
@@ -382,20 +392,33 @@ export class OrganizationService {
         };
       }
 
-      // Get user statistics
-      const [totalUsers, activeUsers, adminUsers, deliveryUsers] =
-        await Promise.all([
-          User.countDocuments({ organizationId }),
-          User.countDocuments({ organizationId, status: "active" }),
-          User.countDocuments({
-            organizationId,
-            role: UserRole.ADMIN,
-          }),
-          User.countDocuments({
-            organizationId,
-            role: UserRole.DELIVERY_USER,
-          }),
-        ]);
+      // Get user statistics across users, organization admins and
+      // delivery users
+      const [
+        totalUsers,
+        activeUsers,
+        platformAdmins,
+        organizationAdmins,
+        platformDeliveryUsers,
+        riders,
+      ] = await Promise.all([
+        IdentityService.countOrganizationProfiles(organizationId),
+        IdentityService.countOrganizationProfiles(organizationId, {
+          status: "active",
+        }),
+        User.countDocuments({
+          organizationId,
+          role: UserRole.ADMIN,
+        }),
+        OrganizationAdmin.countDocuments({ organizationId }),
+        User.countDocuments({
+          organizationId,
+          role: UserRole.DELIVERY_USER,
+        }),
+        DeliveryUser.countDocuments({ organizationId }),
+      ]);
+      const adminUsers = platformAdmins + organizationAdmins;
+      const deliveryUsers = platformDeliveryUsers + riders;
 
       const stats = {
         ...organization.toObject(),
@@ -485,4 +508,37 @@ export class OrganizationService {
       );
     }
   }
+
+  // Update Organization Security Settings
+  static async updateSecuritySettings(
+    organizationId: string,
+    requireTwoFactor: boolean
+  ): Promise<OrganizationResponse> {
+    try {
+      const organization = await Organization.findById(organizationId);
+
+      if (!organization) {
+        return {
+          success: false,
+          message: "Organization not found",
+        };
+      }
+
+      // Admins without two-factor are asked to enrol at their next login
+      organization.requireTwoFactor = requireTwoFactor;
+      await organization.save();
+
+      return {
+        success: true,
+        message: "Organization security settings updated successfully",
+        data: organization,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to update organization security settings"
+      );
+    }
+  }
 }
@@ -4,8 +4,7 @@ import mongoose, { Document, Schema } from "mongoose";
 export interface IOrganizationAdmin extends Document {
   _id: mongoose.Types.ObjectId;
   name: string;
-  email: string;
-  password: string;
+  email: string; // login email, kept in sync with the identity
   organizationId: mongoose.Types.ObjectId;
   status: "active" | "inactive" | "suspended";
   permissions: {
@@ -46,12 +45,6 @@ const organizationAdminSchema = new Schema<IOrganizationAdmin>(
         "Please provide a valid email address",
       ],
     },
-    password: {
-      type: String,
-      required: [true, "Password is required"],
-      minlength: [8, "Password must be at least 8 characters"],
-      select: false, // Don't include password in queries by default
-    },
     organizationId: {
       type: Schema.Types.ObjectId,
       ref: "Organization",
@@ -102,7 +95,7 @@ const organizationAdminSchema = new Schema<IOrganizationAdmin>(
     toJSON: {
       virtuals: true,
       transform: function (doc, ret) {
-        const { password, __v, ...cleanRet } = ret;
+        const { __v, ...cleanRet } = ret;
         return cleanRet;
       },
     },
@@ -157,8 +150,7 @@ organizationAdminSchema.statics.findByEmailWithOrganization = function (
 ) {
   return this.findOne({ email })
     .populate("organizationId", "name companyName")
-    .populate("createdBy", "name email")
-    .select("+password");
+    .populate("createdBy", "name email");
 };
 
 // Static method to find admins by organization
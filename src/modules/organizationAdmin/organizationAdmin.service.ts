@@ -1,5 +1,8 @@
+import { UserRole } from "../auth/auth.interface";
 import { AuthUtils } from "../auth/auth.utils";
+import { IdentityService } from "../identity/identity.service";
 import Organization from "../organization/organization.model";
+import { RealtimeTrackingService } from "../tracking/realtime-tracking.service";
 import OrganizationAdmin, {
   IOrganizationAdmin,
 } from "./organizationAdmin.model";
@@ -54,11 +57,8 @@ export class OrganizationAdminService {
     createdBy: string
   ): Promise<OrganizationAdminResponse> {
     try {
-      // Check if email already exists
-      const existingAdmin = await OrganizationAdmin.findOne({
-        email: data.email,
-      });
-      if (existingAdmin) {
+      // Check if email already exists, in any collection
+      if (!(await IdentityService.isEmailAvailable(data.email))) {
         return {
           success: false,
           message: "Organization admin with this email already exists",
@@ -85,14 +85,16 @@ export class OrganizationAdminService {
       // Hash password
       const hashedPassword = await AuthUtils.hashPassword(data.password);
 
-      // Create organization admin
-      const organizationAdmin = new OrganizationAdmin({
-        ...data,
-        password: hashedPassword,
-        createdBy: createdBy,
-      });
-
-      await organizationAdmin.save();
+      // Create organization admin, the password goes to its identity
+      const { password, ...profileData } = data;
+      const organizationAdmin = await IdentityService.createAccount(
+        new OrganizationAdmin({
+          ...profileData,
+          createdBy: createdBy,
+        }),
+        "OrganizationAdmin",
+        hashedPassword
+      );
 
       // Populate the response
       await organizationAdmin.populate([
@@ -223,18 +225,21 @@ export class OrganizationAdminService {
       }
 
       // Check if email is being changed and if it already exists
-      if (data.email && data.email !== admin.email) {
-        const existingAdmin = await OrganizationAdmin.findOne({
-          email: data.email,
-          _id: { $ne: adminId },
-        });
-
-        if (existingAdmin) {
+      const newEmail = data.email !== admin.email ? data.email : undefined;
+      if (newEmail) {
+        if (!(await IdentityService.isEmailAvailable(newEmail, adminId))) {
           return {
             success: false,
             message: "Organization admin with this email already exists",
           };
         }
+        if (!(await this.isManagedLogin(adminId))) {
+          return {
+            success: false,
+            message:
+              "This login is shared with other accounts and cannot be changed here",
+          };
+        }
       }
 
       // Update admin
@@ -253,6 +258,21 @@ export class OrganizationAdminService {
         };
       }
 
+      // Move the login email only now that the admin saved it, and undo the
+      // admin's email if another account took it in the meantime
+      if (newEmail) {
+        try {
+          await IdentityService.changeEmail(adminId, updatedAdmin.email);
+        } catch (error) {
+          await OrganizationAdmin.updateOne(
+            { _id: adminId },
+            { email: admin.email }
+          );
+          throw error;
+        }
+        await IdentityService.revokeSessions(adminId, "admin_revoked");
+      }
+
       return {
         success: true,
         message: "Organization admin updated successfully",
@@ -282,6 +302,7 @@ export class OrganizationAdminService {
       }
 
       await OrganizationAdmin.findByIdAndDelete(adminId);
+      await IdentityService.removeProfile(adminId);
 
       return {
         success: true,
@@ -312,6 +333,7 @@ export class OrganizationAdminService {
 
       admin.status = "suspended";
       await admin.save();
+      RealtimeTrackingService.disconnectUser(adminId, "Account suspended");
 
       return {
         success: true,
@@ -383,13 +405,20 @@ export class OrganizationAdminService {
         };
       }
 
+      if (!(await this.isManagedLogin(adminId))) {
+        return {
+          success: false,
+          message:
+            "This login is shared with other accounts and cannot be changed here",
+        };
+      }
+
       // Hash new password
       const hashedPassword = await AuthUtils.hashPassword(newPassword);
 
-      // Update password
-      await OrganizationAdmin.findByIdAndUpdate(adminId, {
-        password: hashedPassword,
-      });
+      // Update password and sign out every session of the login
+      await IdentityService.setPassword(adminId, hashedPassword);
+      await IdentityService.revokeSessions(adminId, "password_reset");
 
       return {
         success: true,
@@ -535,4 +564,12 @@ export class OrganizationAdminService {
       );
     }
   }
+
+  // Helper method to check that an admin's login opens no account of another
+  // kind, such as a super admin profile merged into the same identity
+  private static isManagedLogin(adminId: string): Promise<boolean> {
+    return IdentityService.isInScope(adminId, {
+      roles: [UserRole.ORGANIZATION_ADMIN],
+    });
+  }
 }
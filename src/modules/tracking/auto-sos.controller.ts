@@ -0,0 +1,100 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../auth/auth.interface";
+import { AutoSosService } from "./auto-sos.service";
+
+export class AutoSosController {
+  // Record rider check-in
+  static async checkIn(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = req.user!.userId;
+      const organizationId = req.user!.organizationId!;
+
+      const result = await AutoSosService.checkIn(userId, organizationId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to record check-in";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Cancel automatic SOS during its countdown
+  static async cancel(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = req.user!.userId;
+      const { alertId } = req.params;
+
+      const result = await AutoSosService.cancel(userId, alertId);
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to cancel SOS";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Get automatic SOS settings for organization
+  static async getSettings(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+
+      const result = await AutoSosService.getSettings(organizationId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to get automatic SOS settings";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Update automatic SOS settings for organization
+  static async updateSettings(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const updatedBy = req.user!.userId;
+
+      const result = await AutoSosService.updateSettings(
+        organizationId,
+        updatedBy,
+        req.body
+      );
+
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to update automatic SOS settings";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { EmergencyTrigger, IEmergencyRequest } from "./tracking.model";
+
+export type AutoSosTrigger = Exclude<EmergencyTrigger, "manual">;
+
+export type AutoSosStatus = "countdown" | "cancelled" | "sent";
+
+export const AUTO_SOS_TRIGGERS: AutoSosTrigger[] = [
+  "deceleration",
+  "no_movement",
+  "missed_check_in",
+];
+
+// Per-organization automatic SOS rules interface
+export interface IAutoSosSettings extends Document {
+  organizationId: string;
+  enabled: boolean;
+  countdown: number; // in seconds the rider has to cancel
+  deceleration: {
+    enabled: boolean;
+    minSpeed: number; // in m/s, slower riders cannot crash
+    stopSpeed: number; // in m/s, below this the rider has stopped
+    window: number; // in seconds between the fast and the stopped point
+    priority: IEmergencyRequest["priority"];
+  };
+  noMovement: {
+    enabled: boolean;
+    after: number; // in seconds without movement on an active delivery
+    priority: IEmergencyRequest["priority"];
+  };
+  checkIn: {
+    enabled: boolean;
+    interval: number; // in seconds between check-ins
+    grace: number; // in seconds after a check-in is due
+    priority: IEmergencyRequest["priority"];
+  };
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Automatic SOS alert interface
+export interface IAutoSosAlert extends Document {
+  userId: string;
+  organizationId: string;
+  trigger: AutoSosTrigger;
+  priority: IEmergencyRequest["priority"];
+  message: string;
+  location: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+    timestamp: Date;
+  };
+  status: AutoSosStatus;
+  expiresAt: Date;
+  cancelledAt?: Date;
+  sentAt?: Date;
+  emergencyRequestId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const prioritySchemaType = (
+  defaultPriority: IEmergencyRequest["priority"]
+) => ({
+  type: String,
+  enum: ["low", "medium", "high", "critical"],
+  default: defaultPriority,
+});
+
+// Automatic SOS Settings Schema
+const autoSosSettingsSchema = new Schema<IAutoSosSettings>(
+  {
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: true,
+      unique: true,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    countdown: {
+      type: Number,
+      min: 5,
+      max: 300,
+      default: 30,
+    },
+    deceleration: {
+      enabled: {
+        type: Boolean,
+        default: true,
+      },
+      minSpeed: {
+        type: Number,
+        min: 1,
+        default: 8, // ~29 km/h
+      },
+      stopSpeed: {
+        type: Number,
+        min: 0,
+        default: 0.5,
+      },
+      window: {
+        type: Number,
+        min: 1,
+        default: 5,
+      },
+      priority: prioritySchemaType("critical"),
+    },
+    noMovement: {
+      enabled: {
+        type: Boolean,
+        default: true,
+      },
+      after: {
+        type: Number,
+        min: 60,
+        default: 900,
+      },
+      priority: prioritySchemaType("high"),
+    },
+    checkIn: {
+      enabled: {
+        type: Boolean,
+        default: false,
+      },
+      interval: {
+        type: Number,
+        min: 300,
+        default: 3600,
+      },
+      grace: {
+        type: Number,
+        min: 30,
+        default: 300,
+      },
+      priority: prioritySchemaType("high"),
+    },
+    updatedBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Automatic SOS Alert Schema
+const autoSosAlertSchema = new Schema<IAutoSosAlert>(
+  {
+    userId: {
+      type: String,
+      ref: "DeliveryUser",
+      required: true,
+    },
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: true,
+    },
+    trigger: {
+      type: String,
+      enum: AUTO_SOS_TRIGGERS,
+      required: true,
+    },
+    priority: prioritySchemaType("high"),
+    message: {
+      type: String,
+      maxlength: 500,
+    },
+    location: {
+      latitude: {
+        type: Number,
+        required: true,
+      },
+      longitude: {
+        type: Number,
+        required: true,
+      },
+      accuracy: {
+        type: Number,
+      },
+      timestamp: {
+        type: Date,
+        default: Date.now,
+      },
+    },
+    status: {
+      type: String,
+      enum: ["countdown", "cancelled", "sent"],
+      default: "countdown",
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    cancelledAt: {
+      type: Date,
+    },
+    sentAt: {
+      type: Date,
+    },
+    emergencyRequestId: {
+      type: String,
+      ref: "EmergencyRequest",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better performance
+autoSosAlertSchema.index({ status: 1, expiresAt: 1 });
+autoSosAlertSchema.index({ userId: 1, trigger: 1, createdAt: -1 });
+// A rider has at most one countdown running, whichever node raised it
+autoSosAlertSchema.index(
+  { userId: 1 },
+  { unique: true, partialFilterExpression: { status: "countdown" } }
+);
+
+// Transform toJSON
+autoSosSettingsSchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+autoSosAlertSchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+// Models
+export const AutoSosSettings = mongoose.model<IAutoSosSettings>(
+  "AutoSosSettings",
+  autoSosSettingsSchema
+);
+
+export const AutoSosAlert = mongoose.model<IAutoSosAlert>(
+  "AutoSosAlert",
+  autoSosAlertSchema
+);
+
+export default AutoSosSettings;
@@ -0,0 +1,234 @@
+import Order from "../orders/order.model";
+import { AutoSosAlert } from "./auto-sos.model";
+import { AutoSosService, DEFAULT_AUTO_SOS_SETTINGS } from "./auto-sos.service";
+import { EmergencyEscalationService } from "./emergency-escalation.service";
+import { EmergencyIncidentService } from "./emergency-incident.service";
+import { RiderPresence } from "./presence.model";
+import { RealtimeTrackingService } from "./realtime-tracking.service";
+import { EmergencyRequest } from "./tracking.model";
+
+const now = new Date("2026-01-01T12:00:00Z");
+
+const secondsAgo = (seconds: number) =>
+  new Date(now.getTime() - seconds * 1000);
+
+// A point of a rider riding north at the given speed
+const point = (seconds: number, speed?: number) => ({
+  latitude: 52.5 + seconds * 0.0001,
+  longitude: 13.4,
+  speed,
+  timestamp: new Date(now.getTime() + seconds * 1000),
+});
+
+describe("AutoSosService", () => {
+  let sendToUser: jest.SpyInstance;
+  let create: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    jest.spyOn(console, "log").mockImplementation();
+    jest
+      .spyOn(AutoSosService, "loadSettings")
+      .mockResolvedValue(DEFAULT_AUTO_SOS_SETTINGS);
+    jest.spyOn(EmergencyRequest, "exists").mockResolvedValue(null as never);
+    jest.spyOn(AutoSosAlert, "exists").mockResolvedValue(null as never);
+    create = jest
+      .spyOn(AutoSosAlert, "create")
+      .mockResolvedValue({ _id: "alert-1" } as never);
+    sendToUser = jest
+      .spyOn(RealtimeTrackingService, "sendToUser")
+      .mockImplementation();
+  });
+
+  afterEach(() => {
+    AutoSosService.forget("rider-1");
+    AutoSosService["clearTimer"]("alert-1");
+    jest.useRealTimers();
+  });
+
+  // Events sent to the rider so far
+  const sentToRider = () => sendToUser.mock.calls.map(([, event]) => event);
+
+  describe("evaluateLocation", () => {
+    it("starts a countdown on a sudden stop from speed", async () => {
+      await AutoSosService.evaluateLocation("rider-1", "org-1", point(0, 12));
+      await AutoSosService.evaluateLocation("rider-1", "org-1", point(2, 0));
+
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          trigger: "deceleration",
+          priority: "critical",
+          message: "Sudden stop from 43 km/h",
+          status: "countdown",
+          expiresAt: new Date(now.getTime() + 30 * 1000),
+        })
+      );
+      expect(sendToUser).toHaveBeenCalledWith(
+        "rider-1",
+        "sos_countdown",
+        expect.objectContaining({ alertId: "alert-1", countdown: 30 })
+      );
+    });
+
+    it("ignores slowing down gradually or from walking pace", async () => {
+      await AutoSosService.evaluateLocation("rider-1", "org-1", point(0, 12));
+      await AutoSosService.evaluateLocation("rider-1", "org-1", point(20, 0));
+      await AutoSosService.evaluateLocation("rider-1", "org-1", point(21, 3));
+      await AutoSosService.evaluateLocation("rider-1", "org-1", point(22, 0));
+
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it("leaves riders already in an emergency alone", async () => {
+      jest
+        .spyOn(EmergencyRequest, "exists")
+        .mockResolvedValue({ _id: "request-1" } as never);
+
+      await AutoSosService.evaluateLocation("rider-1", "org-1", point(0, 12));
+      await AutoSosService.evaluateLocation("rider-1", "org-1", point(2, 0));
+
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("countdown", () => {
+    // Start a countdown with a sudden stop
+    const suddenStop = async () => {
+      await AutoSosService.evaluateLocation("rider-1", "org-1", point(0, 12));
+      await AutoSosService.evaluateLocation("rider-1", "org-1", point(2, 0));
+    };
+
+    it("sends the SOS when the rider does not cancel in time", async () => {
+      await suddenStop();
+      const alert = {
+        userId: "rider-1",
+        organizationId: "org-1",
+        trigger: "deceleration",
+        priority: "critical",
+        message: "Sudden stop from 43 km/h",
+        location: point(2),
+        createdAt: now,
+      };
+      const sent = jest
+        .spyOn(AutoSosAlert, "findOneAndUpdate")
+        .mockResolvedValue(alert as never);
+      const raised = jest
+        .spyOn(EmergencyRequest, "create")
+        .mockResolvedValue({ _id: "request-1", toJSON: () => ({}) } as never);
+      jest.spyOn(AutoSosAlert, "updateOne").mockResolvedValue({} as never);
+      jest
+        .spyOn(RealtimeTrackingService, "sendToOrganization")
+        .mockImplementation();
+      const open = jest
+        .spyOn(EmergencyEscalationService, "open")
+        .mockResolvedValue();
+      const followUp = jest
+        .spyOn(EmergencyIncidentService, "startFollowUp")
+        .mockImplementation();
+
+      await jest.advanceTimersByTimeAsync(29 * 1000);
+      expect(sent).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(raised).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: "Automatic SOS: Sudden stop from 43 km/h",
+          priority: "critical",
+          trigger: "deceleration",
+          status: "pending",
+        })
+      );
+      expect(open).toHaveBeenCalledWith("request-1");
+      expect(followUp).toHaveBeenCalledWith("rider-1", "request-1");
+      expect(sentToRider()).toEqual(["sos_countdown", "sos_sent"]);
+    });
+
+    it("does not send the SOS once the rider cancels it", async () => {
+      await suddenStop();
+      const update = jest
+        .spyOn(AutoSosAlert, "findOneAndUpdate")
+        .mockResolvedValue({ trigger: "deceleration" } as never);
+      const checkIn = jest
+        .spyOn(RiderPresence, "updateOne")
+        .mockResolvedValue({} as never);
+
+      const result = await AutoSosService.cancel("rider-1", "alert-1");
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+
+      expect(result.success).toBe(true);
+      expect(update).toHaveBeenCalledTimes(1);
+      expect(checkIn).toHaveBeenCalledWith(
+        { userId: "rider-1" },
+        { $set: { lastCheckInAt: now } }
+      );
+      expect(sentToRider()).toEqual(["sos_countdown", "sos_cancelled"]);
+    });
+
+    it("cannot cancel an SOS that was already sent", async () => {
+      jest.spyOn(AutoSosAlert, "findOneAndUpdate").mockResolvedValue(null);
+
+      expect(await AutoSosService.cancel("rider-1", "alert-1")).toEqual({
+        success: false,
+        message: "SOS countdown not found or already sent",
+      });
+    });
+  });
+
+  describe("sweep", () => {
+    // A rider online for two hours who last moved and checked in a while ago
+    const presence = (lastMovedAt: number, lastCheckInAt: number) =>
+      ({
+        userId: "rider-1",
+        organizationId: "org-1",
+        onlineSince: secondsAgo(7200),
+        lastMovedAt: secondsAgo(lastMovedAt),
+        lastCheckInAt: secondsAgo(lastCheckInAt),
+        lastLocation: { latitude: 52.5, longitude: 13.4, timestamp: now },
+      } as never);
+    const checkRider = (lastMovedAt: number, lastCheckInAt: number) =>
+      AutoSosService["checkRider"](presence(lastMovedAt, lastCheckInAt), now);
+
+    it("raises an SOS for a rider standing still during a delivery", async () => {
+      const delivering = jest
+        .spyOn(Order, "exists")
+        .mockResolvedValue({ _id: "order-1" } as never);
+
+      await checkRider(600, 0);
+      expect(create).not.toHaveBeenCalled();
+
+      await checkRider(960, 0);
+      expect(delivering).toHaveBeenCalledTimes(1);
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          trigger: "no_movement",
+          message: "No movement for 16 minutes during a delivery",
+        })
+      );
+    });
+
+    it("does not mind a rider waiting without a delivery", async () => {
+      jest.spyOn(Order, "exists").mockResolvedValue(null as never);
+
+      await checkRider(3600, 0);
+
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it("reminds a rider of a due check-in once, then raises an SOS", async () => {
+      jest.spyOn(AutoSosService, "loadSettings").mockResolvedValue({
+        ...DEFAULT_AUTO_SOS_SETTINGS,
+        checkIn: { ...DEFAULT_AUTO_SOS_SETTINGS.checkIn, enabled: true },
+      });
+
+      await checkRider(0, 3700);
+      await checkRider(0, 3700);
+      expect(sentToRider()).toEqual(["check_in_due"]);
+      expect(create).not.toHaveBeenCalled();
+
+      await checkRider(0, 3900);
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({ trigger: "missed_check_in" })
+      );
+    });
+  });
+});
@@ -0,0 +1,593 @@
+import Order from "../orders/order.model";
+import { TRACKABLE_ORDER_STATUSES } from "../orders/tracking-link.service";
+import AutoSosSettings, {
+  AutoSosAlert,
+  AutoSosTrigger,
+  IAutoSosAlert,
+  IAutoSosSettings,
+} from "./auto-sos.model";
+import { EmergencyEscalationService } from "./emergency-escalation.service";
+import { EmergencyIncidentService } from "./emergency-incident.service";
+import { GeoUtils } from "./geo.utils";
+import { IRiderPresence, RiderPresence } from "./presence.model";
+import { PresenceService } from "./presence.service";
+import { RealtimeTrackingService } from "./realtime-tracking.service";
+import { EmergencyRequest, ILocation } from "./tracking.model";
+import { TrackingResponse } from "./tracking.service";
+
+// Effective automatic SOS rules for an organization
+export type AutoSosRules = Pick<
+  IAutoSosSettings,
+  "enabled" | "countdown" | "deceleration" | "noMovement" | "checkIn"
+>;
+
+// Automatic SOS settings update, each rule may be changed in part
+export interface AutoSosSettingsUpdate {
+  enabled?: boolean;
+  countdown?: number;
+  deceleration?: Partial<AutoSosRules["deceleration"]>;
+  noMovement?: Partial<AutoSosRules["noMovement"]>;
+  checkIn?: Partial<AutoSosRules["checkIn"]>;
+}
+
+export const DEFAULT_AUTO_SOS_SETTINGS: AutoSosRules = {
+  enabled: true,
+  countdown: 30,
+  deceleration: {
+    enabled: true,
+    minSpeed: 8,
+    stopSpeed: 0.5,
+    window: 5,
+    priority: "critical",
+  },
+  noMovement: {
+    enabled: true,
+    after: 900,
+    priority: "high",
+  },
+  checkIn: {
+    enabled: false,
+    interval: 3600,
+    grace: 300,
+    priority: "high",
+  },
+};
+
+// How often riders are checked for no movement and missed check-ins
+const SWEEP_INTERVAL = 30 * 1000;
+// A crash-like stop is not raised again for this long (in seconds)
+const DECELERATION_COOLDOWN = 5 * 60;
+
+// Statuses of an emergency that is still being handled
+const OPEN_EMERGENCY_STATUSES = ["pending", "acknowledged"];
+
+export class AutoSosService {
+  private static settingsCache: Map<
+    string,
+    { settings: AutoSosRules; expiresAt: number }
+  > = new Map();
+  private static readonly SETTINGS_CACHE_TTL = 60 * 1000;
+  private static lastPoints: Map<
+    string,
+    { latitude: number; longitude: number; speed?: number; timestamp: number }
+  > = new Map();
+  private static countdownTimers: Map<string, NodeJS.Timeout> = new Map();
+  private static checkInReminders: Map<string, number> = new Map();
+  private static sweepTimer?: NodeJS.Timeout;
+
+  // Check an accepted point for a sudden stop from speed
+  static async evaluateLocation(
+    userId: string,
+    organizationId: string,
+    location: ILocation
+  ): Promise<void> {
+    const timestamp = new Date(location.timestamp).getTime();
+    const previous = this.lastPoints.get(userId);
+
+    // Fall back to the distance covered since the previous point when the
+    // device does not report its speed
+    let speed = location.speed;
+    if (speed === undefined && previous && timestamp > previous.timestamp) {
+      speed =
+        GeoUtils.distanceInMeters(previous, location) /
+        ((timestamp - previous.timestamp) / 1000);
+    }
+    this.lastPoints.set(userId, {
+      latitude: location.latitude,
+      longitude: location.longitude,
+      speed,
+      timestamp,
+    });
+    if (previous?.speed === undefined || speed === undefined) return;
+
+    const settings = await this.loadSettings(organizationId);
+    const rule = settings.deceleration;
+    if (!settings.enabled || !rule.enabled) return;
+
+    const elapsed = (timestamp - previous.timestamp) / 1000;
+    if (
+      elapsed > 0 &&
+      elapsed <= rule.window &&
+      previous.speed >= rule.minSpeed &&
+      speed <= rule.stopSpeed
+    ) {
+      await this.raise(
+        userId,
+        organizationId,
+        "deceleration",
+        rule.priority,
+        location,
+        `Sudden stop from ${Math.round(previous.speed * 3.6)} km/h`,
+        settings
+      );
+    }
+  }
+
+  // Forget the last point of a rider who stopped tracking
+  static forget(userId: string) {
+    this.lastPoints.delete(userId);
+    this.checkInReminders.delete(userId);
+  }
+
+  // Record a rider's periodic check-in
+  static async checkIn(
+    userId: string,
+    organizationId: string
+  ): Promise<TrackingResponse> {
+    try {
+      const now = new Date();
+      // A check-in is also a heartbeat
+      await PresenceService.recordHeartbeat(userId, organizationId);
+      await this.recordCheckIn(userId, now);
+
+      const settings = await this.loadSettings(organizationId);
+
+      return {
+        success: true,
+        message: "Check-in recorded successfully",
+        data: {
+          checkedInAt: now,
+          nextCheckInAt:
+            settings.enabled && settings.checkIn.enabled
+              ? new Date(now.getTime() + settings.checkIn.interval * 1000)
+              : undefined,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to record check-in"
+      );
+    }
+  }
+
+  // Cancel an automatic SOS during its countdown
+  static async cancel(
+    userId: string,
+    alertId: string
+  ): Promise<TrackingResponse> {
+    try {
+      const now = new Date();
+      const alert = await AutoSosAlert.findOneAndUpdate(
+        { _id: alertId, userId, status: "countdown" },
+        { $set: { status: "cancelled", cancelledAt: now } },
+        { new: true }
+      ).catch(() => null);
+
+      if (!alert) {
+        return {
+          success: false,
+          message: "SOS countdown not found or already sent",
+        };
+      }
+
+      this.clearTimer(alertId);
+      // Cancelling proves the rider is fine, so it counts as a check-in
+      await this.recordCheckIn(userId, now);
+
+      RealtimeTrackingService.sendToUser(userId, "sos_cancelled", {
+        alertId,
+        trigger: alert.trigger,
+        timestamp: now,
+      });
+
+      return {
+        success: true,
+        message: "SOS cancelled successfully",
+        data: alert,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to cancel SOS"
+      );
+    }
+  }
+
+  // Re-arm countdown timers after a restart
+  static async resumePendingCountdowns(): Promise<void> {
+    const alerts = await AutoSosAlert.find({ status: "countdown" }).select(
+      "expiresAt"
+    );
+
+    for (const alert of alerts) {
+      this.armTimer(String(alert._id), alert.expiresAt);
+    }
+  }
+
+  // Get automatic SOS settings for an organization
+  static async getSettings(organizationId: string): Promise<TrackingResponse> {
+    try {
+      const settings = await AutoSosSettings.findOne({ organizationId });
+
+      return {
+        success: true,
+        message: "Automatic SOS settings retrieved successfully",
+        data: settings ?? { organizationId, ...DEFAULT_AUTO_SOS_SETTINGS },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to get automatic SOS settings"
+      );
+    }
+  }
+
+  // Update automatic SOS settings for an organization
+  static async updateSettings(
+    organizationId: string,
+    updatedBy: string,
+    data: AutoSosSettingsUpdate
+  ): Promise<TrackingResponse> {
+    try {
+      const current = await this.loadSettings(organizationId);
+      const deceleration = { ...current.deceleration, ...data.deceleration };
+      if (deceleration.stopSpeed >= deceleration.minSpeed) {
+        return {
+          success: false,
+          message: "Stop speed must be lower than minimum speed",
+        };
+      }
+
+      const update: Record<string, any> = { organizationId, updatedBy };
+      if (data.enabled !== undefined) update.enabled = data.enabled;
+      if (data.countdown !== undefined) update.countdown = data.countdown;
+      // Only the fields given are changed
+      for (const rule of ["deceleration", "noMovement", "checkIn"] as const) {
+        for (const [field, value] of Object.entries(data[rule] ?? {})) {
+          update[`${rule}.${field}`] = value;
+        }
+      }
+
+      const settings = await AutoSosSettings.findOneAndUpdate(
+        { organizationId },
+        update,
+        {
+          new: true,
+          upsert: true,
+          runValidators: true,
+          setDefaultsOnInsert: true,
+        }
+      );
+
+      this.settingsCache.delete(organizationId);
+
+      return {
+        success: true,
+        message: "Automatic SOS settings updated successfully",
+        data: settings,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to update automatic SOS settings"
+      );
+    }
+  }
+
+  // Periodically look for riders who stopped moving or missed a check-in
+  static startMonitor() {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch((error) =>
+        console.error("Automatic SOS sweep error:", error)
+      );
+    }, SWEEP_INTERVAL);
+    this.sweepTimer.unref();
+  }
+
+  // Helper method to check every rider that is not offline
+  private static async sweep() {
+    const now = new Date();
+    const presences = await RiderPresence.find({ state: { $ne: "offline" } });
+
+    for (const presence of presences) {
+      await this.checkRider(presence, now);
+    }
+  }
+
+  // Helper method to apply the no movement and check-in rules to a rider
+  private static async checkRider(presence: IRiderPresence, now: Date) {
+    const settings = await this.loadSettings(presence.organizationId);
+    if (!settings.enabled || !presence.lastLocation) return;
+
+    const location = {
+      latitude: presence.lastLocation.latitude,
+      longitude: presence.lastLocation.longitude,
+      timestamp: presence.lastLocation.timestamp,
+    };
+
+    // Time without movement counts from the latest move or reconnect
+    const noMovement = settings.noMovement;
+    const stillSince = Math.max(
+      presence.lastMovedAt?.getTime() ?? 0,
+      presence.onlineSince?.getTime() ?? 0
+    );
+    if (
+      noMovement.enabled &&
+      stillSince &&
+      now.getTime() - stillSince >= noMovement.after * 1000 &&
+      (await this.hasActiveDelivery(presence.userId))
+    ) {
+      await this.raise(
+        presence.userId,
+        presence.organizationId,
+        "no_movement",
+        noMovement.priority,
+        location,
+        `No movement for ${Math.round(
+          (now.getTime() - stillSince) / 60000
+        )} minutes during a delivery`,
+        settings
+      );
+      return;
+    }
+
+    // Check-ins are due from the latest check-in or reconnect
+    const checkIn = settings.checkIn;
+    const checkedInAt = Math.max(
+      presence.lastCheckInAt?.getTime() ?? 0,
+      presence.onlineSince?.getTime() ?? 0
+    );
+    if (!checkIn.enabled || !checkedInAt) return;
+
+    const dueAt = checkedInAt + checkIn.interval * 1000;
+    if (now.getTime() >= dueAt + checkIn.grace * 1000) {
+      await this.raise(
+        presence.userId,
+        presence.organizationId,
+        "missed_check_in",
+        checkIn.priority,
+        location,
+        `Missed check-in due at ${new Date(dueAt).toISOString()}`,
+        settings
+      );
+    } else if (
+      now.getTime() >= dueAt &&
+      this.checkInReminders.get(presence.userId) !== dueAt
+    ) {
+      this.checkInReminders.set(presence.userId, dueAt);
+      RealtimeTrackingService.sendToUser(presence.userId, "check_in_due", {
+        dueAt: new Date(dueAt),
+        deadline: new Date(dueAt + checkIn.grace * 1000),
+        timestamp: now,
+      });
+    }
+  }
+
+  // Helper method to start the countdown of an automatic SOS. Only one
+  // countdown per rider can exist, so only one node raises it.
+  private static async raise(
+    userId: string,
+    organizationId: string,
+    trigger: AutoSosTrigger,
+    priority: IAutoSosAlert["priority"],
+    location: Pick<ILocation, "latitude" | "longitude" | "accuracy"> & {
+      timestamp: Date;
+    },
+    message: string,
+    settings: AutoSosRules
+  ) {
+    const now = new Date();
+
+    // Riders already in an emergency are being looked after
+    const openRequest = await EmergencyRequest.exists({
+      userId,
+      status: { $in: OPEN_EMERGENCY_STATUSES },
+    });
+    if (openRequest) return;
+
+    const recent = await AutoSosAlert.exists({
+      userId,
+      trigger,
+      createdAt: {
+        $gt: new Date(now.getTime() - this.cooldown(trigger, settings) * 1000),
+      },
+    });
+    if (recent) return;
+
+    const expiresAt = new Date(now.getTime() + settings.countdown * 1000);
+    let alert: IAutoSosAlert;
+    try {
+      alert = await AutoSosAlert.create({
+        userId,
+        organizationId,
+        trigger,
+        priority,
+        message,
+        location: {
+          latitude: location.latitude,
+          longitude: location.longitude,
+          accuracy: location.accuracy,
+          timestamp: location.timestamp,
+        },
+        status: "countdown",
+        expiresAt,
+      });
+    } catch (error: any) {
+      if (error?.code === 11000) return;
+      throw error;
+    }
+
+    const alertId = String(alert._id);
+    this.armTimer(alertId, expiresAt);
+
+    RealtimeTrackingService.sendToUser(userId, "sos_countdown", {
+      alertId,
+      trigger,
+      priority,
+      message,
+      countdown: settings.countdown,
+      expiresAt,
+      timestamp: now,
+    });
+
+    console.log(`⏳ Automatic SOS countdown for user ${userId} (${trigger})`);
+  }
+
+  // Helper method to send an automatic SOS the rider did not cancel. The
+  // update is conditional on the countdown so only one node sends it.
+  private static async send(alertId: string) {
+    this.countdownTimers.delete(alertId);
+
+    const now = new Date();
+    const alert = await AutoSosAlert.findOneAndUpdate(
+      { _id: alertId, status: "countdown" },
+      { $set: { status: "sent", sentAt: now } },
+      { new: true }
+    );
+    if (!alert) return;
+
+    const emergencyRequest = await EmergencyRequest.create({
+      userId: alert.userId,
+      organizationId: alert.organizationId,
+      location: alert.location,
+      message: `Automatic SOS: ${alert.message}`,
+      priority: alert.priority,
+      trigger: alert.trigger,
+      status: "pending",
+      timeline: [
+        EmergencyIncidentService.timelineEntry("created", undefined, {
+          message: `Raised automatically, not cancelled within ${Math.round(
+            (now.getTime() - alert.createdAt.getTime()) / 1000
+          )} seconds`,
+        }),
+      ],
+    });
+    const requestId = String(emergencyRequest._id);
+    await AutoSosAlert.updateOne(
+      { _id: alertId },
+      { $set: { emergencyRequestId: requestId } }
+    );
+
+    // Alert organization admins, escalate and follow the rider closely
+    RealtimeTrackingService.sendToOrganization(
+      alert.organizationId,
+      "emergency_alert",
+      {
+        ...emergencyRequest.toJSON(),
+        timestamp: now,
+      }
+    );
+    await EmergencyEscalationService.open(requestId);
+    EmergencyIncidentService.startFollowUp(alert.userId, requestId);
+
+    RealtimeTrackingService.sendToUser(alert.userId, "sos_sent", {
+      alertId,
+      requestId,
+      trigger: alert.trigger,
+      timestamp: now,
+    });
+
+    console.log(
+      `🚨 Automatic SOS from user ${alert.userId} (${alert.trigger})`
+    );
+  }
+
+  // Helper method to tell whether a rider is carrying a delivery
+  private static async hasActiveDelivery(userId: string): Promise<boolean> {
+    const order = await Order.exists({
+      assignedTo: userId,
+      status: { $in: TRACKABLE_ORDER_STATUSES },
+    });
+    return !!order;
+  }
+
+  // Helper method to store a check-in
+  private static async recordCheckIn(userId: string, now: Date) {
+    await RiderPresence.updateOne({ userId }, { $set: { lastCheckInAt: now } });
+    this.checkInReminders.delete(userId);
+  }
+
+  // Helper method to get how long a trigger stays quiet after an alert
+  private static cooldown(
+    trigger: AutoSosTrigger,
+    settings: AutoSosRules
+  ): number {
+    switch (trigger) {
+      case "deceleration":
+        return DECELERATION_COOLDOWN;
+      case "no_movement":
+        return settings.noMovement.after;
+      case "missed_check_in":
+        return settings.checkIn.interval;
+    }
+  }
+
+  // Helper method to schedule sending an alert when its countdown ends
+  private static armTimer(alertId: string, expiresAt: Date) {
+    this.clearTimer(alertId);
+
+    const timer = setTimeout(() => {
+      this.send(alertId).catch((error) =>
+        console.error("Automatic SOS error:", error)
+      );
+    }, Math.max(expiresAt.getTime() - Date.now(), 0));
+    this.countdownTimers.set(alertId, timer);
+  }
+
+  // Helper method to clear a running countdown
+  private static clearTimer(alertId: string) {
+    const timer = this.countdownTimers.get(alertId);
+    if (timer) {
+      clearTimeout(timer);
+      this.countdownTimers.delete(alertId);
+    }
+  }
+
+  // Load an organization's rules, with a short cache
+  static async loadSettings(organizationId: string): Promise<AutoSosRules> {
+    const cached = this.settingsCache.get(organizationId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.settings;
+    }
+
+    const stored = await AutoSosSettings.findOne({ organizationId }).lean();
+    const settings: AutoSosRules = stored
+      ? {
+          enabled: stored.enabled,
+          countdown: stored.countdown,
+          deceleration: {
+            ...DEFAULT_AUTO_SOS_SETTINGS.deceleration,
+            ...stored.deceleration,
+          },
+          noMovement: {
+            ...DEFAULT_AUTO_SOS_SETTINGS.noMovement,
+            ...stored.noMovement,
+          },
+          checkIn: {
+            ...DEFAULT_AUTO_SOS_SETTINGS.checkIn,
+            ...stored.checkIn,
+          },
+        }
+      : DEFAULT_AUTO_SOS_SETTINGS;
+
+    this.settingsCache.set(organizationId, {
+      settings,
+      expiresAt: Date.now() + this.SETTINGS_CACHE_TTL,
+    });
+
+    return settings;
+  }
+}
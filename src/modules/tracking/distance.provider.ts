@@ -0,0 +1,142 @@
+import { GeoPoint, GeoUtils } from "./geo.utils";
+import { DistanceMatrixResult, GoogleMapsService } from "./google-maps.service";
+
+// Travel estimate between two points
+export interface TravelEstimate {
+  distance: number; // in meters
+  duration: number; // in seconds
+}
+
+// Source of travel distances and durations
+export interface DistanceProvider {
+  readonly name: string;
+  getMatrix(
+    origins: GeoPoint[],
+    destinations: GeoPoint[]
+  ): Promise<TravelEstimate[][]>;
+}
+
+export type DistanceProviderName = "haversine" | "google";
+
+// Straight-line distances stretched by a detour factor, driven at a fixed speed
+export class HaversineDistanceProvider implements DistanceProvider {
+  readonly name = "haversine";
+
+  constructor(
+    private readonly speed = 25 / 3.6, // in m/s
+    private readonly detourFactor = 1.3
+  ) {}
+
+  async getMatrix(
+    origins: GeoPoint[],
+    destinations: GeoPoint[]
+  ): Promise<TravelEstimate[][]> {
+    return origins.map((origin) =>
+      destinations.map((destination) => this.estimate(origin, destination))
+    );
+  }
+
+  estimate(origin: GeoPoint, destination: GeoPoint): TravelEstimate {
+    const distance =
+      GeoUtils.distanceInMeters(origin, destination) * this.detourFactor;
+    return { distance, duration: distance / this.speed };
+  }
+}
+
+// The Distance Matrix API answers at most 25 origins or destinations and 100
+// elements per request
+const MAX_MATRIX_POINTS = 25;
+const MAX_MATRIX_ELEMENTS = 100;
+
+// Road distances from the Google Distance Matrix API, requested in as few
+// batches as its limits allow. Pairs the API cannot answer fall back to the
+// haversine estimate so a route is always returned.
+export class GoogleMapsDistanceProvider implements DistanceProvider {
+  readonly name = "google";
+
+  constructor(
+    private readonly fallback = new HaversineDistanceProvider(),
+    private readonly mode: "driving" | "walking" | "bicycling" = "driving"
+  ) {}
+
+  async getMatrix(
+    origins: GeoPoint[],
+    destinations: GeoPoint[]
+  ): Promise<TravelEstimate[][]> {
+    const matrix: TravelEstimate[][] = origins.map(() => []);
+    if (destinations.length === 0) {
+      return matrix;
+    }
+
+    const columns = Math.min(destinations.length, MAX_MATRIX_POINTS);
+    const rows = Math.min(
+      Math.floor(MAX_MATRIX_ELEMENTS / columns),
+      MAX_MATRIX_POINTS
+    );
+
+    for (let row = 0; row < origins.length; row += rows) {
+      for (let column = 0; column < destinations.length; column += columns) {
+        const batch = await this.estimateBatch(
+          origins.slice(row, row + rows),
+          destinations.slice(column, column + columns)
+        );
+        batch.forEach((estimates, index) =>
+          matrix[row + index].push(...estimates)
+        );
+      }
+    }
+
+    return matrix;
+  }
+
+  private async estimateBatch(
+    origins: GeoPoint[],
+    destinations: GeoPoint[]
+  ): Promise<TravelEstimate[][]> {
+    let results: DistanceMatrixResult[][] | null = null;
+    try {
+      results = await GoogleMapsService.calculateDistanceMatrix(
+        origins.map((point) => ({ lat: point.latitude, lng: point.longitude })),
+        destinations.map((point) => ({
+          lat: point.latitude,
+          lng: point.longitude,
+        })),
+        this.mode
+      );
+    } catch (error) {
+      console.error("Google distance lookup failed, using haversine:", error);
+    }
+
+    return origins.map((origin, row) =>
+      destinations.map((destination, column) => {
+        if (
+          origin.latitude === destination.latitude &&
+          origin.longitude === destination.longitude
+        ) {
+          return { distance: 0, duration: 0 };
+        }
+
+        const result = results?.[row]?.[column];
+        if (result?.status === "OK") {
+          return {
+            distance: result.distance.value,
+            duration: result.duration.value,
+          };
+        }
+
+        return this.fallback.estimate(origin, destination);
+      })
+    );
+  }
+}
+
+// Build a distance provider by name
+export const createDistanceProvider = (
+  name: DistanceProviderName = "haversine",
+  speed?: number
+): DistanceProvider => {
+  const haversine = new HaversineDistanceProvider(speed);
+  return name === "google"
+    ? new GoogleMapsDistanceProvider(haversine)
+    : haversine;
+};
@@ -0,0 +1,56 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../auth/auth.interface";
+import { EmergencyEscalationService } from "./emergency-escalation.service";
+
+export class EmergencyEscalationController {
+  // Get emergency escalation policy for organization
+  static async getPolicy(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+
+      const result = await EmergencyEscalationService.getPolicy(organizationId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to get escalation policy";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Update emergency escalation policy for organization
+  static async updatePolicy(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const updatedBy = req.user!.userId;
+
+      const result = await EmergencyEscalationService.updatePolicy(
+        organizationId,
+        updatedBy,
+        req.body
+      );
+
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to update escalation policy";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { EscalationTarget, IEmergencyRequest } from "./tracking.model";
+
+export type EmergencyPriority = IEmergencyRequest["priority"];
+
+// Escalation step interface
+export interface IEscalationStep {
+  target: EscalationTarget;
+  userIds: string[]; // empty notifies everyone of the target role
+}
+
+// Per-organization escalation policy interface
+export interface IEmergencyEscalationPolicy extends Document {
+  organizationId: string;
+  enabled: boolean;
+  acknowledgementSla: Record<EmergencyPriority, number>; // in seconds
+  steps: IEscalationStep[];
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Emergency Escalation Policy Schema
+const emergencyEscalationPolicySchema = new Schema<IEmergencyEscalationPolicy>(
+  {
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: true,
+      unique: true,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    acknowledgementSla: {
+      low: {
+        type: Number,
+        min: 10,
+        default: 1800,
+      },
+      medium: {
+        type: Number,
+        min: 10,
+        default: 600,
+      },
+      high: {
+        type: Number,
+        min: 10,
+        default: 180,
+      },
+      critical: {
+        type: Number,
+        min: 10,
+        default: 60,
+      },
+    },
+    steps: [
+      {
+        target: {
+          type: String,
+          enum: ["organization_admins", "super_admins"],
+          required: true,
+        },
+        userIds: {
+          type: [String],
+          default: [],
+        },
+      },
+    ],
+    updatedBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Transform toJSON
+emergencyEscalationPolicySchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+export const EmergencyEscalationPolicy =
+  mongoose.model<IEmergencyEscalationPolicy>(
+    "EmergencyEscalationPolicy",
+    emergencyEscalationPolicySchema
+  );
+
+export default EmergencyEscalationPolicy;
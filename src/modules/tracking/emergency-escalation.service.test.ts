@@ -0,0 +1,109 @@
+import { UserRole } from "../auth/auth.interface";
+import OrganizationAdmin from "../organizationAdmin/organizationAdmin.model";
+import User from "../user/user.model";
+import EmergencyEscalationPolicy from "./emergency-escalation.model";
+import { EmergencyEscalationService } from "./emergency-escalation.service";
+import { RealtimeTrackingService } from "./realtime-tracking.service";
+import { EmergencyRequest } from "./tracking.model";
+
+const now = new Date("2026-01-01T12:00:00Z");
+
+// Keep a high priority request in memory, applying escalation updates to it
+const mockRequest = () => {
+  const request = {
+    _id: "request-1",
+    organizationId: "org-1",
+    priority: "high",
+    status: "pending",
+    escalationLevel: 0,
+    createdAt: now,
+  };
+  jest.spyOn(EmergencyRequest, "findById").mockResolvedValue(request as never);
+  jest.spyOn(EmergencyRequest, "updateOne").mockResolvedValue({} as never);
+  jest.spyOn(EmergencyRequest, "findOneAndUpdate").mockImplementation((async (
+    _filter: unknown,
+    update: any
+  ) => {
+    request.escalationLevel = update.$set.escalationLevel;
+    return { toJSON: () => request };
+  }) as never);
+  return request;
+};
+
+describe("EmergencyEscalationService", () => {
+  let sendToUser: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    jest.spyOn(console, "log").mockImplementation();
+    jest
+      .spyOn(EmergencyEscalationPolicy, "findOne")
+      .mockReturnValue({ lean: async () => null } as never);
+    jest.spyOn(OrganizationAdmin, "find").mockReturnValue({
+      select: async () => [{ _id: "org-admin-1" }],
+    } as never);
+    jest.spyOn(User, "find").mockImplementation(((filter: any) => ({
+      select: async () =>
+        filter.role === UserRole.SUPER_ADMIN ? [{ _id: "super-admin-1" }] : [],
+    })) as never);
+    jest
+      .spyOn(RealtimeTrackingService, "sendToOrganization")
+      .mockImplementation();
+    sendToUser = jest
+      .spyOn(RealtimeTrackingService, "sendToUser")
+      .mockImplementation();
+  });
+
+  afterEach(() => {
+    EmergencyEscalationService.close("request-1");
+    jest.useRealTimers();
+  });
+
+  // Who has been told about the escalation so far
+  const escalatedTo = () =>
+    sendToUser.mock.calls
+      .filter(([, event]) => event === "emergency_escalation")
+      .map(([userId, , data]) => [userId, data.level]);
+
+  it("escalates step by step while nobody acknowledges", async () => {
+    const request = mockRequest();
+    await EmergencyEscalationService.open("request-1");
+
+    await jest.advanceTimersByTimeAsync(179 * 1000);
+    expect(escalatedTo()).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(escalatedTo()).toEqual([["org-admin-1", 1]]);
+
+    await jest.advanceTimersByTimeAsync(180 * 1000);
+    expect(escalatedTo()).toEqual([
+      ["org-admin-1", 1],
+      ["super-admin-1", 2],
+    ]);
+
+    // There is no third step
+    await jest.advanceTimersByTimeAsync(3600 * 1000);
+    expect(request.escalationLevel).toBe(2);
+    expect(escalatedTo()).toHaveLength(2);
+  });
+
+  it("stops once the request is acknowledged", async () => {
+    const request = mockRequest();
+    await EmergencyEscalationService.open("request-1");
+
+    request.status = "acknowledged";
+    await jest.advanceTimersByTimeAsync(180 * 1000);
+
+    expect(escalatedTo()).toEqual([]);
+  });
+
+  it("does not escalate a closed request", async () => {
+    mockRequest();
+    await EmergencyEscalationService.open("request-1");
+
+    EmergencyEscalationService.close("request-1");
+    await jest.advanceTimersByTimeAsync(3600 * 1000);
+
+    expect(escalatedTo()).toEqual([]);
+  });
+});
@@ -0,0 +1,321 @@
+import { UserRole } from "../auth/auth.interface";
+import OrganizationAdmin from "../organizationAdmin/organizationAdmin.model";
+import User from "../user/user.model";
+import EmergencyEscalationPolicy, {
+  EmergencyPriority,
+  IEscalationStep,
+} from "./emergency-escalation.model";
+import { RealtimeTrackingService } from "./realtime-tracking.service";
+import { EmergencyIncidentService } from "./emergency-incident.service";
+import { EmergencyRequest, EscalationTarget } from "./tracking.model";
+import { TrackingResponse } from "./tracking.service";
+
+// Effective escalation policy for an organization
+export interface EscalationPolicy {
+  enabled: boolean;
+  acknowledgementSla: Record<EmergencyPriority, number>;
+  steps: IEscalationStep[];
+}
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  enabled: true,
+  acknowledgementSla: {
+    low: 1800,
+    medium: 600,
+    high: 180,
+    critical: 60,
+  },
+  steps: [
+    { target: "organization_admins", userIds: [] },
+    { target: "super_admins", userIds: [] },
+  ],
+};
+
+export class EmergencyEscalationService {
+  private static escalationTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  // Start the acknowledgement clock of a new emergency request
+  static async open(requestId: string): Promise<void> {
+    const request = await EmergencyRequest.findById(requestId);
+    if (!request || request.status !== "pending") return;
+
+    const policy = await this.loadPolicy(request.organizationId);
+    if (!policy.enabled || policy.steps.length === 0) return;
+
+    const nextEscalationAt = new Date(
+      request.createdAt.getTime() +
+        policy.acknowledgementSla[request.priority] * 1000
+    );
+    await EmergencyRequest.updateOne(
+      { _id: requestId, escalationLevel: 0 },
+      { $set: { nextEscalationAt } }
+    );
+
+    this.armTimer(requestId, nextEscalationAt);
+  }
+
+  // Stop escalating a request that was acknowledged or resolved
+  static close(requestId: string) {
+    this.clearTimer(requestId);
+    EmergencyRequest.updateOne(
+      { _id: requestId },
+      { $unset: { nextEscalationAt: 1 } }
+    ).catch((error) => console.error("Emergency escalation error:", error));
+  }
+
+  // Re-arm escalation timers after a restart
+  static async resumePendingEscalations(): Promise<void> {
+    const requests = await EmergencyRequest.find({
+      status: "pending",
+      nextEscalationAt: { $exists: true },
+    }).select("nextEscalationAt");
+
+    for (const request of requests) {
+      this.armTimer(String(request._id), request.nextEscalationAt!);
+    }
+  }
+
+  // Get escalation policy for an organization
+  static async getPolicy(organizationId: string): Promise<TrackingResponse> {
+    try {
+      const policy = await EmergencyEscalationPolicy.findOne({
+        organizationId,
+      });
+
+      return {
+        success: true,
+        message: "Escalation policy retrieved successfully",
+        data: policy ?? { organizationId, ...DEFAULT_ESCALATION_POLICY },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to get escalation policy"
+      );
+    }
+  }
+
+  // Update escalation policy for an organization
+  static async updatePolicy(
+    organizationId: string,
+    updatedBy: string,
+    data: Partial<EscalationPolicy>
+  ): Promise<TrackingResponse> {
+    try {
+      // Explicit recipients must be admins of this organization
+      for (const step of data.steps ?? []) {
+        if (step.target !== "organization_admins" || !step.userIds?.length) {
+          continue;
+        }
+        const admins = await this.findOrganizationAdmins(organizationId);
+        const unknown = step.userIds.filter(
+          (userId) => !admins.includes(userId)
+        );
+        if (unknown.length > 0) {
+          return {
+            success: false,
+            message: `Unknown organization admins: ${unknown.join(", ")}`,
+          };
+        }
+      }
+
+      const update: Record<string, any> = { organizationId, updatedBy };
+      if (data.enabled !== undefined) update.enabled = data.enabled;
+      if (data.steps) {
+        update.steps = data.steps;
+      } else {
+        // A new policy starts from the default steps
+        update.$setOnInsert = { steps: DEFAULT_ESCALATION_POLICY.steps };
+      }
+      // Only the priorities given are changed
+      for (const [priority, sla] of Object.entries(
+        data.acknowledgementSla ?? {}
+      )) {
+        update[`acknowledgementSla.${priority}`] = sla;
+      }
+
+      const policy = await EmergencyEscalationPolicy.findOneAndUpdate(
+        { organizationId },
+        update,
+        {
+          new: true,
+          upsert: true,
+          runValidators: true,
+          setDefaultsOnInsert: true,
+        }
+      );
+
+      return {
+        success: true,
+        message: "Escalation policy updated successfully",
+        data: policy,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to update escalation policy"
+      );
+    }
+  }
+
+  // Helper method to take the next escalation step of a request that is
+  // still not acknowledged. The update is conditional on the current level
+  // so only one node escalates.
+  private static async escalate(requestId: string) {
+    this.escalationTimers.delete(requestId);
+
+    const request = await EmergencyRequest.findById(requestId);
+    if (!request || request.status !== "pending") return;
+
+    const policy = await this.loadPolicy(request.organizationId);
+    const level = request.escalationLevel;
+    const step = policy.steps[level];
+    if (!policy.enabled || !step) return;
+
+    const notifiedUserIds = step.userIds.length
+      ? step.userIds
+      : await this.findRecipients(step.target, request.organizationId);
+
+    const now = new Date();
+    // Every further step waits one more acknowledgement SLA
+    const nextEscalationAt = policy.steps[level + 1]
+      ? new Date(
+          now.getTime() + policy.acknowledgementSla[request.priority] * 1000
+        )
+      : undefined;
+
+    const escalated = await EmergencyRequest.findOneAndUpdate(
+      { _id: requestId, status: "pending", escalationLevel: level },
+      {
+        $set: {
+          escalationLevel: level + 1,
+          ...(nextEscalationAt && { nextEscalationAt }),
+        },
+        ...(!nextEscalationAt && { $unset: { nextEscalationAt: 1 } }),
+        $push: {
+          escalations: {
+            level: level + 1,
+            target: step.target,
+            notifiedUserIds,
+            escalatedAt: now,
+          },
+          timeline: EmergencyIncidentService.timelineEntry(
+            "escalated",
+            undefined,
+            { message: `Escalated to ${step.target.replace("_", " ")}` }
+          ),
+        },
+      },
+      { new: true }
+    );
+    if (!escalated) return;
+
+    const alert = {
+      ...escalated.toJSON(),
+      escalated: true,
+      timestamp: now,
+    };
+    RealtimeTrackingService.sendToOrganization(
+      request.organizationId,
+      "emergency_alert",
+      alert
+    );
+    for (const userId of notifiedUserIds) {
+      RealtimeTrackingService.sendToUser(userId, "emergency_escalation", {
+        requestId,
+        organizationId: request.organizationId,
+        priority: request.priority,
+        level: level + 1,
+        target: step.target,
+        message: `Emergency request has not been acknowledged for ${Math.round(
+          (now.getTime() - request.createdAt.getTime()) / 1000
+        )} seconds`,
+        alert,
+      });
+    }
+
+    console.log(
+      `🚨 Emergency request ${requestId} escalated to ${step.target} (level ${
+        level + 1
+      })`
+    );
+
+    if (nextEscalationAt) this.armTimer(requestId, nextEscalationAt);
+  }
+
+  // Helper method to find who a step notifies when no one is named
+  private static async findRecipients(
+    target: EscalationTarget,
+    organizationId: string
+  ): Promise<string[]> {
+    if (target === "organization_admins") {
+      return this.findOrganizationAdmins(organizationId);
+    }
+
+    const superAdmins = await User.find({
+      role: UserRole.SUPER_ADMIN,
+      status: "active",
+    }).select("_id");
+    return superAdmins.map((user) => String(user._id));
+  }
+
+  // Helper method to list the active admins of an organization
+  private static async findOrganizationAdmins(
+    organizationId: string
+  ): Promise<string[]> {
+    const [organizationAdmins, users] = await Promise.all([
+      OrganizationAdmin.find({ organizationId, status: "active" }).select(
+        "_id"
+      ),
+      User.find({
+        organizationId,
+        role: { $in: [UserRole.ORGANIZATION_ADMIN, UserRole.ADMIN] },
+        status: "active",
+      }).select("_id"),
+    ]);
+
+    return [...organizationAdmins, ...users].map((admin) => String(admin._id));
+  }
+
+  // Helper method to schedule a request's next escalation
+  private static armTimer(requestId: string, escalateAt: Date) {
+    this.clearTimer(requestId);
+
+    const timer = setTimeout(() => {
+      this.escalate(requestId).catch((error) =>
+        console.error("Emergency escalation error:", error)
+      );
+    }, Math.max(escalateAt.getTime() - Date.now(), 0));
+    this.escalationTimers.set(requestId, timer);
+  }
+
+  // Helper method to clear a pending escalation
+  private static clearTimer(requestId: string) {
+    const timer = this.escalationTimers.get(requestId);
+    if (timer) {
+      clearTimeout(timer);
+      this.escalationTimers.delete(requestId);
+    }
+  }
+
+  // Helper method to load an organization's policy
+  private static async loadPolicy(
+    organizationId: string
+  ): Promise<EscalationPolicy> {
+    const stored = await EmergencyEscalationPolicy.findOne({
+      organizationId,
+    }).lean();
+    if (!stored) return DEFAULT_ESCALATION_POLICY;
+
+    return {
+      enabled: stored.enabled,
+      acknowledgementSla: {
+        ...DEFAULT_ESCALATION_POLICY.acknowledgementSla,
+        ...stored.acknowledgementSla,
+      },
+      steps: stored.steps,
+    };
+  }
+}
@@ -0,0 +1,130 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../auth/auth.interface";
+import {
+  EmergencyActor,
+  EmergencyIncidentService,
+} from "./emergency-incident.service";
+
+// Helper to describe who is making the request
+const getActor = (req: AuthenticatedRequest): EmergencyActor => ({
+  userId: req.user!.userId,
+  role: req.user!.role,
+  organizationId: req.user!.organizationId,
+});
+
+export class EmergencyIncidentController {
+  // Get emergency request with timeline and current rider location
+  static async getIncident(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { requestId } = req.params;
+
+      const result = await EmergencyIncidentService.getIncident(
+        requestId,
+        getActor(req)
+      );
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to get emergency request";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Get rider track recorded since the emergency request
+  static async getTrack(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { requestId } = req.params;
+      const { since, limit } = req.query;
+
+      const result = await EmergencyIncidentService.getTrack(
+        requestId,
+        getActor(req),
+        {
+          since: since ? new Date(since as string) : undefined,
+          limit: limit ? parseInt(limit as string) : undefined,
+        }
+      );
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to get emergency track";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Add note to emergency request
+  static async addNote(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { requestId } = req.params;
+
+      const result = await EmergencyIncidentService.addNote(
+        requestId,
+        getActor(req),
+        req.body.text
+      );
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to add note";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Add attachment metadata to emergency request
+  static async addAttachment(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { requestId } = req.params;
+
+      const result = await EmergencyIncidentService.addAttachment(
+        requestId,
+        getActor(req),
+        req.body
+      );
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to add attachment";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Point of a rider's track during an emergency interface
+export interface IEmergencyTrackPoint extends Document {
+  requestId: string;
+  userId: string;
+  organizationId: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  altitude?: number;
+  speed?: number;
+  heading?: number;
+  batteryLevel?: number;
+  timestamp: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Emergency Track Point Schema
+const emergencyTrackPointSchema = new Schema<IEmergencyTrackPoint>(
+  {
+    requestId: {
+      type: String,
+      ref: "EmergencyRequest",
+      required: true,
+    },
+    userId: {
+      type: String,
+      ref: "User",
+      required: true,
+    },
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: true,
+    },
+    latitude: {
+      type: Number,
+      required: true,
+      min: -90,
+      max: 90,
+    },
+    longitude: {
+      type: Number,
+      required: true,
+      min: -180,
+      max: 180,
+    },
+    accuracy: {
+      type: Number,
+      min: 0,
+    },
+    altitude: {
+      type: Number,
+    },
+    speed: {
+      type: Number,
+      min: 0,
+    },
+    heading: {
+      type: Number,
+      min: 0,
+      max: 360,
+    },
+    batteryLevel: {
+      type: Number,
+      min: 0,
+      max: 100,
+    },
+    timestamp: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better performance
+emergencyTrackPointSchema.index({ requestId: 1, timestamp: 1 });
+
+// Transform toJSON
+emergencyTrackPointSchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+export const EmergencyTrackPoint = mongoose.model<IEmergencyTrackPoint>(
+  "EmergencyTrackPoint",
+  emergencyTrackPointSchema
+);
+
+export default EmergencyTrackPoint;
@@ -0,0 +1,170 @@
+import { UserRole } from "../auth/auth.interface";
+import EmergencyTrackPoint from "./emergency-incident.model";
+import { EmergencyIncidentService } from "./emergency-incident.service";
+import { RealtimeTrackingService } from "./realtime-tracking.service";
+import { EmergencyRequest } from "./tracking.model";
+
+const rider = {
+  userId: "rider-1",
+  role: UserRole.DELIVERY_USER,
+  organizationId: "org-1",
+};
+const admin = {
+  userId: "admin-1",
+  role: UserRole.ORGANIZATION_ADMIN,
+  organizationId: "org-1",
+};
+
+describe("EmergencyIncidentService timeline", () => {
+  let sendToUser: jest.SpyInstance;
+  let sendToOrganization: jest.SpyInstance;
+  let request: { timeline: object[] };
+
+  beforeEach(() => {
+    request = {
+      userId: "rider-1",
+      organizationId: "org-1",
+      timeline: [],
+      save: jest.fn(),
+    } as typeof request;
+    jest
+      .spyOn(EmergencyRequest, "findById")
+      .mockResolvedValue(request as never);
+    sendToUser = jest
+      .spyOn(RealtimeTrackingService, "sendToUser")
+      .mockImplementation();
+    sendToOrganization = jest
+      .spyOn(RealtimeTrackingService, "sendToOrganization")
+      .mockImplementation();
+  });
+
+  it("shares a responder's note with the organization and the rider", async () => {
+    const result = await EmergencyIncidentService.addNote(
+      "request-1",
+      admin,
+      "Ambulance on the way"
+    );
+
+    expect(result.data).toMatchObject({
+      type: "note",
+      actorId: "admin-1",
+      message: "Ambulance on the way",
+    });
+    expect(request.timeline).toHaveLength(1);
+    expect(sendToOrganization).toHaveBeenCalledWith(
+      "org-1",
+      "emergency_timeline_updated",
+      expect.objectContaining({ requestId: "request-1" })
+    );
+    expect(sendToUser).toHaveBeenCalledWith(
+      "rider-1",
+      "emergency_timeline_updated",
+      expect.anything()
+    );
+  });
+
+  it("does not echo the rider's own note back to them", async () => {
+    await EmergencyIncidentService.addNote("request-1", rider, "I am okay");
+
+    expect(sendToOrganization).toHaveBeenCalled();
+    expect(sendToUser).not.toHaveBeenCalled();
+  });
+
+  it("keeps attachments' description apart from their metadata", async () => {
+    const result = await EmergencyIncidentService.addAttachment(
+      "request-1",
+      rider,
+      {
+        url: "https://files.example.com/photo.jpg",
+        mimeType: "image/jpeg",
+        description: "Damage to the bike",
+      } as never
+    );
+
+    expect(result.data).toMatchObject({
+      type: "attachment",
+      message: "Damage to the bike",
+      attachment: {
+        url: "https://files.example.com/photo.jpg",
+        mimeType: "image/jpeg",
+      },
+    });
+  });
+
+  it("hides requests of other riders and organizations", async () => {
+    const notFound = {
+      success: false,
+      message: "Emergency request not found",
+    };
+
+    expect(
+      await EmergencyIncidentService.addNote(
+        "request-1",
+        { ...rider, userId: "rider-2" },
+        "Hello"
+      )
+    ).toEqual(notFound);
+    expect(
+      await EmergencyIncidentService.addNote(
+        "request-1",
+        { ...admin, organizationId: "org-2" },
+        "Hello"
+      )
+    ).toEqual(notFound);
+  });
+});
+
+describe("EmergencyIncidentService.recordLocation", () => {
+  const location = {
+    latitude: 52.5,
+    longitude: 13.4,
+    timestamp: new Date("2026-01-01T12:00:00Z"),
+  };
+
+  beforeEach(() => {
+    jest.spyOn(RealtimeTrackingService, "sendToUser").mockImplementation();
+    jest
+      .spyOn(RealtimeTrackingService, "sendToOrganization")
+      .mockImplementation();
+  });
+
+  it("follows a rider with an open request", async () => {
+    EmergencyIncidentService.startFollowUp("rider-1", "request-1");
+    const create = jest
+      .spyOn(EmergencyTrackPoint, "create")
+      .mockResolvedValue({ toJSON: () => location } as never);
+
+    expect(
+      await EmergencyIncidentService.recordLocation(
+        "rider-1",
+        "org-1",
+        location,
+        40
+      )
+    ).toBe(true);
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        requestId: "request-1",
+        latitude: 52.5,
+        batteryLevel: 40,
+      })
+    );
+    EmergencyIncidentService.stopFollowUp("rider-1", "request-1");
+  });
+
+  it("ignores riders without an open request", async () => {
+    jest.spyOn(EmergencyRequest, "findOne").mockReturnValue({
+      sort: () => ({ select: async () => null }),
+    } as never);
+    const create = jest.spyOn(EmergencyTrackPoint, "create");
+
+    expect(
+      await EmergencyIncidentService.recordLocation(
+        "rider-2",
+        "org-1",
+        location
+      )
+    ).toBe(false);
+    expect(create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,343 @@
+import { UserRole } from "../auth/auth.interface";
+import EmergencyTrackPoint from "./emergency-incident.model";
+import { RealtimeTrackingService } from "./realtime-tracking.service";
+import LocationTracking, {
+  EmergencyRequest,
+  EmergencyTimelineType,
+  IEmergencyAttachment,
+  IEmergencyTimelineEntry,
+  ILocation,
+} from "./tracking.model";
+import { TrackingResponse } from "./tracking.service";
+
+// Who is acting on an emergency request
+export interface EmergencyActor {
+  userId: string;
+  role: string;
+  organizationId?: string;
+}
+
+// Emergency track query interface
+export interface EmergencyTrackQuery {
+  since?: Date;
+  limit?: number;
+}
+
+// Riders with an open emergency are asked to report this often (in seconds)
+export const EMERGENCY_SAMPLING_INTERVAL = 2;
+
+// Statuses during which the rider's track is followed
+const OPEN_STATUSES = ["pending", "acknowledged"];
+
+export class EmergencyIncidentService {
+  private static openRequestCache: Map<
+    string,
+    { requestId: string | null; expiresAt: number }
+  > = new Map();
+  private static readonly OPEN_REQUEST_CACHE_TTL = 5 * 1000;
+
+  // Build a timeline entry
+  static timelineEntry(
+    type: EmergencyTimelineType,
+    actor?: { userId: string; role?: string },
+    details: Pick<IEmergencyTimelineEntry, "message" | "attachment"> = {}
+  ): IEmergencyTimelineEntry {
+    return {
+      type,
+      actorId: actor?.userId,
+      actorRole: actor?.role,
+      ...details,
+      createdAt: new Date(),
+    };
+  }
+
+  // Switch the rider's app to high-rate reporting for an open request
+  static startFollowUp(userId: string, requestId: string) {
+    this.openRequestCache.set(userId, {
+      requestId,
+      expiresAt: Date.now() + this.OPEN_REQUEST_CACHE_TTL,
+    });
+
+    RealtimeTrackingService.sendToUser(userId, "emergency_tracking_started", {
+      requestId,
+      samplingInterval: EMERGENCY_SAMPLING_INTERVAL,
+      timestamp: new Date(),
+    });
+  }
+
+  // Return the rider's app to normal reporting once the request is resolved
+  static stopFollowUp(userId: string, requestId: string) {
+    this.openRequestCache.delete(userId);
+
+    RealtimeTrackingService.sendToUser(userId, "emergency_tracking_stopped", {
+      requestId,
+      timestamp: new Date(),
+    });
+  }
+
+  // Ask a reconnecting rider to pick up high-rate reporting again
+  static async resumeFollowUp(userId: string): Promise<void> {
+    const requestId = await this.findOpenRequest(userId);
+    if (requestId) this.startFollowUp(userId, requestId);
+  }
+
+  // Add a point to the track of the rider's open request, if they have one
+  static async recordLocation(
+    userId: string,
+    organizationId: string,
+    location: ILocation,
+    batteryLevel?: number
+  ): Promise<boolean> {
+    const requestId = await this.findOpenRequest(userId);
+    if (!requestId) return false;
+
+    const point = await EmergencyTrackPoint.create({
+      requestId,
+      userId,
+      organizationId,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      accuracy: location.accuracy,
+      altitude: location.altitude,
+      speed: location.speed,
+      heading: location.heading,
+      batteryLevel,
+      timestamp: location.timestamp ?? new Date(),
+    });
+
+    RealtimeTrackingService.sendToOrganization(
+      organizationId,
+      "emergency_location",
+      {
+        requestId,
+        userId,
+        location: point.toJSON(),
+        timestamp: new Date(),
+      }
+    );
+    return true;
+  }
+
+  // Get an emergency request with its timeline and where the rider is now
+  static async getIncident(
+    requestId: string,
+    actor: EmergencyActor
+  ): Promise<TrackingResponse> {
+    try {
+      const request = await this.findAccessible(requestId, actor);
+      if (!request) {
+        return {
+          success: false,
+          message: "Emergency request not found",
+        };
+      }
+
+      const riderId = request.userId;
+      await request.populate("userId", "name email phone");
+
+      const [lastPoint, trackPoints, tracking] = await Promise.all([
+        EmergencyTrackPoint.findOne({ requestId }).sort({ timestamp: -1 }),
+        EmergencyTrackPoint.countDocuments({ requestId }),
+        LocationTracking.findOne({ userId: riderId, isActive: true }),
+      ]);
+
+      // The freshest of the incident track and the live session
+      let currentLocation: any = request.location;
+      if (
+        tracking?.location &&
+        new Date(tracking.location.timestamp) >
+          new Date(currentLocation.timestamp)
+      ) {
+        currentLocation = tracking.location;
+      }
+      if (
+        lastPoint &&
+        new Date(lastPoint.timestamp) >= new Date(currentLocation.timestamp)
+      ) {
+        currentLocation = lastPoint;
+      }
+
+      return {
+        success: true,
+        message: "Emergency request retrieved successfully",
+        data: {
+          request,
+          currentLocation,
+          trackPoints,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to get emergency request"
+      );
+    }
+  }
+
+  // Get the rider's track since the emergency request was made
+  static async getTrack(
+    requestId: string,
+    actor: EmergencyActor,
+    query: EmergencyTrackQuery = {}
+  ): Promise<TrackingResponse> {
+    try {
+      const request = await this.findAccessible(requestId, actor);
+      if (!request) {
+        return {
+          success: false,
+          message: "Emergency request not found",
+        };
+      }
+
+      const filter: any = { requestId };
+      if (query.since) filter.timestamp = { $gt: query.since };
+
+      const points = await EmergencyTrackPoint.find(filter)
+        .sort({ timestamp: 1 })
+        .limit(query.limit ?? 1000);
+
+      return {
+        success: true,
+        message: "Emergency track retrieved successfully",
+        data: {
+          requestId,
+          origin: request.location,
+          points,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get emergency track"
+      );
+    }
+  }
+
+  // Add a free-text note from a responder or the rider
+  static async addNote(
+    requestId: string,
+    actor: EmergencyActor,
+    text: string
+  ): Promise<TrackingResponse> {
+    return this.addTimelineEntry(
+      requestId,
+      actor,
+      this.timelineEntry("note", actor, { message: text }),
+      "Note added successfully"
+    );
+  }
+
+  // Add attachment metadata, the file itself is stored elsewhere
+  static async addAttachment(
+    requestId: string,
+    actor: EmergencyActor,
+    attachment: IEmergencyAttachment & { description?: string }
+  ): Promise<TrackingResponse> {
+    const { description, ...metadata } = attachment;
+    return this.addTimelineEntry(
+      requestId,
+      actor,
+      this.timelineEntry("attachment", actor, {
+        message: description,
+        attachment: metadata,
+      }),
+      "Attachment added successfully"
+    );
+  }
+
+  // Helper method to append to a request's timeline and tell everyone
+  // following it
+  private static async addTimelineEntry(
+    requestId: string,
+    actor: EmergencyActor,
+    entry: IEmergencyTimelineEntry,
+    message: string
+  ): Promise<TrackingResponse> {
+    try {
+      const request = await this.findAccessible(requestId, actor);
+      if (!request) {
+        return {
+          success: false,
+          message: "Emergency request not found",
+        };
+      }
+
+      request.timeline.push(entry);
+      await request.save();
+
+      const update = {
+        requestId,
+        entry: request.timeline[request.timeline.length - 1],
+        timestamp: new Date(),
+      };
+      RealtimeTrackingService.sendToOrganization(
+        request.organizationId,
+        "emergency_timeline_updated",
+        update
+      );
+      if (actor.userId !== request.userId) {
+        RealtimeTrackingService.sendToUser(
+          request.userId,
+          "emergency_timeline_updated",
+          update
+        );
+      }
+
+      return {
+        success: true,
+        message,
+        data: update.entry,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to update timeline"
+      );
+    }
+  }
+
+  // Helper method to load a request the actor may see: riders their own,
+  // organization staff their organization's
+  private static async findAccessible(
+    requestId: string,
+    actor: EmergencyActor
+  ) {
+    const request = await EmergencyRequest.findById(requestId).catch(
+      () => null
+    );
+    if (!request) return null;
+
+    if (actor.role === UserRole.DELIVERY_USER) {
+      return request.userId === actor.userId ? request : null;
+    }
+    if (
+      actor.role !== UserRole.SUPER_ADMIN &&
+      actor.organizationId &&
+      request.organizationId !== actor.organizationId
+    ) {
+      return null;
+    }
+    return request;
+  }
+
+  // Helper method to find a rider's open request, with a short cache
+  private static async findOpenRequest(userId: string): Promise<string | null> {
+    const cached = this.openRequestCache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.requestId;
+    }
+
+    const request = await EmergencyRequest.findOne({
+      userId,
+      status: { $in: OPEN_STATUSES },
+    })
+      .sort({ createdAt: -1 })
+      .select("_id");
+    const requestId = request ? String(request._id) : null;
+
+    this.openRequestCache.set(userId, {
+      requestId,
+      expiresAt: Date.now() + this.OPEN_REQUEST_CACHE_TTL,
+    });
+    return requestId;
+  }
+}
@@ -0,0 +1,137 @@
+import { Types } from "mongoose";
+import DeliveryUser from "../deliveryUser/delivery.model";
+import Order from "../orders/order.model";
+import { EtaLocation, EtaService } from "./eta.service";
+import LocationTracking from "./tracking.model";
+
+const organizationId = new Types.ObjectId().toString();
+const now = new Date("2026-01-01T12:00:00Z");
+
+// Meters north of the rider's starting point
+const north = (meters: number) => ({
+  latitude: 52.5 + meters / 111195,
+  longitude: 13.4,
+});
+
+// Serve one order for a rider on a car (30 km/h)
+const mockOrder = (status: "assigned" | "in_transit") => {
+  const order = {
+    _id: new Types.ObjectId(),
+    orderNumber: "ORD-1",
+    status,
+    pickup: { ...north(1000), address: "Depot" },
+    dropoff: { ...north(2000), address: "Customer" },
+  };
+  jest
+    .spyOn(Order, "find")
+    .mockReturnValue({ select: async () => [order] } as never);
+  jest
+    .spyOn(DeliveryUser, "findById")
+    .mockReturnValue({ select: async () => ({ vehicleType: "car" }) } as never);
+  return order;
+};
+
+const fix = (secondsAgo = 0, speed?: number): EtaLocation => ({
+  ...north(0),
+  speed,
+  timestamp: new Date(now.getTime() - secondsAgo * 1000),
+});
+
+describe("EtaService", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("estimates arrival from the provider route without rider history", async () => {
+    mockOrder("in_transit");
+
+    const [eta] = await EtaService.updateEta(
+      new Types.ObjectId().toString(),
+      organizationId,
+      fix()
+    );
+
+    // 2 km straight, 1.3 road detour, at 30 km/h
+    expect(eta.distanceRemaining).toBe(2600);
+    expect(eta.durationRemaining).toBe(312);
+    expect(eta.speedSource).toBe("provider");
+    expect(eta.estimatedArrival.getTime() - now.getTime()).toBeCloseTo(
+      312000,
+      -1
+    );
+    expect(eta.arrivalWindow.earliest.getTime()).toBeLessThan(
+      eta.estimatedArrival.getTime()
+    );
+    expect(eta.arrivalWindow.latest.getTime()).toBeGreaterThan(
+      eta.estimatedArrival.getTime()
+    );
+  });
+
+  it("routes riders via the pickup before they have the parcel", async () => {
+    mockOrder("assigned");
+
+    const [eta] = await EtaService.updateEta(
+      new Types.ObjectId().toString(),
+      organizationId,
+      fix()
+    );
+
+    // Both legs plus two minutes to collect the parcel
+    expect(eta.distanceRemaining).toBe(2600);
+    expect(eta.durationRemaining).toBe(312 + 120);
+  });
+
+  it("leans on the rider's observed speed once there is enough of it", async () => {
+    const riderId = new Types.ObjectId().toString();
+    mockOrder("in_transit");
+
+    let eta;
+    for (let k = 10; k >= 0; k--) {
+      [eta] = await EtaService.updateEta(
+        riderId,
+        organizationId,
+        fix(k * 10, 15)
+      );
+    }
+
+    expect(eta!.speedSource).toBe("recent");
+    expect(eta!.durationRemaining).toBeLessThan(312);
+    expect(eta!.confidenceLevel).toBe("high");
+  });
+
+  it("trusts a stale position less", async () => {
+    mockOrder("in_transit");
+    const riderId = new Types.ObjectId().toString();
+
+    const [fresh] = await EtaService.updateEta(riderId, organizationId, fix());
+    const [stale] = await EtaService.updateEta(
+      riderId,
+      organizationId,
+      fix(4 * 60)
+    );
+
+    expect(stale.confidence).toBeLessThan(fresh.confidence);
+    expect(
+      stale.arrivalWindow.latest.getTime() -
+        stale.arrivalWindow.earliest.getTime()
+    ).toBeGreaterThan(
+      fresh.arrivalWindow.latest.getTime() -
+        fresh.arrivalWindow.earliest.getTime()
+    );
+  });
+
+  it("reports an unknown position instead of guessing", async () => {
+    jest.spyOn(LocationTracking, "findOne").mockResolvedValue(null);
+
+    expect(
+      await EtaService.getCurrentEta(new Types.ObjectId().toString())
+    ).toEqual({
+      success: false,
+      message: "Current position of delivery user is unknown",
+    });
+  });
+});
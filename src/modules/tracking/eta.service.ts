@@ -0,0 +1,369 @@
+import { env } from "../../config/env";
+import DeliveryUser from "../deliveryUser/delivery.model";
+import Order, { IOrder } from "../orders/order.model";
+import { VEHICLE_SPEED_KMH } from "../orders/route-optimization.service";
+import { createDistanceProvider } from "./distance.provider";
+import { GeoPoint, GeoUtils } from "./geo.utils";
+import LocationTracking from "./tracking.model";
+import { TrackingResponse } from "./tracking.service";
+
+// Position fix used for ETA computation
+export interface EtaLocation {
+  latitude: number;
+  longitude: number;
+  speed?: number; // in m/s
+  timestamp: Date;
+}
+
+export type EtaConfidenceLevel = "high" | "medium" | "low";
+
+// ETA to a single order destination
+export interface EtaEstimate {
+  orderId: string;
+  orderNumber: string;
+  deliveryUserId: string;
+  status: IOrder["status"];
+  destination: GeoPoint & { address: string };
+  distanceRemaining: number; // in meters
+  durationRemaining: number; // in seconds
+  estimatedArrival: Date;
+  arrivalWindow: {
+    earliest: Date;
+    latest: Date;
+  };
+  confidence: number; // 0..1
+  confidenceLevel: EtaConfidenceLevel;
+  speedSource: "recent" | "provider";
+  provider: string;
+  computedAt: Date;
+}
+
+// Orders the customer is waiting on
+const ETA_ORDER_STATUSES: IOrder["status"][] = [
+  "assigned",
+  "picked_up",
+  "in_transit",
+];
+
+// Rider speeds are averaged over this window
+const SPEED_WINDOW = 5 * 60 * 1000;
+const MAX_SPEED_SAMPLES = 30;
+// Samples below this are treated as standing still
+const MOVING_SPEED = 1;
+const MIN_MOVING_SAMPLES = 3;
+// How long a provider route estimate is reused for a destination
+const PROVIDER_REFRESH_INTERVAL = 60 * 1000;
+// Time spent collecting the parcel before heading to the customer
+const PICKUP_DWELL_TIME = 120;
+// Fixes older than this no longer say much about arrival
+const STALE_FIX_AGE = 5 * 60 * 1000;
+const MIN_WINDOW_MARGIN = 60;
+
+// Recent movement of a rider
+interface SpeedState {
+  samples: { speed: number; timestamp: number }[];
+  last?: EtaLocation;
+}
+
+// Averaged recent moving speed
+interface RecentSpeed {
+  speed: number; // in m/s
+  samples: number;
+  variation: number; // coefficient of variation
+}
+
+// Provider answer reused between location updates
+interface RouteEstimate {
+  detourFactor: number; // road distance over straight-line distance
+  speed: number; // in m/s
+  fetchedAt: number;
+}
+
+export class EtaService {
+  private static speeds: Map<string, SpeedState> = new Map();
+  private static routeEstimates: Map<string, RouteEstimate> = new Map();
+
+  // Record a rider position and recompute ETAs for their open deliveries
+  static async updateEta(
+    deliveryUserId: string,
+    organizationId: string,
+    location: EtaLocation
+  ): Promise<EtaEstimate[]> {
+    try {
+      this.recordSpeed(deliveryUserId, location);
+
+      const orders = await this.getOpenOrders(deliveryUserId, organizationId);
+      if (orders.length === 0) return [];
+
+      return await this.estimate(deliveryUserId, orders, location);
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to update ETA"
+      );
+    }
+  }
+
+  // Get current ETAs for a rider's open deliveries from their latest fix
+  static async getCurrentEta(
+    deliveryUserId: string,
+    orderId?: string
+  ): Promise<TrackingResponse> {
+    try {
+      const tracking = await LocationTracking.findOne({
+        userId: deliveryUserId,
+        isActive: true,
+      });
+      if (
+        !tracking?.location ||
+        (tracking.location.latitude === 0 && tracking.location.longitude === 0)
+      ) {
+        return {
+          success: false,
+          message: "Current position of delivery user is unknown",
+        };
+      }
+
+      const orders = await this.getOpenOrders(
+        deliveryUserId,
+        tracking.organizationId,
+        orderId
+      );
+      const etas = await this.estimate(deliveryUserId, orders, {
+        latitude: tracking.location.latitude,
+        longitude: tracking.location.longitude,
+        speed: tracking.location.speed,
+        timestamp: tracking.location.timestamp,
+      });
+
+      return {
+        success: true,
+        message: "ETA retrieved successfully",
+        data: etas,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get ETA"
+      );
+    }
+  }
+
+  // Forget a rider's movement history, e.g. when tracking stops
+  static clearRider(deliveryUserId: string) {
+    this.speeds.delete(deliveryUserId);
+  }
+
+  // Helper method to keep a window of recent rider speeds
+  private static recordSpeed(deliveryUserId: string, location: EtaLocation) {
+    const state = this.speeds.get(deliveryUserId) ?? { samples: [] };
+    const timestamp = new Date(location.timestamp).getTime();
+
+    let speed = location.speed;
+    if ((speed === undefined || speed === null) && state.last) {
+      const elapsed =
+        (timestamp - new Date(state.last.timestamp).getTime()) / 1000;
+      if (elapsed > 0) {
+        speed = GeoUtils.distanceInMeters(state.last, location) / elapsed;
+      }
+    }
+
+    if (speed !== undefined && speed !== null && speed >= 0) {
+      state.samples.push({ speed, timestamp });
+    }
+    state.samples = state.samples
+      .filter((sample) => timestamp - sample.timestamp <= SPEED_WINDOW)
+      .slice(-MAX_SPEED_SAMPLES);
+    state.last = location;
+
+    this.speeds.set(deliveryUserId, state);
+  }
+
+  // Helper method to load deliveries the customer is still waiting on
+  private static async getOpenOrders(
+    deliveryUserId: string,
+    organizationId: string,
+    orderId?: string
+  ) {
+    const query: any = {
+      organizationId,
+      assignedTo: deliveryUserId,
+      status: { $in: ETA_ORDER_STATUSES },
+    };
+    if (orderId) query._id = orderId;
+
+    return Order.find(query).select(
+      "orderNumber status pickup dropoff dropoffWindow"
+    );
+  }
+
+  // Helper method to compute ETAs from a position
+  private static async estimate(
+    deliveryUserId: string,
+    orders: IOrder[],
+    location: EtaLocation
+  ): Promise<EtaEstimate[]> {
+    if (orders.length === 0) return [];
+
+    const deliveryUser = await DeliveryUser.findById(deliveryUserId).select(
+      "vehicleType"
+    );
+    const vehicleSpeed =
+      (VEHICLE_SPEED_KMH[deliveryUser?.vehicleType ?? ""] ?? 25) / 3.6;
+    const recent = this.getRecentSpeed(deliveryUserId);
+    const now = new Date();
+    const etas: EtaEstimate[] = [];
+
+    for (const order of orders) {
+      const orderId = String(order._id);
+
+      // Riders who have not collected the parcel go via the pickup first
+      const legs: [GeoPoint, GeoPoint][] =
+        order.status === "assigned"
+          ? [
+              [location, order.pickup],
+              [order.pickup, order.dropoff],
+            ]
+          : [[location, order.dropoff]];
+
+      const route = await this.getRouteEstimate(
+        `${orderId}:${order.status}`,
+        legs,
+        vehicleSpeed
+      );
+      const distance = legs.reduce(
+        (total, [from, to]) =>
+          total + GeoUtils.distanceInMeters(from, to) * route.detourFactor,
+        0
+      );
+
+      // Lean on observed speed once there is enough of it
+      const weight = recent ? Math.min(1, recent.samples / 10) * 0.7 : 0;
+      const speed = recent
+        ? weight * recent.speed + (1 - weight) * route.speed
+        : route.speed;
+      const duration =
+        distance / speed +
+        (order.status === "assigned" ? PICKUP_DWELL_TIME : 0);
+
+      const confidence = this.getConfidence(location, recent, duration);
+      const margin = Math.max(
+        MIN_WINDOW_MARGIN,
+        duration * (0.1 + (1 - confidence) * 0.4)
+      );
+      const arrival = now.getTime() + duration * 1000;
+
+      etas.push({
+        orderId,
+        orderNumber: order.orderNumber,
+        deliveryUserId,
+        status: order.status,
+        destination: {
+          latitude: order.dropoff.latitude,
+          longitude: order.dropoff.longitude,
+          address: order.dropoff.address,
+        },
+        distanceRemaining: Math.round(distance),
+        durationRemaining: Math.round(duration),
+        estimatedArrival: new Date(arrival),
+        arrivalWindow: {
+          earliest: new Date(Math.max(now.getTime(), arrival - margin * 1000)),
+          latest: new Date(arrival + margin * 1000),
+        },
+        confidence: Math.round(confidence * 100) / 100,
+        confidenceLevel:
+          confidence >= 0.75 ? "high" : confidence >= 0.45 ? "medium" : "low",
+        speedSource: weight >= 0.35 ? "recent" : "provider",
+        provider: env.ETA_DISTANCE_PROVIDER,
+        computedAt: now,
+      });
+    }
+
+    return etas;
+  }
+
+  // Helper method to average recent moving speed
+  private static getRecentSpeed(
+    deliveryUserId: string
+  ): RecentSpeed | undefined {
+    const state = this.speeds.get(deliveryUserId);
+    const moving = (state?.samples ?? []).filter(
+      (sample) => sample.speed >= MOVING_SPEED
+    );
+    if (moving.length < MIN_MOVING_SAMPLES) return undefined;
+
+    const mean =
+      moving.reduce((total, sample) => total + sample.speed, 0) / moving.length;
+    const variance =
+      moving.reduce(
+        (total, sample) => total + Math.pow(sample.speed - mean, 2),
+        0
+      ) / moving.length;
+
+    return {
+      speed: mean,
+      samples: moving.length,
+      variation: Math.sqrt(variance) / mean,
+    };
+  }
+
+  // Helper method to get the road detour and speed from the distance
+  // provider, reusing the last answer while it is fresh
+  private static async getRouteEstimate(
+    key: string,
+    legs: [GeoPoint, GeoPoint][],
+    vehicleSpeed: number
+  ): Promise<RouteEstimate> {
+    const cached = this.routeEstimates.get(key);
+    if (cached && Date.now() - cached.fetchedAt < PROVIDER_REFRESH_INTERVAL) {
+      return cached;
+    }
+
+    const provider = createDistanceProvider(
+      env.ETA_DISTANCE_PROVIDER,
+      vehicleSpeed
+    );
+    let straight = 0;
+    let distance = 0;
+    let duration = 0;
+    for (const [from, to] of legs) {
+      const [[leg]] = await provider.getMatrix([from], [to]);
+      straight += GeoUtils.distanceInMeters(from, to);
+      distance += leg.distance;
+      duration += leg.duration;
+    }
+
+    const estimate: RouteEstimate = {
+      detourFactor: straight > 0 ? Math.max(1, distance / straight) : 1,
+      speed: duration > 0 ? distance / duration : vehicleSpeed,
+      fetchedAt: Date.now(),
+    };
+
+    // Drop estimates for orders that have not been refreshed in a while
+    for (const [key, value] of this.routeEstimates) {
+      if (Date.now() - value.fetchedAt > PROVIDER_REFRESH_INTERVAL * 10) {
+        this.routeEstimates.delete(key);
+      }
+    }
+    this.routeEstimates.set(key, estimate);
+
+    return estimate;
+  }
+
+  // Helper method to score how much the ETA can be trusted
+  private static getConfidence(
+    location: EtaLocation,
+    recent: RecentSpeed | undefined,
+    duration: number
+  ): number {
+    const age = Date.now() - new Date(location.timestamp).getTime();
+    const freshness = Math.max(0, 1 - Math.max(0, age) / STALE_FIX_AGE);
+    const history = recent ? Math.min(1, recent.samples / 10) : 0;
+    const steadiness = recent ? 1 - Math.min(0.5, recent.variation / 2) : 0.6;
+    // Long trips leave more room for traffic to change the picture
+    const horizon = 1 - Math.min(0.3, duration / 7200);
+
+    return Math.max(
+      0,
+      Math.min(1, freshness * (0.5 + 0.5 * history) * steadiness * horizon)
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { EVENT_LOG_SIZE, InMemoryEventLog } from "./event-log.store";
+
+describe("InMemoryEventLog", () => {
+  let log: InMemoryEventLog;
+
+  beforeEach(() => {
+    log = new InMemoryEventLog();
+  });
+
+  afterEach(async () => {
+    await log.close();
+  });
+
+  // Append the given number of numbered events to a room
+  const appendMany = async (room: string, count: number) => {
+    for (let k = 1; k <= count; k++) {
+      await log.append(room, "location_update", { k });
+    }
+  };
+
+  it("numbers events per room", async () => {
+    expect(await log.append("org-1", "sos", {})).toBe(1);
+    expect(await log.append("org-1", "sos", {})).toBe(2);
+    expect(await log.append("org-2", "sos", {})).toBe(1);
+  });
+
+  it("replays the events a client missed", async () => {
+    await appendMany("org-1", 5);
+
+    const replay = await log.since("org-1", 3);
+
+    expect(replay.latestSeq).toBe(5);
+    expect(replay.events?.map((event) => [event.seq, event.data.k])).toEqual([
+      [4, 4],
+      [5, 5],
+    ]);
+  });
+
+  it("has nothing to replay for a client that is up to date", async () => {
+    await appendMany("org-1", 5);
+
+    expect(await log.since("org-1", 5)).toEqual({ latestSeq: 5, events: [] });
+    expect(await log.since("org-3", 0)).toEqual({ latestSeq: 0, events: [] });
+  });
+
+  it("cannot replay further back than it keeps", async () => {
+    await appendMany("org-1", EVENT_LOG_SIZE + 10);
+
+    expect((await log.since("org-1", 5)).events).toBeNull();
+
+    const replay = await log.since("org-1", 10);
+    expect(replay.events).toHaveLength(EVENT_LOG_SIZE);
+    expect(replay.events?.[0].seq).toBe(11);
+  });
+
+  it("cannot replay for a client ahead of the log", async () => {
+    await appendMany("org-1", 2);
+
+    expect(await log.since("org-1", 7)).toEqual({
+      latestSeq: 2,
+      events: null,
+    });
+  });
+});
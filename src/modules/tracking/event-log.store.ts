@@ -0,0 +1,173 @@
+import type Redis from "ioredis";
+
+// A room event kept for replay
+export interface LoggedEvent {
+  seq: number;
+  event: string;
+  data: any;
+  timestamp: Date;
+}
+
+// Events after a client's last seen sequence, or null when the log no
+// longer reaches back that far
+export interface EventReplay {
+  latestSeq: number;
+  events: LoggedEvent[] | null;
+}
+
+// Numbered, bounded history of the events sent to each room
+export interface EventLog {
+  readonly name: string;
+  append(room: string, event: string, data: any): Promise<number>;
+  since(room: string, lastSeq: number): Promise<EventReplay>;
+  close(): Promise<void>;
+}
+
+// Events kept per room
+export const EVENT_LOG_SIZE = 500;
+// Rooms without events for this long are dropped with their history
+const ROOM_TTL = 30 * 60 * 1000;
+
+// Helper to pick the events after lastSeq from a window ending at latestSeq
+const replayWindow = (
+  events: LoggedEvent[],
+  latestSeq: number,
+  lastSeq: number
+): EventReplay => {
+  if (lastSeq === latestSeq) return { latestSeq, events: [] };
+
+  // A sequence ahead of the log means the log was reset since
+  const oldestSeq = latestSeq - events.length + 1;
+  if (lastSeq > latestSeq || lastSeq + 1 < oldestSeq) {
+    return { latestSeq, events: null };
+  }
+
+  return {
+    latestSeq,
+    events: events.filter((event) => event.seq > lastSeq),
+  };
+};
+
+// Event history kept in this process only, for single-node setups
+export class InMemoryEventLog implements EventLog {
+  readonly name = "memory";
+  private rooms: Map<
+    string,
+    { seq: number; buffer: LoggedEvent[]; touchedAt: number }
+  > = new Map();
+  private pruneTimer?: NodeJS.Timeout;
+
+  async append(room: string, event: string, data: any): Promise<number> {
+    let log = this.rooms.get(room);
+    if (!log) {
+      log = { seq: 0, buffer: new Array(EVENT_LOG_SIZE), touchedAt: 0 };
+      this.rooms.set(room, log);
+      this.startPruning();
+    }
+
+    log.seq++;
+    log.touchedAt = Date.now();
+    log.buffer[log.seq % EVENT_LOG_SIZE] = {
+      seq: log.seq,
+      event,
+      data,
+      timestamp: new Date(),
+    };
+    return log.seq;
+  }
+
+  async since(room: string, lastSeq: number): Promise<EventReplay> {
+    const log = this.rooms.get(room);
+    if (!log) return replayWindow([], 0, lastSeq);
+
+    const events: LoggedEvent[] = [];
+    for (
+      let seq = Math.max(1, log.seq - EVENT_LOG_SIZE + 1);
+      seq <= log.seq;
+      seq++
+    ) {
+      events.push(log.buffer[seq % EVENT_LOG_SIZE]);
+    }
+    return replayWindow(events, log.seq, lastSeq);
+  }
+
+  async close(): Promise<void> {
+    if (this.pruneTimer) clearInterval(this.pruneTimer);
+    this.rooms.clear();
+  }
+
+  // Helper method to drop rooms that went quiet
+  private startPruning() {
+    if (this.pruneTimer) return;
+
+    this.pruneTimer = setInterval(() => {
+      const cutoff = Date.now() - ROOM_TTL;
+      for (const [room, log] of this.rooms) {
+        if (log.touchedAt < cutoff) this.rooms.delete(room);
+      }
+    }, 60 * 1000);
+    this.pruneTimer.unref();
+  }
+}
+
+// Increment the room sequence and push the event in one step, so the list
+// position of every event matches its sequence
+const APPEND_SCRIPT = `
+local seq = redis.call("INCR", KEYS[1])
+redis.call("RPUSH", KEYS[2], ARGV[1])
+redis.call("LTRIM", KEYS[2], -tonumber(ARGV[2]), -1)
+redis.call("PEXPIRE", KEYS[1], ARGV[3])
+redis.call("PEXPIRE", KEYS[2], ARGV[3])
+return seq
+`;
+
+// Event history shared through Redis, numbered the same on every node
+export class RedisEventLog implements EventLog {
+  readonly name = "redis";
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly prefix = "geotrack:events:"
+  ) {}
+
+  async append(room: string, event: string, data: any): Promise<number> {
+    const seq = await this.redis.eval(
+      APPEND_SCRIPT,
+      2,
+      this.key(room, "seq"),
+      this.key(room, "log"),
+      JSON.stringify({ event, data, timestamp: new Date() }),
+      EVENT_LOG_SIZE,
+      ROOM_TTL
+    );
+    return Number(seq);
+  }
+
+  async since(room: string, lastSeq: number): Promise<EventReplay> {
+    const result = await this.redis
+      .multi()
+      .get(this.key(room, "seq"))
+      .lrange(this.key(room, "log"), 0, -1)
+      .exec();
+    const latestSeq = Number(result?.[0]?.[1] ?? 0);
+    const raw = (result?.[1]?.[1] ?? []) as string[];
+
+    const events = raw.map((value, index) => {
+      const parsed = JSON.parse(value);
+      return {
+        seq: latestSeq - raw.length + 1 + index,
+        event: parsed.event,
+        data: parsed.data,
+        timestamp: new Date(parsed.timestamp),
+      };
+    });
+    return replayWindow(events, latestSeq, lastSeq);
+  }
+
+  // The Redis connection is owned by the realtime backend
+  async close(): Promise<void> {}
+
+  private key(room: string, name: string): string {
+    return `${this.prefix}${room}:${name}`;
+  }
+}
@@ -0,0 +1,73 @@
+// Plain latitude/longitude pair used by the geometry helpers
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+export class GeoUtils {
+  // Convert degrees to radians
+  static toRadians(degrees: number): number {
+    return degrees * (Math.PI / 180);
+  }
+
+  // Great-circle distance between two points in meters (Haversine)
+  static distanceInMeters(from: GeoPoint, to: GeoPoint): number {
+    const dLat = this.toRadians(to.latitude - from.latitude);
+    const dLon = this.toRadians(to.longitude - from.longitude);
+    const a =
+      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos(this.toRadians(from.latitude)) *
+        Math.cos(this.toRadians(to.latitude)) *
+        Math.sin(dLon / 2) *
+        Math.sin(dLon / 2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return EARTH_RADIUS_METERS * c;
+  }
+
+  // Check if a point lies within a circle (radius in meters)
+  static isPointInCircle(
+    point: GeoPoint,
+    center: GeoPoint,
+    radius: number
+  ): boolean {
+    return this.distanceInMeters(point, center) <= radius;
+  }
+
+  // Check if a point lies within a polygon (ray casting, vertices in order)
+  static isPointInPolygon(point: GeoPoint, vertices: GeoPoint[]): boolean {
+    let inside = false;
+
+    for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+      const xi = vertices[i].longitude;
+      const yi = vertices[i].latitude;
+      const xj = vertices[j].longitude;
+      const yj = vertices[j].latitude;
+
+      const intersects =
+        yi > point.latitude !== yj > point.latitude &&
+        point.longitude < ((xj - xi) * (point.latitude - yi)) / (yj - yi) + xi;
+
+      if (intersects) inside = !inside;
+    }
+
+    return inside;
+  }
+
+  // Average position of a set of points
+  static centroid(points: GeoPoint[]): GeoPoint {
+    const sum = points.reduce(
+      (acc, point) => ({
+        latitude: acc.latitude + point.latitude,
+        longitude: acc.longitude + point.longitude,
+      }),
+      { latitude: 0, longitude: 0 }
+    );
+
+    return {
+      latitude: sum.latitude / points.length,
+      longitude: sum.longitude / points.length,
+    };
+  }
+}
@@ -0,0 +1,197 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../auth/auth.interface";
+import { GeofenceService } from "./geofence.service";
+
+export class GeofenceController {
+  // Create geofence
+  static async createGeofence(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const createdBy = req.user!.userId;
+
+      const result = await GeofenceService.createGeofence(
+        organizationId,
+        createdBy,
+        req.body
+      );
+
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to create geofence";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Get geofences for organization
+  static async getGeofences(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { category, isActive } = req.query;
+
+      const result = await GeofenceService.getGeofences(
+        organizationId,
+        category as string,
+        isActive !== undefined ? isActive === "true" : undefined
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to get geofences";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Get geofence by ID
+  static async getGeofenceById(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { geofenceId } = req.params;
+
+      const result = await GeofenceService.getGeofenceById(
+        organizationId,
+        geofenceId
+      );
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to get geofence";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Update geofence
+  static async updateGeofence(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { geofenceId } = req.params;
+
+      const result = await GeofenceService.updateGeofence(
+        organizationId,
+        geofenceId,
+        req.body
+      );
+
+      if (!result.success) {
+        return res
+          .status(result.message === "Geofence not found" ? 404 : 400)
+          .json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to update geofence";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Delete geofence
+  static async deleteGeofence(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { geofenceId } = req.params;
+
+      const result = await GeofenceService.deleteGeofence(
+        organizationId,
+        geofenceId
+      );
+
+      if (!result.success) {
+        return res.status(404).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to delete geofence";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Get geofence events for organization
+  static async getGeofenceEvents(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { userId, geofenceId, eventType, startDate, endDate, page, limit } =
+        req.query;
+
+      const result = await GeofenceService.getGeofenceEvents(organizationId, {
+        userId: userId as string,
+        geofenceId: geofenceId as string,
+        eventType: eventType as "enter" | "exit" | "dwell",
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+        page: page ? parseInt(page as string) : 1,
+        limit: limit ? parseInt(limit as string) : 50,
+      });
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to get geofence events";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Get geofences a delivery user is currently inside
+  static async getUserGeofenceStates(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { userId } = req.params;
+
+      const result = await GeofenceService.getUserGeofenceStates(
+        organizationId,
+        userId
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to get user geofence presence";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+}
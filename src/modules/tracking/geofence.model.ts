@@ -0,0 +1,267 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { ILocation } from "./tracking.model";
+
+// Geofence interface
+export interface IGeofence extends Document {
+  organizationId: string;
+  name: string;
+  description?: string;
+  category: "depot" | "customer_site" | "restricted_zone" | "other";
+  shape: "circle" | "polygon";
+  center?: {
+    latitude: number;
+    longitude: number;
+  };
+  radius?: number; // in meters (circle only)
+  vertices?: {
+    latitude: number;
+    longitude: number;
+  }[];
+  dwellThreshold: number; // in seconds
+  isActive: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Geofence event interface
+export interface IGeofenceEvent extends Document {
+  geofenceId: string;
+  userId: string;
+  organizationId: string;
+  eventType: "enter" | "exit" | "dwell";
+  location: ILocation;
+  dwellTime?: number; // in seconds
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Per-user geofence presence interface
+export interface IGeofenceState extends Document {
+  geofenceId: string;
+  userId: string;
+  organizationId: string;
+  enteredAt: Date;
+  dwellNotified: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const coordinateDefinition = {
+  latitude: {
+    type: Number,
+    required: true,
+    min: -90,
+    max: 90,
+  },
+  longitude: {
+    type: Number,
+    required: true,
+    min: -180,
+    max: 180,
+  },
+};
+
+// Geofence Schema
+const geofenceSchema = new Schema<IGeofence>(
+  {
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, "Geofence name is required"],
+      trim: true,
+      maxlength: [100, "Geofence name cannot exceed 100 characters"],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Description cannot exceed 500 characters"],
+    },
+    category: {
+      type: String,
+      enum: ["depot", "customer_site", "restricted_zone", "other"],
+      default: "other",
+    },
+    shape: {
+      type: String,
+      enum: ["circle", "polygon"],
+      required: true,
+    },
+    center: {
+      type: new Schema(coordinateDefinition, { _id: false }),
+      required: function (this: IGeofence) {
+        return this.shape === "circle";
+      },
+    },
+    radius: {
+      type: Number,
+      min: [1, "Radius must be at least 1 meter"],
+      required: function (this: IGeofence) {
+        return this.shape === "circle";
+      },
+    },
+    vertices: {
+      type: [new Schema(coordinateDefinition, { _id: false })],
+      default: undefined,
+      validate: {
+        validator: function (this: IGeofence, value?: unknown[]) {
+          return this.shape !== "polygon" || (!!value && value.length >= 3);
+        },
+        message: "Polygon geofence requires at least 3 vertices",
+      },
+    },
+    dwellThreshold: {
+      type: Number,
+      min: 0,
+      default: 300,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+      index: true,
+    },
+    createdBy: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Geofence Event Schema
+const geofenceEventSchema = new Schema<IGeofenceEvent>(
+  {
+    geofenceId: {
+      type: String,
+      ref: "Geofence",
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: String,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: true,
+      index: true,
+    },
+    eventType: {
+      type: String,
+      enum: ["enter", "exit", "dwell"],
+      required: true,
+    },
+    location: {
+      latitude: {
+        type: Number,
+        required: true,
+      },
+      longitude: {
+        type: Number,
+        required: true,
+      },
+      accuracy: Number,
+      altitude: Number,
+      speed: Number,
+      heading: Number,
+      timestamp: {
+        type: Date,
+        required: true,
+      },
+    },
+    dwellTime: {
+      type: Number,
+      min: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Geofence State Schema
+const geofenceStateSchema = new Schema<IGeofenceState>(
+  {
+    geofenceId: {
+      type: String,
+      ref: "Geofence",
+      required: true,
+    },
+    userId: {
+      type: String,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: true,
+    },
+    enteredAt: {
+      type: Date,
+      required: true,
+    },
+    dwellNotified: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better performance
+geofenceSchema.index({ organizationId: 1, isActive: 1 });
+
+geofenceEventSchema.index({ organizationId: 1, createdAt: -1 });
+geofenceEventSchema.index({ userId: 1, createdAt: -1 });
+geofenceEventSchema.index({ geofenceId: 1, createdAt: -1 });
+
+geofenceStateSchema.index({ userId: 1, geofenceId: 1 }, { unique: true });
+
+// Transform toJSON
+geofenceSchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+geofenceEventSchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+geofenceStateSchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+// Models
+export const Geofence = mongoose.model<IGeofence>("Geofence", geofenceSchema);
+export const GeofenceEvent = mongoose.model<IGeofenceEvent>(
+  "GeofenceEvent",
+  geofenceEventSchema
+);
+export const GeofenceState = mongoose.model<IGeofenceState>(
+  "GeofenceState",
+  geofenceStateSchema
+);
+
+export default Geofence;
@@ -0,0 +1,118 @@
+import { Router } from "express";
+import Joi from "joi";
+import { AuthMiddleware } from "../../middlewares/auth.middleware";
+import { ValidationMiddleware } from "../../middlewares/validate.middleware";
+import { UserRole } from "../auth/auth.interface";
+import { GeofenceController } from "./geofence.controller";
+
+const router = Router();
+
+const coordinateSchema = Joi.object({
+  latitude: Joi.number().min(-90).max(90).required(),
+  longitude: Joi.number().min(-180).max(180).required(),
+});
+
+// Geofence create validation schema
+const createGeofenceSchema = Joi.object({
+  name: Joi.string().max(100).required(),
+  description: Joi.string().max(500).optional(),
+  category: Joi.string()
+    .valid("depot", "customer_site", "restricted_zone", "other")
+    .optional(),
+  shape: Joi.string().valid("circle", "polygon").required(),
+  center: coordinateSchema.when("shape", {
+    is: "circle",
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
+  radius: Joi.number().min(1).when("shape", {
+    is: "circle",
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
+  vertices: Joi.array().items(coordinateSchema).min(3).when("shape", {
+    is: "polygon",
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
+  dwellThreshold: Joi.number().min(0).optional(),
+  isActive: Joi.boolean().optional(),
+});
+
+// Geofence update validation schema
+const updateGeofenceSchema = Joi.object({
+  name: Joi.string().max(100).optional(),
+  description: Joi.string().max(500).optional(),
+  category: Joi.string()
+    .valid("depot", "customer_site", "restricted_zone", "other")
+    .optional(),
+  shape: Joi.string().valid("circle", "polygon").optional(),
+  center: coordinateSchema.optional(),
+  radius: Joi.number().min(1).optional(),
+  vertices: Joi.array().items(coordinateSchema).min(3).optional(),
+  dwellThreshold: Joi.number().min(0).optional(),
+  isActive: Joi.boolean().optional(),
+});
+
+// Geofences belong to the organization in the admin's token
+const geofenceAdminRoles = [UserRole.ORGANIZATION_ADMIN];
+
+// Create geofence (Organization Admin)
+router.post(
+  "/",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(geofenceAdminRoles),
+  ValidationMiddleware.validateBody(createGeofenceSchema),
+  GeofenceController.createGeofence
+);
+
+// Get geofences (Organization Admin)
+router.get(
+  "/",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(geofenceAdminRoles),
+  GeofenceController.getGeofences
+);
+
+// Get geofence events (Organization Admin)
+router.get(
+  "/events",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(geofenceAdminRoles),
+  GeofenceController.getGeofenceEvents
+);
+
+// Get geofences a delivery user is currently inside (Organization Admin)
+router.get(
+  "/users/:userId/presence",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(geofenceAdminRoles),
+  GeofenceController.getUserGeofenceStates
+);
+
+// Get geofence by ID (Organization Admin)
+router.get(
+  "/:geofenceId",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(geofenceAdminRoles),
+  GeofenceController.getGeofenceById
+);
+
+// Update geofence (Organization Admin)
+router.put(
+  "/:geofenceId",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(geofenceAdminRoles),
+  ValidationMiddleware.validateBody(updateGeofenceSchema),
+  GeofenceController.updateGeofence
+);
+
+// Delete geofence (Organization Admin)
+router.delete(
+  "/:geofenceId",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole(geofenceAdminRoles),
+  GeofenceController.deleteGeofence
+);
+
+export default router;
@@ -0,0 +1,181 @@
+import { GeofenceService } from "./geofence.service";
+import {
+  Geofence,
+  GeofenceEvent,
+  GeofenceState,
+  IGeofence,
+} from "./geofence.model";
+
+const depot = {
+  _id: "geofence-depot",
+  name: "Depot",
+  category: "depot",
+  shape: "circle",
+  center: { latitude: 52.52, longitude: 13.405 },
+  radius: 200,
+  dwellThreshold: 300,
+};
+
+// Roughly a 1 km square around the depot
+const district: Pick<IGeofence, "shape" | "vertices"> = {
+  shape: "polygon",
+  vertices: [
+    { latitude: 52.515, longitude: 13.4 },
+    { latitude: 52.515, longitude: 13.41 },
+    { latitude: 52.525, longitude: 13.41 },
+    { latitude: 52.525, longitude: 13.4 },
+  ],
+};
+
+const enteredAt = new Date("2026-01-01T08:00:00Z");
+
+const location = (minutesIn: number, latitude = 52.52) => ({
+  latitude,
+  longitude: 13.405,
+  timestamp: new Date(enteredAt.getTime() + minutesIn * 60 * 1000),
+});
+
+const mockState = () => ({
+  geofenceId: depot._id,
+  enteredAt,
+  dwellNotified: false,
+  save: jest.fn(),
+  deleteOne: jest.fn(),
+});
+
+// Serve the depot and the rider's current presence, echoing inserted events
+const mockStore = (states: ReturnType<typeof mockState>[]) => {
+  jest.spyOn(Geofence, "find").mockResolvedValue([depot] as never);
+  jest.spyOn(GeofenceState, "find").mockResolvedValue(states as never);
+  jest.spyOn(GeofenceEvent, "insertMany").mockImplementation((async (
+    events: object[]
+  ) =>
+    events.map((event, index) => ({
+      ...event,
+      _id: `event-${index}`,
+    }))) as never);
+  return {
+    create: jest.spyOn(GeofenceState, "create").mockResolvedValue({} as never),
+    deleteMany: jest
+      .spyOn(GeofenceState, "deleteMany")
+      .mockResolvedValue({} as never),
+  };
+};
+
+describe("GeofenceService.containsPoint", () => {
+  it("includes points within a circle's radius", () => {
+    expect(
+      GeofenceService.containsPoint(depot as never, {
+        latitude: 52.521,
+        longitude: 13.405,
+      })
+    ).toBe(true);
+    expect(
+      GeofenceService.containsPoint(depot as never, {
+        latitude: 52.523,
+        longitude: 13.405,
+      })
+    ).toBe(false);
+  });
+
+  it("includes points inside a polygon only", () => {
+    expect(
+      GeofenceService.containsPoint(district, {
+        latitude: 52.52,
+        longitude: 13.405,
+      })
+    ).toBe(true);
+    expect(
+      GeofenceService.containsPoint(district, {
+        latitude: 52.52,
+        longitude: 13.42,
+      })
+    ).toBe(false);
+  });
+
+  it("rejects shapes missing their geometry", () => {
+    const point = { latitude: 52.52, longitude: 13.405 };
+    expect(GeofenceService.containsPoint({ shape: "circle" }, point)).toBe(
+      false
+    );
+    expect(
+      GeofenceService.containsPoint(
+        { shape: "polygon", vertices: district.vertices!.slice(0, 2) },
+        point
+      )
+    ).toBe(false);
+  });
+});
+
+describe("GeofenceService.processLocation", () => {
+  it("records an enter event when a rider arrives", async () => {
+    const store = mockStore([]);
+
+    const events = await GeofenceService.processLocation(
+      "rider-1",
+      "org-1",
+      location(0)
+    );
+
+    expect(store.create).toHaveBeenCalledWith({
+      geofenceId: depot._id,
+      userId: "rider-1",
+      organizationId: "org-1",
+      enteredAt,
+    });
+    expect(events).toEqual([
+      expect.objectContaining({
+        eventId: "event-0",
+        geofenceName: "Depot",
+        eventType: "enter",
+      }),
+    ]);
+  });
+
+  it("reports dwelling once the threshold is reached, and only once", async () => {
+    const state = mockState();
+    mockStore([state]);
+
+    expect(
+      await GeofenceService.processLocation("rider-1", "org-1", location(2))
+    ).toEqual([]);
+
+    const [dwell] = await GeofenceService.processLocation(
+      "rider-1",
+      "org-1",
+      location(5)
+    );
+    expect(dwell).toMatchObject({ eventType: "dwell", dwellTime: 300 });
+    expect(state.dwellNotified).toBe(true);
+    expect(state.save).toHaveBeenCalledTimes(1);
+
+    expect(
+      await GeofenceService.processLocation("rider-1", "org-1", location(8))
+    ).toEqual([]);
+  });
+
+  it("records an exit with the time spent inside", async () => {
+    const state = mockState();
+    mockStore([state]);
+
+    const [exit] = await GeofenceService.processLocation(
+      "rider-1",
+      "org-1",
+      location(10, 52.53)
+    );
+
+    expect(state.deleteOne).toHaveBeenCalled();
+    expect(exit).toMatchObject({ eventType: "exit", dwellTime: 600 });
+  });
+
+  it("drops presence in geofences that are no longer active", async () => {
+    const store = mockStore([{ ...mockState(), geofenceId: "geofence-old" }]);
+
+    await GeofenceService.processLocation("rider-1", "org-1", location(0));
+
+    expect(store.deleteMany).toHaveBeenCalledWith({
+      userId: "rider-1",
+      geofenceId: { $in: ["geofence-old"] },
+    });
+  });
+});
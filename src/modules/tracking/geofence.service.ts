@@ -0,0 +1,424 @@
+import { GeoUtils } from "./geo.utils";
+import Geofence, {
+  GeofenceEvent,
+  GeofenceState,
+  IGeofence,
+} from "./geofence.model";
+import { ILocation } from "./tracking.model";
+import { TrackingResponse } from "./tracking.service";
+
+// Geofence create/update data interface
+export interface GeofenceData {
+  name?: string;
+  description?: string;
+  category?: "depot" | "customer_site" | "restricted_zone" | "other";
+  shape?: "circle" | "polygon";
+  center?: {
+    latitude: number;
+    longitude: number;
+  };
+  radius?: number;
+  vertices?: {
+    latitude: number;
+    longitude: number;
+  }[];
+  dwellThreshold?: number;
+  isActive?: boolean;
+}
+
+// Geofence event query interface
+export interface GeofenceEventQuery {
+  userId?: string;
+  geofenceId?: string;
+  eventType?: "enter" | "exit" | "dwell";
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  limit?: number;
+}
+
+// Geofence event payload broadcast to organization rooms
+export interface GeofenceEventPayload {
+  eventId: string;
+  geofenceId: string;
+  geofenceName: string;
+  category: IGeofence["category"];
+  userId: string;
+  organizationId: string;
+  eventType: "enter" | "exit" | "dwell";
+  location: ILocation;
+  dwellTime?: number;
+  timestamp: Date;
+}
+
+export class GeofenceService {
+  // Create geofence for an organization
+  static async createGeofence(
+    organizationId: string,
+    createdBy: string,
+    data: GeofenceData
+  ): Promise<TrackingResponse> {
+    try {
+      const shapeError = this.validateShape(data);
+      if (shapeError) {
+        return {
+          success: false,
+          message: shapeError,
+        };
+      }
+
+      const geofence = new Geofence({
+        ...data,
+        organizationId,
+        createdBy,
+      });
+
+      await geofence.save();
+
+      return {
+        success: true,
+        message: "Geofence created successfully",
+        data: geofence,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to create geofence"
+      );
+    }
+  }
+
+  // Get geofences for an organization
+  static async getGeofences(
+    organizationId: string,
+    category?: string,
+    isActive?: boolean
+  ): Promise<TrackingResponse> {
+    try {
+      const query: any = { organizationId };
+
+      if (category) query.category = category;
+      if (isActive !== undefined) query.isActive = isActive;
+
+      const geofences = await Geofence.find(query).sort({ createdAt: -1 });
+
+      return {
+        success: true,
+        message: "Geofences retrieved successfully",
+        data: geofences,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get geofences"
+      );
+    }
+  }
+
+  // Get single geofence
+  static async getGeofenceById(
+    organizationId: string,
+    geofenceId: string
+  ): Promise<TrackingResponse> {
+    try {
+      const geofence = await Geofence.findOne({
+        _id: geofenceId,
+        organizationId,
+      });
+
+      if (!geofence) {
+        return {
+          success: false,
+          message: "Geofence not found",
+        };
+      }
+
+      return {
+        success: true,
+        message: "Geofence retrieved successfully",
+        data: geofence,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get geofence"
+      );
+    }
+  }
+
+  // Update geofence
+  static async updateGeofence(
+    organizationId: string,
+    geofenceId: string,
+    data: GeofenceData
+  ): Promise<TrackingResponse> {
+    try {
+      const geofence = await Geofence.findOne({
+        _id: geofenceId,
+        organizationId,
+      });
+
+      if (!geofence) {
+        return {
+          success: false,
+          message: "Geofence not found",
+        };
+      }
+
+      const shapeError = this.validateShape({
+        shape: data.shape ?? geofence.shape,
+        center: data.center ?? geofence.center,
+        radius: data.radius ?? geofence.radius,
+        vertices: data.vertices ?? geofence.vertices,
+      });
+      if (shapeError) {
+        return {
+          success: false,
+          message: shapeError,
+        };
+      }
+
+      geofence.set(data);
+      await geofence.save();
+
+      // Presence computed against the old boundary is no longer meaningful
+      if (data.shape || data.center || data.radius || data.vertices) {
+        await GeofenceState.deleteMany({ geofenceId });
+      }
+
+      return {
+        success: true,
+        message: "Geofence updated successfully",
+        data: geofence,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to update geofence"
+      );
+    }
+  }
+
+  // Delete geofence
+  static async deleteGeofence(
+    organizationId: string,
+    geofenceId: string
+  ): Promise<TrackingResponse> {
+    try {
+      const geofence = await Geofence.findOneAndDelete({
+        _id: geofenceId,
+        organizationId,
+      });
+
+      if (!geofence) {
+        return {
+          success: false,
+          message: "Geofence not found",
+        };
+      }
+
+      await GeofenceState.deleteMany({ geofenceId });
+
+      return {
+        success: true,
+        message: "Geofence deleted successfully",
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to delete geofence"
+      );
+    }
+  }
+
+  // Get geofence events for an organization
+  static async getGeofenceEvents(
+    organizationId: string,
+    filters: GeofenceEventQuery
+  ): Promise<TrackingResponse> {
+    try {
+      const { page = 1, limit = 50 } = filters;
+      const query: any = { organizationId };
+
+      if (filters.userId) query.userId = filters.userId;
+      if (filters.geofenceId) query.geofenceId = filters.geofenceId;
+      if (filters.eventType) query.eventType = filters.eventType;
+      if (filters.startDate || filters.endDate) {
+        query.createdAt = {};
+        if (filters.startDate) query.createdAt.$gte = filters.startDate;
+        if (filters.endDate) query.createdAt.$lte = filters.endDate;
+      }
+
+      const skip = (page - 1) * limit;
+
+      const events = await GeofenceEvent.find(query)
+        .populate("geofenceId", "name category")
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit);
+
+      const total = await GeofenceEvent.countDocuments(query);
+
+      return {
+        success: true,
+        message: "Geofence events retrieved successfully",
+        data: {
+          events,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit),
+          },
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get geofence events"
+      );
+    }
+  }
+
+  // Get geofences a user is currently inside
+  static async getUserGeofenceStates(
+    organizationId: string,
+    userId: string
+  ): Promise<TrackingResponse> {
+    try {
+      const states = await GeofenceState.find({ organizationId, userId })
+        .populate("geofenceId", "name category shape")
+        .sort({ enteredAt: -1 });
+
+      return {
+        success: true,
+        message: "User geofence presence retrieved successfully",
+        data: states,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to get user geofence presence"
+      );
+    }
+  }
+
+  // Evaluate a new location against the organization's geofences and
+  // persist any enter, exit or dwell events it produces
+  static async processLocation(
+    userId: string,
+    organizationId: string,
+    location: ILocation
+  ): Promise<GeofenceEventPayload[]> {
+    const [geofences, states] = await Promise.all([
+      Geofence.find({ organizationId, isActive: true }),
+      GeofenceState.find({ userId }),
+    ]);
+
+    const statesByGeofence = new Map(
+      states.map((state) => [state.geofenceId, state])
+    );
+    const timestamp = new Date(location.timestamp);
+    const pendingEvents: {
+      geofence: IGeofence;
+      eventType: "enter" | "exit" | "dwell";
+      dwellTime?: number;
+    }[] = [];
+
+    for (const geofence of geofences) {
+      const geofenceId = geofence._id!.toString();
+      const state = statesByGeofence.get(geofenceId);
+      statesByGeofence.delete(geofenceId);
+
+      const inside = this.containsPoint(geofence, location);
+
+      if (inside && !state) {
+        await GeofenceState.create({
+          geofenceId,
+          userId,
+          organizationId,
+          enteredAt: timestamp,
+        });
+        pendingEvents.push({ geofence, eventType: "enter" });
+      } else if (inside && state) {
+        const dwellTime =
+          (timestamp.getTime() - state.enteredAt.getTime()) / 1000;
+
+        if (
+          !state.dwellNotified &&
+          geofence.dwellThreshold > 0 &&
+          dwellTime >= geofence.dwellThreshold
+        ) {
+          state.dwellNotified = true;
+          await state.save();
+          pendingEvents.push({ geofence, eventType: "dwell", dwellTime });
+        }
+      } else if (!inside && state) {
+        const dwellTime =
+          (timestamp.getTime() - state.enteredAt.getTime()) / 1000;
+
+        await state.deleteOne();
+        pendingEvents.push({ geofence, eventType: "exit", dwellTime });
+      }
+    }
+
+    // Remaining states belong to geofences that were disabled or removed
+    if (statesByGeofence.size > 0) {
+      await GeofenceState.deleteMany({
+        userId,
+        geofenceId: { $in: Array.from(statesByGeofence.keys()) },
+      });
+    }
+
+    if (pendingEvents.length === 0) return [];
+
+    const events = await GeofenceEvent.insertMany(
+      pendingEvents.map((pending) => ({
+        geofenceId: pending.geofence._id!.toString(),
+        userId,
+        organizationId,
+        eventType: pending.eventType,
+        location,
+        dwellTime: pending.dwellTime,
+      }))
+    );
+
+    return events.map((event, index) => ({
+      eventId: event._id!.toString(),
+      geofenceId: event.geofenceId,
+      geofenceName: pendingEvents[index].geofence.name,
+      category: pendingEvents[index].geofence.category,
+      userId,
+      organizationId,
+      eventType: event.eventType,
+      location,
+      dwellTime: event.dwellTime,
+      timestamp,
+    }));
+  }
+
+  // Check whether a point lies inside a geofence boundary
+  static containsPoint(
+    geofence: Pick<IGeofence, "shape" | "center" | "radius" | "vertices">,
+    point: { latitude: number; longitude: number }
+  ): boolean {
+    if (geofence.shape === "circle") {
+      if (!geofence.center || !geofence.radius) return false;
+      return GeoUtils.isPointInCircle(point, geofence.center, geofence.radius);
+    }
+
+    if (!geofence.vertices || geofence.vertices.length < 3) return false;
+    return GeoUtils.isPointInPolygon(point, geofence.vertices);
+  }
+
+  // Helper method to validate shape-specific fields
+  private static validateShape(data: GeofenceData): string | null {
+    if (data.shape === "circle" && (!data.center || !data.radius)) {
+      return "Circle geofence requires a center and radius";
+    }
+
+    if (
+      data.shape === "polygon" &&
+      (!data.vertices || data.vertices.length < 3)
+    ) {
+      return "Polygon geofence requires at least 3 vertices";
+    }
+
+    return null;
+  }
+}
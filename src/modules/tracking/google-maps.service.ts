@@ -193,6 +193,45 @@ export class GoogleMapsService {
     }
   }
 
+  // Calculate distances and durations from every origin to every destination
+  // in one request, rows follow origins and elements follow destinations
+  static async calculateDistanceMatrix(
+    origins: { lat: number; lng: number }[],
+    destinations: { lat: number; lng: number }[],
+    mode: "driving" | "walking" | "bicycling" | "transit" = "driving"
+  ): Promise<DistanceMatrixResult[][] | null> {
+    try {
+      if (!this.API_KEY) {
+        throw new Error("Google Maps API key not configured");
+      }
+
+      const response = await axios.get<DistanceMatrixResponse>(
+        `${this.BASE_URL}/distancematrix/json`,
+        {
+          params: {
+            origins: origins
+              .map((point) => `${point.lat},${point.lng}`)
+              .join("|"),
+            destinations: destinations
+              .map((point) => `${point.lat},${point.lng}`)
+              .join("|"),
+            mode,
+            key: this.API_KEY,
+          },
+        }
+      );
+
+      if (response.data.status === "OK") {
+        return response.data.rows.map((row) => row.elements);
+      }
+
+      return null;
+    } catch (error) {
+      console.error("Distance matrix calculation error:", error);
+      throw new Error("Failed to calculate distance matrix");
+    }
+  }
+
   // Get directions between two points
   static async getDirections(
     origin: { lat: number; lng: number },
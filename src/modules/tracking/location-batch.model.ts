@@ -0,0 +1,90 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Outcome of a processed batch, returned again when the batch is retried
+export interface ILocationBatchResult {
+  received: number;
+  inserted: number;
+  duplicates: number;
+  rejected: {
+    invalid: number;
+    accuracy: number;
+    speed: number;
+    duplicate: number;
+  };
+  startTime?: Date;
+  endTime?: Date;
+  days: {
+    date: Date;
+    pointCount: number;
+    totalDistance?: number;
+    totalTime?: number;
+    averageSpeed?: number;
+  }[];
+}
+
+// Offline location batch interface
+export interface ILocationBatch extends Document {
+  userId: string;
+  organizationId: string;
+  batchId: string;
+  status: "processing" | "completed";
+  result?: ILocationBatchResult;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Location Batch Schema
+const locationBatchSchema = new Schema<ILocationBatch>(
+  {
+    userId: {
+      type: String,
+      ref: "User",
+      required: true,
+    },
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: true,
+    },
+    batchId: {
+      type: String,
+      required: true,
+      maxlength: 100,
+    },
+    status: {
+      type: String,
+      enum: ["processing", "completed"],
+      default: "processing",
+    },
+    result: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better performance
+locationBatchSchema.index({ userId: 1, batchId: 1 }, { unique: true });
+locationBatchSchema.index({ organizationId: 1, createdAt: -1 });
+// Retries are only expected for a few days
+locationBatchSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 7 * 24 * 60 * 60 }
+);
+
+// Transform toJSON
+locationBatchSchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+export const LocationBatch = mongoose.model<ILocationBatch>(
+  "LocationBatch",
+  locationBatchSchema
+);
+
+export default LocationBatch;
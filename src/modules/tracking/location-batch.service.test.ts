@@ -0,0 +1,156 @@
+import { Types } from "mongoose";
+import { IdentityService } from "../identity/identity.service";
+import LocationBatch from "./location-batch.model";
+import { LocationBatchService } from "./location-batch.service";
+import { LocationFilterService } from "./location-filter.service";
+import { RealtimeTrackingService } from "./realtime-tracking.service";
+import LocationTracking, { ILocation, LocationHistory } from "./tracking.model";
+
+const userId = new Types.ObjectId().toString();
+const organizationId = new Types.ObjectId().toString();
+
+const at = (time: string) => new Date(`2026-01-01T${time}Z`);
+
+const point = (time: string, latitude = 52.5) => ({
+  latitude,
+  longitude: 13.4,
+  timestamp: at(time).toISOString(),
+});
+
+// Let every valid point through the filter and accept the batch record
+const mockUpload = () => {
+  jest
+    .spyOn(IdentityService, "findProfile")
+    .mockResolvedValue({ status: "active", organizationId } as never);
+  jest
+    .spyOn(LocationFilterService, "filterBatch")
+    .mockImplementation(async (_userId, _organizationId, locations) => ({
+      accepted: locations,
+      rejected: { accuracy: 0, speed: 0, duplicate: 0 },
+    }));
+  jest.spyOn(LocationTracking, "findOne").mockResolvedValue(null);
+  jest
+    .spyOn(RealtimeTrackingService, "sendToOrganization")
+    .mockImplementation(() => undefined);
+
+  const batch = { _id: new Types.ObjectId(), save: jest.fn() };
+  jest.spyOn(LocationBatch, "create").mockResolvedValue(batch as never);
+  return batch;
+};
+
+describe("LocationBatchService.uploadBatch", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: at("12:00:00"), doNotFake: ["nextTick"] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("merges new points into the day, skipping ones already stored", async () => {
+    mockUpload();
+    const stored: ILocation = {
+      latitude: 52.5,
+      longitude: 13.4,
+      timestamp: at("08:00:00"),
+    };
+    const history = new LocationHistory({
+      userId,
+      organizationId,
+      date: at("00:00:00"),
+      locations: [stored],
+    });
+    jest.spyOn(LocationHistory, "findOne").mockResolvedValue(history);
+    const save = jest
+      .spyOn(history, "save")
+      .mockResolvedValue(history as never);
+
+    const result = await LocationBatchService.uploadBatch(userId, {
+      batchId: "batch-1",
+      locations: [
+        point("08:01:00", 52.501),
+        point("08:00:00"),
+        point("08:02:00", 52.502),
+      ],
+    });
+
+    expect(result.data).toMatchObject({
+      duplicate: false,
+      received: 3,
+      inserted: 2,
+      duplicates: 1,
+      startTime: at("08:00:00"),
+      endTime: at("08:02:00"),
+    });
+    expect(save).toHaveBeenCalled();
+    expect(
+      history.locations.map((location) => location.timestamp.toISOString())
+    ).toEqual([
+      at("08:00:00").toISOString(),
+      at("08:01:00").toISOString(),
+      at("08:02:00").toISOString(),
+    ]);
+  });
+
+  it("counts points from the future or off the map as invalid", async () => {
+    mockUpload();
+    jest.spyOn(LocationHistory, "findOne").mockResolvedValue(null);
+    jest
+      .spyOn(LocationHistory.prototype, "save")
+      .mockImplementation(async function (this: unknown) {
+        return this;
+      });
+
+    const result = await LocationBatchService.uploadBatch(userId, {
+      batchId: "batch-1",
+      locations: [point("09:00:00"), point("13:00:00"), point("09:01:00", 95)],
+    });
+
+    expect(result.data).toMatchObject({
+      inserted: 1,
+      rejected: { invalid: 2 },
+    });
+  });
+
+  it("returns the stored outcome when a batch is sent again", async () => {
+    mockUpload();
+    jest
+      .spyOn(LocationBatch, "create")
+      .mockRejectedValue(
+        Object.assign(new Error("duplicate"), { code: 11000 })
+      );
+    jest.spyOn(LocationBatch, "findOne").mockResolvedValue({
+      status: "completed",
+      result: { received: 3, inserted: 3 },
+    } as never);
+
+    const result = await LocationBatchService.uploadBatch(userId, {
+      batchId: "batch-1",
+      locations: [point("09:00:00")],
+    });
+
+    expect(result).toEqual({
+      success: true,
+      message: "Location batch already processed",
+      data: { batchId: "batch-1", duplicate: true, received: 3, inserted: 3 },
+    });
+  });
+
+  it("releases the batch id when processing fails", async () => {
+    const batch = mockUpload();
+    jest
+      .spyOn(LocationHistory, "findOne")
+      .mockRejectedValue(new Error("connection lost"));
+    const deleteOne = jest
+      .spyOn(LocationBatch, "deleteOne")
+      .mockResolvedValue({} as never);
+
+    await expect(
+      LocationBatchService.uploadBatch(userId, {
+        batchId: "batch-1",
+        locations: [point("09:00:00")],
+      })
+    ).rejects.toThrow("connection lost");
+    expect(deleteOne).toHaveBeenCalledWith({ _id: batch._id });
+  });
+});
@@ -0,0 +1,279 @@
+import { IdentityService } from "../identity/identity.service";
+import LocationBatch, { ILocationBatchResult } from "./location-batch.model";
+import { LocationFilterService } from "./location-filter.service";
+import { RealtimeTrackingService } from "./realtime-tracking.service";
+import LocationTracking, { ILocation, LocationHistory } from "./tracking.model";
+import { TrackingResponse, TrackingService } from "./tracking.service";
+
+// Offline point interface
+export interface LocationBatchPoint {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  altitude?: number;
+  speed?: number;
+  heading?: number;
+  timestamp: Date | string;
+}
+
+// Offline batch upload interface
+export interface LocationBatchData {
+  batchId: string;
+  locations: LocationBatchPoint[];
+}
+
+export const MAX_BATCH_SIZE = 1000;
+
+// Allowed clock drift for points stamped by the device (in milliseconds)
+const MAX_CLOCK_SKEW = 2 * 60 * 1000;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+export class LocationBatchService {
+  // Store a batch of points recorded while the device was offline
+  static async uploadBatch(
+    userId: string,
+    batchData: LocationBatchData
+  ): Promise<TrackingResponse> {
+    try {
+      const user = await IdentityService.findProfile(userId);
+      if (!user) {
+        return {
+          success: false,
+          message: "User not found",
+        };
+      }
+
+      if (user.status !== "active") {
+        return {
+          success: false,
+          message: "User account is not active",
+        };
+      }
+
+      if (batchData.locations.length > MAX_BATCH_SIZE) {
+        return {
+          success: false,
+          message: `A batch can contain at most ${MAX_BATCH_SIZE} locations`,
+        };
+      }
+
+      const organizationId = user.organizationId!.toString();
+
+      // Retried uploads return the stored outcome instead of inserting twice
+      let batch;
+      try {
+        batch = await LocationBatch.create({
+          userId,
+          organizationId,
+          batchId: batchData.batchId,
+        });
+      } catch (error: any) {
+        if (error?.code !== 11000) throw error;
+        return this.getExistingBatchResult(userId, batchData.batchId);
+      }
+
+      try {
+        const result = await this.processBatch(
+          userId,
+          organizationId,
+          batchData.locations
+        );
+
+        batch.status = "completed";
+        batch.result = result;
+        await batch.save();
+
+        if (result.inserted > 0) {
+          RealtimeTrackingService.sendToOrganization(
+            organizationId,
+            "location_batch_synced",
+            {
+              userId,
+              batchId: batchData.batchId,
+              inserted: result.inserted,
+              startTime: result.startTime,
+              endTime: result.endTime,
+              timestamp: new Date(),
+            }
+          );
+        }
+
+        return {
+          success: true,
+          message: "Location batch processed successfully",
+          data: { batchId: batchData.batchId, duplicate: false, ...result },
+        };
+      } catch (error) {
+        // Let the client retry a batch that failed midway
+        await LocationBatch.deleteOne({ _id: batch._id });
+        throw error;
+      }
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to process location batch"
+      );
+    }
+  }
+
+  // Helper method to answer a retried batch
+  private static async getExistingBatchResult(
+    userId: string,
+    batchId: string
+  ): Promise<TrackingResponse> {
+    const existing = await LocationBatch.findOne({ userId, batchId });
+
+    if (!existing || existing.status !== "completed") {
+      return {
+        success: false,
+        message: "Location batch is already being processed",
+      };
+    }
+
+    return {
+      success: true,
+      message: "Location batch already processed",
+      data: { batchId, duplicate: true, ...existing.result },
+    };
+  }
+
+  // Helper method to filter, merge and persist the points of a batch
+  private static async processBatch(
+    userId: string,
+    organizationId: string,
+    points: LocationBatchPoint[]
+  ): Promise<ILocationBatchResult> {
+    const latestAllowed = Date.now() + MAX_CLOCK_SKEW;
+    let invalid = 0;
+
+    // Order by device time and drop points that cannot be placed
+    const locations: ILocation[] = [];
+    for (const point of points) {
+      const timestamp = new Date(point.timestamp);
+      if (
+        isNaN(timestamp.getTime()) ||
+        timestamp.getTime() > latestAllowed ||
+        !(point.latitude >= -90 && point.latitude <= 90) ||
+        !(point.longitude >= -180 && point.longitude <= 180)
+      ) {
+        invalid++;
+        continue;
+      }
+      locations.push({
+        latitude: point.latitude,
+        longitude: point.longitude,
+        accuracy: point.accuracy,
+        altitude: point.altitude,
+        speed: point.speed,
+        heading: point.heading,
+        timestamp,
+      });
+    }
+    locations.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    const { accepted, rejected } = await LocationFilterService.filterBatch(
+      userId,
+      organizationId,
+      locations
+    );
+
+    // Group by the day document the points belong to
+    const days = new Map<number, ILocation[]>();
+    for (const location of accepted) {
+      const day = new Date(location.timestamp);
+      day.setHours(0, 0, 0, 0);
+      if (!days.has(day.getTime())) days.set(day.getTime(), []);
+      days.get(day.getTime())!.push(location);
+    }
+
+    let inserted = 0;
+    let duplicates = 0;
+    const dayResults: ILocationBatchResult["days"] = [];
+
+    for (const [dayTime, dayLocations] of days) {
+      const date = new Date(dayTime);
+      let history = await LocationHistory.findOne({
+        userId,
+        organizationId,
+        date: { $gte: date, $lt: new Date(dayTime + DAY_IN_MS) },
+      });
+
+      const stored = history
+        ? history.locations.map((location: any) =>
+            typeof location.toObject === "function"
+              ? location.toObject()
+              : location
+          )
+        : [];
+      const storedTimes = new Set(
+        stored.map((location: ILocation) =>
+          new Date(location.timestamp).getTime()
+        )
+      );
+
+      // Points already stored with the same timestamp were sent before
+      const fresh = dayLocations.filter(
+        (location) => !storedTimes.has(location.timestamp.getTime())
+      );
+      duplicates += dayLocations.length - fresh.length;
+      if (fresh.length === 0) continue;
+
+      const merged = [...stored, ...fresh].sort(
+        (a, b) =>
+          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      );
+
+      if (!history) {
+        history = new LocationHistory({
+          userId,
+          organizationId,
+          locations: merged,
+          date,
+        });
+      } else {
+        history.set("locations", merged);
+      }
+
+      TrackingService.calculateHistoryTotals(history);
+      await history.save();
+
+      inserted += fresh.length;
+      dayResults.push({
+        date,
+        pointCount: fresh.length,
+        totalDistance: history.totalDistance,
+        totalTime: history.totalTime,
+        averageSpeed: history.averageSpeed,
+      });
+    }
+
+    // Move the live position forward if the batch ends after it
+    const latest = accepted[accepted.length - 1];
+    if (latest) {
+      const tracking = await LocationTracking.findOne({
+        userId,
+        isActive: true,
+      });
+      if (
+        tracking &&
+        new Date(tracking.location.timestamp).getTime() <
+          latest.timestamp.getTime()
+      ) {
+        tracking.location = latest;
+        await tracking.save();
+      }
+    }
+
+    return {
+      received: points.length,
+      inserted,
+      duplicates,
+      rejected: { invalid, ...rejected },
+      startTime: accepted[0]?.timestamp,
+      endTime: latest?.timestamp,
+      days: dayResults,
+    };
+  }
+}
@@ -0,0 +1,123 @@
+import { LocationBroadcastService } from "./location-broadcast.service";
+import { RealtimeLocationData } from "./realtime-tracking.service";
+
+const now = new Date("2026-01-01T12:00:00Z");
+
+const update = (
+  userId: string,
+  latitude: number,
+  speed = 5
+): RealtimeLocationData => ({
+  userId,
+  organizationId: "org-1",
+  location: { latitude, longitude: 13.41, speed, timestamp: now },
+  isActive: true,
+});
+
+// Updates sent to a room since the mock was last cleared
+const sentTo = (emit: jest.Mock, room: string) =>
+  emit.mock.calls
+    .filter(([target]) => target === room)
+    .flatMap(([, , data]) => data.updates);
+
+describe("LocationBroadcastService", () => {
+  let emit: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    emit = jest.fn();
+    LocationBroadcastService.start(emit);
+  });
+
+  afterEach(() => {
+    LocationBroadcastService.forget("rider-1");
+    jest.useRealTimers();
+  });
+
+  it("sends only the newest point per rider, in full the first time", () => {
+    LocationBroadcastService.queue(update("rider-1", 52.5));
+    LocationBroadcastService.queue(update("rider-1", 52.501));
+    LocationBroadcastService.flush();
+
+    expect(sentTo(emit, "locations_org-1")).toEqual([
+      expect.objectContaining({ latitude: 52.501, full: true }),
+    ]);
+    expect(emit.mock.calls.map(([room]) => room)).toEqual([
+      "locations_org-1",
+      "locations_org-1_rider_rider-1",
+      "locations_org-1_tile_0.05_268_1050",
+      "locations_org-1_tile_0.5_26_105",
+      "locations_org-1_tile_5_2_10",
+    ]);
+  });
+
+  it("sends just the changed fields until the next keyframe", () => {
+    LocationBroadcastService.queue(update("rider-1", 52.5));
+    LocationBroadcastService.flush();
+    emit.mockClear();
+
+    LocationBroadcastService.queue(update("rider-1", 52.5, 8));
+    LocationBroadcastService.flush();
+    expect(sentTo(emit, "locations_org-1")).toEqual([
+      { userId: "rider-1", speed: 8 },
+    ]);
+
+    // Nothing changed, nothing to send
+    emit.mockClear();
+    LocationBroadcastService.queue(update("rider-1", 52.5, 8));
+    LocationBroadcastService.flush();
+    expect(emit).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(30 * 1000);
+    LocationBroadcastService.queue(update("rider-1", 52.5, 8));
+    LocationBroadcastService.flush();
+    expect(sentTo(emit, "locations_org-1")).toEqual([
+      expect.objectContaining({ full: true }),
+    ]);
+  });
+
+  it("tells the cell a rider left, as well as the one they entered", () => {
+    LocationBroadcastService.queue(update("rider-1", 52.549));
+    LocationBroadcastService.flush();
+    emit.mockClear();
+
+    LocationBroadcastService.queue(update("rider-1", 52.551));
+    LocationBroadcastService.flush();
+
+    expect(sentTo(emit, "locations_org-1_tile_0.05_268_1050")).toEqual([
+      expect.objectContaining({ latitude: 52.551, full: true }),
+    ]);
+    expect(sentTo(emit, "locations_org-1_tile_0.05_268_1051")).toHaveLength(1);
+  });
+
+  it("covers a viewport with the finest cells that fit", () => {
+    expect(
+      LocationBroadcastService.getSubscriptionRooms("org-1", {
+        mode: "viewport",
+        viewport: {
+          minLatitude: 52.51,
+          minLongitude: 13.31,
+          maxLatitude: 52.56,
+          maxLongitude: 13.36,
+        },
+      })
+    ).toEqual([
+      "locations_org-1_tile_0.05_266_1050",
+      "locations_org-1_tile_0.05_266_1051",
+      "locations_org-1_tile_0.05_267_1050",
+      "locations_org-1_tile_0.05_267_1051",
+    ]);
+
+    expect(
+      LocationBroadcastService.getSubscriptionRooms("org-1", {
+        mode: "viewport",
+        viewport: {
+          minLatitude: -80,
+          minLongitude: -170,
+          maxLatitude: 80,
+          maxLongitude: 170,
+        },
+      })
+    ).toBeNull();
+  });
+});
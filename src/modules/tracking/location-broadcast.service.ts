@@ -0,0 +1,277 @@
+import { env } from "../../config/env";
+import type { RealtimeLocationData } from "./realtime-tracking.service";
+import LocationTracking from "./tracking.model";
+
+// A rider's live position as sent to dashboards
+export interface LiveLocation {
+  userId: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  altitude?: number;
+  speed?: number;
+  heading?: number;
+  timestamp: Date;
+  batteryLevel?: number;
+  networkType?: string;
+  isActive: boolean;
+}
+
+// Viewport bounds a dashboard is looking at
+export interface Viewport {
+  minLatitude: number;
+  minLongitude: number;
+  maxLatitude: number;
+  maxLongitude: number;
+}
+
+export type LocationSubscription =
+  | { mode: "organization" }
+  | { mode: "viewport"; viewport: Viewport }
+  | { mode: "riders"; userIds: string[] };
+
+// Sends a batch of updates to every dashboard in a room
+export type LocationBatchEmitter = (
+  room: string,
+  event: string,
+  data: any
+) => void;
+
+// Viewport grid levels in degrees per cell, finest first. A viewport uses
+// the finest level that covers it with at most MAX_VIEWPORT_TILES cells.
+const TILE_LEVELS = [0.05, 0.5, 5];
+const MAX_VIEWPORT_TILES = 64;
+export const MAX_SUBSCRIBED_RIDERS = 200;
+
+// Every rider is sent in full this often so late subscribers catch up
+const KEYFRAME_INTERVAL = 30 * 1000;
+
+export class LocationBroadcastService {
+  private static pending: Map<
+    string,
+    { organizationId: string; location: LiveLocation }
+  > = new Map();
+  private static lastSent: Map<
+    string,
+    { location: LiveLocation; rooms: string[]; keyframeAt: number }
+  > = new Map();
+  private static tickTimer?: NodeJS.Timeout;
+  private static emit?: LocationBatchEmitter;
+
+  // Start sending queued updates on every tick
+  static start(emit: LocationBatchEmitter) {
+    this.emit = emit;
+    if (this.tickTimer) return;
+
+    this.tickTimer = setInterval(
+      () => this.flush(),
+      env.LOCATION_BROADCAST_TICK
+    );
+    this.tickTimer.unref();
+  }
+
+  // Queue a rider's latest point, only the newest one per tick is sent
+  static queue(data: RealtimeLocationData) {
+    this.pending.set(data.userId, {
+      organizationId: data.organizationId,
+      location: {
+        userId: data.userId,
+        latitude: data.location.latitude,
+        longitude: data.location.longitude,
+        accuracy: data.location.accuracy,
+        altitude: data.location.altitude,
+        speed: data.location.speed,
+        heading: data.location.heading,
+        timestamp: data.location.timestamp,
+        batteryLevel: data.batteryLevel,
+        networkType: data.networkType,
+        isActive: data.isActive,
+      },
+    });
+  }
+
+  // Forget what was last sent for a rider, their next update is sent in full
+  static forget(userId: string) {
+    this.pending.delete(userId);
+    this.lastSent.delete(userId);
+  }
+
+  // Get the rooms a subscription listens on
+  static getSubscriptionRooms(
+    organizationId: string,
+    subscription: LocationSubscription
+  ): string[] | null {
+    switch (subscription.mode) {
+      case "organization":
+        return [this.organizationRoom(organizationId)];
+      case "riders":
+        return subscription.userIds.map((userId) =>
+          this.riderRoom(organizationId, userId)
+        );
+      case "viewport":
+        return this.getViewportRooms(organizationId, subscription.viewport);
+    }
+  }
+
+  // Get the current positions matching a subscription
+  static async getSnapshot(
+    organizationId: string,
+    subscription: LocationSubscription
+  ): Promise<LiveLocation[]> {
+    const query: any = { organizationId, isActive: true };
+    if (subscription.mode === "riders") {
+      query.userId = { $in: subscription.userIds };
+    }
+    if (subscription.mode === "viewport") {
+      const { viewport } = subscription;
+      query["location.latitude"] = {
+        $gte: viewport.minLatitude,
+        $lte: viewport.maxLatitude,
+      };
+      query["location.longitude"] = {
+        $gte: viewport.minLongitude,
+        $lte: viewport.maxLongitude,
+      };
+    }
+
+    const trackings = await LocationTracking.find(query);
+
+    return trackings
+      .filter(
+        // Sessions that have not reported yet still hold the 0,0 placeholder
+        (tracking) =>
+          tracking.location &&
+          !(
+            tracking.location.latitude === 0 &&
+            tracking.location.longitude === 0
+          )
+      )
+      .map((tracking) => ({
+        userId: tracking.userId,
+        latitude: tracking.location.latitude,
+        longitude: tracking.location.longitude,
+        accuracy: tracking.location.accuracy,
+        altitude: tracking.location.altitude,
+        speed: tracking.location.speed,
+        heading: tracking.location.heading,
+        timestamp: tracking.location.timestamp,
+        batteryLevel: tracking.batteryLevel,
+        networkType: tracking.networkType,
+        isActive: tracking.isActive,
+      }));
+  }
+
+  // Send the queued updates, one batch per room. Updates only carry the
+  // fields that changed since the rider was last sent, except keyframes and
+  // moves into other viewport cells, which are sent in full.
+  static flush() {
+    if (!this.emit || this.pending.size === 0) return;
+
+    const now = Date.now();
+    const batches: Map<string, any[]> = new Map();
+
+    for (const [userId, { organizationId, location }] of this.pending) {
+      const previous = this.lastSent.get(userId);
+      const rooms = [
+        this.organizationRoom(organizationId),
+        this.riderRoom(organizationId, userId),
+        ...TILE_LEVELS.map((level) =>
+          this.tileRoom(organizationId, level, location)
+        ),
+      ];
+      const moved =
+        previous !== undefined &&
+        rooms.some((room) => !previous.rooms.includes(room));
+      const keyframe =
+        !previous || moved || now - previous.keyframeAt >= KEYFRAME_INTERVAL;
+
+      const update = keyframe
+        ? { ...location, full: true }
+        : this.diff(previous.location, location);
+      this.lastSent.set(userId, {
+        location,
+        rooms,
+        keyframeAt: keyframe ? now : previous.keyframeAt,
+      });
+      if (!update) continue;
+
+      // Cells the rider just left still hear about it, so they can drop it
+      const targets = new Set(moved ? [...rooms, ...previous.rooms] : rooms);
+      for (const room of targets) {
+        if (!batches.has(room)) batches.set(room, []);
+        batches.get(room)!.push(update);
+      }
+    }
+    this.pending.clear();
+
+    const timestamp = new Date();
+    for (const [room, updates] of batches) {
+      this.emit(room, "location_updates", { updates, timestamp });
+    }
+  }
+
+  // Helper method to keep only the fields that changed
+  private static diff(
+    previous: LiveLocation,
+    current: LiveLocation
+  ): Partial<LiveLocation> | null {
+    const changes: Record<string, any> = {};
+    for (const key of Object.keys(current) as (keyof LiveLocation)[]) {
+      const before = previous[key];
+      const after = current[key];
+      const same =
+        before instanceof Date || after instanceof Date
+          ? new Date(before as any).getTime() ===
+            new Date(after as any).getTime()
+          : before === after;
+      if (!same) changes[key] = after;
+    }
+
+    if (Object.keys(changes).length === 0) return null;
+    return { userId: current.userId, ...changes };
+  }
+
+  // Helper method to cover a viewport with grid cell rooms
+  private static getViewportRooms(
+    organizationId: string,
+    viewport: Viewport
+  ): string[] | null {
+    for (const level of TILE_LEVELS) {
+      const minX = Math.floor(viewport.minLongitude / level);
+      const maxX = Math.floor(viewport.maxLongitude / level);
+      const minY = Math.floor(viewport.minLatitude / level);
+      const maxY = Math.floor(viewport.maxLatitude / level);
+      if ((maxX - minX + 1) * (maxY - minY + 1) > MAX_VIEWPORT_TILES) {
+        continue;
+      }
+
+      const rooms: string[] = [];
+      for (let x = minX; x <= maxX; x++) {
+        for (let y = minY; y <= maxY; y++) {
+          rooms.push(`locations_${organizationId}_tile_${level}_${x}_${y}`);
+        }
+      }
+      return rooms;
+    }
+
+    return null;
+  }
+
+  private static organizationRoom(organizationId: string): string {
+    return `locations_${organizationId}`;
+  }
+
+  private static riderRoom(organizationId: string, userId: string): string {
+    return `locations_${organizationId}_rider_${userId}`;
+  }
+
+  private static tileRoom(
+    organizationId: string,
+    level: number,
+    point: { latitude: number; longitude: number }
+  ): string {
+    const x = Math.floor(point.longitude / level);
+    const y = Math.floor(point.latitude / level);
+    return `locations_${organizationId}_tile_${level}_${x}_${y}`;
+  }
+}
@@ -0,0 +1,111 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../auth/auth.interface";
+import { LocationFilterService } from "./location-filter.service";
+
+export class LocationFilterController {
+  // Get location filter settings for organization
+  static async getSettings(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+
+      const result = await LocationFilterService.getSettings(organizationId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to get location filter settings";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Update location filter settings for organization
+  static async updateSettings(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const updatedBy = req.user!.userId;
+
+      const result = await LocationFilterService.updateSettings(
+        organizationId,
+        updatedBy,
+        req.body
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to update location filter settings";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Get rejected points for organization
+  static async getRejectedLocations(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { userId, reason, startDate, endDate, page, limit } = req.query;
+
+      const result = await LocationFilterService.getRejectedLocations(
+        organizationId,
+        {
+          userId: userId as string,
+          reason: reason as "accuracy" | "speed",
+          startDate: startDate ? new Date(startDate as string) : undefined,
+          endDate: endDate ? new Date(endDate as string) : undefined,
+          page: page ? parseInt(page as string) : 1,
+          limit: limit ? parseInt(limit as string) : 50,
+        }
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to get rejected locations";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Get accepted/rejected point counts for organization
+  static async getFilterStats(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const { userId, startDate, endDate } = req.query;
+
+      const result = await LocationFilterService.getFilterStats(
+        organizationId,
+        userId as string,
+        startDate ? new Date(startDate as string) : undefined,
+        endDate ? new Date(endDate as string) : undefined
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to get location filter statistics";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+}
@@ -0,0 +1,286 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { ILocation } from "./tracking.model";
+
+export type LocationRejectionReason = "accuracy" | "speed" | "duplicate";
+
+// Per-organization filter settings interface
+export interface ILocationFilterSettings extends Document {
+  organizationId: string;
+  enabled: boolean;
+  maxAccuracy: number; // in meters
+  maxSpeed: number; // in m/s
+  minDistance: number; // in meters, smaller moves count as stationary jitter
+  stationaryInterval: number; // in seconds, one stationary point per interval
+  kalmanEnabled: boolean;
+  kalmanProcessNoise: number; // in m/s
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Per-user filter state interface
+export interface ILocationFilterState extends Document {
+  userId: string;
+  organizationId: string;
+  lastAccepted?: ILocation;
+  kalman?: {
+    latitude: number;
+    longitude: number;
+    variance: number;
+    timestamp: Date;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Rejected location interface
+export interface IRejectedLocation extends Document {
+  userId: string;
+  organizationId: string;
+  location: ILocation;
+  reason: Exclude<LocationRejectionReason, "duplicate">;
+  details?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Daily rejection counters interface
+export interface ILocationFilterStats extends Document {
+  userId: string;
+  organizationId: string;
+  date: Date;
+  accepted: number;
+  rejected: {
+    accuracy: number;
+    speed: number;
+    duplicate: number;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const locationDefinition = {
+  latitude: {
+    type: Number,
+    required: true,
+  },
+  longitude: {
+    type: Number,
+    required: true,
+  },
+  accuracy: Number,
+  altitude: Number,
+  speed: Number,
+  heading: Number,
+  timestamp: {
+    type: Date,
+    required: true,
+  },
+};
+
+// Location Filter Settings Schema
+const locationFilterSettingsSchema = new Schema<ILocationFilterSettings>(
+  {
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: true,
+      unique: true,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    maxAccuracy: {
+      type: Number,
+      min: 1,
+      default: 100,
+    },
+    maxSpeed: {
+      type: Number,
+      min: 1,
+      default: 70, // ~250 km/h
+    },
+    minDistance: {
+      type: Number,
+      min: 0,
+      default: 5,
+    },
+    stationaryInterval: {
+      type: Number,
+      min: 0,
+      default: 60,
+    },
+    kalmanEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    kalmanProcessNoise: {
+      type: Number,
+      min: 0.1,
+      default: 3,
+    },
+    updatedBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Location Filter State Schema
+const locationFilterStateSchema = new Schema<ILocationFilterState>(
+  {
+    userId: {
+      type: String,
+      ref: "User",
+      required: true,
+      unique: true,
+    },
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: true,
+    },
+    lastAccepted: {
+      type: new Schema(locationDefinition, { _id: false }),
+    },
+    kalman: {
+      latitude: Number,
+      longitude: Number,
+      variance: Number,
+      timestamp: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Rejected Location Schema
+const rejectedLocationSchema = new Schema<IRejectedLocation>(
+  {
+    userId: {
+      type: String,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: true,
+      index: true,
+    },
+    location: locationDefinition,
+    reason: {
+      type: String,
+      enum: ["accuracy", "speed"],
+      required: true,
+    },
+    details: {
+      type: String,
+      maxlength: 200,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Location Filter Stats Schema
+const locationFilterStatsSchema = new Schema<ILocationFilterStats>(
+  {
+    userId: {
+      type: String,
+      ref: "User",
+      required: true,
+    },
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: true,
+      index: true,
+    },
+    date: {
+      type: Date,
+      required: true,
+    },
+    accepted: {
+      type: Number,
+      default: 0,
+    },
+    rejected: {
+      accuracy: {
+        type: Number,
+        default: 0,
+      },
+      speed: {
+        type: Number,
+        default: 0,
+      },
+      duplicate: {
+        type: Number,
+        default: 0,
+      },
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better performance
+rejectedLocationSchema.index({ organizationId: 1, createdAt: -1 });
+rejectedLocationSchema.index({ userId: 1, reason: 1, createdAt: -1 });
+// Keep rejected points for 30 days
+rejectedLocationSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 30 * 24 * 60 * 60 }
+);
+
+locationFilterStatsSchema.index({ userId: 1, date: -1 }, { unique: true });
+locationFilterStatsSchema.index({ organizationId: 1, date: -1 });
+
+// Transform toJSON
+locationFilterSettingsSchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+rejectedLocationSchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+locationFilterStatsSchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+// Models
+export const LocationFilterSettings = mongoose.model<ILocationFilterSettings>(
+  "LocationFilterSettings",
+  locationFilterSettingsSchema
+);
+export const LocationFilterState = mongoose.model<ILocationFilterState>(
+  "LocationFilterState",
+  locationFilterStateSchema
+);
+export const RejectedLocation = mongoose.model<IRejectedLocation>(
+  "RejectedLocation",
+  rejectedLocationSchema
+);
+export const LocationFilterStats = mongoose.model<ILocationFilterStats>(
+  "LocationFilterStats",
+  locationFilterStatsSchema
+);
+
+export default LocationFilterSettings;
@@ -0,0 +1,94 @@
+import {
+  DEFAULT_FILTER_SETTINGS,
+  LocationFilterService,
+} from "./location-filter.service";
+import { ILocation } from "./tracking.model";
+
+const start = new Date("2026-01-01T08:00:00Z").getTime();
+
+// A fix the given number of meters north of the start, seconds later
+const fix = (
+  meters: number,
+  seconds: number,
+  accuracy?: number
+): ILocation => ({
+  latitude: 52.5 + meters / 111195,
+  longitude: 13.4,
+  accuracy,
+  timestamp: new Date(start + seconds * 1000),
+});
+
+const evaluate = (location: ILocation, previous?: ILocation) =>
+  LocationFilterService.evaluate(location, previous, DEFAULT_FILTER_SETTINGS);
+
+describe("LocationFilterService.evaluate", () => {
+  it("accepts the first point of a rider", () => {
+    expect(evaluate(fix(0, 0, 8))).toEqual({ accepted: true });
+  });
+
+  it("rejects fixes less accurate than the limit", () => {
+    expect(evaluate(fix(0, 0, 250))).toEqual({
+      accepted: false,
+      reason: "accuracy",
+      details: "Accuracy 250m exceeds 100m",
+    });
+  });
+
+  it("rejects points that are not newer than the last one", () => {
+    expect(evaluate(fix(100, 0), fix(0, 0))).toMatchObject({
+      accepted: false,
+      reason: "duplicate",
+    });
+  });
+
+  it("rejects jumps faster than the speed limit", () => {
+    expect(evaluate(fix(2000, 10, 5), fix(0, 0, 5))).toMatchObject({
+      accepted: false,
+      reason: "speed",
+    });
+  });
+
+  it("allows for the accuracy of both fixes before calling a jump", () => {
+    // 780 m in 10 s is too fast, unless each fix may be 50 m out
+    expect(evaluate(fix(780, 10, 5), fix(0, 0, 5)).accepted).toBe(false);
+    expect(evaluate(fix(780, 10, 50), fix(0, 0, 50)).accepted).toBe(true);
+  });
+
+  it("drops stationary points until the stationary interval passes", () => {
+    expect(evaluate(fix(2, 30), fix(0, 0))).toMatchObject({
+      accepted: false,
+      reason: "duplicate",
+    });
+    expect(evaluate(fix(2, 60), fix(0, 0))).toEqual({ accepted: true });
+    expect(evaluate(fix(20, 30), fix(0, 0))).toEqual({ accepted: true });
+  });
+});
+
+describe("LocationFilterService.smooth", () => {
+  it("starts from the first point unchanged", () => {
+    const first = fix(0, 0, 10);
+    const { location, kalman } = LocationFilterService.smooth(
+      first,
+      undefined,
+      3
+    );
+
+    expect(location).toBe(first);
+    expect(kalman.variance).toBe(100);
+  });
+
+  it("pulls an inaccurate point towards the estimate", () => {
+    const { kalman } = LocationFilterService.smooth(fix(0, 0, 5), undefined, 3);
+    const noisy = fix(100, 1, 50);
+
+    const { location, kalman: next } = LocationFilterService.smooth(
+      noisy,
+      kalman,
+      3
+    );
+
+    expect(location.latitude).toBeGreaterThan(kalman.latitude);
+    expect(location.latitude).toBeLessThan(noisy.latitude);
+    expect(next.variance).toBeLessThan(kalman.variance + 9);
+  });
+});
@@ -0,0 +1,593 @@
+import { GeoUtils } from "./geo.utils";
+import LocationFilterSettings, {
+  ILocationFilterState,
+  LocationFilterState,
+  LocationFilterStats,
+  LocationRejectionReason,
+  RejectedLocation,
+} from "./location-filter.model";
+import { ILocation } from "./tracking.model";
+import { TrackingResponse } from "./tracking.service";
+
+// Effective filter settings for an organization
+export interface FilterSettings {
+  enabled: boolean;
+  maxAccuracy: number;
+  maxSpeed: number;
+  minDistance: number;
+  stationaryInterval: number;
+  kalmanEnabled: boolean;
+  kalmanProcessNoise: number;
+}
+
+// Kalman filter state for a user
+export interface KalmanState {
+  latitude: number;
+  longitude: number;
+  variance: number;
+  timestamp: Date;
+}
+
+// Filter outcome for a single point
+export interface FilterResult {
+  accepted: boolean;
+  location: ILocation;
+  reason?: LocationRejectionReason;
+  details?: string;
+}
+
+// Filter outcome for a batch of points
+export interface BatchFilterResult {
+  accepted: ILocation[];
+  rejected: Record<LocationRejectionReason, number>;
+}
+
+// Rejected location query interface
+export interface RejectedLocationQuery {
+  userId?: string;
+  reason?: "accuracy" | "speed";
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  limit?: number;
+}
+
+export const DEFAULT_FILTER_SETTINGS: FilterSettings = {
+  enabled: true,
+  maxAccuracy: 100,
+  maxSpeed: 70,
+  minDistance: 5,
+  stationaryInterval: 60,
+  kalmanEnabled: false,
+  kalmanProcessNoise: 3,
+};
+
+// Accuracy assumed for points that do not report one (in meters)
+const DEFAULT_ACCURACY = 10;
+
+export class LocationFilterService {
+  private static settingsCache: Map<
+    string,
+    { settings: FilterSettings; expiresAt: number }
+  > = new Map();
+  private static readonly SETTINGS_CACHE_TTL = 60 * 1000;
+
+  // Run a point through the organization's filter pipeline
+  static async filterLocation(
+    userId: string,
+    organizationId: string,
+    location: ILocation
+  ): Promise<FilterResult> {
+    const settings = await this.loadSettings(organizationId);
+    if (!settings.enabled) {
+      return { accepted: true, location };
+    }
+
+    const state = await LocationFilterState.findOne({ userId });
+    const verdict = this.evaluate(location, state?.lastAccepted, settings);
+
+    if (!verdict.accepted) {
+      await this.recordRejection(userId, organizationId, location, verdict);
+      return { ...verdict, location };
+    }
+
+    let filtered = location;
+    let kalman: KalmanState | undefined;
+    if (settings.kalmanEnabled) {
+      ({ location: filtered, kalman } = this.smooth(
+        location,
+        state?.kalman,
+        settings.kalmanProcessNoise
+      ));
+    }
+
+    await this.recordAcceptance(
+      userId,
+      organizationId,
+      filtered,
+      kalman,
+      state
+    );
+
+    return { accepted: true, location: filtered };
+  }
+
+  // Run a time-ordered batch of past points through the filter pipeline.
+  // Each point is compared to the previous kept point of the batch, the live
+  // filter state only moves forward if the batch ends after it.
+  static async filterBatch(
+    userId: string,
+    organizationId: string,
+    locations: ILocation[]
+  ): Promise<BatchFilterResult> {
+    const rejected = { accuracy: 0, speed: 0, duplicate: 0 };
+    const settings = await this.loadSettings(organizationId);
+    if (!settings.enabled) {
+      return { accepted: locations, rejected };
+    }
+
+    const accepted: ILocation[] = [];
+    const rejections: any[] = [];
+    let previous: ILocation | undefined;
+    let kalman: KalmanState | undefined;
+
+    for (const location of locations) {
+      const verdict = this.evaluate(location, previous, settings);
+      if (!verdict.accepted) {
+        const reason = verdict.reason!;
+        rejected[reason]++;
+        if (reason !== "duplicate") {
+          const { position, ...point } = location;
+          rejections.push({
+            userId,
+            organizationId,
+            location: point,
+            reason,
+            details: verdict.details,
+          });
+        }
+        continue;
+      }
+
+      let filtered = location;
+      if (settings.kalmanEnabled) {
+        ({ location: filtered, kalman } = this.smooth(
+          location,
+          kalman,
+          settings.kalmanProcessNoise
+        ));
+      }
+      accepted.push(filtered);
+      previous = location;
+    }
+
+    if (rejections.length > 0) {
+      await RejectedLocation.insertMany(rejections);
+    }
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    await LocationFilterStats.updateOne(
+      { userId, date: today },
+      {
+        $inc: {
+          accepted: accepted.length,
+          "rejected.accuracy": rejected.accuracy,
+          "rejected.speed": rejected.speed,
+          "rejected.duplicate": rejected.duplicate,
+        },
+        $setOnInsert: { organizationId },
+      },
+      { upsert: true }
+    );
+
+    const last = accepted[accepted.length - 1];
+    if (last) {
+      const state = await LocationFilterState.findOne({ userId });
+      const stateTime = state?.lastAccepted
+        ? new Date(state.lastAccepted.timestamp).getTime()
+        : 0;
+      if (new Date(last.timestamp).getTime() > stateTime) {
+        const { position, ...lastAccepted } = last;
+        await LocationFilterState.updateOne(
+          { userId },
+          {
+            lastAccepted,
+            $unset: { kalman: 1 },
+            $setOnInsert: { organizationId },
+          },
+          { upsert: true }
+        );
+      }
+    }
+
+    return { accepted, rejected };
+  }
+
+  // Decide whether a point should be kept, compared to the last kept point
+  static evaluate(
+    location: ILocation,
+    previous: ILocation | undefined,
+    settings: FilterSettings
+  ): Omit<FilterResult, "location"> {
+    if (
+      location.accuracy !== undefined &&
+      location.accuracy > settings.maxAccuracy
+    ) {
+      return {
+        accepted: false,
+        reason: "accuracy",
+        details: `Accuracy ${Math.round(location.accuracy)}m exceeds ${
+          settings.maxAccuracy
+        }m`,
+      };
+    }
+
+    if (!previous) return { accepted: true };
+
+    const elapsed =
+      (new Date(location.timestamp).getTime() -
+        new Date(previous.timestamp).getTime()) /
+      1000;
+    if (elapsed <= 0) {
+      return {
+        accepted: false,
+        reason: "duplicate",
+        details: "Timestamp is not newer than the last accepted point",
+      };
+    }
+
+    const distance = GeoUtils.distanceInMeters(previous, location);
+
+    // Give both fixes the benefit of their accuracy radius
+    const uncertainty =
+      (location.accuracy ?? DEFAULT_ACCURACY) +
+      (previous.accuracy ?? DEFAULT_ACCURACY);
+    const impliedSpeed = Math.max(0, distance - uncertainty) / elapsed;
+    if (impliedSpeed > settings.maxSpeed) {
+      return {
+        accepted: false,
+        reason: "speed",
+        details: `Implied speed ${impliedSpeed.toFixed(1)}m/s exceeds ${
+          settings.maxSpeed
+        }m/s`,
+      };
+    }
+
+    if (
+      distance < settings.minDistance &&
+      elapsed < settings.stationaryInterval
+    ) {
+      return {
+        accepted: false,
+        reason: "duplicate",
+        details: `Moved ${distance.toFixed(1)}m in ${Math.round(elapsed)}s`,
+      };
+    }
+
+    return { accepted: true };
+  }
+
+  // Smooth a point with a simple Kalman filter on latitude/longitude
+  static smooth(
+    location: ILocation,
+    previous: KalmanState | undefined,
+    processNoise: number
+  ): { location: ILocation; kalman: KalmanState } {
+    const accuracy = Math.max(location.accuracy ?? DEFAULT_ACCURACY, 1);
+    const timestamp = new Date(location.timestamp);
+
+    if (!previous) {
+      return {
+        location,
+        kalman: {
+          latitude: location.latitude,
+          longitude: location.longitude,
+          variance: accuracy * accuracy,
+          timestamp,
+        },
+      };
+    }
+
+    const elapsed = Math.max(
+      (timestamp.getTime() - new Date(previous.timestamp).getTime()) / 1000,
+      0
+    );
+    const predictedVariance =
+      previous.variance + elapsed * processNoise * processNoise;
+    const gain = predictedVariance / (predictedVariance + accuracy * accuracy);
+
+    const latitude =
+      previous.latitude + gain * (location.latitude - previous.latitude);
+    const longitude =
+      previous.longitude + gain * (location.longitude - previous.longitude);
+
+    return {
+      location: { ...location, latitude, longitude },
+      kalman: {
+        latitude,
+        longitude,
+        variance: (1 - gain) * predictedVariance,
+        timestamp,
+      },
+    };
+  }
+
+  // Get filter settings for an organization
+  static async getSettings(organizationId: string): Promise<TrackingResponse> {
+    try {
+      const settings = await LocationFilterSettings.findOne({ organizationId });
+
+      return {
+        success: true,
+        message: "Location filter settings retrieved successfully",
+        data: settings ?? { organizationId, ...DEFAULT_FILTER_SETTINGS },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to get location filter settings"
+      );
+    }
+  }
+
+  // Update filter settings for an organization
+  static async updateSettings(
+    organizationId: string,
+    updatedBy: string,
+    data: Partial<FilterSettings>
+  ): Promise<TrackingResponse> {
+    try {
+      const settings = await LocationFilterSettings.findOneAndUpdate(
+        { organizationId },
+        { ...data, organizationId, updatedBy },
+        {
+          new: true,
+          upsert: true,
+          runValidators: true,
+          setDefaultsOnInsert: true,
+        }
+      );
+
+      this.settingsCache.delete(organizationId);
+
+      // Smoothing restarts from the next point after the settings change
+      if (data.kalmanEnabled !== undefined || data.kalmanProcessNoise) {
+        await LocationFilterState.updateMany(
+          { organizationId },
+          { $unset: { kalman: 1 } }
+        );
+      }
+
+      return {
+        success: true,
+        message: "Location filter settings updated successfully",
+        data: settings,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to update location filter settings"
+      );
+    }
+  }
+
+  // Get rejected points for an organization
+  static async getRejectedLocations(
+    organizationId: string,
+    filters: RejectedLocationQuery
+  ): Promise<TrackingResponse> {
+    try {
+      const { page = 1, limit = 50 } = filters;
+      const query: any = { organizationId };
+
+      if (filters.userId) query.userId = filters.userId;
+      if (filters.reason) query.reason = filters.reason;
+      if (filters.startDate || filters.endDate) {
+        query.createdAt = {};
+        if (filters.startDate) query.createdAt.$gte = filters.startDate;
+        if (filters.endDate) query.createdAt.$lte = filters.endDate;
+      }
+
+      const skip = (page - 1) * limit;
+
+      const rejections = await RejectedLocation.find(query)
+        .populate("userId", "name email")
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit);
+
+      const total = await RejectedLocation.countDocuments(query);
+
+      return {
+        success: true,
+        message: "Rejected locations retrieved successfully",
+        data: {
+          rejections,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit),
+          },
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to get rejected locations"
+      );
+    }
+  }
+
+  // Get accepted/rejected point counts per user
+  static async getFilterStats(
+    organizationId: string,
+    userId?: string,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<TrackingResponse> {
+    try {
+      const match: any = { organizationId };
+
+      if (userId) match.userId = userId;
+      if (startDate || endDate) {
+        match.date = {};
+        if (startDate) match.date.$gte = startDate;
+        if (endDate) match.date.$lte = endDate;
+      }
+
+      const users = await LocationFilterStats.aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: "$userId",
+            accepted: { $sum: "$accepted" },
+            accuracy: { $sum: "$rejected.accuracy" },
+            speed: { $sum: "$rejected.speed" },
+            duplicate: { $sum: "$rejected.duplicate" },
+          },
+        },
+        {
+          $project: {
+            _id: 0,
+            userId: "$_id",
+            accepted: 1,
+            rejected: {
+              accuracy: "$accuracy",
+              speed: "$speed",
+              duplicate: "$duplicate",
+            },
+          },
+        },
+        { $sort: { "rejected.speed": -1, "rejected.accuracy": -1 } },
+      ]);
+
+      const totals = users.reduce(
+        (acc, user) => ({
+          accepted: acc.accepted + user.accepted,
+          rejected: {
+            accuracy: acc.rejected.accuracy + user.rejected.accuracy,
+            speed: acc.rejected.speed + user.rejected.speed,
+            duplicate: acc.rejected.duplicate + user.rejected.duplicate,
+          },
+        }),
+        { accepted: 0, rejected: { accuracy: 0, speed: 0, duplicate: 0 } }
+      );
+
+      return {
+        success: true,
+        message: "Location filter statistics retrieved successfully",
+        data: { totals, users },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to get location filter statistics"
+      );
+    }
+  }
+
+  // Helper method to load settings with a short in-memory cache
+  private static async loadSettings(
+    organizationId: string
+  ): Promise<FilterSettings> {
+    const cached = this.settingsCache.get(organizationId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.settings;
+    }
+
+    const stored = await LocationFilterSettings.findOne({
+      organizationId,
+    }).lean();
+    const settings: FilterSettings = {
+      ...DEFAULT_FILTER_SETTINGS,
+      ...(stored && {
+        enabled: stored.enabled,
+        maxAccuracy: stored.maxAccuracy,
+        maxSpeed: stored.maxSpeed,
+        minDistance: stored.minDistance,
+        stationaryInterval: stored.stationaryInterval,
+        kalmanEnabled: stored.kalmanEnabled,
+        kalmanProcessNoise: stored.kalmanProcessNoise,
+      }),
+    };
+
+    this.settingsCache.set(organizationId, {
+      settings,
+      expiresAt: Date.now() + this.SETTINGS_CACHE_TTL,
+    });
+
+    return settings;
+  }
+
+  // Helper method to persist filter state for an accepted point
+  private static async recordAcceptance(
+    userId: string,
+    organizationId: string,
+    location: ILocation,
+    kalman: KalmanState | undefined,
+    state: ILocationFilterState | null
+  ): Promise<void> {
+    const { position, ...lastAccepted } = location;
+
+    if (state) {
+      state.lastAccepted = lastAccepted;
+      state.kalman = kalman;
+      await state.save();
+    } else {
+      await LocationFilterState.create({
+        userId,
+        organizationId,
+        lastAccepted,
+        kalman,
+      });
+    }
+
+    await this.incrementStats(userId, organizationId, "accepted");
+  }
+
+  // Helper method to count and store a rejected point
+  private static async recordRejection(
+    userId: string,
+    organizationId: string,
+    location: ILocation,
+    verdict: Omit<FilterResult, "location">
+  ): Promise<void> {
+    const reason = verdict.reason!;
+
+    // Stationary jitter is only counted, it would flood the collection
+    if (reason !== "duplicate") {
+      const { position, ...rejected } = location;
+      await RejectedLocation.create({
+        userId,
+        organizationId,
+        location: rejected,
+        reason,
+        details: verdict.details,
+      });
+    }
+
+    await this.incrementStats(userId, organizationId, `rejected.${reason}`);
+  }
+
+  // Helper method to bump a daily counter
+  private static async incrementStats(
+    userId: string,
+    organizationId: string,
+    field: string
+  ): Promise<void> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    await LocationFilterStats.updateOne(
+      { userId, date: today },
+      { $inc: { [field]: 1 }, $setOnInsert: { organizationId } },
+      { upsert: true }
+    );
+  }
+}
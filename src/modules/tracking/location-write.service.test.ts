@@ -0,0 +1,70 @@
+import { LocationWriteService } from "./location-write.service";
+import { RealtimeLocationData } from "./realtime-tracking.service";
+import LocationTracking from "./tracking.model";
+
+const now = new Date("2026-01-01T12:00:00Z");
+
+// A point the given number of meters north, stamped with the current time
+const point = (meters: number, isActive = true): RealtimeLocationData => ({
+  userId: "rider-1",
+  organizationId: "org-1",
+  location: {
+    latitude: 52.5 + meters / 111195,
+    longitude: 13.4,
+    timestamp: new Date(),
+  },
+  isActive,
+});
+
+describe("LocationWriteService", () => {
+  let tracking: { location?: unknown; save: jest.Mock };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    tracking = { save: jest.fn() };
+    jest
+      .spyOn(LocationTracking, "findOne")
+      .mockResolvedValue(tracking as never);
+  });
+
+  afterEach(() => {
+    // Let the flusher see nothing is left and stop
+    LocationWriteService.forget("rider-1");
+    jest.advanceTimersByTime(1000);
+    jest.useRealTimers();
+  });
+
+  it("holds back points that arrive too soon and too close", async () => {
+    expect(await LocationWriteService.write(point(0))).toBe(true);
+    expect(await LocationWriteService.write(point(5))).toBe(false);
+    expect(tracking.save).toHaveBeenCalledTimes(1);
+  });
+
+  it("writes straight away after a long move or a change of state", async () => {
+    await LocationWriteService.write(point(0));
+
+    expect(await LocationWriteService.write(point(30))).toBe(true);
+    expect(await LocationWriteService.write(point(30, false))).toBe(true);
+  });
+
+  it("writes the latest held back point once it is due", async () => {
+    await LocationWriteService.write(point(0));
+    await LocationWriteService.write(point(5));
+    const latest = point(10);
+    await LocationWriteService.write(latest);
+
+    await jest.advanceTimersByTimeAsync(10 * 1000);
+
+    expect(tracking.save).toHaveBeenCalledTimes(2);
+    expect(tracking.location).toBe(latest.location);
+  });
+
+  it("writes a held back point on demand", async () => {
+    await LocationWriteService.write(point(0));
+    await LocationWriteService.write(point(5));
+
+    await LocationWriteService.flush("rider-1");
+
+    expect(tracking.save).toHaveBeenCalledTimes(2);
+  });
+});
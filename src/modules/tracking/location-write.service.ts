@@ -0,0 +1,125 @@
+import { env } from "../../config/env";
+import { GeoUtils } from "./geo.utils";
+import type { RealtimeLocationData } from "./realtime-tracking.service";
+import LocationTracking from "./tracking.model";
+
+// Last point persisted for a rider
+interface LastWrite {
+  latitude: number;
+  longitude: number;
+  isActive: boolean;
+  writtenAt: number;
+}
+
+// How often deferred points are checked for being due
+const FLUSH_INTERVAL = 1000;
+
+// Coalesces live points so each rider is written at most every
+// LOCATION_WRITE_INTERVAL seconds, unless they moved LOCATION_WRITE_DISTANCE
+// meters. The latest deferred point is written once it is due.
+export class LocationWriteService {
+  private static lastWrites: Map<string, LastWrite> = new Map();
+  private static pending: Map<string, RealtimeLocationData> = new Map();
+  private static flushTimer?: NodeJS.Timeout;
+
+  // Persist a point now or keep it for later, returns whether it was written
+  static async write(data: RealtimeLocationData): Promise<boolean> {
+    const last = this.lastWrites.get(data.userId);
+    if (last && !this.isDue(last, data)) {
+      this.pending.set(data.userId, data);
+      this.startFlusher();
+      return false;
+    }
+
+    // Anything deferred earlier is older than this point
+    this.pending.delete(data.userId);
+    await this.persist(data);
+    return true;
+  }
+
+  // Persist a rider's deferred point right away, if there is one
+  static async flush(userId: string): Promise<void> {
+    const data = this.pending.get(userId);
+    if (data) await this.persist(data);
+  }
+
+  // Drop everything kept for a rider
+  static forget(userId: string) {
+    this.pending.delete(userId);
+    this.lastWrites.delete(userId);
+  }
+
+  // Helper method to decide whether a point must be written now
+  private static isDue(last: LastWrite, data: RealtimeLocationData): boolean {
+    if (last.isActive !== data.isActive) return true;
+    if (Date.now() - last.writtenAt >= env.LOCATION_WRITE_INTERVAL * 1000) {
+      return true;
+    }
+    return (
+      GeoUtils.distanceInMeters(last, data.location) >=
+      env.LOCATION_WRITE_DISTANCE
+    );
+  }
+
+  // Helper method to write deferred points whose interval has passed
+  private static startFlusher() {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setInterval(async () => {
+      for (const [userId, data] of this.pending) {
+        const last = this.lastWrites.get(userId);
+        if (last && !this.isDue(last, data)) continue;
+        try {
+          await this.persist(data);
+        } catch (error) {
+          console.error("Location write error:", error);
+        }
+      }
+
+      if (this.pending.size === 0) {
+        clearInterval(this.flushTimer);
+        this.flushTimer = undefined;
+      }
+    }, FLUSH_INTERVAL);
+    this.flushTimer.unref();
+  }
+
+  // Helper method to update the rider's active tracking record
+  private static async persist(data: RealtimeLocationData) {
+    if (this.pending.get(data.userId) === data) {
+      this.pending.delete(data.userId);
+    }
+    this.lastWrites.set(data.userId, {
+      latitude: data.location.latitude,
+      longitude: data.location.longitude,
+      isActive: data.isActive,
+      writtenAt: Date.now(),
+    });
+
+    const existingTracking = await LocationTracking.findOne({
+      userId: data.userId,
+      isActive: true,
+    });
+
+    if (existingTracking) {
+      existingTracking.location = data.location;
+      existingTracking.batteryLevel = data.batteryLevel;
+      existingTracking.networkType = data.networkType;
+      existingTracking.deviceInfo = data.deviceInfo;
+      existingTracking.isActive = data.isActive;
+      existingTracking.updatedAt = new Date();
+      await existingTracking.save();
+    } else {
+      const newTracking = new LocationTracking({
+        userId: data.userId,
+        organizationId: data.organizationId,
+        location: data.location,
+        isActive: data.isActive,
+        batteryLevel: data.batteryLevel,
+        networkType: data.networkType,
+        deviceInfo: data.deviceInfo,
+      });
+      await newTracking.save();
+    }
+  }
+}
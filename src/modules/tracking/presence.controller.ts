@@ -0,0 +1,79 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../auth/auth.interface";
+import { PresenceState } from "./presence.model";
+import { PresenceService } from "./presence.service";
+
+export class PresenceController {
+  // Get presence of every rider in organization
+  static async getSnapshot(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+
+      const result = await PresenceService.getSnapshot(
+        organizationId,
+        req.query.state as PresenceState | undefined
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to get rider presence";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Get presence settings for organization
+  static async getSettings(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+
+      const result = await PresenceService.getSettings(organizationId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to get presence settings";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Update presence settings for organization
+  static async updateSettings(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = req.user!.organizationId!;
+      const updatedBy = req.user!.userId;
+
+      const result = await PresenceService.updateSettings(
+        organizationId,
+        updatedBy,
+        req.body
+      );
+
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to update presence settings";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+}
@@ -0,0 +1,180 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type PresenceState = "online" | "moving" | "idle" | "stale" | "offline";
+
+export const PRESENCE_STATES: PresenceState[] = [
+  "online",
+  "moving",
+  "idle",
+  "stale",
+  "offline",
+];
+
+// Per-organization presence thresholds interface
+export interface IPresenceSettings extends Document {
+  organizationId: string;
+  heartbeatInterval: number; // in seconds, how often riders are asked to beat
+  movingSpeed: number; // in m/s, slower riders are not moving
+  idleAfter: number; // in seconds without movement
+  staleAfter: number; // in seconds without any heartbeat or point
+  offlineAfter: number; // in seconds without any heartbeat or point
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Rider presence interface
+export interface IRiderPresence extends Document {
+  userId: string;
+  organizationId: string;
+  state: PresenceState;
+  stateSince: Date;
+  onlineSince?: Date;
+  disconnectedAt?: Date;
+  lastHeartbeatAt?: Date;
+  lastLocationAt?: Date;
+  lastMovedAt?: Date;
+  lastCheckInAt?: Date;
+  lastLocation?: {
+    latitude: number;
+    longitude: number;
+    speed?: number;
+    timestamp: Date;
+  };
+  batteryLevel?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Presence Settings Schema
+const presenceSettingsSchema = new Schema<IPresenceSettings>(
+  {
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: true,
+      unique: true,
+    },
+    heartbeatInterval: {
+      type: Number,
+      min: 5,
+      default: 30,
+    },
+    movingSpeed: {
+      type: Number,
+      min: 0.1,
+      default: 1.5, // ~5 km/h
+    },
+    idleAfter: {
+      type: Number,
+      min: 30,
+      default: 300,
+    },
+    staleAfter: {
+      type: Number,
+      min: 10,
+      default: 120,
+    },
+    offlineAfter: {
+      type: Number,
+      min: 60,
+      default: 900,
+    },
+    updatedBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Rider Presence Schema
+const riderPresenceSchema = new Schema<IRiderPresence>(
+  {
+    userId: {
+      type: String,
+      ref: "DeliveryUser",
+      required: true,
+      unique: true,
+    },
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: true,
+    },
+    state: {
+      type: String,
+      enum: PRESENCE_STATES,
+      default: "offline",
+    },
+    stateSince: {
+      type: Date,
+      default: Date.now,
+    },
+    onlineSince: {
+      type: Date,
+    },
+    disconnectedAt: {
+      type: Date,
+    },
+    lastHeartbeatAt: {
+      type: Date,
+    },
+    lastLocationAt: {
+      type: Date,
+    },
+    lastMovedAt: {
+      type: Date,
+    },
+    lastCheckInAt: {
+      type: Date,
+    },
+    lastLocation: {
+      latitude: Number,
+      longitude: Number,
+      speed: Number,
+      timestamp: Date,
+    },
+    batteryLevel: {
+      type: Number,
+      min: 0,
+      max: 100,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better performance
+riderPresenceSchema.index({ organizationId: 1, state: 1 });
+riderPresenceSchema.index({ state: 1 });
+
+// Transform toJSON
+presenceSettingsSchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+riderPresenceSchema.set("toJSON", {
+  transform: function (doc, ret) {
+    const { __v, ...cleanRet } = ret;
+    return cleanRet;
+  },
+});
+
+// Models
+export const PresenceSettings = mongoose.model<IPresenceSettings>(
+  "PresenceSettings",
+  presenceSettingsSchema
+);
+
+export const RiderPresence = mongoose.model<IRiderPresence>(
+  "RiderPresence",
+  riderPresenceSchema
+);
+
+export default PresenceSettings;
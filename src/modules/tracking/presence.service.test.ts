@@ -0,0 +1,144 @@
+import { DEFAULT_PRESENCE_SETTINGS, PresenceService } from "./presence.service";
+import PresenceSettings, { RiderPresence } from "./presence.model";
+import { RealtimeTrackingService } from "./realtime-tracking.service";
+
+const now = new Date("2026-01-01T12:00:00Z");
+
+const secondsAgo = (seconds: number) =>
+  new Date(now.getTime() - seconds * 1000);
+
+const evaluate = (presence: Parameters<typeof PresenceService.evaluate>[0]) =>
+  PresenceService.evaluate(presence, DEFAULT_PRESENCE_SETTINGS, now);
+
+describe("PresenceService.evaluate", () => {
+  it("is offline without any sign of life", () => {
+    expect(evaluate({})).toBe("offline");
+    expect(evaluate({ lastHeartbeatAt: secondsAgo(900) })).toBe("offline");
+  });
+
+  it("goes stale when heartbeats stop or the socket drops", () => {
+    expect(evaluate({ lastHeartbeatAt: secondsAgo(120) })).toBe("stale");
+    expect(
+      evaluate({
+        lastHeartbeatAt: secondsAgo(10),
+        disconnectedAt: secondsAgo(5),
+      })
+    ).toBe("stale");
+  });
+
+  it("is moving while the latest point is fresh and fast", () => {
+    const moving = {
+      lastHeartbeatAt: secondsAgo(10),
+      lastLocationAt: secondsAgo(10),
+      lastLocation: { speed: 5 },
+    } as Parameters<typeof PresenceService.evaluate>[0];
+
+    expect(evaluate(moving)).toBe("moving");
+    expect(
+      evaluate({
+        ...moving,
+        lastHeartbeatAt: now,
+        lastLocationAt: secondsAgo(200),
+      })
+    ).toBe("online");
+  });
+
+  it("turns idle after standing still long enough", () => {
+    expect(
+      evaluate({
+        lastHeartbeatAt: secondsAgo(10),
+        onlineSince: secondsAgo(3600),
+        lastMovedAt: secondsAgo(300),
+      })
+    ).toBe("idle");
+    expect(
+      evaluate({
+        lastHeartbeatAt: secondsAgo(10),
+        onlineSince: secondsAgo(3600),
+        lastMovedAt: secondsAgo(60),
+      })
+    ).toBe("online");
+  });
+});
+
+describe("PresenceService.recordHeartbeat", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    jest
+      .spyOn(PresenceSettings, "findOne")
+      .mockReturnValue({ lean: async () => null } as never);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("announces a rider coming online", async () => {
+    const presence = {
+      _id: "presence-1",
+      userId: "rider-1",
+      organizationId: "org-1",
+      state: "offline",
+      lastHeartbeatAt: now,
+    };
+    const update = jest
+      .spyOn(RiderPresence, "findOneAndUpdate")
+      .mockResolvedValueOnce(presence as never)
+      .mockResolvedValueOnce(presence as never);
+    const send = jest
+      .spyOn(RealtimeTrackingService, "sendToOrganization")
+      .mockImplementation();
+
+    expect(await PresenceService.recordHeartbeat("rider-1", "org-1")).toBe(
+      "online"
+    );
+    expect(update).toHaveBeenLastCalledWith(
+      { _id: "presence-1", state: "offline" },
+      { $set: { state: "online", stateSince: now, onlineSince: now } },
+      { new: true }
+    );
+    expect(send).toHaveBeenCalledWith(
+      "org-1",
+      "presence_changed",
+      expect.objectContaining({ previousState: "offline", state: "online" })
+    );
+  });
+
+  it("stays quiet when another node already applied the change", async () => {
+    const presence = {
+      _id: "presence-1",
+      userId: "rider-1",
+      organizationId: "org-1",
+      state: "offline",
+      lastHeartbeatAt: now,
+    };
+    jest
+      .spyOn(RiderPresence, "findOneAndUpdate")
+      .mockResolvedValueOnce(presence as never)
+      .mockResolvedValueOnce(null);
+    const send = jest
+      .spyOn(RealtimeTrackingService, "sendToOrganization")
+      .mockImplementation();
+
+    await PresenceService.recordHeartbeat("rider-1", "org-1");
+
+    expect(send).not.toHaveBeenCalled();
+  });
+});
+
+describe("PresenceService.updateSettings", () => {
+  it("keeps the stale threshold below the offline one", async () => {
+    jest
+      .spyOn(PresenceService, "loadSettings")
+      .mockResolvedValue(DEFAULT_PRESENCE_SETTINGS);
+
+    expect(
+      await PresenceService.updateSettings("org-1", "admin-1", {
+        staleAfter: 900,
+      })
+    ).toEqual({
+      success: false,
+      message: "Stale threshold must be shorter than offline threshold",
+    });
+  });
+});
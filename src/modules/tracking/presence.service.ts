@@ -0,0 +1,417 @@
+import DeliveryUser from "../deliveryUser/delivery.model";
+import { GeoUtils } from "./geo.utils";
+import PresenceSettings, {
+  IRiderPresence,
+  PRESENCE_STATES,
+  PresenceState,
+  RiderPresence,
+} from "./presence.model";
+import { RealtimeTrackingService } from "./realtime-tracking.service";
+import LocationTracking, { ILocation } from "./tracking.model";
+import { TrackingResponse } from "./tracking.service";
+
+// Effective presence thresholds for an organization
+export interface PresenceThresholds {
+  heartbeatInterval: number;
+  movingSpeed: number;
+  idleAfter: number;
+  staleAfter: number;
+  offlineAfter: number;
+}
+
+// Heartbeat details sent by a rider
+export interface HeartbeatData {
+  batteryLevel?: number;
+}
+
+export const DEFAULT_PRESENCE_SETTINGS: PresenceThresholds = {
+  heartbeatInterval: 30,
+  movingSpeed: 1.5,
+  idleAfter: 300,
+  staleAfter: 120,
+  offlineAfter: 900,
+};
+
+// How often riders that went quiet are re-evaluated
+const SWEEP_INTERVAL = 15 * 1000;
+
+export class PresenceService {
+  private static settingsCache: Map<
+    string,
+    { settings: PresenceThresholds; expiresAt: number }
+  > = new Map();
+  private static readonly SETTINGS_CACHE_TTL = 60 * 1000;
+  private static sweepTimer?: NodeJS.Timeout;
+
+  // Record a sign of life from a rider
+  static async recordHeartbeat(
+    userId: string,
+    organizationId: string,
+    data: HeartbeatData = {}
+  ): Promise<PresenceState> {
+    const now = new Date();
+    const presence = await RiderPresence.findOneAndUpdate(
+      { userId },
+      {
+        $set: {
+          organizationId,
+          lastHeartbeatAt: now,
+          ...(data.batteryLevel !== undefined && {
+            batteryLevel: data.batteryLevel,
+          }),
+        },
+      },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+
+    return this.applyState(presence, now);
+  }
+
+  // Record an accepted point, which also counts as a heartbeat
+  static async recordLocation(
+    userId: string,
+    organizationId: string,
+    location: ILocation
+  ): Promise<PresenceState> {
+    const now = new Date();
+    const settings = await this.loadSettings(organizationId);
+    const previous = await RiderPresence.findOne({ userId });
+
+    // Fall back to the distance covered since the previous point when the
+    // device does not report its speed
+    let speed = location.speed;
+    if (speed === undefined && previous?.lastLocation?.timestamp) {
+      const elapsed =
+        (new Date(location.timestamp).getTime() -
+          new Date(previous.lastLocation.timestamp).getTime()) /
+        1000;
+      if (elapsed > 0) {
+        speed =
+          GeoUtils.distanceInMeters(previous.lastLocation, location) / elapsed;
+      }
+    }
+
+    const presence = await RiderPresence.findOneAndUpdate(
+      { userId },
+      {
+        $set: {
+          organizationId,
+          lastHeartbeatAt: now,
+          lastLocationAt: now,
+          lastLocation: {
+            latitude: location.latitude,
+            longitude: location.longitude,
+            speed,
+            timestamp: location.timestamp,
+          },
+          ...((speed ?? 0) >= settings.movingSpeed && { lastMovedAt: now }),
+        },
+      },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+
+    return this.applyState(presence, now);
+  }
+
+  // Record that the rider's last socket went away
+  static async recordDisconnect(
+    userId: string,
+    organizationId: string
+  ): Promise<PresenceState> {
+    const now = new Date();
+    const presence = await RiderPresence.findOneAndUpdate(
+      { userId },
+      { $set: { organizationId, disconnectedAt: now } },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+
+    return this.applyState(presence, now);
+  }
+
+  // Work out a rider's state from the time since their last heartbeat,
+  // last point and last movement
+  static evaluate(
+    presence: Pick<
+      IRiderPresence,
+      | "onlineSince"
+      | "disconnectedAt"
+      | "lastHeartbeatAt"
+      | "lastLocationAt"
+      | "lastMovedAt"
+      | "lastLocation"
+    >,
+    settings: PresenceThresholds,
+    now: Date = new Date()
+  ): PresenceState {
+    const lastSignal = Math.max(
+      presence.lastHeartbeatAt?.getTime() ?? 0,
+      presence.lastLocationAt?.getTime() ?? 0
+    );
+    if (!lastSignal) return "offline";
+
+    const silence = (now.getTime() - lastSignal) / 1000;
+    if (silence >= settings.offlineAfter) return "offline";
+    if (
+      silence >= settings.staleAfter ||
+      (presence.disconnectedAt &&
+        presence.disconnectedAt.getTime() >= lastSignal)
+    ) {
+      return "stale";
+    }
+
+    // Moving only while the latest point is fresh and fast enough
+    const sinceLastPoint = presence.lastLocationAt
+      ? (now.getTime() - presence.lastLocationAt.getTime()) / 1000
+      : Infinity;
+    if (
+      sinceLastPoint < settings.staleAfter &&
+      (presence.lastLocation?.speed ?? 0) >= settings.movingSpeed
+    ) {
+      return "moving";
+    }
+
+    // Time without movement counts from the latest move or reconnect
+    const stillSince = Math.max(
+      presence.lastMovedAt?.getTime() ?? 0,
+      presence.onlineSince?.getTime() ?? 0
+    );
+    if (
+      stillSince &&
+      (now.getTime() - stillSince) / 1000 >= settings.idleAfter
+    ) {
+      return "idle";
+    }
+
+    return "online";
+  }
+
+  // Get the presence of every rider in an organization
+  static async getSnapshot(
+    organizationId: string,
+    state?: PresenceState
+  ): Promise<TrackingResponse> {
+    try {
+      const now = new Date();
+      const settings = await this.loadSettings(organizationId);
+
+      const [deliveryUsers, presences, trackings] = await Promise.all([
+        DeliveryUser.find({ organizationId, status: "active" }).select(
+          "name phone vehicleType"
+        ),
+        RiderPresence.find({ organizationId }),
+        LocationTracking.find({ organizationId, isActive: true }).select(
+          "userId"
+        ),
+      ]);
+      const presenceByUser = new Map(
+        presences.map((presence) => [presence.userId, presence])
+      );
+      const trackingUsers = new Set(
+        trackings.map((tracking) => tracking.userId)
+      );
+
+      // States are evaluated on read so the snapshot does not wait for a sweep
+      const riders = deliveryUsers
+        .map((deliveryUser) => {
+          const userId = String(deliveryUser._id);
+          const presence = presenceByUser.get(userId);
+          const current = presence
+            ? this.evaluate(presence, settings, now)
+            : "offline";
+
+          return {
+            userId,
+            name: deliveryUser.name,
+            phone: deliveryUser.phone,
+            vehicleType: deliveryUser.vehicleType,
+            state: current,
+            stateSince:
+              presence && current === presence.state
+                ? presence.stateSince
+                : undefined,
+            isTracking: trackingUsers.has(userId),
+            lastHeartbeatAt: presence?.lastHeartbeatAt,
+            lastLocationAt: presence?.lastLocationAt,
+            lastMovedAt: presence?.lastMovedAt,
+            lastLocation: presence?.lastLocation,
+            batteryLevel: presence?.batteryLevel,
+          };
+        })
+        .filter((rider) => !state || rider.state === state);
+
+      const summary = Object.fromEntries(
+        PRESENCE_STATES.map((presenceState) => [presenceState, 0])
+      ) as Record<PresenceState, number>;
+      riders.forEach((rider) => summary[rider.state]++);
+
+      return {
+        success: true,
+        message: "Rider presence retrieved successfully",
+        data: {
+          riders,
+          summary,
+          settings,
+          generatedAt: now,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get rider presence"
+      );
+    }
+  }
+
+  // Get presence settings for an organization
+  static async getSettings(organizationId: string): Promise<TrackingResponse> {
+    try {
+      const settings = await PresenceSettings.findOne({ organizationId });
+
+      return {
+        success: true,
+        message: "Presence settings retrieved successfully",
+        data: settings ?? { organizationId, ...DEFAULT_PRESENCE_SETTINGS },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to get presence settings"
+      );
+    }
+  }
+
+  // Update presence settings for an organization
+  static async updateSettings(
+    organizationId: string,
+    updatedBy: string,
+    data: Partial<PresenceThresholds>
+  ): Promise<TrackingResponse> {
+    try {
+      const current = await this.loadSettings(organizationId);
+      const merged = { ...current, ...data };
+      if (merged.staleAfter >= merged.offlineAfter) {
+        return {
+          success: false,
+          message: "Stale threshold must be shorter than offline threshold",
+        };
+      }
+
+      const settings = await PresenceSettings.findOneAndUpdate(
+        { organizationId },
+        { ...data, organizationId, updatedBy },
+        {
+          new: true,
+          upsert: true,
+          runValidators: true,
+          setDefaultsOnInsert: true,
+        }
+      );
+
+      this.settingsCache.delete(organizationId);
+
+      return {
+        success: true,
+        message: "Presence settings updated successfully",
+        data: settings,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to update presence settings"
+      );
+    }
+  }
+
+  // Periodically move riders that went quiet to idle, stale and offline
+  static startMonitor() {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch((error) =>
+        console.error("Presence sweep error:", error)
+      );
+    }, SWEEP_INTERVAL);
+    this.sweepTimer.unref();
+  }
+
+  // Helper method to re-evaluate every rider that is not offline yet
+  private static async sweep() {
+    const now = new Date();
+    const presences = await RiderPresence.find({ state: { $ne: "offline" } });
+
+    for (const presence of presences) {
+      await this.applyState(presence, now);
+    }
+  }
+
+  // Helper method to store a new state and tell the organization about it.
+  // The update is conditional on the previous state so only one node
+  // announces a transition.
+  private static async applyState(
+    presence: IRiderPresence,
+    now: Date
+  ): Promise<PresenceState> {
+    const settings = await this.loadSettings(presence.organizationId);
+    const state = this.evaluate(presence, settings, now);
+    const previousState = presence.state;
+    if (state === previousState) return state;
+
+    const updated = await RiderPresence.findOneAndUpdate(
+      { _id: presence._id, state: previousState },
+      {
+        $set: {
+          state,
+          stateSince: now,
+          ...(previousState === "offline" && { onlineSince: now }),
+        },
+      },
+      { new: true }
+    );
+    if (!updated) return state;
+
+    RealtimeTrackingService.sendToOrganization(
+      presence.organizationId,
+      "presence_changed",
+      {
+        userId: presence.userId,
+        previousState,
+        state,
+        since: now,
+        lastHeartbeatAt: updated.lastHeartbeatAt,
+        lastLocationAt: updated.lastLocationAt,
+      }
+    );
+
+    return state;
+  }
+
+  // Load an organization's thresholds, with a short cache
+  static async loadSettings(
+    organizationId: string
+  ): Promise<PresenceThresholds> {
+    const cached = this.settingsCache.get(organizationId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.settings;
+    }
+
+    const stored = await PresenceSettings.findOne({ organizationId }).lean();
+    const settings: PresenceThresholds = {
+      ...DEFAULT_PRESENCE_SETTINGS,
+      ...(stored && {
+        heartbeatInterval: stored.heartbeatInterval,
+        movingSpeed: stored.movingSpeed,
+        idleAfter: stored.idleAfter,
+        staleAfter: stored.staleAfter,
+        offlineAfter: stored.offlineAfter,
+      }),
+    };
+
+    this.settingsCache.set(organizationId, {
+      settings,
+      expiresAt: Date.now() + this.SETTINGS_CACHE_TTL,
+    });
+
+    return settings;
+  }
+}
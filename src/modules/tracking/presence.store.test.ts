@@ -0,0 +1,143 @@
+import type Redis from "ioredis";
+import {
+  InMemoryPresenceStore,
+  PresenceStore,
+  RedisPresenceStore,
+} from "./presence.store";
+import { SocketRoom } from "./realtime-tracking.service";
+
+// Just enough of Redis for the presence store, kept in memory
+const fakeRedis = () => {
+  const hashes = new Map<string, Map<string, string>>();
+  const sets = new Map<string, Set<string>>();
+  const sortedSets = new Map<string, Map<string, number>>();
+  const hash = (key: string) => hashes.get(key) ?? new Map<string, string>();
+  const set = (key: string) => sets.get(key) ?? new Set<string>();
+  const sortedSet = (key: string) =>
+    sortedSets.get(key) ?? new Map<string, number>();
+
+  const commands = {
+    hset: async (key: string, field: string, value: string) => {
+      hashes.set(key, hash(key).set(field, value));
+    },
+    hget: async (key: string, field: string) => hash(key).get(field) ?? null,
+    hdel: async (key: string, field: string) => hash(key).delete(field),
+    hmget: async (key: string, ...fields: string[]) =>
+      fields.map((field) => hash(key).get(field) ?? null),
+    hvals: async (key: string) => Array.from(hash(key).values()),
+    sadd: async (key: string, member: string) => {
+      sets.set(key, set(key).add(member));
+    },
+    srem: async (key: string, member: string) => set(key).delete(member),
+    smembers: async (key: string) => Array.from(set(key)),
+    del: async (key: string) => sets.delete(key),
+    zadd: async (key: string, score: number, member: string) => {
+      sortedSets.set(key, sortedSet(key).set(member, score));
+    },
+    zrem: async (key: string, member: string) => sortedSet(key).delete(member),
+    zrangebyscore: async (key: string, min: number, max: number | "+inf") =>
+      Array.from(sortedSet(key))
+        .filter(([, score]) => score >= min && (max === "+inf" || score <= max))
+        .map(([member]) => member),
+  };
+
+  // Queue commands and run them in order on exec
+  const multi = () => {
+    const queued: (() => Promise<unknown>)[] = [];
+    const transaction: any = {
+      exec: async () => {
+        for (const command of queued) await command();
+      },
+    };
+    for (const [name, command] of Object.entries(commands)) {
+      transaction[name] = (...args: never[]) => {
+        queued.push(() => (command as Function)(...args));
+        return transaction;
+      };
+    }
+    return transaction;
+  };
+
+  return { ...commands, multi } as unknown as Redis;
+};
+
+const connection = (
+  socketId: string,
+  organizationId = "org-1"
+): SocketRoom => ({
+  userId: `user-${socketId}`,
+  organizationId,
+  role: "delivery_user",
+  socketId,
+  isTracking: false,
+  lastUpdate: new Date("2026-01-01T08:00:00Z"),
+});
+
+describe.each<[string, () => PresenceStore]>([
+  ["InMemoryPresenceStore", () => new InMemoryPresenceStore()],
+  ["RedisPresenceStore", () => new RedisPresenceStore(fakeRedis(), "node-1")],
+])("%s", (_name, createStore) => {
+  let store: PresenceStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2026-01-01T08:00:00Z") });
+    store = createStore();
+    if (store instanceof RedisPresenceStore) store.start();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    jest.useRealTimers();
+  });
+
+  it("lists connections per organization", async () => {
+    await store.setConnection(connection("a"));
+    await store.setConnection(connection("b", "org-2"));
+
+    expect(await store.getOrganizationConnections("org-1")).toEqual([
+      connection("a"),
+    ]);
+    expect(await store.getAllConnections()).toHaveLength(2);
+  });
+
+  it("applies updates and forgets removed connections", async () => {
+    await store.setConnection(connection("a"));
+    await store.updateConnection("a", { isTracking: true });
+    await store.updateConnection("unknown", { isTracking: true });
+
+    expect(await store.getOrganizationConnections("org-1")).toEqual([
+      { ...connection("a"), isTracking: true },
+    ]);
+
+    await store.removeConnection("a");
+    expect(await store.getOrganizationConnections("org-1")).toEqual([]);
+  });
+});
+
+describe("RedisPresenceStore nodes", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2026-01-01T08:00:00Z") });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("drops the connections of a node that stops heartbeating", async () => {
+    const redis = fakeRedis();
+    const survivor = new RedisPresenceStore(redis, "node-1");
+    const crashed = new RedisPresenceStore(redis, "node-2");
+    survivor.start();
+
+    // node-2 announces itself once and then goes silent without closing
+    await redis.zadd("geotrack:presence:nodes", Date.now(), "node-2");
+    await crashed.setConnection(connection("a"));
+    expect(await survivor.getAllConnections()).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(40 * 1000);
+
+    expect(await survivor.getAllConnections()).toEqual([]);
+    expect(await redis.smembers("geotrack:presence:org:org-1")).toEqual([]);
+    await survivor.close();
+  });
+});
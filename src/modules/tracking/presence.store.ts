@@ -0,0 +1,222 @@
+import type Redis from "ioredis";
+import type { SocketRoom } from "./realtime-tracking.service";
+
+// Shared view of who is connected, across every server process
+export interface PresenceStore {
+  readonly name: string;
+  setConnection(connection: SocketRoom): Promise<void>;
+  updateConnection(
+    socketId: string,
+    changes: Partial<Pick<SocketRoom, "isTracking" | "lastUpdate">>
+  ): Promise<void>;
+  removeConnection(socketId: string): Promise<void>;
+  getOrganizationConnections(organizationId: string): Promise<SocketRoom[]>;
+  getAllConnections(): Promise<SocketRoom[]>;
+  close(): Promise<void>;
+}
+
+export type PresenceStoreName = "memory" | "redis";
+
+// Presence kept in this process only, for single-node setups and tests
+export class InMemoryPresenceStore implements PresenceStore {
+  readonly name = "memory";
+  private connections: Map<string, SocketRoom> = new Map();
+  private organizationRooms: Map<string, Set<string>> = new Map();
+
+  async setConnection(connection: SocketRoom): Promise<void> {
+    this.connections.set(connection.socketId, { ...connection });
+
+    if (!this.organizationRooms.has(connection.organizationId)) {
+      this.organizationRooms.set(connection.organizationId, new Set());
+    }
+    this.organizationRooms
+      .get(connection.organizationId)!
+      .add(connection.socketId);
+  }
+
+  async updateConnection(
+    socketId: string,
+    changes: Partial<Pick<SocketRoom, "isTracking" | "lastUpdate">>
+  ): Promise<void> {
+    const connection = this.connections.get(socketId);
+    if (connection) Object.assign(connection, changes);
+  }
+
+  async removeConnection(socketId: string): Promise<void> {
+    const connection = this.connections.get(socketId);
+    if (!connection) return;
+
+    const orgRoom = this.organizationRooms.get(connection.organizationId);
+    if (orgRoom) {
+      orgRoom.delete(socketId);
+      if (orgRoom.size === 0) {
+        this.organizationRooms.delete(connection.organizationId);
+      }
+    }
+    this.connections.delete(socketId);
+  }
+
+  async getOrganizationConnections(
+    organizationId: string
+  ): Promise<SocketRoom[]> {
+    const orgRoom = this.organizationRooms.get(organizationId);
+    if (!orgRoom) return [];
+
+    return Array.from(orgRoom)
+      .map((socketId) => this.connections.get(socketId))
+      .filter((connection) => connection !== undefined) as SocketRoom[];
+  }
+
+  async getAllConnections(): Promise<SocketRoom[]> {
+    return Array.from(this.connections.values());
+  }
+
+  async close(): Promise<void> {
+    this.connections.clear();
+    this.organizationRooms.clear();
+  }
+}
+
+// Nodes that miss heartbeats for this long are treated as gone
+const NODE_TIMEOUT = 30 * 1000;
+const HEARTBEAT_INTERVAL = 10 * 1000;
+
+// Presence shared through Redis. Each process heartbeats under its node id
+// so connections of a crashed process are dropped by the survivors.
+export class RedisPresenceStore implements PresenceStore {
+  readonly name = "redis";
+  private heartbeat?: NodeJS.Timeout;
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly nodeId: string,
+    private readonly prefix = "geotrack:presence:"
+  ) {}
+
+  // Start announcing this node and pruning dead ones
+  start() {
+    const beat = () => {
+      this.beat().catch((error) =>
+        console.error("Presence heartbeat error:", error)
+      );
+    };
+    beat();
+    this.heartbeat = setInterval(beat, HEARTBEAT_INTERVAL);
+    this.heartbeat.unref();
+  }
+
+  async setConnection(connection: SocketRoom): Promise<void> {
+    await this.redis
+      .multi()
+      .hset(
+        this.key("connections"),
+        connection.socketId,
+        JSON.stringify({ ...connection, nodeId: this.nodeId })
+      )
+      .sadd(this.key(`org:${connection.organizationId}`), connection.socketId)
+      .sadd(this.key(`node:${this.nodeId}`), connection.socketId)
+      .exec();
+  }
+
+  async updateConnection(
+    socketId: string,
+    changes: Partial<Pick<SocketRoom, "isTracking" | "lastUpdate">>
+  ): Promise<void> {
+    const raw = await this.redis.hget(this.key("connections"), socketId);
+    if (!raw) return;
+
+    await this.redis.hset(
+      this.key("connections"),
+      socketId,
+      JSON.stringify({ ...JSON.parse(raw), ...changes })
+    );
+  }
+
+  async removeConnection(socketId: string): Promise<void> {
+    const raw = await this.redis.hget(this.key("connections"), socketId);
+    if (!raw) return;
+
+    const connection = JSON.parse(raw);
+    await this.redis
+      .multi()
+      .hdel(this.key("connections"), socketId)
+      .srem(this.key(`org:${connection.organizationId}`), socketId)
+      .srem(this.key(`node:${connection.nodeId}`), socketId)
+      .exec();
+  }
+
+  async getOrganizationConnections(
+    organizationId: string
+  ): Promise<SocketRoom[]> {
+    const socketIds = await this.redis.smembers(
+      this.key(`org:${organizationId}`)
+    );
+    if (socketIds.length === 0) return [];
+
+    const raw = await this.redis.hmget(this.key("connections"), ...socketIds);
+    return this.parseLive(raw);
+  }
+
+  async getAllConnections(): Promise<SocketRoom[]> {
+    const raw = await this.redis.hvals(this.key("connections"));
+    return this.parseLive(raw);
+  }
+
+  // Withdraw this node's connections and stop heartbeating
+  async close(): Promise<void> {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    await this.removeNode(this.nodeId);
+  }
+
+  // Helper method to refresh this node and prune nodes that went silent
+  private async beat() {
+    const now = Date.now();
+    await this.redis.zadd(this.key("nodes"), now, this.nodeId);
+
+    const deadNodes = await this.redis.zrangebyscore(
+      this.key("nodes"),
+      0,
+      now - NODE_TIMEOUT
+    );
+    for (const nodeId of deadNodes) {
+      await this.removeNode(nodeId);
+    }
+  }
+
+  // Helper method to drop every connection a node owned
+  private async removeNode(nodeId: string) {
+    const socketIds = await this.redis.smembers(this.key(`node:${nodeId}`));
+    for (const socketId of socketIds) {
+      await this.removeConnection(socketId);
+    }
+    await this.redis
+      .multi()
+      .del(this.key(`node:${nodeId}`))
+      .zrem(this.key("nodes"), nodeId)
+      .exec();
+  }
+
+  // Helper method to parse stored connections, skipping those of dead nodes
+  private async parseLive(raw: (string | null)[]): Promise<SocketRoom[]> {
+    const liveNodes = new Set(
+      await this.redis.zrangebyscore(
+        this.key("nodes"),
+        Date.now() - NODE_TIMEOUT,
+        "+inf"
+      )
+    );
+
+    return raw
+      .filter((value): value is string => value !== null)
+      .map((value) => JSON.parse(value))
+      .filter((connection) => liveNodes.has(connection.nodeId))
+      .map(({ nodeId, ...connection }) => ({
+        ...connection,
+        lastUpdate: new Date(connection.lastUpdate),
+      }));
+  }
+
+  private key(name: string): string {
+    return `${this.prefix}${name}`;
+  }
+}
@@ -1,7 +1,9 @@
 import { Router } from "express";
 import { AuthMiddleware } from "../../middlewares/auth.middleware";
 import { UserRole } from "../auth/auth.interface";
-import User from "../user/user.model";
+import { TrackingLinkService } from "../orders/tracking-link.service";
+import DeliveryUser from "../deliveryUser/delivery.model";
+import { IdentityService } from "../identity/identity.service";
 import { GoogleMapsService } from "./google-maps.service";
 import { RealtimeTrackingService } from "./realtime-tracking.service";
 
@@ -70,7 +72,7 @@ router.get(
       const organizationId = req.user!.organizationId!;
 
       // Verify user belongs to the same organization
-      const user = await User.findById(userId);
+      const user = await IdentityService.findProfile(userId);
       if (!user || user.organizationId?.toString() !== organizationId) {
         return res.status(403).json({
           success: false,
@@ -79,7 +81,7 @@ router.get(
       }
 
       const activeConnections =
-        RealtimeTrackingService.getActiveConnections(organizationId);
+        await RealtimeTrackingService.getActiveConnections(organizationId);
       const userConnection = activeConnections.find(
         (conn) => conn.userId === userId
       );
@@ -119,9 +121,7 @@ router.get(
     try {
       const { userId } = req.params;
 
-      const allConnections = Array.from(
-        RealtimeTrackingService.activeConnections.values()
-      );
+      const allConnections = await RealtimeTrackingService.getAllConnections();
       const userConnection = allConnections.find(
         (conn) => conn.userId === userId
       );
@@ -165,7 +165,7 @@ router.get(
 
       if (userId) {
         // Get history for specific user (verify they belong to organization)
-        const user = await User.findById(userId);
+        const user = await IdentityService.findProfile(userId as string);
         if (!user || user.organizationId?.toString() !== organizationId) {
           return res.status(403).json({
             success: false,
@@ -188,10 +188,7 @@ router.get(
         res.json(result);
       } else {
         // Get all users' history for organization
-        const users = await User.find({
-          organizationId,
-          role: "delivery_user",
-        });
+        const users = await DeliveryUser.find({ organizationId });
         const allHistory = [];
 
         for (const user of users) {
@@ -257,10 +254,7 @@ router.get(
         res.json(result);
       } else if (organizationId) {
         // Get all users' history for specific organization
-        const users = await User.find({
-          organizationId,
-          role: "delivery_user",
-        });
+        const users = await DeliveryUser.find({ organizationId });
         const allHistory = [];
 
         for (const user of users) {
@@ -288,7 +282,7 @@ router.get(
         });
       } else {
         // Get all users' history from all organizations
-        const users = await User.find({ role: "delivery_user" }).populate(
+        const users = await DeliveryUser.find().populate(
           "organizationId",
           "name companyName"
         );
@@ -382,14 +376,20 @@ router.post(
         });
       }
 
+      const broadcast = {
+        message,
+        type,
+        timestamp: new Date(),
+      };
       RealtimeTrackingService.sendToOrganization(
         organizationId,
         "admin_broadcast",
-        {
-          message,
-          type,
-          timestamp: new Date(),
-        }
+        broadcast
+      );
+      RealtimeTrackingService.sendToRiders(
+        organizationId,
+        "admin_broadcast",
+        broadcast
       );
 
       res.json({
@@ -654,42 +654,19 @@ router.post("/nearby-places", AuthMiddleware.verifyToken, async (req, res) => {
 
 // ==================== CUSTOMER ROUTES ====================
 
-// Customer joins delivery tracking room
-router.post("/customer/track-delivery/:deliveryUserId", async (req, res) => {
+// Get delivery tracking information through a share link (Customer)
+router.get("/customer/track/:token", async (req, res) => {
   try {
-    const { deliveryUserId } = req.params;
+    const { token } = req.params;
 
-    // Verify delivery user exists and is active
-    const deliveryUser = await User.findById(deliveryUserId);
-    if (!deliveryUser || deliveryUser.role !== "delivery_user") {
-      return res.status(404).json({
-        success: false,
-        message: "Delivery user not found",
-      });
-    }
-
-    // Check if delivery user is currently tracking
-    const { TrackingService } = await import("./tracking.service");
-    const tracking = await TrackingService.getCurrentLocation(deliveryUserId);
-
-    if (!tracking.success) {
-      return res.status(404).json({
-        success: false,
-        message: "Delivery user is not currently tracking",
-      });
+    const result = await TrackingLinkService.getTrackingInfo(token);
+    if (!result.success) {
+      return res
+        .status(result.message === "Tracking link not found" ? 404 : 403)
+        .json(result);
     }
 
-    res.json({
-      success: true,
-      data: {
-        deliveryUserId,
-        deliveryUserName: deliveryUser.name,
-        isTracking: true,
-        currentLocation: tracking.data?.location,
-        lastUpdate: tracking.data?.updatedAt,
-      },
-      message: "Delivery tracking information retrieved successfully",
-    });
+    res.json(result);
   } catch (error) {
     console.error("Customer track delivery error:", error);
     res.status(500).json({
@@ -699,33 +676,4 @@ router.post("/customer/track-delivery/:deliveryUserId", async (req, res) => {
   }
 });
 
-// Get delivery user's current location (for customers)
-router.get("/customer/delivery/:deliveryUserId/location", async (req, res) => {
-  try {
-    const { deliveryUserId } = req.params;
-
-    const { TrackingService } = await import("./tracking.service");
-    const tracking = await TrackingService.getCurrentLocation(deliveryUserId);
-
-    if (!tracking.success) {
-      return res.status(404).json({
-        success: false,
-        message: "Delivery user is not currently tracking",
-      });
-    }
-
-    res.json({
-      success: true,
-      data: tracking.data,
-      message: "Delivery location retrieved successfully",
-    });
-  } catch (error) {
-    console.error("Get delivery location error:", error);
-    res.status(500).json({
-      success: false,
-      message: "Failed to get delivery location",
-    });
-  }
-});
-
 export default router;
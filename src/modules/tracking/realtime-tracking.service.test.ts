@@ -0,0 +1,56 @@
+import { Socket } from "socket.io";
+import { RealtimeTrackingService } from "./realtime-tracking.service";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// A socket whose token runs out after the given delay
+const mockSocket = (expiresIn: number) =>
+  ({
+    id: "socket-1",
+    data: { user: { expiresAt: Date.now() + expiresIn } },
+    emit: jest.fn(),
+    disconnect: jest.fn(),
+  } as unknown as Socket & { emit: jest.Mock; disconnect: jest.Mock });
+
+describe("RealtimeTrackingService token expiry", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2026-01-01T08:00:00Z") });
+  });
+
+  afterEach(() => {
+    RealtimeTrackingService["clearTokenExpiry"]("socket-1");
+    jest.useRealTimers();
+  });
+
+  it("warns a minute ahead and disconnects when the token expires", () => {
+    const socket = mockSocket(15 * 60 * 1000);
+    RealtimeTrackingService["scheduleTokenExpiry"](socket);
+
+    jest.advanceTimersByTime(14 * 60 * 1000);
+    expect(socket.emit).toHaveBeenCalledWith("token_expiring", {
+      expiresAt: expect.any(Date),
+    });
+    expect(socket.disconnect).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(60 * 1000);
+    expect(socket.emit).toHaveBeenCalledWith("token_expired", {
+      message: "Access token expired",
+    });
+    expect(socket.disconnect).toHaveBeenCalledWith(true);
+  });
+
+  it("keeps a socket whose token outlasts the longest timer delay", () => {
+    const socket = mockSocket(60 * DAY);
+    RealtimeTrackingService["scheduleTokenExpiry"](socket);
+
+    jest.advanceTimersByTime(59 * DAY);
+    expect(socket.emit).not.toHaveBeenCalled();
+    expect(socket.disconnect).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(DAY);
+    expect(socket.emit).toHaveBeenCalledWith("token_expiring", {
+      expiresAt: expect.any(Date),
+    });
+    expect(socket.disconnect).toHaveBeenCalledWith(true);
+  });
+});
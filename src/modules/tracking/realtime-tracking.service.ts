@@ -1,7 +1,40 @@
-import { Server as SocketIOServer } from "socket.io";
-import { AuthUtils } from "../auth/auth.utils";
-import User from "../user/user.model";
-import LocationTracking from "./tracking.model";
+import { Namespace, Server as SocketIOServer, Socket } from "socket.io";
+import {
+  SocketAuthMiddleware,
+  SocketUser,
+} from "../../middlewares/socket-auth.middleware";
+import { UserRole } from "../auth/auth.interface";
+import { JWTPayload } from "../auth/auth.utils";
+import { DispatchService } from "../orders/dispatch.service";
+import Order from "../orders/order.model";
+import { TRACKABLE_ORDER_STATUSES } from "../orders/tracking-link.service";
+import { IdentityService } from "../identity/identity.service";
+import { AutoSosService } from "./auto-sos.service";
+import { EmergencyEscalationService } from "./emergency-escalation.service";
+import { EmergencyIncidentService } from "./emergency-incident.service";
+import { EtaService } from "./eta.service";
+import { EventLog, InMemoryEventLog } from "./event-log.store";
+import { GeofenceService } from "./geofence.service";
+import {
+  LocationBroadcastService,
+  LocationSubscription,
+  MAX_SUBSCRIBED_RIDERS,
+} from "./location-broadcast.service";
+import {
+  LocationBatchData,
+  LocationBatchService,
+} from "./location-batch.service";
+import { LocationFilterService } from "./location-filter.service";
+import { LocationWriteService } from "./location-write.service";
+import {
+  DEFAULT_FRAME_INTERVAL,
+  REPLAY_SPEEDS,
+  ReplayService,
+  ReplaySpeed,
+} from "./replay.service";
+import { HeartbeatData, PresenceService } from "./presence.service";
+import { InMemoryPresenceStore, PresenceStore } from "./presence.store";
+import LocationTracking, { EmergencyRequest } from "./tracking.model";
 
 // Real-time tracking data interface
 export interface RealtimeLocationData {
@@ -30,104 +63,196 @@ export interface RealtimeLocationData {
 export interface SocketRoom {
   userId: string;
   organizationId: string;
+  role: JWTPayload["role"];
   socketId: string;
   isTracking: boolean;
   lastUpdate: Date;
 }
 
+// One namespace per kind of client
+export const SOCKET_NAMESPACES = {
+  riders: "/riders",
+  orgAdmins: "/org-admins",
+  customers: "/customers",
+  superAdmins: "/super-admins",
+};
+
+// Namespaces whose sockets belong to logged in users
+const STAFF_NAMESPACES = [
+  SOCKET_NAMESPACES.riders,
+  SOCKET_NAMESPACES.orgAdmins,
+  SOCKET_NAMESPACES.superAdmins,
+];
+
+// Warn clients this long before their access token runs out
+const TOKEN_EXPIRY_WARNING = 60 * 1000;
+
+// Longest delay setTimeout honours; anything above it fires at once
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
 export class RealtimeTrackingService {
   private static io: SocketIOServer;
-  public static activeConnections: Map<string, SocketRoom> = new Map();
-  private static organizationRooms: Map<string, Set<string>> = new Map();
+  private static presence: PresenceStore = new InMemoryPresenceStore();
+  private static eventLog: EventLog = new InMemoryEventLog();
+  private static expiryTimers: Map<string, NodeJS.Timeout[]> = new Map();
 
   // Initialize Socket.io server
-  static initialize(io: SocketIOServer) {
+  static initialize(
+    io: SocketIOServer,
+    presence?: PresenceStore,
+    eventLog?: EventLog
+  ) {
     this.io = io;
-    this.setupSocketHandlers();
-  }
+    if (presence) this.presence = presence;
+    if (eventLog) this.eventLog = eventLog;
 
-  // Setup Socket.io event handlers
-  private static setupSocketHandlers() {
-    this.io.on("connection", (socket) => {
-      console.log("🔌 New client connected:", socket.id);
+    // Live points reach dashboards in batches, one per room and tick
+    LocationBroadcastService.start((room, event, data) =>
+      this.sendToDashboards(room, event, data)
+    );
 
-      // Handle authentication
-      socket.on("authenticate", async (data: { token: string }) => {
-        try {
-          const decoded = AuthUtils.verifyAccessToken(data.token);
-          if (!decoded) {
-            socket.emit("auth_error", { message: "Invalid token" });
-            return;
-          }
+    // The default namespace is not used, clients pick their role namespace
+    io.use((socket, next) => {
+      next(new Error("Connect to a role namespace"));
+    });
 
-          // Join user-specific room
-          const userRoom = `user_${decoded.userId}`;
-          const orgRoom = `org_${decoded.organizationId}`;
+    this.setupRiderNamespace(
+      io
+        .of(SOCKET_NAMESPACES.riders)
+        .use(SocketAuthMiddleware.authenticate)
+        .use(SocketAuthMiddleware.requireRole([UserRole.DELIVERY_USER]))
+    );
+    this.setupOrgAdminNamespace(
+      io
+        .of(SOCKET_NAMESPACES.orgAdmins)
+        .use(SocketAuthMiddleware.authenticate)
+        .use(SocketAuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]))
+    );
+    this.setupSuperAdminNamespace(
+      io
+        .of(SOCKET_NAMESPACES.superAdmins)
+        .use(SocketAuthMiddleware.authenticate)
+        .use(
+          SocketAuthMiddleware.requireRole([
+            UserRole.SUPER_ADMIN,
+            UserRole.ADMIN,
+          ])
+        )
+    );
+    this.setupCustomerNamespace(
+      io
+        .of(SOCKET_NAMESPACES.customers)
+        .use(SocketAuthMiddleware.authenticateTrackingLink)
+    );
+  }
 
-          await socket.join(userRoom);
-          await socket.join(orgRoom);
+  // Setup handlers for delivery users
+  private static setupRiderNamespace(nsp: Namespace) {
+    nsp.on("connection", (socket) => {
+      const user = socket.data.user as SocketUser;
+      const connection = this.registerConnection(socket, user);
+      console.log(`✅ Delivery user ${user.userId} connected`);
 
-          // Store connection info
-          this.activeConnections.set(socket.id, {
-            userId: decoded.userId,
-            organizationId: decoded.organizationId!,
-            socketId: socket.id,
-            isTracking: false,
-            lastUpdate: new Date(),
-          });
+      // Connecting counts as a heartbeat, tell the app how often to beat
+      this.recordPresence(socket, () =>
+        PresenceService.recordHeartbeat(
+          connection.userId,
+          connection.organizationId
+        )
+      );
 
-          // Add to organization room
-          if (!this.organizationRooms.has(decoded.organizationId!)) {
-            this.organizationRooms.set(decoded.organizationId!, new Set());
-          }
-          this.organizationRooms.get(decoded.organizationId!)!.add(socket.id);
+      // Riders with an open emergency go back to high-rate reporting
+      EmergencyIncidentService.resumeFollowUp(connection.userId).catch(
+        (error) => console.error("Emergency follow-up error:", error)
+      );
 
-          socket.emit("authenticated", {
-            success: true,
-            userId: decoded.userId,
-            organizationId: decoded.organizationId,
-          });
+      // Handle heartbeats from delivery users
+      socket.on("heartbeat", (data: HeartbeatData = {}) => {
+        connection.lastUpdate = new Date();
+        this.saveConnection(connection).catch((error) =>
+          console.error("Presence update error:", error)
+        );
 
-          console.log(
-            `✅ User ${decoded.userId} authenticated and joined rooms`
-          );
-        } catch (error) {
-          socket.emit("auth_error", { message: "Authentication failed" });
-        }
+        this.recordPresence(socket, () =>
+          PresenceService.recordHeartbeat(
+            connection.userId,
+            connection.organizationId,
+            { batteryLevel: data?.batteryLevel }
+          )
+        );
       });
 
       // Handle location updates from delivery users
       socket.on("location_update", async (data: RealtimeLocationData) => {
         try {
-          const connection = this.activeConnections.get(socket.id);
-          if (!connection) {
-            socket.emit("error", { message: "Not authenticated" });
+          // The rider is always the authenticated user, never the payload
+          data = {
+            ...data,
+            userId: connection.userId,
+            organizationId: connection.organizationId,
+          };
+
+          // Riders in an emergency have every point kept, noisy or not
+          await EmergencyIncidentService.recordLocation(
+            data.userId,
+            connection.organizationId,
+            data.location,
+            data.batteryLevel
+          );
+
+          // Drop noisy or impossible points before they are persisted
+          const filterResult = await LocationFilterService.filterLocation(
+            data.userId,
+            connection.organizationId,
+            data.location
+          );
+          if (!filterResult.accepted) {
+            socket.emit("location_rejected", {
+              reason: filterResult.reason,
+              details: filterResult.details,
+              timestamp: new Date(),
+            });
             return;
           }
+          data = { ...data, location: filterResult.location };
 
-          // Update location in database
-          await this.updateLocationInDatabase(data);
+          // Look for a crash-like stop
+          await AutoSosService.evaluateLocation(
+            data.userId,
+            connection.organizationId,
+            data.location
+          );
 
-          // Broadcast to organization admins
-          const orgRoom = `org_${connection.organizationId}`;
-          this.io.to(orgRoom).emit("location_updated", {
-            ...data,
-            socketId: socket.id,
-            timestamp: new Date(),
-          });
+          // Update location in database, at most every few seconds or meters
+          if (await LocationWriteService.write(data)) {
+            await PresenceService.recordLocation(
+              data.userId,
+              connection.organizationId,
+              data.location
+            );
+          }
 
-          // Share location with customers
-          const customerRoom = `customer_${data.userId}`;
-          this.io.to(customerRoom).emit("delivery_location_update", {
-            userId: data.userId,
-            location: data.location,
-            timestamp: new Date(),
-            isActive: data.isActive,
-          });
+          // Queue for the next batch to organization admins
+          LocationBroadcastService.queue(data);
+
+          // Check geofences and notify organization admins
+          await this.processGeofences(
+            data.userId,
+            connection.organizationId,
+            data.location
+          );
+
+          // Share location and arrival estimates with customers
+          await this.shareWithCustomers(
+            data.userId,
+            connection.organizationId,
+            data
+          );
 
           // Update connection info
           connection.isTracking = data.isActive;
           connection.lastUpdate = new Date();
+          await this.saveConnection(connection);
 
           console.log(
             `📍 Location updated for user ${data.userId} - Shared with customers`
@@ -138,75 +263,118 @@ export class RealtimeTrackingService {
         }
       });
 
-      // Handle start tracking
-      socket.on("start_tracking", async (data: { userId: string }) => {
+      // Handle offline location batches from delivery users
+      socket.on("location_batch", async (data: LocationBatchData) => {
         try {
-          const connection = this.activeConnections.get(socket.id);
-          if (!connection) {
-            socket.emit("error", { message: "Not authenticated" });
+          if (!data?.batchId || !Array.isArray(data.locations)) {
+            socket.emit("location_batch_error", {
+              batchId: data?.batchId,
+              message: "Batch ID and locations are required",
+            });
             return;
           }
 
-          // Start tracking in database
-          await this.startTrackingInDatabase(
-            data.userId,
+          const result = await LocationBatchService.uploadBatch(
+            connection.userId,
+            data
+          );
+          if (!result.success) {
+            socket.emit("location_batch_error", {
+              batchId: data.batchId,
+              message: result.message,
+            });
+            return;
+          }
+
+          socket.emit("location_batch_processed", result.data);
+          await PresenceService.recordHeartbeat(
+            connection.userId,
             connection.organizationId
           );
+        } catch (error) {
+          socket.emit("location_batch_error", {
+            batchId: data?.batchId,
+            message: "Failed to process location batch",
+          });
+          console.error("Location batch error:", error);
+        }
+      });
+
+      // Handle start tracking
+      socket.on("start_tracking", async () => {
+        try {
+          const userId = connection.userId;
+
+          // Start tracking in database
+          await this.startTrackingInDatabase(userId, connection.organizationId);
 
           // Update connection
           connection.isTracking = true;
+          await this.saveConnection(connection);
 
           // Notify organization admins
-          const orgRoom = `org_${connection.organizationId}`;
-          this.io.to(orgRoom).emit("tracking_started", {
-            userId: data.userId,
-            timestamp: new Date(),
-          });
-
-          // Create customer room for sharing location with customers
-          const customerRoom = `customer_${data.userId}`;
-          await socket.join(customerRoom);
+          this.sendToOrganization(
+            connection.organizationId,
+            "tracking_started",
+            {
+              userId,
+              timestamp: new Date(),
+            }
+          );
 
-          // Notify customers that tracking has started
-          this.io.to(customerRoom).emit("delivery_tracking_started", {
-            userId: data.userId,
-            message: "Delivery tracking has started",
-            timestamp: new Date(),
-          });
+          // Notify customers of deliveries on the way that tracking has started
+          const orders = await Order.find({
+            assignedTo: userId,
+            status: { $in: TRACKABLE_ORDER_STATUSES },
+          }).select("_id");
+          for (const order of orders) {
+            this.sendToDelivery(
+              String(order._id),
+              "delivery_tracking_started",
+              {
+                orderId: String(order._id),
+                message: "Delivery tracking has started",
+                timestamp: new Date(),
+              }
+            );
+          }
 
           socket.emit("tracking_started", { success: true });
-          console.log(
-            `🚀 Tracking started for user ${data.userId} - Location shared with customers`
-          );
+          console.log(`🚀 Tracking started for user ${userId}`);
         } catch (error) {
           socket.emit("error", { message: "Failed to start tracking" });
         }
       });
 
       // Handle stop tracking
-      socket.on("stop_tracking", async (data: { userId: string }) => {
+      socket.on("stop_tracking", async () => {
         try {
-          const connection = this.activeConnections.get(socket.id);
-          if (!connection) {
-            socket.emit("error", { message: "Not authenticated" });
-            return;
-          }
+          const userId = connection.userId;
 
           // Stop tracking in database
-          await this.stopTrackingInDatabase(data.userId);
+          await LocationWriteService.flush(userId);
+          await this.stopTrackingInDatabase(userId);
+          LocationWriteService.forget(userId);
+          LocationBroadcastService.forget(userId);
+          AutoSosService.forget(userId);
+          EtaService.clearRider(userId);
 
           // Update connection
           connection.isTracking = false;
+          await this.saveConnection(connection);
 
           // Notify organization admins
-          const orgRoom = `org_${connection.organizationId}`;
-          this.io.to(orgRoom).emit("tracking_stopped", {
-            userId: data.userId,
-            timestamp: new Date(),
-          });
+          this.sendToOrganization(
+            connection.organizationId,
+            "tracking_stopped",
+            {
+              userId,
+              timestamp: new Date(),
+            }
+          );
 
           socket.emit("tracking_stopped", { success: true });
-          console.log(`⏹️ Tracking stopped for user ${data.userId}`);
+          console.log(`⏹️ Tracking stopped for user ${userId}`);
         } catch (error) {
           socket.emit("error", { message: "Failed to stop tracking" });
         }
@@ -216,7 +384,6 @@ export class RealtimeTrackingService {
       socket.on(
         "emergency_request",
         async (data: {
-          userId: string;
           location: {
             latitude: number;
             longitude: number;
@@ -226,15 +393,9 @@ export class RealtimeTrackingService {
           priority?: string;
         }) => {
           try {
-            const connection = this.activeConnections.get(socket.id);
-            if (!connection) {
-              socket.emit("error", { message: "Not authenticated" });
-              return;
-            }
-
             // Create emergency request in database
             const emergencyData = await this.createEmergencyRequest({
-              userId: data.userId,
+              userId: connection.userId,
               organizationId: connection.organizationId,
               location: data.location,
               message: data.message,
@@ -242,14 +403,20 @@ export class RealtimeTrackingService {
             });
 
             // Broadcast to organization admins
-            const orgRoom = `org_${connection.organizationId}`;
-            this.io.to(orgRoom).emit("emergency_alert", {
-              ...emergencyData,
-              timestamp: new Date(),
-            });
+            this.sendToOrganization(
+              connection.organizationId,
+              "emergency_alert",
+              {
+                ...emergencyData,
+                timestamp: new Date(),
+              }
+            );
 
-            socket.emit("emergency_sent", { success: true });
-            console.log(`🚨 Emergency request from user ${data.userId}`);
+            socket.emit("emergency_sent", {
+              success: true,
+              requestId: emergencyData._id,
+            });
+            console.log(`🚨 Emergency request from user ${connection.userId}`);
           } catch (error) {
             socket.emit("error", {
               message: "Failed to send emergency request",
@@ -258,61 +425,754 @@ export class RealtimeTrackingService {
         }
       );
 
+      // Handle periodic check-ins from delivery users
+      socket.on("check_in", async () => {
+        try {
+          const result = await AutoSosService.checkIn(
+            connection.userId,
+            connection.organizationId
+          );
+
+          socket.emit("check_in_ack", result.data);
+        } catch (error) {
+          socket.emit("error", { message: "Failed to record check-in" });
+          console.error("Check-in error:", error);
+        }
+      });
+
+      // Handle cancellation of an automatic SOS during its countdown
+      socket.on("cancel_sos", async (data: { alertId: string }) => {
+        try {
+          const result = await AutoSosService.cancel(
+            connection.userId,
+            data?.alertId
+          );
+
+          if (!result.success) {
+            socket.emit("sos_cancel_error", {
+              alertId: data?.alertId,
+              message: result.message,
+            });
+          }
+        } catch (error) {
+          socket.emit("error", { message: "Failed to cancel SOS" });
+          console.error("SOS cancel error:", error);
+        }
+      });
+
+      // Handle order offer responses from delivery users
+      socket.on(
+        "order_offer_response",
+        async (data: {
+          orderId: string;
+          accepted: boolean;
+          reason?: string;
+        }) => {
+          try {
+            const result = await DispatchService.respondToOffer(
+              connection.organizationId,
+              data.orderId,
+              connection.userId,
+              data.accepted === true,
+              data.reason
+            );
+
+            socket.emit("order_offer_response_result", {
+              orderId: data.orderId,
+              ...result,
+            });
+          } catch (error) {
+            socket.emit("error", {
+              message: "Failed to respond to order offer",
+            });
+            console.error("Order offer response error:", error);
+          }
+        }
+      );
+
+      this.setupTokenRefresh(socket);
+
       // Handle disconnect
       socket.on("disconnect", () => {
-        const connection = this.activeConnections.get(socket.id);
-        if (connection) {
-          // Remove from organization room
-          const orgRoom = this.organizationRooms.get(connection.organizationId);
-          if (orgRoom) {
-            orgRoom.delete(socket.id);
-            if (orgRoom.size === 0) {
-              this.organizationRooms.delete(connection.organizationId);
-            }
-          }
+        this.unregisterConnection(socket);
 
-          // Notify organization admins about disconnection
-          if (connection.isTracking) {
-            const orgRoom = `org_${connection.organizationId}`;
-            this.io.to(orgRoom).emit("user_disconnected", {
+        // Notify organization admins about disconnection
+        if (connection.isTracking) {
+          this.sendToOrganization(
+            connection.organizationId,
+            "user_disconnected",
+            {
               userId: connection.userId,
               timestamp: new Date(),
-            });
+            }
+          );
+        }
+
+        // The rider only goes quiet once their last socket is gone
+        LocationWriteService.flush(connection.userId)
+          .then(() => this.getActiveConnections(connection.organizationId))
+          .then((connections) => {
+            const stillConnected = connections.some(
+              (other) =>
+                other.userId === connection.userId &&
+                other.socketId !== socket.id
+            );
+            if (!stillConnected) {
+              LocationWriteService.forget(connection.userId);
+              LocationBroadcastService.forget(connection.userId);
+              AutoSosService.forget(connection.userId);
+              return PresenceService.recordDisconnect(
+                connection.userId,
+                connection.organizationId
+              );
+            }
+          })
+          .catch((error) => console.error("Presence update error:", error));
+
+        console.log(`❌ User ${connection.userId} disconnected`);
+      });
+    });
+  }
+
+  // Setup handlers for organization admins
+  private static setupOrgAdminNamespace(nsp: Namespace) {
+    nsp.on("connection", (socket) => {
+      const user = socket.data.user as SocketUser;
+      this.registerConnection(socket, user);
+      console.log(`✅ Organization admin ${user.userId} connected`);
+
+      // Follow the whole organization until a narrower subscription is made
+      this.subscribeLocations(socket, user.organizationId!, {
+        mode: "organization",
+      }).catch((error) => console.error("Location subscription error:", error));
+
+      this.setupLocationSubscriptions(socket, () => user.organizationId);
+      this.setupEventResume(socket);
+      this.setupReplay(socket, () => user.organizationId);
+      this.setupTokenRefresh(socket);
+
+      // Handle disconnect
+      socket.on("disconnect", () => {
+        this.unregisterConnection(socket);
+        console.log(`❌ User ${user.userId} disconnected`);
+      });
+    });
+  }
+
+  // Setup handlers for super admins, who pick the organizations they watch
+  private static setupSuperAdminNamespace(nsp: Namespace) {
+    nsp.on("connection", (socket) => {
+      const user = socket.data.user as SocketUser;
+      socket.join(`user_${user.userId}`);
+      if (user.sessionId) socket.join(`session_${user.sessionId}`);
+      this.scheduleTokenExpiry(socket);
+      console.log(`✅ Super admin ${user.userId} connected`);
+
+      // Handle organization watch requests
+      socket.on(
+        "watch_organization",
+        async (data: { organizationId: string }) => {
+          if (!data?.organizationId) {
+            socket.emit("error", { message: "Organization ID is required" });
+            return;
           }
+          await socket.join(`org_${data.organizationId}`);
+          await this.subscribeLocations(socket, data.organizationId, {
+            mode: "organization",
+          });
+          socket.emit("organization_watched", {
+            organizationId: data.organizationId,
+          });
+        }
+      );
 
-          this.activeConnections.delete(socket.id);
-          console.log(`❌ User ${connection.userId} disconnected`);
+      socket.on(
+        "unwatch_organization",
+        async (data: { organizationId: string }) => {
+          if (!data?.organizationId) return;
+          await socket.leave(`org_${data.organizationId}`);
+          await this.unsubscribeLocations(socket, data.organizationId);
+          socket.emit("organization_unwatched", {
+            organizationId: data.organizationId,
+          });
         }
+      );
+
+      this.setupLocationSubscriptions(
+        socket,
+        (data: { organizationId?: string }) => data.organizationId
+      );
+      this.setupEventResume(socket);
+      this.setupReplay(
+        socket,
+        (data: { organizationId?: string }) => data.organizationId
+      );
+      this.setupTokenRefresh(socket);
+
+      // Handle disconnect
+      socket.on("disconnect", () => {
+        ReplayService.stopPlayback(socket.id);
+        this.clearTokenExpiry(socket.id);
+        console.log(`❌ User ${user.userId} disconnected`);
       });
     });
   }
 
-  // Update location in database
-  private static async updateLocationInDatabase(data: RealtimeLocationData) {
-    const existingTracking = await LocationTracking.findOne({
-      userId: data.userId,
-      isActive: true,
+  // Setup handlers for customers following a delivery through a share link
+  private static setupCustomerNamespace(nsp: Namespace) {
+    nsp.on("connection", (socket) => {
+      const tracking = socket.data.tracking;
+      socket.emit("delivery_tracking_joined", tracking);
+
+      // Completed deliveries are shown once, there is nothing left to follow
+      if (tracking.state !== "active") {
+        socket.disconnect(true);
+        return;
+      }
+
+      // The link room lets a revocation reach every socket using it
+      socket.join(`delivery_${tracking.orderId}`);
+      socket.join(`link_${tracking.linkId}`);
+
+      // An expired link no longer lets the customer follow the delivery
+      const remaining = new Date(tracking.linkExpiresAt).getTime() - Date.now();
+      this.expiryTimers.set(socket.id, [
+        setTimeout(() => {
+          socket.emit("delivery_tracking_ended", {
+            orderId: tracking.orderId,
+            reason: "expired",
+            timestamp: new Date(),
+          });
+          socket.disconnect(true);
+        }, Math.max(0, remaining)),
+      ]);
+      socket.on("disconnect", () => this.clearTokenExpiry(socket.id));
     });
+  }
 
-    if (existingTracking) {
-      existingTracking.location = data.location;
-      existingTracking.batteryLevel = data.batteryLevel;
-      existingTracking.networkType = data.networkType;
-      existingTracking.deviceInfo = data.deviceInfo;
-      existingTracking.isActive = data.isActive;
-      existingTracking.updatedAt = new Date();
-      await existingTracking.save();
-    } else {
-      const newTracking = new LocationTracking({
-        userId: data.userId,
-        organizationId: data.organizationId,
-        location: data.location,
-        isActive: data.isActive,
-        batteryLevel: data.batteryLevel,
-        networkType: data.networkType,
-        deviceInfo: data.deviceInfo,
-      });
-      await newTracking.save();
+  // Setup route replay playback for supervisors
+  private static setupReplay(
+    socket: Socket,
+    getOrganizationId: (data: { organizationId?: string }) => string | undefined
+  ) {
+    socket.on(
+      "replay_start",
+      async (data: {
+        userId: string;
+        organizationId?: string;
+        startDate: string;
+        endDate: string;
+        frameInterval?: number;
+        speed?: number;
+      }) => {
+        try {
+          const organizationId = getOrganizationId(data);
+          if (!organizationId) {
+            socket.emit("replay_error", {
+              message: "Organization ID is required",
+            });
+            return;
+          }
+
+          const speed = (data.speed ?? 1) as ReplaySpeed;
+          if (!REPLAY_SPEEDS.includes(speed)) {
+            socket.emit("replay_error", {
+              message: `Speed must be one of ${REPLAY_SPEEDS.join(", ")}`,
+            });
+            return;
+          }
+
+          const frameInterval = data.frameInterval ?? DEFAULT_FRAME_INTERVAL;
+          const result = await ReplayService.getReplayFrames(
+            data.userId,
+            organizationId,
+            {
+              startDate: new Date(data.startDate),
+              endDate: new Date(data.endDate),
+              frameInterval,
+            }
+          );
+          if (!result.success) {
+            socket.emit("replay_error", { message: result.message });
+            return;
+          }
+
+          ReplayService.startPlayback(
+            socket.id,
+            data.userId,
+            result.data.frames,
+            frameInterval,
+            speed,
+            (event, payload) => socket.emit(event, payload)
+          );
+        } catch (error) {
+          socket.emit("replay_error", { message: "Failed to start replay" });
+          console.error("Replay start error:", error);
+        }
+      }
+    );
+
+    // Handle replay controls
+    socket.on("replay_pause", () => {
+      ReplayService.pausePlayback(socket.id);
+    });
+
+    socket.on("replay_resume", () => {
+      ReplayService.resumePlayback(socket.id);
+    });
+
+    socket.on("replay_speed", (data: { speed: number }) => {
+      if (!REPLAY_SPEEDS.includes(data.speed as ReplaySpeed)) {
+        socket.emit("replay_error", {
+          message: `Speed must be one of ${REPLAY_SPEEDS.join(", ")}`,
+        });
+        return;
+      }
+      ReplayService.setPlaybackSpeed(socket.id, data.speed as ReplaySpeed);
+    });
+
+    socket.on("replay_seek", (data: { timestamp: string }) => {
+      ReplayService.seekPlayback(socket.id, new Date(data.timestamp));
+    });
+
+    socket.on("replay_stop", () => {
+      if (ReplayService.stopPlayback(socket.id)) {
+        socket.emit("replay_stopped", { success: true });
+      }
+    });
+  }
+
+  // Setup live location subscriptions for supervisors: the whole
+  // organization, a viewport or a set of riders
+  private static setupLocationSubscriptions(
+    socket: Socket,
+    getOrganizationId: (data: { organizationId?: string }) => string | undefined
+  ) {
+    socket.on(
+      "subscribe_locations",
+      async (data: {
+        organizationId?: string;
+        mode: LocationSubscription["mode"];
+        viewport?: {
+          minLatitude: number;
+          minLongitude: number;
+          maxLatitude: number;
+          maxLongitude: number;
+        };
+        userIds?: string[];
+      }) => {
+        try {
+          const organizationId = getOrganizationId(data ?? {});
+          if (!organizationId) {
+            socket.emit("location_subscription_error", {
+              message: "Organization ID is required",
+            });
+            return;
+          }
+
+          let subscription: LocationSubscription;
+          if (data.mode === "viewport") {
+            const viewport = data.viewport;
+            const valid =
+              viewport &&
+              [
+                viewport.minLatitude,
+                viewport.minLongitude,
+                viewport.maxLatitude,
+                viewport.maxLongitude,
+              ].every((value) => typeof value === "number") &&
+              viewport.minLatitude <= viewport.maxLatitude &&
+              viewport.minLongitude <= viewport.maxLongitude;
+            if (!valid) {
+              socket.emit("location_subscription_error", {
+                message: "A valid viewport is required",
+              });
+              return;
+            }
+            subscription = { mode: "viewport", viewport: viewport! };
+          } else if (data.mode === "riders") {
+            if (
+              !Array.isArray(data.userIds) ||
+              data.userIds.length === 0 ||
+              data.userIds.length > MAX_SUBSCRIBED_RIDERS
+            ) {
+              socket.emit("location_subscription_error", {
+                message: `Between 1 and ${MAX_SUBSCRIBED_RIDERS} rider IDs are required`,
+              });
+              return;
+            }
+            subscription = {
+              mode: "riders",
+              userIds: data.userIds.map(String),
+            };
+          } else {
+            subscription = { mode: "organization" };
+          }
+
+          const subscribed = await this.subscribeLocations(
+            socket,
+            organizationId,
+            subscription
+          );
+          if (!subscribed) {
+            socket.emit("location_subscription_error", {
+              message:
+                "Viewport is too large, subscribe to the organization instead",
+            });
+          }
+        } catch (error) {
+          socket.emit("location_subscription_error", {
+            message: "Failed to subscribe to locations",
+          });
+          console.error("Location subscription error:", error);
+        }
+      }
+    );
+
+    socket.on(
+      "unsubscribe_locations",
+      async (data: { organizationId?: string }) => {
+        const organizationId = getOrganizationId(data ?? {});
+        if (!organizationId) return;
+        await this.unsubscribeLocations(socket, organizationId);
+        socket.emit("locations_unsubscribed", { organizationId });
+      }
+    );
+  }
+
+  // Helper method to swap a socket's location rooms for an organization and
+  // send the positions it should start from
+  private static async subscribeLocations(
+    socket: Socket,
+    organizationId: string,
+    subscription: LocationSubscription
+  ): Promise<boolean> {
+    const rooms = LocationBroadcastService.getSubscriptionRooms(
+      organizationId,
+      subscription
+    );
+    if (!rooms) return false;
+
+    await this.unsubscribeLocations(socket, organizationId);
+    await socket.join(rooms);
+    socket.data.locationSubscriptions = {
+      ...socket.data.locationSubscriptions,
+      [organizationId]: { subscription, rooms },
+    };
+
+    await this.sendLocationSnapshot(socket, organizationId, subscription);
+    return true;
+  }
+
+  // Helper method to send the current positions for a subscription
+  private static async sendLocationSnapshot(
+    socket: Socket,
+    organizationId: string,
+    subscription: LocationSubscription
+  ) {
+    const locations = await LocationBroadcastService.getSnapshot(
+      organizationId,
+      subscription
+    );
+    socket.emit("locations_snapshot", {
+      organizationId,
+      ...subscription,
+      locations,
+      timestamp: new Date(),
+    });
+  }
+
+  // Helper method to leave a socket's location rooms for an organization
+  private static async unsubscribeLocations(
+    socket: Socket,
+    organizationId: string
+  ) {
+    const rooms: string[] =
+      socket.data.locationSubscriptions?.[organizationId]?.rooms ?? [];
+    for (const room of rooms) {
+      await socket.leave(room);
+    }
+    if (socket.data.locationSubscriptions) {
+      delete socket.data.locationSubscriptions[organizationId];
+    }
+  }
+
+  // Setup replay of the room events a dashboard missed while disconnected.
+  // Every dashboard event carries its room and sequence number, on reconnect
+  // the client sends the last sequence it saw per room. Events may arrive
+  // both live and replayed, clients drop sequences they already have.
+  private static setupEventResume(socket: Socket) {
+    socket.on(
+      "resume_events",
+      async (data: { rooms: Record<string, number> }) => {
+        const snapshots = new Set<string>();
+
+        for (const [room, lastSeq] of Object.entries(data?.rooms ?? {})) {
+          try {
+            if (!socket.rooms.has(room)) {
+              socket.emit("events_replay_error", {
+                room,
+                message: "Not subscribed to this room",
+              });
+              continue;
+            }
+
+            const replay = await this.eventLog.since(room, Number(lastSeq));
+            if (replay.events) {
+              socket.emit("events_replay", {
+                room,
+                latestSeq: replay.latestSeq,
+                events: replay.events,
+              });
+              continue;
+            }
+
+            // Too much was missed, start over from the current state
+            socket.emit("events_replay_gap", {
+              room,
+              latestSeq: replay.latestSeq,
+            });
+            // One location snapshot covers every room of a subscription
+            const organizationId = this.getRoomOrganization(socket, room);
+            const snapshot = room.startsWith("org_")
+              ? room
+              : `locations_${organizationId}`;
+            if (organizationId && !snapshots.has(snapshot)) {
+              snapshots.add(snapshot);
+              await this.sendRoomSnapshot(socket, organizationId, room);
+            }
+          } catch (error) {
+            socket.emit("events_replay_error", {
+              room,
+              message: "Failed to replay events",
+            });
+            console.error("Event replay error:", error);
+          }
+        }
+      }
+    );
+  }
+
+  // Helper method to find the organization a dashboard room belongs to
+  private static getRoomOrganization(
+    socket: Socket,
+    room: string
+  ): string | undefined {
+    if (room.startsWith("org_")) return room.slice("org_".length);
+
+    const subscriptions = socket.data.locationSubscriptions ?? {};
+    return Object.keys(subscriptions).find((organizationId) =>
+      subscriptions[organizationId].rooms.includes(room)
+    );
+  }
+
+  // Helper method to send the full state behind a room
+  private static async sendRoomSnapshot(
+    socket: Socket,
+    organizationId: string,
+    room: string
+  ) {
+    if (room !== `org_${organizationId}`) {
+      const { subscription } =
+        socket.data.locationSubscriptions[organizationId];
+      await this.sendLocationSnapshot(socket, organizationId, subscription);
+      return;
+    }
+
+    const [activeUsers, emergencies, presence] = await Promise.all([
+      this.getActiveTrackingUsers(organizationId),
+      EmergencyRequest.find({
+        organizationId,
+        status: { $in: ["pending", "acknowledged"] },
+      })
+        .populate("userId", "name email phone")
+        .sort({ createdAt: -1 }),
+      PresenceService.getSnapshot(organizationId),
+    ]);
+
+    socket.emit("organization_snapshot", {
+      organizationId,
+      room,
+      activeUsers,
+      emergencies,
+      presence: presence.data,
+      timestamp: new Date(),
+    });
+  }
+
+  // Setup access token refresh over the socket
+  private static setupTokenRefresh(socket: Socket) {
+    socket.on("refresh_token", async (data: { token: string }) => {
+      try {
+        const user = await SocketAuthMiddleware.verifyToken(data?.token);
+        const current = socket.data.user as SocketUser;
+        if (user.userId !== current.userId) {
+          socket.emit("auth_error", {
+            message: "Token belongs to another user",
+          });
+          return;
+        }
+
+        // A token from a new login moves the socket to that session, so
+        // revoking it drops the connection
+        if (user.sessionId !== current.sessionId) {
+          if (current.sessionId) socket.leave(`session_${current.sessionId}`);
+          if (user.sessionId) socket.join(`session_${user.sessionId}`);
+        }
+
+        socket.data.user = user;
+        this.scheduleTokenExpiry(socket);
+        socket.emit("token_refreshed", { expiresAt: new Date(user.expiresAt) });
+      } catch (error) {
+        socket.emit("auth_error", {
+          message:
+            error instanceof Error ? error.message : "Failed to refresh token",
+        });
+      }
+    });
+  }
+
+  // Helper method to warn about and enforce access token expiry
+  private static scheduleTokenExpiry(socket: Socket) {
+    this.clearTokenExpiry(socket.id);
+
+    const { expiresAt } = socket.data.user as SocketUser;
+    const remaining = expiresAt - Date.now();
+
+    // Wait in steps until the expiry is close enough to schedule directly
+    if (remaining > MAX_TIMER_DELAY) {
+      const timer = setTimeout(
+        () => this.scheduleTokenExpiry(socket),
+        Math.min(remaining - MAX_TIMER_DELAY, MAX_TIMER_DELAY)
+      );
+      this.expiryTimers.set(socket.id, [timer]);
+      return;
+    }
+
+    const timers = [
+      setTimeout(() => {
+        socket.emit("token_expiring", { expiresAt: new Date(expiresAt) });
+      }, Math.max(0, remaining - TOKEN_EXPIRY_WARNING)),
+      setTimeout(() => {
+        socket.emit("token_expired", { message: "Access token expired" });
+        socket.disconnect(true);
+      }, Math.max(0, remaining)),
+    ];
+    this.expiryTimers.set(socket.id, timers);
+  }
+
+  // Helper method to cancel token expiry timers
+  private static clearTokenExpiry(socketId: string) {
+    this.expiryTimers.get(socketId)?.forEach((timer) => clearTimeout(timer));
+    this.expiryTimers.delete(socketId);
+  }
+
+  // Helper method to join a user's rooms and track the connection
+  private static registerConnection(
+    socket: Socket,
+    user: SocketUser
+  ): SocketRoom {
+    socket.join(`user_${user.userId}`);
+    socket.join(`org_${user.organizationId}`);
+    if (user.sessionId) socket.join(`session_${user.sessionId}`);
+
+    const connection: SocketRoom = {
+      userId: user.userId,
+      organizationId: user.organizationId!,
+      role: user.role,
+      socketId: socket.id,
+      isTracking: false,
+      lastUpdate: new Date(),
+    };
+    this.presence
+      .setConnection(connection)
+      .catch((error) => console.error("Presence update error:", error));
+
+    this.scheduleTokenExpiry(socket);
+    return connection;
+  }
+
+  // Helper method to forget a connection and its timers
+  private static unregisterConnection(socket: Socket) {
+    ReplayService.stopPlayback(socket.id);
+    this.clearTokenExpiry(socket.id);
+
+    this.presence
+      .removeConnection(socket.id)
+      .catch((error) => console.error("Presence update error:", error));
+  }
+
+  // Helper method to record a rider's presence and acknowledge it with the
+  // resulting state and the organization's heartbeat interval
+  private static recordPresence(socket: Socket, record: () => Promise<string>) {
+    const user = socket.data.user as SocketUser;
+    Promise.all([record(), PresenceService.loadSettings(user.organizationId!)])
+      .then(([state, settings]) => {
+        socket.emit("heartbeat_ack", {
+          state,
+          heartbeatInterval: settings.heartbeatInterval,
+          timestamp: new Date(),
+        });
+      })
+      .catch((error) => console.error("Presence update error:", error));
+  }
+
+  // Helper method to share a connection's tracking state with other nodes
+  private static async saveConnection(connection: SocketRoom) {
+    await this.presence.updateConnection(connection.socketId, {
+      isTracking: connection.isTracking,
+      lastUpdate: connection.lastUpdate,
+    });
+  }
+
+  // Evaluate geofences for a location and broadcast resulting events
+  private static async processGeofences(
+    userId: string,
+    organizationId: string,
+    location: RealtimeLocationData["location"]
+  ) {
+    try {
+      const events = await GeofenceService.processLocation(
+        userId,
+        organizationId,
+        location
+      );
+
+      for (const event of events) {
+        this.sendToOrganization(organizationId, "geofence_event", event);
+      }
+    } catch (error) {
+      console.error("Geofence processing error:", error);
+    }
+  }
+
+  // Push the rider's position and arrival estimates to the customers of
+  // deliveries that are on their way
+  private static async shareWithCustomers(
+    userId: string,
+    organizationId: string,
+    data: RealtimeLocationData
+  ) {
+    try {
+      const etas = await EtaService.updateEta(
+        userId,
+        organizationId,
+        data.location
+      );
+
+      for (const eta of etas) {
+        if (!TRACKABLE_ORDER_STATUSES.includes(eta.status)) continue;
+
+        this.sendToDelivery(eta.orderId, "delivery_location_update", {
+          orderId: eta.orderId,
+          location: data.location,
+          timestamp: new Date(),
+          isActive: data.isActive,
+        });
+        this.sendToDelivery(eta.orderId, "eta_updated", eta);
+      }
+    } catch (error) {
+      console.error("Customer location sharing error:", error);
     }
   }
 
@@ -321,7 +1181,7 @@ export class RealtimeTrackingService {
     userId: string,
     organizationId: string
   ) {
-    const user = await User.findById(userId);
+    const user = await IdentityService.findProfile(userId);
     if (!user) throw new Error("User not found");
 
     const existingTracking = await LocationTracking.findOne({
@@ -367,37 +1227,52 @@ export class RealtimeTrackingService {
     message?: string;
     priority?: string;
   }) {
-    // This would integrate with your existing emergency request system
-    // For now, we'll just return the data
-    return {
+    const emergencyRequest = await EmergencyRequest.create({
       userId: data.userId,
       organizationId: data.organizationId,
-      location: data.location,
+      location: { ...data.location, timestamp: new Date() },
       message: data.message,
       priority: data.priority,
       status: "pending",
-      timestamp: new Date(),
-    };
+      timeline: [
+        EmergencyIncidentService.timelineEntry("created", {
+          userId: data.userId,
+          role: UserRole.DELIVERY_USER,
+        }),
+      ],
+    });
+
+    // Escalate if nobody acknowledges in time and follow the rider closely
+    await EmergencyEscalationService.open(String(emergencyRequest._id));
+    EmergencyIncidentService.startFollowUp(
+      data.userId,
+      String(emergencyRequest._id)
+    );
+
+    return emergencyRequest.toJSON();
   }
 
-  // Get active connections for an organization
-  static getActiveConnections(organizationId: string): SocketRoom[] {
-    const orgConnections = this.organizationRooms.get(organizationId);
-    if (!orgConnections) return [];
+  // Get active connections for an organization, across all nodes
+  static async getActiveConnections(
+    organizationId: string
+  ): Promise<SocketRoom[]> {
+    return this.presence.getOrganizationConnections(organizationId);
+  }
 
-    return Array.from(orgConnections)
-      .map((socketId) => this.activeConnections.get(socketId))
-      .filter((connection) => connection !== undefined) as SocketRoom[];
+  // Get all active connections, across all nodes
+  static async getAllConnections(): Promise<SocketRoom[]> {
+    return this.presence.getAllConnections();
   }
 
   // Get all active tracking users for organization (Organization Admin)
   static async getActiveTrackingUsers(organizationId: string) {
-    const activeConnections = this.getActiveConnections(organizationId);
+    const activeConnections = await this.getActiveConnections(organizationId);
     const trackingUsers = [];
 
     for (const connection of activeConnections) {
       if (connection.isTracking) {
-        const user = await User.findById(connection.userId).select(
+        const user = await IdentityService.findProfile(
+          connection.userId,
           "name email role"
         );
         const tracking = await LocationTracking.findOne({
@@ -423,14 +1298,20 @@ export class RealtimeTrackingService {
 
   // Get ALL active tracking users (Super Admin only)
   static async getAllActiveTrackingUsers() {
-    const allConnections = Array.from(this.activeConnections.values());
+    const allConnections = await this.getAllConnections();
     const trackingUsers = [];
 
     for (const connection of allConnections) {
       if (connection.isTracking) {
-        const user = await User.findById(connection.userId)
-          .select("name email role organizationId")
-          .populate("organizationId", "name companyName");
+        const profileModel = await IdentityService.findProfileModel(
+          connection.userId
+        );
+        const user =
+          profileModel &&
+          (await profileModel
+            .findById(connection.userId)
+            .select("name email role organizationId")
+            .populate("organizationId", "name companyName"));
         const tracking = await LocationTracking.findOne({
           userId: connection.userId,
           isActive: true,
@@ -455,18 +1336,118 @@ export class RealtimeTrackingService {
 
   // Send message to specific user
   static sendToUser(userId: string, event: string, data: any) {
+    if (!this.io) return;
     const userRoom = `user_${userId}`;
-    this.io.to(userRoom).emit(event, data);
+    for (const namespace of STAFF_NAMESPACES) {
+      this.io.of(namespace).to(userRoom).emit(event, data);
+    }
+  }
+
+  // Send message to customers following a delivery
+  static sendToDelivery(orderId: string, event: string, data: any) {
+    if (!this.io) return;
+    const deliveryRoom = `delivery_${orderId}`;
+    this.io.of(SOCKET_NAMESPACES.customers).to(deliveryRoom).emit(event, data);
+  }
+
+  // Stop sharing a delivery with every customer following it
+  static closeDeliveryRoom(orderId: string, data: any) {
+    if (!this.io) return;
+    const customers = this.io.of(SOCKET_NAMESPACES.customers);
+    const deliveryRoom = `delivery_${orderId}`;
+    customers.to(deliveryRoom).emit("delivery_tracking_ended", data);
+    customers.in(deliveryRoom).disconnectSockets(true);
+  }
+
+  // Drop customers that followed a delivery through a revoked link
+  static closeTrackingLink(linkId: string, orderId: string) {
+    if (!this.io) return;
+    const customers = this.io.of(SOCKET_NAMESPACES.customers);
+    const linkRoom = `link_${linkId}`;
+    customers.to(linkRoom).emit("delivery_tracking_ended", {
+      orderId,
+      reason: "revoked",
+      timestamp: new Date(),
+    });
+    customers.in(linkRoom).disconnectSockets(true);
+  }
+
+  // Drop the sockets of a revoked session
+  static closeSession(sessionId: string, reason: string) {
+    if (!this.io) return;
+    const sessionRoom = `session_${sessionId}`;
+    for (const namespace of STAFF_NAMESPACES) {
+      const nsp = this.io.of(namespace);
+      nsp.to(sessionRoom).emit("session_revoked", {
+        sessionId,
+        reason,
+        timestamp: new Date(),
+      });
+      nsp.in(sessionRoom).disconnectSockets(true);
+    }
   }
 
-  // Send message to organization
+  // Send message to organization admins and super admins watching it
   static sendToOrganization(organizationId: string, event: string, data: any) {
+    this.sendToDashboards(`org_${organizationId}`, event, data);
+  }
+
+  // Send message to a room of organization admins and super admins. The
+  // event is numbered and kept so reconnecting dashboards can catch up.
+  static sendToDashboards(room: string, event: string, data: any) {
+    if (!this.io) return;
+
+    const emit = (payload: any) => {
+      this.io.of(SOCKET_NAMESPACES.orgAdmins).to(room).emit(event, payload);
+      this.io.of(SOCKET_NAMESPACES.superAdmins).to(room).emit(event, payload);
+    };
+
+    const payload = { ...data, room };
+    this.eventLog
+      .append(room, event, payload)
+      .then((seq) => emit({ ...payload, seq }))
+      .catch((error) => {
+        // Better unnumbered than lost
+        console.error("Event log error:", error);
+        emit(payload);
+      });
+  }
+
+  // Send message to delivery users of an organization
+  static sendToRiders(organizationId: string, event: string, data: any) {
+    if (!this.io) return;
     const orgRoom = `org_${organizationId}`;
-    this.io.to(orgRoom).emit(event, data);
+    this.io.of(SOCKET_NAMESPACES.riders).to(orgRoom).emit(event, data);
   }
 
-  // Broadcast to all connected clients
+  // Broadcast to all connected users
   static broadcast(event: string, data: any) {
-    this.io.emit(event, data);
+    if (!this.io) return;
+    for (const namespace of STAFF_NAMESPACES) {
+      this.io.of(namespace).emit(event, data);
+    }
+  }
+
+  // Disconnect a user that is no longer allowed in
+  static disconnectUser(userId: string, reason: string) {
+    if (!this.io) return;
+    const userRoom = `user_${userId}`;
+    for (const namespace of STAFF_NAMESPACES) {
+      this.io.of(namespace).to(userRoom).emit("account_disabled", { reason });
+      this.io.of(namespace).in(userRoom).disconnectSockets(true);
+    }
+  }
+
+  // Disconnect every user of an organization that is no longer allowed in
+  static disconnectOrganization(organizationId: string, reason: string) {
+    if (!this.io) return;
+    const orgRoom = `org_${organizationId}`;
+    for (const namespace of [
+      SOCKET_NAMESPACES.riders,
+      SOCKET_NAMESPACES.orgAdmins,
+    ]) {
+      this.io.of(namespace).to(orgRoom).emit("account_disabled", { reason });
+      this.io.of(namespace).in(orgRoom).disconnectSockets(true);
+    }
   }
 }
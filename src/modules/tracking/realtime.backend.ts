@@ -0,0 +1,65 @@
+import { createAdapter } from "@socket.io/redis-adapter";
+import Redis from "ioredis";
+import crypto from "crypto";
+import os from "os";
+import { env } from "../../config/env";
+import { EventLog, InMemoryEventLog, RedisEventLog } from "./event-log.store";
+import {
+  InMemoryPresenceStore,
+  PresenceStore,
+  PresenceStoreName,
+  RedisPresenceStore,
+} from "./presence.store";
+
+// Cross-node pieces of the realtime server
+export interface RealtimeBackend {
+  nodeId: string;
+  presence: PresenceStore;
+  eventLog: EventLog;
+  adapter?: ReturnType<typeof createAdapter>; // undefined keeps the built-in adapter
+  close(): Promise<void>;
+}
+
+// Identify this process among the nodes sharing presence
+const createNodeId = (): string =>
+  `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString("hex")}`;
+
+// Build the room broadcast adapter, presence store and event log by name
+export const createRealtimeBackend = (
+  name: PresenceStoreName = env.REALTIME_BACKEND
+): RealtimeBackend => {
+  const nodeId = createNodeId();
+
+  if (name !== "redis") {
+    const presence = new InMemoryPresenceStore();
+    const eventLog = new InMemoryEventLog();
+    return {
+      nodeId,
+      presence,
+      eventLog,
+      close: async () => {
+        await Promise.all([presence.close(), eventLog.close()]);
+      },
+    };
+  }
+
+  const pubClient = new Redis(env.REDIS_URL);
+  const subClient = pubClient.duplicate();
+  for (const client of [pubClient, subClient]) {
+    client.on("error", (error) => console.error("Redis error:", error));
+  }
+
+  const presence = new RedisPresenceStore(pubClient, nodeId);
+  presence.start();
+
+  return {
+    nodeId,
+    presence,
+    eventLog: new RedisEventLog(pubClient),
+    adapter: createAdapter(pubClient, subClient),
+    close: async () => {
+      await presence.close();
+      await Promise.all([pubClient.quit(), subClient.quit()]);
+    },
+  };
+};
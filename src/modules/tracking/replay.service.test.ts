@@ -0,0 +1,140 @@
+import { ReplayService } from "./replay.service";
+import { ILocation } from "./tracking.model";
+
+const start = new Date("2026-01-01T08:00:00Z").getTime();
+
+const point = (seconds: number, latitude: number, speed = 10): ILocation => ({
+  latitude,
+  longitude: 13.4,
+  speed,
+  timestamp: new Date(start + seconds * 1000),
+});
+
+const at = (seconds: number) => new Date(start + seconds * 1000);
+
+describe("ReplayService.buildFrames", () => {
+  it("interpolates between recorded points", () => {
+    const frames = ReplayService.buildFrames(
+      [point(0, 52.5, 10), point(10, 52.501, 20)],
+      at(0),
+      at(10),
+      5
+    );
+
+    expect(frames).toHaveLength(3);
+    expect(frames[0]).toMatchObject({ latitude: 52.5, interpolated: false });
+    expect(frames[1].interpolated).toBe(true);
+    expect(frames[1].latitude).toBeCloseTo(52.5005);
+    expect(frames[1].speed).toBe(15);
+    expect(frames[2]).toMatchObject({
+      latitude: 52.501,
+      interpolated: false,
+      gap: false,
+    });
+  });
+
+  it("only covers the part of the window with points", () => {
+    const frames = ReplayService.buildFrames(
+      [point(60, 52.5), point(70, 52.501)],
+      at(0),
+      at(600),
+      5
+    );
+
+    expect(frames.map((frame) => frame.timestamp)).toEqual([
+      at(60),
+      at(65),
+      at(70),
+    ]);
+  });
+
+  it("holds the last position still across a gap", () => {
+    const frames = ReplayService.buildFrames(
+      [point(0, 52.5), point(1200, 52.6)],
+      at(0),
+      at(1200),
+      300
+    );
+
+    expect(frames.slice(1, -1)).toEqual(
+      Array.from({ length: 3 }, () =>
+        expect.objectContaining({ latitude: 52.5, speed: 0, gap: true })
+      )
+    );
+  });
+
+  it("returns no frames without points", () => {
+    expect(ReplayService.buildFrames([], at(0), at(60), 5)).toEqual([]);
+  });
+});
+
+describe("ReplayService playback", () => {
+  const frames = ReplayService.buildFrames(
+    [point(0, 52.5), point(20, 52.502)],
+    at(0),
+    at(20),
+    5
+  );
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    ReplayService.stopPlayback("session-1");
+    jest.useRealTimers();
+  });
+
+  // Names of the events emitted so far, frames by index
+  const played = (emit: jest.Mock) =>
+    emit.mock.calls.map(([event, data]) =>
+      event === "replay_frame" ? data.index : event
+    );
+
+  it("plays frames at the chosen speed and then ends", () => {
+    const emit = jest.fn();
+    ReplayService.startPlayback("session-1", "rider-1", frames, 5, 10, emit);
+
+    jest.advanceTimersByTime(0);
+    expect(played(emit)).toEqual(["replay_started", 0]);
+
+    jest.advanceTimersByTime(500);
+    expect(played(emit)).toEqual(["replay_started", 0, 1]);
+
+    jest.advanceTimersByTime(2000);
+    expect(played(emit)).toEqual([
+      "replay_started",
+      0,
+      1,
+      2,
+      3,
+      4,
+      "replay_ended",
+    ]);
+  });
+
+  it("stops emitting while paused and picks up where it left off", () => {
+    const emit = jest.fn();
+    ReplayService.startPlayback("session-1", "rider-1", frames, 5, 60, emit);
+    jest.advanceTimersByTime(0);
+
+    ReplayService.pausePlayback("session-1");
+    jest.advanceTimersByTime(10000);
+    expect(played(emit)).toEqual(["replay_started", 0, "replay_paused"]);
+
+    ReplayService.resumePlayback("session-1");
+    jest.advanceTimersByTime(0);
+    expect(played(emit).pop()).toBe(1);
+  });
+
+  it("seeks to the first frame at or after a time", () => {
+    const emit = jest.fn();
+    ReplayService.startPlayback("session-1", "rider-1", frames, 5, 1, emit);
+    jest.advanceTimersByTime(0);
+
+    ReplayService.seekPlayback("session-1", at(12));
+    jest.advanceTimersByTime(0);
+
+    expect(played(emit)).toEqual(["replay_started", 0, 3]);
+  });
+});
@@ -0,0 +1,297 @@
+import { ILocation } from "./tracking.model";
+import { TrackingResponse } from "./tracking.service";
+import { DEFAULT_SEGMENTATION_OPTIONS, TripService } from "./trip.service";
+
+export const REPLAY_SPEEDS = [1, 10, 60] as const;
+export type ReplaySpeed = (typeof REPLAY_SPEEDS)[number];
+
+export const DEFAULT_FRAME_INTERVAL = 5; // in seconds
+export const MAX_REPLAY_FRAMES = 20000;
+
+// Replay frame interface
+export interface ReplayFrame {
+  timestamp: Date;
+  latitude: number;
+  longitude: number;
+  speed?: number;
+  heading?: number;
+  interpolated: boolean; // position lies between two recorded points
+  gap: boolean; // no points around this frame, last known position is held
+}
+
+// Replay query interface
+export interface ReplayQuery {
+  startDate: Date;
+  endDate: Date;
+  frameInterval?: number; // in seconds
+}
+
+// Socket playback session
+interface PlaybackSession {
+  userId: string;
+  frames: ReplayFrame[];
+  frameInterval: number;
+  speed: ReplaySpeed;
+  index: number;
+  timer?: NodeJS.Timeout;
+  emit: (event: string, data: any) => void;
+}
+
+export class ReplayService {
+  private static sessions: Map<string, PlaybackSession> = new Map();
+
+  // Get interpolated replay frames for a user's time window
+  static async getReplayFrames(
+    userId: string,
+    organizationId: string | undefined,
+    replayQuery: ReplayQuery
+  ): Promise<TrackingResponse> {
+    try {
+      const frameInterval = replayQuery.frameInterval ?? DEFAULT_FRAME_INTERVAL;
+
+      if (replayQuery.endDate <= replayQuery.startDate) {
+        return {
+          success: false,
+          message: "End date must be after start date",
+        };
+      }
+
+      const windowSeconds =
+        (replayQuery.endDate.getTime() - replayQuery.startDate.getTime()) /
+        1000;
+      if (windowSeconds / frameInterval > MAX_REPLAY_FRAMES) {
+        return {
+          success: false,
+          message: `Replay window too large, at most ${MAX_REPLAY_FRAMES} frames are allowed`,
+        };
+      }
+
+      const locations = await TripService.loadLocations(
+        userId,
+        organizationId,
+        replayQuery
+      );
+      const frames = this.buildFrames(
+        locations,
+        replayQuery.startDate,
+        replayQuery.endDate,
+        frameInterval
+      );
+
+      return {
+        success: true,
+        message: "Replay frames retrieved successfully",
+        data: {
+          userId,
+          frameInterval,
+          startTime: frames.length > 0 ? frames[0].timestamp : null,
+          endTime:
+            frames.length > 0 ? frames[frames.length - 1].timestamp : null,
+          frameCount: frames.length,
+          frames,
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get replay frames"
+      );
+    }
+  }
+
+  // Sample recorded points at a fixed interval, interpolating between them
+  static buildFrames(
+    locations: ILocation[],
+    startDate: Date,
+    endDate: Date,
+    frameInterval: number
+  ): ReplayFrame[] {
+    const points = [...locations].sort(
+      (a, b) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+    const frames: ReplayFrame[] = [];
+    if (points.length === 0) return frames;
+
+    const intervalMs = frameInterval * 1000;
+    const maxGap = DEFAULT_SEGMENTATION_OPTIONS.maxGap * 1000;
+    const first = new Date(points[0].timestamp).getTime();
+    const last = new Date(points[points.length - 1].timestamp).getTime();
+
+    // Frames only cover the part of the window with recorded points
+    const start = Math.max(startDate.getTime(), first);
+    const end = Math.min(endDate.getTime(), last);
+
+    let next = 1;
+    for (let time = start; time <= end; time += intervalMs) {
+      while (
+        next < points.length - 1 &&
+        new Date(points[next].timestamp).getTime() < time
+      ) {
+        next++;
+      }
+
+      const after = points[Math.min(next, points.length - 1)];
+      const before = points[Math.max(next - 1, 0)];
+      const beforeTime = new Date(before.timestamp).getTime();
+      const afterTime = new Date(after.timestamp).getTime();
+      const span = afterTime - beforeTime;
+
+      if (span <= 0 || time <= beforeTime) {
+        frames.push(this.frameAt(before, time, false, false));
+      } else if (time >= afterTime) {
+        frames.push(this.frameAt(after, time, false, false));
+      } else if (span > maxGap) {
+        frames.push(this.frameAt(before, time, false, true));
+      } else {
+        const ratio = (time - beforeTime) / span;
+        const frame = this.frameAt(before, time, true, false);
+        frame.latitude += (after.latitude - before.latitude) * ratio;
+        frame.longitude += (after.longitude - before.longitude) * ratio;
+        if (before.speed != null && after.speed != null) {
+          frame.speed = before.speed + (after.speed - before.speed) * ratio;
+        }
+        frames.push(frame);
+      }
+    }
+
+    return frames;
+  }
+
+  // Start playing frames to a socket, replacing any running playback
+  static startPlayback(
+    sessionId: string,
+    userId: string,
+    frames: ReplayFrame[],
+    frameInterval: number,
+    speed: ReplaySpeed,
+    emit: (event: string, data: any) => void
+  ) {
+    this.stopPlayback(sessionId);
+
+    const session: PlaybackSession = {
+      userId,
+      frames,
+      frameInterval,
+      speed,
+      index: 0,
+      emit,
+    };
+    this.sessions.set(sessionId, session);
+
+    emit("replay_started", {
+      userId,
+      frameCount: frames.length,
+      frameInterval,
+      speed,
+      startTime: frames.length > 0 ? frames[0].timestamp : null,
+      endTime: frames.length > 0 ? frames[frames.length - 1].timestamp : null,
+    });
+    this.scheduleNextFrame(sessionId, session, 0);
+  }
+
+  // Pause a running playback
+  static pausePlayback(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+
+    clearTimeout(session.timer);
+    session.timer = undefined;
+    session.emit("replay_paused", {
+      userId: session.userId,
+      index: session.index,
+    });
+    return true;
+  }
+
+  // Resume a paused playback
+  static resumePlayback(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+
+    if (!session.timer) this.scheduleNextFrame(sessionId, session, 0);
+    return true;
+  }
+
+  // Change playback speed
+  static setPlaybackSpeed(sessionId: string, speed: ReplaySpeed): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+
+    session.speed = speed;
+    if (session.timer) {
+      clearTimeout(session.timer);
+      this.scheduleNextFrame(sessionId, session);
+    }
+    return true;
+  }
+
+  // Jump to the first frame at or after a timestamp
+  static seekPlayback(sessionId: string, timestamp: Date): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+
+    const index = session.frames.findIndex(
+      (frame) => frame.timestamp.getTime() >= timestamp.getTime()
+    );
+    session.index = index === -1 ? session.frames.length : index;
+    if (session.timer) {
+      clearTimeout(session.timer);
+      this.scheduleNextFrame(sessionId, session, 0);
+    }
+    return true;
+  }
+
+  // Stop and discard a playback
+  static stopPlayback(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+
+    clearTimeout(session.timer);
+    this.sessions.delete(sessionId);
+    return true;
+  }
+
+  // Helper method to emit the next frame after the scaled frame interval
+  private static scheduleNextFrame(
+    sessionId: string,
+    session: PlaybackSession,
+    delay = (session.frameInterval * 1000) / session.speed
+  ) {
+    session.timer = setTimeout(() => {
+      if (this.sessions.get(sessionId) !== session) return;
+
+      if (session.index >= session.frames.length) {
+        session.emit("replay_ended", { userId: session.userId });
+        this.sessions.delete(sessionId);
+        return;
+      }
+
+      session.emit("replay_frame", {
+        userId: session.userId,
+        index: session.index,
+        frameCount: session.frames.length,
+        frame: session.frames[session.index],
+      });
+      session.index++;
+      this.scheduleNextFrame(sessionId, session);
+    }, delay);
+  }
+
+  // Helper method to build a frame from a recorded point
+  private static frameAt(
+    location: ILocation,
+    time: number,
+    interpolated: boolean,
+    gap: boolean
+  ): ReplayFrame {
+    return {
+      timestamp: new Date(time),
+      latitude: location.latitude,
+      longitude: location.longitude,
+      speed: gap ? 0 : location.speed,
+      heading: location.heading,
+      interpolated,
+      gap,
+    };
+  }
+}
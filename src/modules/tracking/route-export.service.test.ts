@@ -0,0 +1,109 @@
+import { PassThrough, Writable } from "stream";
+import { RouteExportService } from "./route-export.service";
+import { ILocation, LocationHistory } from "./tracking.model";
+
+const startDate = new Date("2026-01-01T08:00:00Z");
+
+// A minute of points heading north, one every ten seconds
+const points: ILocation[] = Array.from({ length: 6 }, (_, index) => ({
+  latitude: 52.5 + index * 0.001,
+  longitude: 13.4,
+  speed: 5,
+  timestamp: new Date(startDate.getTime() + index * 10 * 1000),
+}));
+
+// Stand in for the aggregation cursor, recording when it is closed
+const mockCursor = (endless = false) => {
+  const cursor = {
+    closed: false,
+    async *[Symbol.asyncIterator]() {
+      do {
+        yield* points;
+      } while (endless);
+    },
+    close: jest.fn(async () => {
+      cursor.closed = true;
+    }),
+  };
+  jest
+    .spyOn(LocationHistory, "aggregate")
+    .mockReturnValue({ cursor: () => cursor } as never);
+  return cursor;
+};
+
+const query = {
+  startDate,
+  endDate: new Date(startDate.getTime() + 60 * 60 * 1000),
+};
+
+describe("RouteExportService.exportRoute", () => {
+  it("streams a GeoJSON feature per point and closes the cursor", async () => {
+    const cursor = mockCursor();
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on("data", (chunk) => chunks.push(chunk));
+
+    await RouteExportService.exportRoute(
+      "rider-1",
+      undefined,
+      {
+        ...query,
+        format: "geojson",
+      },
+      output
+    );
+
+    const collection = JSON.parse(Buffer.concat(chunks).toString());
+    expect(collection.type).toBe("FeatureCollection");
+    expect(
+      collection.features.filter(
+        (feature: any) => feature.properties.kind === "location"
+      )
+    ).toHaveLength(points.length);
+    expect(cursor.close).toHaveBeenCalled();
+  });
+
+  it("writes a GPX track of the points", async () => {
+    mockCursor();
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on("data", (chunk) => chunks.push(chunk));
+
+    await RouteExportService.exportRoute(
+      "rider-1",
+      undefined,
+      {
+        ...query,
+        format: "gpx",
+      },
+      output
+    );
+
+    const gpx = Buffer.concat(chunks).toString();
+    expect(gpx.match(/<trkpt /g)).toHaveLength(points.length);
+    expect(gpx.trim().endsWith("</gpx>")).toBe(true);
+  });
+
+  it("stops and closes the cursor when the client goes away", async () => {
+    const cursor = mockCursor(true);
+    // A client that stalls on the first chunk and then disconnects
+    const output = new Writable({
+      write() {
+        setImmediate(() => output.destroy());
+      },
+    });
+
+    await expect(
+      RouteExportService.exportRoute(
+        "rider-1",
+        undefined,
+        {
+          ...query,
+          format: "kml",
+        },
+        output
+      )
+    ).rejects.toThrow();
+    expect(cursor.closed).toBe(true);
+  });
+});
@@ -0,0 +1,297 @@
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { ILocation, LocationHistory } from "./tracking.model";
+import {
+  DEFAULT_SEGMENTATION_OPTIONS,
+  Stop,
+  StopDetector,
+} from "./trip.service";
+
+export type RouteExportFormat = "gpx" | "kml" | "geojson";
+
+// Route export query interface
+export interface RouteExportQuery {
+  format: RouteExportFormat;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+// Content type and file extension per format
+export const ROUTE_EXPORT_FORMATS: Record<
+  RouteExportFormat,
+  { contentType: string; extension: string }
+> = {
+  gpx: { contentType: "application/gpx+xml", extension: "gpx" },
+  kml: {
+    contentType: "application/vnd.google-earth.kml+xml",
+    extension: "kml",
+  },
+  geojson: { contentType: "application/geo+json", extension: "geojson" },
+};
+
+const GPX_EXTENSIONS_NAMESPACE = "urn:geotrack:gpx:extensions:v1";
+
+// Escape text for XML element content and attributes
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const isSet = (value: number | undefined | null): value is number =>
+  value !== undefined && value !== null;
+
+export class RouteExportService {
+  // Build the attachment file name for an export
+  static getFileName(userId: string, query: RouteExportQuery): string {
+    const { startDate, endDate } = this.resolveRange(query);
+    const day = (date: Date) => date.toISOString().slice(0, 10);
+
+    return `route-${userId}-${day(startDate)}_${day(endDate)}.${
+      ROUTE_EXPORT_FORMATS[query.format].extension
+    }`;
+  }
+
+  // Stream a user's route in the requested format
+  static async exportRoute(
+    userId: string,
+    organizationId: string | undefined,
+    query: RouteExportQuery,
+    output: NodeJS.WritableStream
+  ): Promise<void> {
+    const points = this.streamLocations(userId, organizationId, query);
+
+    // The pipeline waits for the client to drain and, if it goes away,
+    // stops reading and closes the history cursor
+    await pipeline(
+      Readable.from(this.render(userId, points, query.format)),
+      output
+    );
+  }
+
+  // Render a route in the requested format, chunk by chunk
+  private static render(
+    userId: string,
+    points: AsyncIterable<ILocation>,
+    format: RouteExportFormat
+  ): AsyncGenerator<string> {
+    switch (format) {
+      case "gpx":
+        return this.renderGpx(userId, points);
+      case "kml":
+        return this.renderKml(userId, points);
+      case "geojson":
+        return this.renderGeoJson(userId, points);
+    }
+  }
+
+  // Render a GPX 1.1 track, one segment per continuous run of points
+  private static async *renderGpx(
+    userId: string,
+    points: AsyncIterable<ILocation>
+  ): AsyncGenerator<string> {
+    const maxGap = DEFAULT_SEGMENTATION_OPTIONS.maxGap * 1000;
+
+    yield '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      '<gpx version="1.1" creator="GeoTrack" ' +
+      'xmlns="http://www.topografix.com/GPX/1/1" ' +
+      `xmlns:geotrack="${GPX_EXTENSIONS_NAMESPACE}">\n` +
+      `<trk><name>${escapeXml(userId)}</name>\n`;
+
+    let previousTime: number | undefined;
+    for await (const point of points) {
+      const time = new Date(point.timestamp).getTime();
+      if (previousTime === undefined) {
+        yield "<trkseg>\n";
+      } else if (time - previousTime > maxGap) {
+        yield "</trkseg>\n<trkseg>\n";
+      }
+      previousTime = time;
+
+      let extensions = "";
+      if (isSet(point.speed)) {
+        extensions += `<geotrack:speed>${point.speed}</geotrack:speed>`;
+      }
+      if (isSet(point.heading)) {
+        extensions += `<geotrack:heading>${point.heading}</geotrack:heading>`;
+      }
+      if (isSet(point.accuracy)) {
+        extensions += `<geotrack:accuracy>${point.accuracy}</geotrack:accuracy>`;
+      }
+
+      yield `<trkpt lat="${point.latitude}" lon="${point.longitude}">` +
+        (isSet(point.altitude) ? `<ele>${point.altitude}</ele>` : "") +
+        `<time>${new Date(point.timestamp).toISOString()}</time>` +
+        (extensions ? `<extensions>${extensions}</extensions>` : "") +
+        "</trkpt>\n";
+    }
+
+    if (previousTime !== undefined) {
+      yield "</trkseg>\n";
+    }
+    yield "</trk>\n</gpx>\n";
+  }
+
+  // Render a KML document with the route line and a placemark per stop
+  private static async *renderKml(
+    userId: string,
+    points: AsyncIterable<ILocation>
+  ): AsyncGenerator<string> {
+    const maxGap = DEFAULT_SEGMENTATION_OPTIONS.maxGap * 1000;
+    const detector = new StopDetector();
+    const stops: Stop[] = [];
+
+    yield '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      '<kml xmlns="http://www.opengis.net/kml/2.2">\n<Document>\n' +
+      `<name>${escapeXml(userId)}</name>\n` +
+      "<Placemark><name>Route</name><MultiGeometry>\n";
+
+    let previousTime: number | undefined;
+    for await (const point of points) {
+      const time = new Date(point.timestamp).getTime();
+      if (previousTime === undefined) {
+        yield "<LineString><coordinates>\n";
+      } else if (time - previousTime > maxGap) {
+        yield "</coordinates></LineString>\n<LineString><coordinates>\n";
+      }
+      previousTime = time;
+      stops.push(...detector.push(point));
+
+      yield `${point.longitude},${point.latitude}` +
+        (isSet(point.altitude) ? `,${point.altitude}` : "") +
+        "\n";
+    }
+    stops.push(...detector.flush());
+
+    if (previousTime !== undefined) {
+      yield "</coordinates></LineString>\n";
+    }
+    yield "</MultiGeometry></Placemark>\n";
+
+    for (const [index, stop] of stops.entries()) {
+      yield `<Placemark><name>Stop ${index + 1}</name>` +
+        "<TimeSpan>" +
+        `<begin>${stop.arrivalTime.toISOString()}</begin>` +
+        `<end>${stop.departureTime.toISOString()}</end>` +
+        "</TimeSpan><ExtendedData>" +
+        `<Data name="duration"><value>${stop.duration}</value></Data>` +
+        `<Data name="pointCount"><value>${stop.pointCount}</value></Data>` +
+        "</ExtendedData>" +
+        `<Point><coordinates>${stop.centroid.longitude},${stop.centroid.latitude}</coordinates></Point>` +
+        "</Placemark>\n";
+    }
+
+    yield "</Document>\n</kml>\n";
+  }
+
+  // Render a GeoJSON FeatureCollection of location points followed by stops
+  private static async *renderGeoJson(
+    userId: string,
+    points: AsyncIterable<ILocation>
+  ): AsyncGenerator<string> {
+    const detector = new StopDetector();
+    const stops: Stop[] = [];
+    let separator = "";
+
+    const renderFeature = (feature: object) => {
+      const chunk = `${separator}\n${JSON.stringify(feature)}`;
+      separator = ",";
+      return chunk;
+    };
+
+    yield `{"type":"FeatureCollection","properties":${JSON.stringify({
+      userId,
+    })},"features":[`;
+
+    for await (const point of points) {
+      stops.push(...detector.push(point));
+
+      yield renderFeature({
+        type: "Feature",
+        geometry: {
+          type: "Point",
+          coordinates: isSet(point.altitude)
+            ? [point.longitude, point.latitude, point.altitude]
+            : [point.longitude, point.latitude],
+        },
+        properties: {
+          kind: "location",
+          timestamp: new Date(point.timestamp).toISOString(),
+          speed: point.speed ?? null,
+          heading: point.heading ?? null,
+          accuracy: point.accuracy ?? null,
+        },
+      });
+    }
+    stops.push(...detector.flush());
+
+    for (const stop of stops) {
+      yield renderFeature({
+        type: "Feature",
+        geometry: {
+          type: "Point",
+          coordinates: [stop.centroid.longitude, stop.centroid.latitude],
+        },
+        properties: {
+          kind: "stop",
+          arrivalTime: stop.arrivalTime.toISOString(),
+          departureTime: stop.departureTime.toISOString(),
+          duration: stop.duration,
+          pointCount: stop.pointCount,
+        },
+      });
+    }
+
+    yield "\n]}\n";
+  }
+
+  // Helper method to iterate a user's points in time order without loading
+  // whole history documents into memory
+  private static async *streamLocations(
+    userId: string,
+    organizationId: string | undefined,
+    query: RouteExportQuery
+  ): AsyncGenerator<ILocation> {
+    const { startDate, endDate } = this.resolveRange(query);
+
+    // History documents are keyed by the start of the day
+    const firstDay = new Date(startDate);
+    firstDay.setHours(0, 0, 0, 0);
+
+    const match: any = { userId, date: { $gte: firstDay, $lte: endDate } };
+    if (organizationId) match.organizationId = organizationId;
+
+    const cursor = LocationHistory.aggregate<ILocation>([
+      { $match: match },
+      { $sort: { date: 1 } },
+      { $unwind: "$locations" },
+      { $replaceRoot: { newRoot: "$locations" } },
+      { $match: { timestamp: { $gte: startDate, $lte: endDate } } },
+      { $project: { _id: 0, position: 0 } },
+    ]).cursor({ batchSize: 500 });
+
+    // Days are sorted and each day's points are stored in time order. The
+    // cursor is closed even when the export stops early.
+    try {
+      for await (const location of cursor) {
+        yield location;
+      }
+    } finally {
+      await cursor.close();
+    }
+  }
+
+  // Helper method to resolve the default export range (today so far)
+  private static resolveRange(query: RouteExportQuery): {
+    startDate: Date;
+    endDate: Date;
+  } {
+    const startDate = query.startDate ?? new Date();
+    if (!query.startDate) startDate.setHours(0, 0, 0, 0);
+    const endDate = query.endDate ?? new Date();
+
+    return { startDate, endDate };
+  }
+}
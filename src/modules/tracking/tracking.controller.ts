@@ -1,6 +1,46 @@
 import { Response } from "express";
 import { AuthenticatedRequest } from "../auth/auth.interface";
+import {
+  ROUTE_EXPORT_FORMATS,
+  RouteExportFormat,
+  RouteExportService,
+} from "./route-export.service";
+import { LocationBatchService } from "./location-batch.service";
+import { ReplayService } from "./replay.service";
 import { TrackingService } from "./tracking.service";
+import { TripQuery, TripService } from "./trip.service";
+
+// Parse date range and segmentation thresholds from the query string
+const parseTripQuery = (query: AuthenticatedRequest["query"]): TripQuery => {
+  const {
+    startDate,
+    endDate,
+    stopSpeedThreshold,
+    minStopDuration,
+    stopRadius,
+  } = query;
+
+  return {
+    startDate: startDate ? new Date(startDate as string) : undefined,
+    endDate: endDate ? new Date(endDate as string) : undefined,
+    options: {
+      ...(stopSpeedThreshold && {
+        stopSpeedThreshold: parseFloat(stopSpeedThreshold as string),
+      }),
+      ...(minStopDuration && {
+        minStopDuration: parseFloat(minStopDuration as string),
+      }),
+      ...(stopRadius && { stopRadius: parseFloat(stopRadius as string) }),
+    },
+  };
+};
+
+// Organization a proximity query is scoped to, the caller's own or, for super
+// admins who have none, the one named in the query string
+const getQueryOrganizationId = (
+  req: AuthenticatedRequest
+): string | undefined =>
+  req.user!.organizationId || (req.query.organizationId as string | undefined);
 
 export class TrackingController {
   // Update user location
@@ -35,6 +75,37 @@ export class TrackingController {
     }
   }
 
+  // Upload locations recorded while offline
+  static async uploadLocationBatch(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = req.user!.userId;
+
+      const result = await LocationBatchService.uploadBatch(userId, req.body);
+
+      if (!result.success) {
+        return res
+          .status(
+            result.message === "Location batch is already being processed"
+              ? 409
+              : 400
+          )
+          .json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to upload location batch";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
   // Get current location of authenticated user
   static async getCurrentLocation(req: AuthenticatedRequest, res: Response) {
     try {
@@ -111,6 +182,77 @@ export class TrackingController {
     }
   }
 
+  // Get active users near a point (for admins)
+  static async getNearbyUsers(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = getQueryOrganizationId(req);
+      if (!organizationId) {
+        return res.status(400).json({
+          success: false,
+          message: "Organization ID is required",
+        });
+      }
+
+      const { latitude, longitude, radius, limit } = req.query;
+
+      const result = await TrackingService.getNearbyUsers(organizationId, {
+        latitude: parseFloat(latitude as string),
+        longitude: parseFloat(longitude as string),
+        radius: parseFloat(radius as string),
+        limit: limit ? parseInt(limit as string) : 20,
+      });
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to get nearby users";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Get active users inside a bounding box (for admins)
+  static async getUsersInBoundingBox(req: AuthenticatedRequest, res: Response) {
+    try {
+      const organizationId = getQueryOrganizationId(req);
+      if (!organizationId) {
+        return res.status(400).json({
+          success: false,
+          message: "Organization ID is required",
+        });
+      }
+
+      const { minLatitude, minLongitude, maxLatitude, maxLongitude, limit } =
+        req.query;
+
+      const result = await TrackingService.getUsersInBoundingBox(
+        organizationId,
+        {
+          minLatitude: parseFloat(minLatitude as string),
+          minLongitude: parseFloat(minLongitude as string),
+          maxLatitude: parseFloat(maxLatitude as string),
+          maxLongitude: parseFloat(maxLongitude as string),
+          limit: limit ? parseInt(limit as string) : 500,
+        }
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to get users in bounding box";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
   // Get location history for authenticated user
   static async getLocationHistory(req: AuthenticatedRequest, res: Response) {
     try {
@@ -191,6 +333,162 @@ export class TrackingController {
     }
   }
 
+  // Get trips for a specific user (for admins)
+  static async getUserTrips(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { userId } = req.params;
+
+      if (!userId) {
+        return res.status(400).json({
+          success: false,
+          message: "User ID is required",
+        });
+      }
+
+      const result = await TripService.getTrips(
+        userId,
+        req.user!.organizationId,
+        parseTripQuery(req.query)
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to get user trips";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Get stops for a specific user (for admins)
+  static async getUserStops(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { userId } = req.params;
+
+      if (!userId) {
+        return res.status(400).json({
+          success: false,
+          message: "User ID is required",
+        });
+      }
+
+      const result = await TripService.getStops(
+        userId,
+        req.user!.organizationId,
+        parseTripQuery(req.query)
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to get user stops";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Export route for a specific user as GPX, KML or GeoJSON (for admins)
+  static async exportUserRoute(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { userId } = req.params;
+      const { format, startDate, endDate } = req.query;
+
+      if (!userId) {
+        return res.status(400).json({
+          success: false,
+          message: "User ID is required",
+        });
+      }
+
+      const exportQuery = {
+        format: format as RouteExportFormat,
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+      };
+
+      res.status(200);
+      res.setHeader(
+        "Content-Type",
+        `${ROUTE_EXPORT_FORMATS[exportQuery.format].contentType}; charset=utf-8`
+      );
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${RouteExportService.getFileName(
+          userId,
+          exportQuery
+        )}"`
+      );
+
+      await RouteExportService.exportRoute(
+        userId,
+        req.user!.organizationId,
+        exportQuery,
+        res
+      );
+    } catch (error) {
+      // The export is streamed, so a failure after the first chunk can only
+      // abort the response
+      if (res.headersSent) {
+        return res.destroy(error instanceof Error ? error : undefined);
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to export user route";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Get replay frames for a specific user (for admins)
+  static async getUserReplay(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { userId } = req.params;
+      const { startDate, endDate, frameInterval } = req.query;
+
+      if (!userId) {
+        return res.status(400).json({
+          success: false,
+          message: "User ID is required",
+        });
+      }
+
+      const result = await ReplayService.getReplayFrames(
+        userId,
+        req.user!.organizationId,
+        {
+          startDate: new Date(startDate as string),
+          endDate: new Date(endDate as string),
+          frameInterval: frameInterval
+            ? parseFloat(frameInterval as string)
+            : undefined,
+        }
+      );
+
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+
+      res.status(200).json(result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to get user replay";
+
+      res.status(500).json({
+        success: false,
+        message: errorMessage,
+      });
+    }
+  }
+
   // Start tracking for authenticated user
   static async startTracking(req: AuthenticatedRequest, res: Response) {
     try {
@@ -326,7 +624,8 @@ export class TrackingController {
 
       const result = await TrackingService.acknowledgeEmergencyRequest(
         requestId,
-        acknowledgedBy
+        acknowledgedBy,
+        req.user!.role
       );
 
       if (!result.success) {
@@ -365,7 +664,8 @@ export class TrackingController {
 
       const result = await TrackingService.resolveEmergencyRequest(
         requestId,
-        resolvedBy
+        resolvedBy,
+        req.user!.role
       );
 
       if (!result.success) {
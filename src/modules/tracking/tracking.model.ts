@@ -1,9 +1,16 @@
 import mongoose, { Document, Schema } from "mongoose";
 
+// GeoJSON point interface (coordinates are [longitude, latitude])
+export interface IGeoPoint {
+  type: "Point";
+  coordinates: [number, number];
+}
+
 // Location interface
 export interface ILocation {
   latitude: number;
   longitude: number;
+  position?: IGeoPoint;
   accuracy?: number;
   altitude?: number;
   speed?: number;
@@ -11,6 +18,49 @@ export interface ILocation {
   timestamp: Date;
 }
 
+export type EscalationTarget = "organization_admins" | "super_admins";
+
+// Emergency escalation step taken interface
+export interface IEmergencyEscalation {
+  level: number;
+  target: EscalationTarget;
+  notifiedUserIds: string[];
+  escalatedAt: Date;
+}
+
+// What raised an emergency request: the rider or an automatic SOS rule
+export type EmergencyTrigger =
+  | "manual"
+  | "deceleration"
+  | "no_movement"
+  | "missed_check_in";
+
+export type EmergencyTimelineType =
+  | "created"
+  | "escalated"
+  | "acknowledged"
+  | "resolved"
+  | "note"
+  | "attachment";
+
+// Emergency attachment metadata interface
+export interface IEmergencyAttachment {
+  name: string;
+  mimeType: string;
+  size: number; // in bytes
+  url: string;
+}
+
+// Emergency incident timeline entry interface
+export interface IEmergencyTimelineEntry {
+  type: EmergencyTimelineType;
+  actorId?: string;
+  actorRole?: string;
+  message?: string;
+  attachment?: IEmergencyAttachment;
+  createdAt: Date;
+}
+
 // Emergency request interface
 export interface IEmergencyRequest {
   userId: string;
@@ -19,11 +69,16 @@ export interface IEmergencyRequest {
   message?: string;
   status: "pending" | "acknowledged" | "resolved";
   priority: "low" | "medium" | "high" | "critical";
+  trigger: EmergencyTrigger;
   createdAt: Date;
   acknowledgedAt?: Date;
   resolvedAt?: Date;
   acknowledgedBy?: string;
   resolvedBy?: string;
+  escalationLevel: number;
+  nextEscalationAt?: Date;
+  escalations: IEmergencyEscalation[];
+  timeline: IEmergencyTimelineEntry[];
 }
 
 // Location tracking interface
@@ -56,6 +111,32 @@ export interface ILocationHistory extends Document {
   updatedAt: Date;
 }
 
+// GeoJSON Point Schema
+const geoPointSchema = new Schema<IGeoPoint>(
+  {
+    type: {
+      type: String,
+      enum: ["Point"],
+      required: true,
+    },
+    coordinates: {
+      type: [Number],
+      required: true,
+      validate: {
+        validator: (value: number[]) => value.length === 2,
+        message: "Coordinates must be [longitude, latitude]",
+      },
+    },
+  },
+  { _id: false }
+);
+
+// Build a GeoJSON point from latitude/longitude
+export const toGeoPoint = (latitude: number, longitude: number): IGeoPoint => ({
+  type: "Point",
+  coordinates: [longitude, latitude],
+});
+
 // Location Tracking Schema
 const locationTrackingSchema = new Schema<ILocationTracking>(
   {
@@ -84,6 +165,9 @@ const locationTrackingSchema = new Schema<ILocationTracking>(
         min: -180,
         max: 180,
       },
+      position: {
+        type: geoPointSchema,
+      },
       accuracy: {
         type: Number,
         min: 0,
@@ -160,6 +244,9 @@ const locationHistorySchema = new Schema<ILocationHistory>(
           min: -180,
           max: 180,
         },
+        position: {
+          type: geoPointSchema,
+        },
         accuracy: {
           type: Number,
           min: 0,
@@ -271,6 +358,11 @@ const emergencyRequestSchema = new Schema<IEmergencyRequest>(
       default: "medium",
       index: true,
     },
+    trigger: {
+      type: String,
+      enum: ["manual", "deceleration", "no_movement", "missed_check_in"],
+      default: "manual",
+    },
     acknowledgedAt: {
       type: Date,
     },
@@ -285,6 +377,70 @@ const emergencyRequestSchema = new Schema<IEmergencyRequest>(
       type: String,
       ref: "User",
     },
+    escalationLevel: {
+      type: Number,
+      default: 0,
+    },
+    nextEscalationAt: {
+      type: Date,
+    },
+    escalations: [
+      {
+        level: {
+          type: Number,
+          required: true,
+        },
+        target: {
+          type: String,
+          enum: ["organization_admins", "super_admins"],
+          required: true,
+        },
+        notifiedUserIds: {
+          type: [String],
+          default: [],
+        },
+        escalatedAt: {
+          type: Date,
+          required: true,
+        },
+      },
+    ],
+    timeline: [
+      {
+        type: {
+          type: String,
+          enum: [
+            "created",
+            "escalated",
+            "acknowledged",
+            "resolved",
+            "note",
+            "attachment",
+          ],
+          required: true,
+        },
+        actorId: {
+          type: String,
+        },
+        actorRole: {
+          type: String,
+        },
+        message: {
+          type: String,
+          maxlength: 2000,
+        },
+        attachment: {
+          name: String,
+          mimeType: String,
+          size: Number,
+          url: String,
+        },
+        createdAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
   },
   {
     timestamps: true,
@@ -296,13 +452,37 @@ locationTrackingSchema.index({ userId: 1, createdAt: -1 });
 locationTrackingSchema.index({ organizationId: 1, isActive: 1 });
 locationTrackingSchema.index({ "location.timestamp": -1 });
 
+locationTrackingSchema.index({ "location.position": "2dsphere" });
+
 locationHistorySchema.index({ userId: 1, date: -1 });
 locationHistorySchema.index({ organizationId: 1, date: -1 });
+locationHistorySchema.index({ "locations.position": "2dsphere" });
 
 emergencyRequestSchema.index({ userId: 1, status: 1 });
 emergencyRequestSchema.index({ organizationId: 1, status: 1 });
 emergencyRequestSchema.index({ status: 1, priority: 1 });
 emergencyRequestSchema.index({ createdAt: -1 });
+emergencyRequestSchema.index({ status: 1, nextEscalationAt: 1 });
+
+// Keep GeoJSON positions in sync with latitude/longitude
+locationTrackingSchema.pre("validate", function (next) {
+  if (this.location) {
+    this.location.position = toGeoPoint(
+      this.location.latitude,
+      this.location.longitude
+    );
+  }
+  next();
+});
+
+locationHistorySchema.pre("validate", function (next) {
+  for (const location of this.locations) {
+    if (!location.position) {
+      location.position = toGeoPoint(location.latitude, location.longitude);
+    }
+  }
+  next();
+});
 
 // Virtual for distance calculation
 locationTrackingSchema.virtual("distanceFromPrevious").get(function () {
@@ -409,4 +589,54 @@ export const EmergencyRequest = mongoose.model<IEmergencyRequest>(
   emergencyRequestSchema
 );
 
+// Backfill GeoJSON positions on documents stored before they existed
+export const backfillGeoPoints = async (): Promise<void> => {
+  await LocationTracking.updateMany(
+    { "location.position": { $exists: false } },
+    [
+      {
+        $set: {
+          "location.position": {
+            type: "Point",
+            coordinates: ["$location.longitude", "$location.latitude"],
+          },
+        },
+      },
+    ]
+  );
+
+  await LocationHistory.updateMany(
+    {
+      "locations.0": { $exists: true },
+      "locations.position": { $exists: false },
+    },
+    [
+      {
+        $set: {
+          locations: {
+            $map: {
+              input: "$locations",
+              as: "location",
+              in: {
+                $mergeObjects: [
+                  "$$location",
+                  {
+                    position: {
+                      type: "Point",
+                      coordinates: [
+                        "$$location.longitude",
+                        "$$location.latitude",
+                      ],
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+      },
+    ]
+  );
+};
+
 export default LocationTracking;
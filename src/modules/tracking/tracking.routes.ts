@@ -3,6 +3,12 @@ import Joi from "joi";
 import { AuthMiddleware } from "../../middlewares/auth.middleware";
 import { ValidationMiddleware } from "../../middlewares/validate.middleware";
 import { UserRole } from "../auth/auth.interface";
+import { AutoSosController } from "./auto-sos.controller";
+import { EmergencyEscalationController } from "./emergency-escalation.controller";
+import { EmergencyIncidentController } from "./emergency-incident.controller";
+import { LocationFilterController } from "./location-filter.controller";
+import { PRESENCE_STATES } from "./presence.model";
+import { PresenceController } from "./presence.controller";
 import { TrackingController } from "./tracking.controller";
 
 const router = Router();
@@ -26,6 +32,26 @@ const locationUpdateSchema = Joi.object({
   }).optional(),
 });
 
+// Offline location batch validation schema
+const locationBatchSchema = Joi.object({
+  batchId: Joi.string().max(100).required(),
+  locations: Joi.array()
+    .items(
+      Joi.object({
+        latitude: Joi.number().min(-90).max(90).required(),
+        longitude: Joi.number().min(-180).max(180).required(),
+        accuracy: Joi.number().min(0).optional(),
+        altitude: Joi.number().optional(),
+        speed: Joi.number().min(0).optional(),
+        heading: Joi.number().min(0).max(360).optional(),
+        timestamp: Joi.date().required(),
+      })
+    )
+    .min(1)
+    .max(1000)
+    .required(),
+});
+
 // Emergency request validation schema
 const emergencyRequestSchema = Joi.object({
   latitude: Joi.number().min(-90).max(90).required(),
@@ -35,6 +61,48 @@ const emergencyRequestSchema = Joi.object({
   priority: Joi.string().valid("low", "medium", "high", "critical").optional(),
 });
 
+// Emergency escalation policy validation schema
+const escalationPolicySchema = Joi.object({
+  enabled: Joi.boolean().optional(),
+  acknowledgementSla: Joi.object({
+    low: Joi.number().min(10).optional(),
+    medium: Joi.number().min(10).optional(),
+    high: Joi.number().min(10).optional(),
+    critical: Joi.number().min(10).optional(),
+  }).optional(),
+  steps: Joi.array()
+    .items(
+      Joi.object({
+        target: Joi.string()
+          .valid("organization_admins", "super_admins")
+          .required(),
+        userIds: Joi.array().items(Joi.string()).default([]),
+      })
+    )
+    .max(10)
+    .optional(),
+});
+
+// Emergency note validation schema
+const emergencyNoteSchema = Joi.object({
+  text: Joi.string().trim().min(1).max(2000).required(),
+});
+
+// Emergency attachment validation schema
+const emergencyAttachmentSchema = Joi.object({
+  name: Joi.string().max(255).required(),
+  mimeType: Joi.string().max(100).required(),
+  size: Joi.number().integer().min(0).required(),
+  url: Joi.string().uri().required(),
+  description: Joi.string().max(500).optional(),
+});
+
+// Emergency track query validation schema
+const emergencyTrackQuerySchema = Joi.object({
+  since: Joi.date().optional(),
+  limit: Joi.number().min(1).max(5000).optional(),
+});
+
 // Query validation schema
 const querySchema = Joi.object({
   startDate: Joi.date().optional(),
@@ -45,6 +113,123 @@ const querySchema = Joi.object({
   priority: Joi.string().valid("low", "medium", "high", "critical").optional(),
 });
 
+// Proximity query validation schema
+const nearbyQuerySchema = Joi.object({
+  latitude: Joi.number().min(-90).max(90).required(),
+  longitude: Joi.number().min(-180).max(180).required(),
+  radius: Joi.number().min(1).max(100000).required(),
+  limit: Joi.number().min(1).max(100).optional(),
+  organizationId: Joi.string().hex().length(24).optional(),
+});
+
+// Bounding box query validation schema
+const boundingBoxQuerySchema = Joi.object({
+  minLatitude: Joi.number().min(-90).max(90).required(),
+  minLongitude: Joi.number().min(-180).max(180).required(),
+  maxLatitude: Joi.number()
+    .min(-90)
+    .max(90)
+    .greater(Joi.ref("minLatitude"))
+    .required(),
+  maxLongitude: Joi.number()
+    .min(-180)
+    .max(180)
+    .greater(Joi.ref("minLongitude"))
+    .required(),
+  limit: Joi.number().min(1).max(1000).optional(),
+  organizationId: Joi.string().hex().length(24).optional(),
+});
+
+// Trip/stop query validation schema
+const tripQuerySchema = Joi.object({
+  startDate: Joi.date().optional(),
+  endDate: Joi.date().optional(),
+  stopSpeedThreshold: Joi.number().min(0).optional(),
+  minStopDuration: Joi.number().min(0).optional(),
+  stopRadius: Joi.number().min(1).optional(),
+});
+
+// Route export query validation schema
+const routeExportQuerySchema = Joi.object({
+  format: Joi.string().valid("gpx", "kml", "geojson").required(),
+  startDate: Joi.date().optional(),
+  endDate: Joi.date().optional(),
+});
+
+// Route replay query validation schema
+const replayQuerySchema = Joi.object({
+  startDate: Joi.date().required(),
+  endDate: Joi.date().greater(Joi.ref("startDate")).required(),
+  frameInterval: Joi.number().min(1).max(300).optional(),
+});
+
+// Location filter settings validation schema
+const filterSettingsSchema = Joi.object({
+  enabled: Joi.boolean().optional(),
+  maxAccuracy: Joi.number().min(1).optional(),
+  maxSpeed: Joi.number().min(1).optional(),
+  minDistance: Joi.number().min(0).optional(),
+  stationaryInterval: Joi.number().min(0).optional(),
+  kalmanEnabled: Joi.boolean().optional(),
+  kalmanProcessNoise: Joi.number().min(0.1).optional(),
+});
+
+// Presence settings validation schema
+const presenceSettingsSchema = Joi.object({
+  heartbeatInterval: Joi.number().min(5).optional(),
+  movingSpeed: Joi.number().min(0.1).optional(),
+  idleAfter: Joi.number().min(30).optional(),
+  staleAfter: Joi.number().min(10).optional(),
+  offlineAfter: Joi.number().min(60).optional(),
+});
+
+// Automatic SOS settings validation schema
+const autoSosSettingsSchema = Joi.object({
+  enabled: Joi.boolean().optional(),
+  countdown: Joi.number().min(5).max(300).optional(),
+  deceleration: Joi.object({
+    enabled: Joi.boolean().optional(),
+    minSpeed: Joi.number().min(1).optional(),
+    stopSpeed: Joi.number().min(0).optional(),
+    window: Joi.number().min(1).optional(),
+    priority: Joi.string()
+      .valid("low", "medium", "high", "critical")
+      .optional(),
+  }).optional(),
+  noMovement: Joi.object({
+    enabled: Joi.boolean().optional(),
+    after: Joi.number().min(60).optional(),
+    priority: Joi.string()
+      .valid("low", "medium", "high", "critical")
+      .optional(),
+  }).optional(),
+  checkIn: Joi.object({
+    enabled: Joi.boolean().optional(),
+    interval: Joi.number().min(300).optional(),
+    grace: Joi.number().min(30).optional(),
+    priority: Joi.string()
+      .valid("low", "medium", "high", "critical")
+      .optional(),
+  }).optional(),
+});
+
+// Presence snapshot query validation schema
+const presenceQuerySchema = Joi.object({
+  state: Joi.string()
+    .valid(...PRESENCE_STATES)
+    .optional(),
+});
+
+// Rejected location query validation schema
+const rejectedLocationQuerySchema = Joi.object({
+  userId: Joi.string().optional(),
+  reason: Joi.string().valid("accuracy", "speed").optional(),
+  startDate: Joi.date().optional(),
+  endDate: Joi.date().optional(),
+  page: Joi.number().min(1).optional(),
+  limit: Joi.number().min(1).max(100).optional(),
+});
+
 // ==================== DELIVERY USER ROUTES ====================
 
 // Update location (Delivery User)
@@ -56,6 +241,15 @@ router.post(
   TrackingController.updateLocation
 );
 
+// Upload locations recorded while offline (Delivery User)
+router.post(
+  "/location/batch",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.DELIVERY_USER]),
+  ValidationMiddleware.validateBody(locationBatchSchema),
+  TrackingController.uploadLocationBatch
+);
+
 // Get current location (Delivery User)
 router.get(
   "/location/current",
@@ -108,6 +302,26 @@ router.get(
   TrackingController.getActiveLocations
 );
 
+// Get active users near a point (Admin), super admins name the
+// organization with ?organizationId=
+router.get(
+  "/locations/nearby",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ADMIN, UserRole.SUPER_ADMIN]),
+  ValidationMiddleware.validateQuery(nearbyQuerySchema),
+  TrackingController.getNearbyUsers
+);
+
+// Get active users inside a bounding box (Admin), super admins name the
+// organization with ?organizationId=
+router.get(
+  "/locations/within",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ADMIN, UserRole.SUPER_ADMIN]),
+  ValidationMiddleware.validateQuery(boundingBoxQuerySchema),
+  TrackingController.getUsersInBoundingBox
+);
+
 // Get specific user location (Admin)
 router.get(
   "/locations/user/:userId",
@@ -125,6 +339,42 @@ router.get(
   TrackingController.getUserLocationHistory
 );
 
+// Get specific user trips (Admin)
+router.get(
+  "/locations/user/:userId/trips",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ADMIN, UserRole.SUPER_ADMIN]),
+  ValidationMiddleware.validateQuery(tripQuerySchema),
+  TrackingController.getUserTrips
+);
+
+// Get specific user stops (Admin)
+router.get(
+  "/locations/user/:userId/stops",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ADMIN, UserRole.SUPER_ADMIN]),
+  ValidationMiddleware.validateQuery(tripQuerySchema),
+  TrackingController.getUserStops
+);
+
+// Export specific user route as GPX, KML or GeoJSON (Admin)
+router.get(
+  "/locations/user/:userId/export",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ADMIN, UserRole.SUPER_ADMIN]),
+  ValidationMiddleware.validateQuery(routeExportQuerySchema),
+  TrackingController.exportUserRoute
+);
+
+// Get specific user route replay frames (Admin)
+router.get(
+  "/locations/user/:userId/replay",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ADMIN, UserRole.SUPER_ADMIN]),
+  ValidationMiddleware.validateQuery(replayQuerySchema),
+  TrackingController.getUserReplay
+);
+
 // Get emergency requests (Admin)
 router.get(
   "/emergency",
@@ -150,6 +400,66 @@ router.patch(
   TrackingController.resolveEmergencyRequest
 );
 
+// Get emergency escalation policy (Admin)
+router.get(
+  "/emergency/policy",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ADMIN]),
+  EmergencyEscalationController.getPolicy
+);
+
+// Update emergency escalation policy (Admin)
+router.put(
+  "/emergency/policy",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ADMIN]),
+  ValidationMiddleware.validateBody(escalationPolicySchema),
+  EmergencyEscalationController.updatePolicy
+);
+
+// Get emergency request with timeline and current location (Admin)
+router.get(
+  "/emergency/:requestId",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ADMIN, UserRole.SUPER_ADMIN]),
+  EmergencyIncidentController.getIncident
+);
+
+// Get rider track since emergency request (Admin)
+router.get(
+  "/emergency/:requestId/track",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ADMIN, UserRole.SUPER_ADMIN]),
+  ValidationMiddleware.validateQuery(emergencyTrackQuerySchema),
+  EmergencyIncidentController.getTrack
+);
+
+// Add note to emergency request (Admin / Delivery User)
+router.post(
+  "/emergency/:requestId/notes",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([
+    UserRole.ADMIN,
+    UserRole.SUPER_ADMIN,
+    UserRole.DELIVERY_USER,
+  ]),
+  ValidationMiddleware.validateBody(emergencyNoteSchema),
+  EmergencyIncidentController.addNote
+);
+
+// Add attachment to emergency request (Admin / Delivery User)
+router.post(
+  "/emergency/:requestId/attachments",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([
+    UserRole.ADMIN,
+    UserRole.SUPER_ADMIN,
+    UserRole.DELIVERY_USER,
+  ]),
+  ValidationMiddleware.validateBody(emergencyAttachmentSchema),
+  EmergencyIncidentController.addAttachment
+);
+
 // Get tracking statistics (Admin)
 router.get(
   "/stats",
@@ -168,6 +478,24 @@ router.get(
   TrackingController.getActiveLocations
 );
 
+// Get active users near a point (Organization Admin)
+router.get(
+  "/org/locations/nearby",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  ValidationMiddleware.validateQuery(nearbyQuerySchema),
+  TrackingController.getNearbyUsers
+);
+
+// Get active users inside a bounding box (Organization Admin)
+router.get(
+  "/org/locations/within",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  ValidationMiddleware.validateQuery(boundingBoxQuerySchema),
+  TrackingController.getUsersInBoundingBox
+);
+
 // Get specific user location (Organization Admin)
 router.get(
   "/org/locations/user/:userId",
@@ -185,6 +513,42 @@ router.get(
   TrackingController.getUserLocationHistory
 );
 
+// Get specific user trips (Organization Admin)
+router.get(
+  "/org/locations/user/:userId/trips",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  ValidationMiddleware.validateQuery(tripQuerySchema),
+  TrackingController.getUserTrips
+);
+
+// Get specific user stops (Organization Admin)
+router.get(
+  "/org/locations/user/:userId/stops",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  ValidationMiddleware.validateQuery(tripQuerySchema),
+  TrackingController.getUserStops
+);
+
+// Export specific user route as GPX, KML or GeoJSON (Organization Admin)
+router.get(
+  "/org/locations/user/:userId/export",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  ValidationMiddleware.validateQuery(routeExportQuerySchema),
+  TrackingController.exportUserRoute
+);
+
+// Get specific user route replay frames (Organization Admin)
+router.get(
+  "/org/locations/user/:userId/replay",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  ValidationMiddleware.validateQuery(replayQuerySchema),
+  TrackingController.getUserReplay
+);
+
 // Get emergency requests (Organization Admin)
 router.get(
   "/org/emergency",
@@ -210,6 +574,58 @@ router.patch(
   TrackingController.resolveEmergencyRequest
 );
 
+// Get emergency escalation policy (Organization Admin)
+router.get(
+  "/org/emergency/policy",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  EmergencyEscalationController.getPolicy
+);
+
+// Update emergency escalation policy (Organization Admin)
+router.put(
+  "/org/emergency/policy",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  ValidationMiddleware.validateBody(escalationPolicySchema),
+  EmergencyEscalationController.updatePolicy
+);
+
+// Get emergency request with timeline and current location (Organization Admin)
+router.get(
+  "/org/emergency/:requestId",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  EmergencyIncidentController.getIncident
+);
+
+// Get rider track since emergency request (Organization Admin)
+router.get(
+  "/org/emergency/:requestId/track",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  ValidationMiddleware.validateQuery(emergencyTrackQuerySchema),
+  EmergencyIncidentController.getTrack
+);
+
+// Add note to emergency request (Organization Admin)
+router.post(
+  "/org/emergency/:requestId/notes",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  ValidationMiddleware.validateBody(emergencyNoteSchema),
+  EmergencyIncidentController.addNote
+);
+
+// Add attachment to emergency request (Organization Admin)
+router.post(
+  "/org/emergency/:requestId/attachments",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  ValidationMiddleware.validateBody(emergencyAttachmentSchema),
+  EmergencyIncidentController.addAttachment
+);
+
 // Get tracking statistics (Organization Admin)
 router.get(
   "/org/stats",
@@ -218,4 +634,106 @@ router.get(
   TrackingController.getTrackingStats
 );
 
+// ==================== AUTOMATIC SOS ROUTES ====================
+
+// Check in (Delivery User)
+router.post(
+  "/check-in",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.DELIVERY_USER]),
+  AutoSosController.checkIn
+);
+
+// Cancel automatic SOS during countdown (Delivery User)
+router.post(
+  "/sos/:alertId/cancel",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.DELIVERY_USER]),
+  AutoSosController.cancel
+);
+
+// Get automatic SOS settings (Organization Admin)
+router.get(
+  "/sos/settings",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  AutoSosController.getSettings
+);
+
+// Update automatic SOS settings (Organization Admin)
+router.put(
+  "/sos/settings",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  ValidationMiddleware.validateBody(autoSosSettingsSchema),
+  AutoSosController.updateSettings
+);
+
+// ==================== LOCATION FILTER ROUTES ====================
+
+// Get location filter settings (Organization Admin)
+router.get(
+  "/filter/settings",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  LocationFilterController.getSettings
+);
+
+// Update location filter settings (Organization Admin)
+router.put(
+  "/filter/settings",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  ValidationMiddleware.validateBody(filterSettingsSchema),
+  LocationFilterController.updateSettings
+);
+
+// Get rejected points (Organization Admin)
+router.get(
+  "/filter/rejections",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  ValidationMiddleware.validateQuery(rejectedLocationQuerySchema),
+  LocationFilterController.getRejectedLocations
+);
+
+// Get filter statistics (Organization Admin)
+router.get(
+  "/filter/stats",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  ValidationMiddleware.validateQuery(
+    querySchema.keys({ userId: Joi.string() })
+  ),
+  LocationFilterController.getFilterStats
+);
+
+// ==================== PRESENCE ROUTES ====================
+
+// Get presence of every rider (Organization Admin)
+router.get(
+  "/presence",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  ValidationMiddleware.validateQuery(presenceQuerySchema),
+  PresenceController.getSnapshot
+);
+
+// Get presence settings (Organization Admin)
+router.get(
+  "/presence/settings",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  PresenceController.getSettings
+);
+
+// Update presence settings (Organization Admin)
+router.put(
+  "/presence/settings",
+  AuthMiddleware.verifyToken,
+  AuthMiddleware.requireRole([UserRole.ORGANIZATION_ADMIN]),
+  ValidationMiddleware.validateBody(presenceSettingsSchema),
+  PresenceController.updateSettings
+);
+
 export default router;
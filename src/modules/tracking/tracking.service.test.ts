@@ -0,0 +1,114 @@
+import { Types } from "mongoose";
+import { TrackingService } from "./tracking.service";
+import LocationTracking, { LocationHistory } from "./tracking.model";
+
+const userId = new Types.ObjectId().toString();
+const organizationId = new Types.ObjectId().toString();
+
+describe("GeoJSON positions", () => {
+  it("stores the live position as [longitude, latitude]", async () => {
+    const tracking = new LocationTracking({
+      userId,
+      organizationId,
+      location: { latitude: 52.52, longitude: 13.405, timestamp: new Date() },
+    });
+
+    await tracking.validate();
+
+    expect(tracking.toObject().location.position).toEqual({
+      type: "Point",
+      coordinates: [13.405, 52.52],
+    });
+  });
+
+  it("fills in missing positions on history points", async () => {
+    const history = new LocationHistory({
+      userId,
+      organizationId,
+      date: new Date(),
+      locations: [
+        { latitude: 48.85, longitude: 2.35, timestamp: new Date() },
+        { latitude: 48.86, longitude: 2.36, timestamp: new Date() },
+      ],
+    });
+
+    await history.validate();
+
+    expect(
+      history.locations.map((location) => location.position?.coordinates)
+    ).toEqual([
+      [2.35, 48.85],
+      [2.36, 48.86],
+    ]);
+  });
+});
+
+describe("TrackingService proximity queries", () => {
+  it("asks for the nearest active users within the radius", async () => {
+    const aggregate = jest
+      .spyOn(LocationTracking, "aggregate")
+      .mockResolvedValue([] as never);
+    jest.spyOn(LocationTracking, "populate").mockResolvedValue([] as never);
+
+    const result = await TrackingService.getNearbyUsers(organizationId, {
+      latitude: 52.52,
+      longitude: 13.405,
+      radius: 1000,
+    });
+
+    expect(result.success).toBe(true);
+    expect(aggregate).toHaveBeenCalledWith([
+      {
+        $geoNear: {
+          near: { type: "Point", coordinates: [13.405, 52.52] },
+          key: "location.position",
+          distanceField: "distance",
+          maxDistance: 1000,
+          spherical: true,
+          query: { organizationId, isActive: true },
+        },
+      },
+      { $limit: 20 },
+      { $project: { __v: 0 } },
+    ]);
+  });
+
+  it("looks inside a closed ring around the bounding box", async () => {
+    const chain = {
+      populate: () => chain,
+      sort: () => chain,
+      limit: async () => [],
+    };
+    const find = jest
+      .spyOn(LocationTracking, "find")
+      .mockReturnValue(chain as never);
+
+    await TrackingService.getUsersInBoundingBox(organizationId, {
+      minLatitude: 52.5,
+      minLongitude: 13.3,
+      maxLatitude: 52.6,
+      maxLongitude: 13.5,
+    });
+
+    expect(find).toHaveBeenCalledWith({
+      organizationId,
+      isActive: true,
+      "location.position": {
+        $geoWithin: {
+          $geometry: {
+            type: "Polygon",
+            coordinates: [
+              [
+                [13.3, 52.5],
+                [13.5, 52.5],
+                [13.5, 52.6],
+                [13.3, 52.6],
+                [13.3, 52.5],
+              ],
+            ],
+          },
+        },
+      },
+    });
+  });
+});
@@ -1,9 +1,18 @@
-import User from "../user/user.model";
-import {
-  default as EmergencyRequest,
+import DeliveryUser from "../deliveryUser/delivery.model";
+import { IdentityService } from "../identity/identity.service";
+import { AutoSosService } from "./auto-sos.service";
+import { EmergencyEscalationService } from "./emergency-escalation.service";
+import { EmergencyIncidentService } from "./emergency-incident.service";
+import { GeofenceEventPayload, GeofenceService } from "./geofence.service";
+import { LocationFilterService } from "./location-filter.service";
+import { PresenceService } from "./presence.service";
+import { RealtimeTrackingService } from "./realtime-tracking.service";
+import LocationTracking, {
+  EmergencyRequest,
   ILocation,
-  default as LocationHistory,
-  default as LocationTracking,
+  ILocationHistory,
+  LocationHistory,
+  toGeoPoint,
 } from "./tracking.model";
 
 // Tracking Service Response Interface
@@ -49,6 +58,23 @@ export interface LocationHistoryQuery {
   limit?: number;
 }
 
+// Proximity query interface
+export interface NearbyQuery {
+  latitude: number;
+  longitude: number;
+  radius: number; // in meters
+  limit?: number;
+}
+
+// Bounding box query interface
+export interface BoundingBoxQuery {
+  minLatitude: number;
+  minLongitude: number;
+  maxLatitude: number;
+  maxLongitude: number;
+  limit?: number;
+}
+
 export class TrackingService {
   // Update user location
   static async updateLocation(
@@ -57,7 +83,7 @@ export class TrackingService {
   ): Promise<TrackingResponse> {
     try {
       // Verify user exists and is active
-      const user = await User.findById(userId);
+      const user = await IdentityService.findProfile(userId);
       if (!user) {
         return {
           success: false,
@@ -95,7 +121,7 @@ export class TrackingService {
       }
 
       // Create location object
-      const location: ILocation = {
+      const rawLocation: ILocation = {
         latitude: locationData.latitude,
         longitude: locationData.longitude,
         accuracy: locationData.accuracy,
@@ -105,6 +131,25 @@ export class TrackingService {
         timestamp: new Date(),
       };
 
+      // Drop noisy or impossible points before they are persisted
+      const filterResult = await LocationFilterService.filterLocation(
+        userId,
+        user.organizationId!.toString(),
+        rawLocation
+      );
+      if (!filterResult.accepted) {
+        return {
+          success: true,
+          message: "Location discarded by filter",
+          data: {
+            accepted: false,
+            reason: filterResult.reason,
+            details: filterResult.details,
+          },
+        };
+      }
+      const location = filterResult.location;
+
       // Update or create location tracking
       const existingTracking = await LocationTracking.findOne({
         userId,
@@ -142,10 +187,39 @@ export class TrackingService {
         location
       );
 
+      // Riders in an emergency have every point kept
+      await EmergencyIncidentService.recordLocation(
+        userId,
+        user.organizationId!.toString(),
+        location,
+        locationData.batteryLevel
+      );
+
+      // A point is also a heartbeat
+      await PresenceService.recordLocation(
+        userId,
+        user.organizationId!.toString(),
+        location
+      );
+
+      // Look for a crash-like stop
+      await AutoSosService.evaluateLocation(
+        userId,
+        user.organizationId!.toString(),
+        location
+      );
+
+      // Check geofences and notify organization admins
+      const geofenceEvents = await this.checkGeofences(
+        userId,
+        user.organizationId!.toString(),
+        location
+      );
+
       return {
         success: true,
         message: "Location updated successfully",
-        data: { location },
+        data: { accepted: true, location, geofenceEvents },
       };
     } catch (error) {
       throw new Error(
@@ -212,6 +286,98 @@ export class TrackingService {
     }
   }
 
+  // Get active delivery users within a radius of a point, nearest first
+  static async getNearbyUsers(
+    organizationId: string,
+    nearbyQuery: NearbyQuery
+  ): Promise<TrackingResponse> {
+    try {
+      const { latitude, longitude, radius, limit = 20 } = nearbyQuery;
+
+      const results = await LocationTracking.aggregate([
+        {
+          $geoNear: {
+            near: toGeoPoint(latitude, longitude),
+            key: "location.position",
+            distanceField: "distance",
+            maxDistance: radius,
+            spherical: true,
+            query: { organizationId, isActive: true },
+          },
+        },
+        { $limit: limit },
+        { $project: { __v: 0 } },
+      ]);
+
+      const locations = await LocationTracking.populate(results, {
+        path: "userId",
+        select: "name email role",
+      });
+
+      return {
+        success: true,
+        message: "Nearby users retrieved successfully",
+        data: locations,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get nearby users"
+      );
+    }
+  }
+
+  // Get active delivery users inside a bounding box
+  static async getUsersInBoundingBox(
+    organizationId: string,
+    boundingBox: BoundingBoxQuery
+  ): Promise<TrackingResponse> {
+    try {
+      const {
+        minLatitude,
+        minLongitude,
+        maxLatitude,
+        maxLongitude,
+        limit = 500,
+      } = boundingBox;
+
+      const locations = await LocationTracking.find({
+        organizationId,
+        isActive: true,
+        "location.position": {
+          $geoWithin: {
+            $geometry: {
+              type: "Polygon",
+              coordinates: [
+                [
+                  [minLongitude, minLatitude],
+                  [maxLongitude, minLatitude],
+                  [maxLongitude, maxLatitude],
+                  [minLongitude, maxLatitude],
+                  [minLongitude, minLatitude],
+                ],
+              ],
+            },
+          },
+        },
+      })
+        .populate("userId", "name email role")
+        .sort({ "location.timestamp": -1 })
+        .limit(limit);
+
+      return {
+        success: true,
+        message: "Users in bounding box retrieved successfully",
+        data: locations,
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "Failed to get users in bounding box"
+      );
+    }
+  }
+
   // Get location history for a user
   static async getLocationHistory(
     userId: string,
@@ -265,7 +431,7 @@ export class TrackingService {
   // Start tracking for a user
   static async startTracking(userId: string): Promise<TrackingResponse> {
     try {
-      const user = await User.findById(userId);
+      const user = await IdentityService.findProfile(userId);
       if (!user) {
         return {
           success: false,
@@ -328,6 +494,7 @@ export class TrackingService {
 
       tracking.isActive = false;
       await tracking.save();
+      AutoSosService.forget(userId);
 
       return {
         success: true,
@@ -346,7 +513,7 @@ export class TrackingService {
     emergencyData: EmergencyRequestData
   ): Promise<TrackingResponse> {
     try {
-      const user = await User.findById(userId);
+      const user = await IdentityService.findProfile(userId);
       if (!user) {
         return {
           success: false,
@@ -381,10 +548,31 @@ export class TrackingService {
         message: emergencyData.message,
         priority: emergencyData.priority || "medium",
         status: "pending",
+        timeline: [
+          EmergencyIncidentService.timelineEntry("created", {
+            userId,
+            role: IdentityService.getRole(user),
+          }),
+        ],
       });
 
       await emergencyRequest.save();
 
+      // Alert organization admins and escalate if nobody acknowledges in time
+      RealtimeTrackingService.sendToOrganization(
+        emergencyRequest.organizationId,
+        "emergency_alert",
+        {
+          ...emergencyRequest.toJSON(),
+          timestamp: new Date(),
+        }
+      );
+      await EmergencyEscalationService.open(String(emergencyRequest._id));
+      EmergencyIncidentService.startFollowUp(
+        userId,
+        String(emergencyRequest._id)
+      );
+
       return {
         success: true,
         message: "Emergency request created successfully",
@@ -450,7 +638,8 @@ export class TrackingService {
   // Acknowledge emergency request
   static async acknowledgeEmergencyRequest(
     requestId: string,
-    acknowledgedBy: string
+    acknowledgedBy: string,
+    actorRole?: string
   ): Promise<TrackingResponse> {
     try {
       const request = (await EmergencyRequest.findById(requestId)) as any;
@@ -472,8 +661,15 @@ export class TrackingService {
       request.status = "acknowledged";
       request.acknowledgedBy = acknowledgedBy;
       request.acknowledgedAt = new Date();
+      request.timeline.push(
+        EmergencyIncidentService.timelineEntry("acknowledged", {
+          userId: acknowledgedBy,
+          role: actorRole,
+        })
+      );
 
       await request.save();
+      EmergencyEscalationService.close(requestId);
 
       return {
         success: true,
@@ -492,7 +688,8 @@ export class TrackingService {
   // Resolve emergency request
   static async resolveEmergencyRequest(
     requestId: string,
-    resolvedBy: string
+    resolvedBy: string,
+    actorRole?: string
   ): Promise<TrackingResponse> {
     try {
       const request = (await EmergencyRequest.findById(requestId)) as any;
@@ -514,8 +711,16 @@ export class TrackingService {
       request.status = "resolved";
       request.resolvedBy = resolvedBy;
       request.resolvedAt = new Date();
+      request.timeline.push(
+        EmergencyIncidentService.timelineEntry("resolved", {
+          userId: resolvedBy,
+          role: actorRole,
+        })
+      );
 
       await request.save();
+      EmergencyEscalationService.close(requestId);
+      EmergencyIncidentService.stopFollowUp(request.userId, requestId);
 
       return {
         success: true,
@@ -543,7 +748,8 @@ export class TrackingService {
         pendingEmergencyRequests,
         resolvedEmergencyRequests,
       ] = await Promise.all([
-        User.countDocuments({ organizationId, status: "active" }),
+        // Riders are delivery users, not platform users
+        DeliveryUser.countDocuments({ organizationId, status: "active" }),
         LocationTracking.countDocuments({ organizationId, isActive: true }),
         EmergencyRequest.countDocuments({ organizationId }),
         EmergencyRequest.countDocuments({ organizationId, status: "pending" }),
@@ -609,29 +815,7 @@ export class TrackingService {
       }
 
       // Calculate total distance and time
-      if (history.locations.length > 1) {
-        let totalDistance = 0;
-        for (let i = 1; i < history.locations.length; i++) {
-          const prev = history.locations[i - 1];
-          const curr = history.locations[i];
-          totalDistance += this.calculateDistance(
-            prev.latitude,
-            prev.longitude,
-            curr.latitude,
-            curr.longitude
-          );
-        }
-
-        const totalTime =
-          (history.locations[history.locations.length - 1].timestamp.getTime() -
-            history.locations[0].timestamp.getTime()) /
-          1000; // in seconds
-
-        history.totalDistance = totalDistance;
-        history.totalTime = totalTime;
-        history.averageSpeed =
-          totalTime > 0 ? (totalDistance / totalTime) * 3600 : 0; // km/h
-      }
+      this.calculateHistoryTotals(history);
 
       await history.save();
     } catch (error) {
@@ -640,6 +824,64 @@ export class TrackingService {
     }
   }
 
+  // Recalculate distance, time and speed totals of a daily history
+  static calculateHistoryTotals(history: ILocationHistory): void {
+    if (history.locations.length < 2) return;
+
+    let totalDistance = 0;
+    for (let i = 1; i < history.locations.length; i++) {
+      const prev = history.locations[i - 1];
+      const curr = history.locations[i];
+      totalDistance += this.calculateDistance(
+        prev.latitude,
+        prev.longitude,
+        curr.latitude,
+        curr.longitude
+      );
+    }
+
+    const totalTime =
+      (new Date(
+        history.locations[history.locations.length - 1].timestamp
+      ).getTime() -
+        new Date(history.locations[0].timestamp).getTime()) /
+      1000; // in seconds
+
+    history.totalDistance = totalDistance;
+    history.totalTime = totalTime;
+    history.averageSpeed =
+      totalTime > 0 ? (totalDistance / totalTime) * 3600 : 0; // km/h
+  }
+
+  // Helper method to run geofence checks for a new location
+  private static async checkGeofences(
+    userId: string,
+    organizationId: string,
+    location: ILocation
+  ): Promise<GeofenceEventPayload[]> {
+    try {
+      const events = await GeofenceService.processLocation(
+        userId,
+        organizationId,
+        location
+      );
+
+      for (const event of events) {
+        RealtimeTrackingService.sendToOrganization(
+          organizationId,
+          "geofence_event",
+          event
+        );
+      }
+
+      return events;
+    } catch (error) {
+      // Don't fail the location update because of geofence processing
+      console.error("Failed to process geofences:", error);
+      return [];
+    }
+  }
+
   // Helper method to calculate distance between two points
   private static calculateDistance(
     lat1: number,
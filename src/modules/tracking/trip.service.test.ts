@@ -0,0 +1,100 @@
+import { StopDetector, TripService } from "./trip.service";
+import { ILocation } from "./tracking.model";
+
+const start = new Date("2026-01-01T08:00:00Z").getTime();
+
+// About 300 m of latitude, covered in one 30 s step at 10 m/s
+const STEP = 0.0027;
+
+// Build a track from [seconds, latitude steps north, reported speed] tuples
+const track = (...steps: [number, number, number][]): ILocation[] =>
+  steps.map(([seconds, north, speed]) => ({
+    latitude: 52.5 + north * STEP,
+    longitude: 13.4,
+    speed,
+    timestamp: new Date(start + seconds * 1000),
+  }));
+
+// Drive north for five minutes, wait five, drive on for five more
+const deliveryRun = track(
+  ...Array.from({ length: 11 }, (_, k): [number, number, number] => [
+    k * 30,
+    k,
+    10,
+  ]),
+  ...Array.from({ length: 10 }, (_, k): [number, number, number] => [
+    330 + k * 30,
+    10,
+    0,
+  ]),
+  ...Array.from({ length: 10 }, (_, k): [number, number, number] => [
+    630 + k * 30,
+    11 + k,
+    10,
+  ])
+);
+
+describe("TripService.segmentLocations", () => {
+  it("splits a run into trips around a stop", () => {
+    const { trips, stops } = TripService.segmentLocations(deliveryRun);
+
+    expect(stops).toHaveLength(1);
+    expect(stops[0].duration).toBe(300);
+    expect(stops[0].centroid.latitude).toBeCloseTo(52.5 + 10 * STEP);
+
+    expect(trips).toHaveLength(2);
+    expect(trips[0].endTime).toEqual(stops[0].arrivalTime);
+    expect(trips[1].startTime).toEqual(stops[0].departureTime);
+    expect(trips[0].distance).toBeCloseTo(3, 0);
+    expect(trips[0].maxSpeed).toBeCloseTo(36);
+  });
+
+  it("sorts points before segmenting", () => {
+    const shuffled = [...deliveryRun].reverse();
+
+    expect(TripService.segmentLocations(shuffled)).toEqual(
+      TripService.segmentLocations(deliveryRun)
+    );
+  });
+
+  it("ignores pauses shorter than the minimum stop", () => {
+    const { trips, stops } = TripService.segmentLocations(
+      track([0, 0, 10], [30, 1, 10], [60, 1, 0], [90, 1, 0], [120, 2, 10])
+    );
+
+    expect(stops).toEqual([]);
+    expect(trips).toHaveLength(1);
+    expect(trips[0].pointCount).toBe(5);
+  });
+
+  it("ends a trip at a gap without points", () => {
+    const { trips, stops } = TripService.segmentLocations(
+      track([0, 0, 10], [30, 1, 10], [1800, 5, 10], [1830, 6, 10])
+    );
+
+    expect(stops).toEqual([]);
+    expect(trips.map((trip) => trip.pointCount)).toEqual([2, 2]);
+  });
+});
+
+describe("StopDetector", () => {
+  it("reports a stop as soon as the rider moves off", () => {
+    const detector = new StopDetector();
+    const reported = deliveryRun.flatMap((point) => detector.push(point));
+
+    expect(reported).toHaveLength(1);
+    expect(reported[0].pointCount).toBe(11);
+    expect(detector.flush()).toEqual([]);
+  });
+
+  it("reports a stop still in progress on flush", () => {
+    const detector = new StopDetector({ minStopDuration: 60 });
+    track([0, 0, 0], [30, 0, 0], [60, 0, 0]).forEach((point) =>
+      expect(detector.push(point)).toEqual([])
+    );
+
+    expect(detector.flush()).toEqual([
+      expect.objectContaining({ duration: 60, pointCount: 3 }),
+    ]);
+  });
+});
@@ -0,0 +1,347 @@
+import { GeoPoint, GeoUtils } from "./geo.utils";
+import { ILocation, LocationHistory } from "./tracking.model";
+import { TrackingResponse } from "./tracking.service";
+
+// Segmentation thresholds
+export interface SegmentationOptions {
+  stopSpeedThreshold: number; // in m/s, at or below counts as stationary
+  minStopDuration: number; // in seconds
+  stopRadius: number; // in meters
+  maxGap: number; // in seconds, longer gaps without points end a trip
+}
+
+// Trip interface
+export interface Trip {
+  startTime: Date;
+  endTime: Date;
+  duration: number; // in seconds
+  distance: number; // in kilometers
+  maxSpeed: number; // in km/h
+  averageSpeed: number; // in km/h
+  startLocation: GeoPoint;
+  endLocation: GeoPoint;
+  pointCount: number;
+}
+
+// Stop interface
+export interface Stop {
+  arrivalTime: Date;
+  departureTime: Date;
+  duration: number; // in seconds
+  centroid: GeoPoint;
+  pointCount: number;
+}
+
+// Trip/stop query interface
+export interface TripQuery {
+  startDate?: Date;
+  endDate?: Date;
+  options?: Partial<SegmentationOptions>;
+}
+
+export const DEFAULT_SEGMENTATION_OPTIONS: SegmentationOptions = {
+  stopSpeedThreshold: 1, // ~3.6 km/h
+  minStopDuration: 120,
+  stopRadius: 50,
+  maxGap: 600,
+};
+
+// Timestamp of a point in milliseconds
+const timeOf = (location: ILocation): number =>
+  new Date(location.timestamp).getTime();
+
+// Speed at a point in m/s, reported by the device or implied by the
+// previous point
+const speedBetween = (
+  previous: ILocation | undefined,
+  current: ILocation
+): number => {
+  if (current.speed !== undefined && current.speed !== null) {
+    return current.speed;
+  }
+  if (!previous) return 0;
+
+  const elapsed = (timeOf(current) - timeOf(previous)) / 1000;
+  if (elapsed <= 0) return 0;
+
+  return GeoUtils.distanceInMeters(previous, current) / elapsed;
+};
+
+// Incremental stop detection over a time-ordered stream of points. A stop
+// is a run of slow points that stay within stopRadius of the first one for
+// at least minStopDuration; only the current candidate run is kept in memory.
+export class StopDetector {
+  private cluster: ILocation[] = [];
+  private previous?: ILocation;
+  private readonly options: SegmentationOptions;
+
+  constructor(overrides: Partial<SegmentationOptions> = {}) {
+    this.options = { ...DEFAULT_SEGMENTATION_OPTIONS, ...overrides };
+  }
+
+  // Add the next point, returning any stop it completes
+  push(point: ILocation): Stop[] {
+    const stops: Stop[] = [];
+    this.feed(point, stops);
+    return stops;
+  }
+
+  // Close the candidate run at the end of the stream
+  flush(): Stop[] {
+    const stop = this.buildStop(this.cluster);
+    this.cluster = [];
+    this.previous = undefined;
+    return stop ? [stop] : [];
+  }
+
+  private feed(point: ILocation, stops: Stop[]) {
+    const previous = this.previous;
+    this.previous = point;
+
+    if (this.cluster.length === 0) {
+      this.cluster = [point];
+      return;
+    }
+
+    const anchor = this.cluster[0];
+    const continues =
+      !!previous &&
+      timeOf(point) - timeOf(previous) <= this.options.maxGap * 1000 &&
+      GeoUtils.distanceInMeters(anchor, point) <= this.options.stopRadius &&
+      speedBetween(previous, point) <= this.options.stopSpeedThreshold;
+
+    if (continues) {
+      this.cluster.push(point);
+      return;
+    }
+
+    const stop = this.buildStop(this.cluster);
+    if (stop) {
+      stops.push(stop);
+      this.cluster = [point];
+      return;
+    }
+
+    // No stop starts at the anchor, retry from the point after it
+    const pending = [...this.cluster.slice(1), point];
+    this.cluster = [];
+    this.previous = anchor;
+    for (const next of pending) {
+      this.feed(next, stops);
+    }
+  }
+
+  private buildStop(points: ILocation[]): Stop | null {
+    if (points.length < 2) return null;
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    const duration = (timeOf(last) - timeOf(first)) / 1000;
+    if (duration < this.options.minStopDuration) return null;
+
+    return {
+      arrivalTime: new Date(first.timestamp),
+      departureTime: new Date(last.timestamp),
+      duration,
+      centroid: GeoUtils.centroid(points),
+      pointCount: points.length,
+    };
+  }
+}
+
+export class TripService {
+  // Get trips for a user within a date range
+  static async getTrips(
+    userId: string,
+    organizationId: string | undefined,
+    tripQuery: TripQuery
+  ): Promise<TrackingResponse> {
+    try {
+      const locations = await this.loadLocations(
+        userId,
+        organizationId,
+        tripQuery
+      );
+      const { trips } = this.segmentLocations(locations, tripQuery.options);
+
+      return {
+        success: true,
+        message: "Trips retrieved successfully",
+        data: {
+          trips,
+          summary: {
+            tripCount: trips.length,
+            totalDistance: trips.reduce((sum, trip) => sum + trip.distance, 0),
+            totalDuration: trips.reduce((sum, trip) => sum + trip.duration, 0),
+          },
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get trips"
+      );
+    }
+  }
+
+  // Get stops for a user within a date range
+  static async getStops(
+    userId: string,
+    organizationId: string | undefined,
+    tripQuery: TripQuery
+  ): Promise<TrackingResponse> {
+    try {
+      const locations = await this.loadLocations(
+        userId,
+        organizationId,
+        tripQuery
+      );
+      const { stops } = this.segmentLocations(locations, tripQuery.options);
+
+      return {
+        success: true,
+        message: "Stops retrieved successfully",
+        data: {
+          stops,
+          summary: {
+            stopCount: stops.length,
+            totalDuration: stops.reduce((sum, stop) => sum + stop.duration, 0),
+          },
+        },
+      };
+    } catch (error) {
+      throw new Error(
+        error instanceof Error ? error.message : "Failed to get stops"
+      );
+    }
+  }
+
+  // Split an ordered list of points into trips and stops
+  static segmentLocations(
+    locations: ILocation[],
+    overrides: Partial<SegmentationOptions> = {}
+  ): { trips: Trip[]; stops: Stop[] } {
+    const options = { ...DEFAULT_SEGMENTATION_OPTIONS, ...overrides };
+    const points = [...locations].sort((a, b) => timeOf(a) - timeOf(b));
+    const trips: Trip[] = [];
+    const stops: Stop[] = [];
+
+    if (points.length === 0) return { trips, stops };
+
+    const detector = new StopDetector(options);
+    for (const point of points) {
+      stops.push(...detector.push(point));
+    }
+    stops.push(...detector.flush());
+
+    // Mark the points that belong to a stop
+    const inStop = new Array<boolean>(points.length).fill(false);
+    let stopIndex = 0;
+    for (let k = 0; k < points.length && stopIndex < stops.length; k++) {
+      const time = timeOf(points[k]);
+      while (
+        stopIndex < stops.length &&
+        stops[stopIndex].departureTime.getTime() < time
+      ) {
+        stopIndex++;
+      }
+      if (
+        stopIndex < stops.length &&
+        stops[stopIndex].arrivalTime.getTime() <= time
+      ) {
+        inStop[k] = true;
+      }
+    }
+
+    // Everything between stops (or data gaps) is a trip. A trip starts at
+    // the last point of the previous stop and ends at the first point of
+    // the next one so the distance between them is not lost.
+    let tripPoints: ILocation[] = [];
+    const closeTrip = () => {
+      const trip = this.buildTrip(tripPoints);
+      if (trip) trips.push(trip);
+      tripPoints = [];
+    };
+
+    for (let k = 0; k < points.length; k++) {
+      const isGap =
+        k > 0 &&
+        timeOf(points[k]) - timeOf(points[k - 1]) > options.maxGap * 1000;
+      if (isGap) closeTrip();
+
+      if (inStop[k]) {
+        if (tripPoints.length > 0) {
+          tripPoints.push(points[k]);
+          closeTrip();
+        }
+        if (k + 1 < points.length && !inStop[k + 1]) {
+          tripPoints = [points[k]];
+        }
+      } else {
+        tripPoints.push(points[k]);
+      }
+    }
+    closeTrip();
+
+    return { trips, stops };
+  }
+
+  // Load a user's points for a date range in time order
+  static async loadLocations(
+    userId: string,
+    organizationId: string | undefined,
+    tripQuery: TripQuery
+  ): Promise<ILocation[]> {
+    const query: any = { userId };
+    if (organizationId) query.organizationId = organizationId;
+
+    const startDate = tripQuery.startDate ?? new Date();
+    if (!tripQuery.startDate) startDate.setHours(0, 0, 0, 0);
+    const endDate = tripQuery.endDate ?? new Date();
+
+    // History documents are keyed by the start of the day
+    const firstDay = new Date(startDate);
+    firstDay.setHours(0, 0, 0, 0);
+    query.date = { $gte: firstDay, $lte: endDate };
+
+    const history = await LocationHistory.find(query)
+      .select("locations date")
+      .sort({ date: 1 })
+      .lean();
+
+    return history
+      .flatMap((day) => day.locations)
+      .filter((location) => {
+        const time = new Date(location.timestamp).getTime();
+        return time >= startDate.getTime() && time <= endDate.getTime();
+      });
+  }
+
+  // Helper method to build a trip from consecutive points
+  private static buildTrip(points: ILocation[]): Trip | null {
+    if (points.length < 2) return null;
+
+    let distance = 0;
+    let maxSpeed = 0;
+    for (let k = 1; k < points.length; k++) {
+      distance += GeoUtils.distanceInMeters(points[k - 1], points[k]);
+      maxSpeed = Math.max(maxSpeed, speedBetween(points[k - 1], points[k]));
+    }
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    const duration = (timeOf(last) - timeOf(first)) / 1000;
+    if (duration <= 0) return null;
+
+    return {
+      startTime: new Date(first.timestamp),
+      endTime: new Date(last.timestamp),
+      duration,
+      distance: distance / 1000,
+      maxSpeed: maxSpeed * 3.6,
+      averageSpeed: (distance / duration) * 3.6,
+      startLocation: { latitude: first.latitude, longitude: first.longitude },
+      endLocation: { latitude: last.latitude, longitude: last.longitude },
+      pointCount: points.length,
+    };
+  }
+}
@@ -5,8 +5,7 @@ import { UserRole } from "../auth/auth.interface";
 export interface IUser extends Document {
   _id: mongoose.Types.ObjectId;
   name: string;
-  email: string;
-  password: string;
+  email: string; // login email, kept in sync with the identity
   role: UserRole;
   organizationId?: mongoose.Types.ObjectId;
   status: "active" | "inactive" | "suspended";
@@ -38,12 +37,6 @@ const userSchema = new Schema<IUser>(
         "Please provide a valid email address",
       ],
     },
-    password: {
-      type: String,
-      required: [true, "Password is required"],
-      minlength: [8, "Password must be at least 8 characters"],
-      select: false, // Don't include password in queries by default
-    },
     role: {
       type: String,
       enum: Object.values(UserRole),
@@ -74,7 +67,7 @@ const userSchema = new Schema<IUser>(
     toJSON: {
       virtuals: true,
       transform: function (doc, ret) {
-        const { password, __v, ...cleanRet } = ret;
+        const { __v, ...cleanRet } = ret;
         return cleanRet;
       },
     },
@@ -114,9 +107,7 @@ userSchema.pre("save", function (next) {
 
 // Static method to find user by email with organization populated
 userSchema.statics.findByEmailWithOrganization = function (email: string) {
-  return this.findOne({ email })
-    .populate("organizationId", "name companyName")
-    .select("+password");
+  return this.findOne({ email }).populate("organizationId", "name companyName");
 };
 
 // Static method to find users by organization
@@ -1,6 +1,16 @@
 import http from "http";
 import mongoose from "mongoose";
+import { Server } from "socket.io";
 import app from "./app";
+import { migrateRefreshTokens } from "./modules/auth/auth.model";
+import { migrateIdentities } from "./modules/identity/identity.model";
+import { DispatchService } from "./modules/orders/dispatch.service";
+import { AutoSosService } from "./modules/tracking/auto-sos.service";
+import { EmergencyEscalationService } from "./modules/tracking/emergency-escalation.service";
+import { PresenceService } from "./modules/tracking/presence.service";
+import { createRealtimeBackend } from "./modules/tracking/realtime.backend";
+import { RealtimeTrackingService } from "./modules/tracking/realtime-tracking.service";
+import { backfillGeoPoints } from "./modules/tracking/tracking.model";
 
 const PORT = process.env.PORT || 5000;
 const MONGO_URI = process.env.MONGO_URI || "mongodb://localhost:27017/geotrack";
@@ -9,23 +19,49 @@ const MONGO_URI = process.env.MONGO_URI || "mongodb://localhost:27017/geotrack";
 const server = http.createServer(app);
 
 // Socket.io setup
-// const io = new Server(server, {
-//   cors: {
-//     origin: "*", // in production, restrict this
-//     methods: ["GET", "POST"],
-//   },
-// });
+const io = new Server(server, {
+  cors: {
+    origin: process.env.SOCKET_CORS_ORIGIN?.split(",") ?? "*",
+    methods: ["GET", "POST"],
+  },
+});
+
+// Share rooms and presence with other nodes when scaled out
+const realtimeBackend = createRealtimeBackend();
+if (realtimeBackend.adapter) io.adapter(realtimeBackend.adapter);
 
 // Initialize real-time tracking service
-// RealtimeTrackingService.initialize(io);
+RealtimeTrackingService.initialize(
+  io,
+  realtimeBackend.presence,
+  realtimeBackend.eventLog
+);
+
+// Withdraw this node's presence on shutdown
+process.once("SIGTERM", () => {
+  realtimeBackend.close().finally(() => process.exit(0));
+});
 
 // Connect to MongoDB
 mongoose
   .connect(MONGO_URI)
-  .then(() => {
+  .then(async () => {
     console.log("✅ MongoDB Connected");
+    await backfillGeoPoints();
+    await migrateRefreshTokens();
+    await migrateIdentities();
+    await DispatchService.resumePendingDispatches();
+    await EmergencyEscalationService.resumePendingEscalations();
+    await AutoSosService.resumePendingCountdowns();
+    PresenceService.startMonitor();
+    AutoSosService.startMonitor();
     server.listen(PORT, () => {
       console.log(`🚀 Server running on http://localhost:${PORT}`);
     });
   })
-  .catch((err) => console.error("MongoDB Connection Error:", err));
+  .catch((err) => {
+    // Exit so the orchestrator restarts the service rather than leaving it
+    // running without listening
+    console.error("Startup Error:", err);
+    process.exit(1);
+  });